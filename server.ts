@@ -3,10 +3,22 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import app from './src/app';
+import { startChainIndexer } from './src/services/indexerService';
+import { startElectionScheduler } from './src/services/electionSchedulerService';
+import { startStaleVoterImportCheck } from './src/services/voterImportService';
 
 const PORT = process.env.PORT || 5000;
 
 app.listen(PORT, () => {
   console.log(`VoteX Backend server running on port ${PORT}`);
   console.log(`Access backend API at: http://localhost:${PORT}/api`);
+
+  const systemContractAddress = process.env.ELECTION_SYSTEM_CONTRACT_ADDRESS;
+  if (process.env.INDEXER_ENABLED !== 'false' && systemContractAddress) {
+    startChainIndexer(systemContractAddress);
+  }
+  if (process.env.SCHEDULER_ENABLED !== 'false') {
+    startElectionScheduler();
+  }
+  startStaleVoterImportCheck();
 });
\ No newline at end of file
@@ -3,21 +3,41 @@ import cors from 'cors';
 
 import adminRoutes from './routes/adminRoutes';
 import voterRoutes from './routes/voterRoutes';
+import { MEDIA_LOCAL_DIR, MEDIA_LOCAL_ROUTE, MEDIA_STORE } from './services/media';
+import { getJwks } from './services/authService';
 
 const app = express();
 
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:5173',
-  methods: ['GET', 'POST', 'PUT', 'DELETE'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
   allowedHeaders: ['Content-Type', 'Authorization'],
 }));
 
-app.use(express.json());
+// Images are uploaded as multipart/form-data (POST /api/admin/media), so JSON bodies stay small
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '100kb' }));
 
 app.get('/api', (req, res) => {
   res.status(200).json({ message: 'Welcome to the VoteX Backend API!' });
 });
 
+// Public keys for verifying the API's tokens; cached briefly so rotated keys are picked up
+app.get('/.well-known/jwks.json', (req, res) => {
+  res.set('Cache-Control', 'public, max-age=300');
+  res.status(200).json(getJwks());
+});
+
+// With the local media store, uploaded images are served by the API itself
+if (MEDIA_STORE === 'local') {
+  app.use(MEDIA_LOCAL_ROUTE, express.static(MEDIA_LOCAL_DIR, {
+    dotfiles: 'deny',
+    index: false,
+    immutable: true, // Keys are never reused
+    maxAge: '365d',
+    setHeaders: res => res.setHeader('X-Content-Type-Options', 'nosniff'),
+  }));
+}
+
 app.use('/api/admin', adminRoutes);
 app.use('/api/voters', voterRoutes);
 
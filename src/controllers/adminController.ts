@@ -1,18 +1,38 @@
 import { Request, Response } from 'express';
+import multer from 'multer';
 import * as mysqlService from '../services/mysqlService';
 import * as blockchainService from '../services/blockchainService';
-import * as cloudinaryService from '../services/cloudinaryService';
-import { Election, Post, Candidate, Voter, PartyMember } from '../types/index.d';
+import * as mediaService from '../services/mediaService';
+import * as voterImportService from '../services/voterImportService';
+import * as voterExportService from '../services/voterExportService';
+import * as voterProfileService from '../services/voterProfileService';
+import * as emailVerificationService from '../services/emailVerificationService';
+import * as walletBindingService from '../services/walletBindingService';
+import * as adminUserService from '../services/adminUserService';
+import * as twoFactorService from '../services/twoFactorService';
+import * as sessionService from '../services/sessionService';
+import * as auditService from '../services/auditService';
+import * as electionLifecycleService from '../services/electionLifecycleService';
+import * as tallyService from '../services/tallyService';
+import { checkVotingMethodSupported, validatePostVotingRules } from '../services/tally';
+import { TIE_POLICIES } from '../services/tieBreakService';
+import { validateNewVoter } from '../services/voterValidation';
+import { parseListQuery } from '../services/listQuery';
+import { ELECTION_SCOPED_ROLES, getRolePermissions, isAdminRole } from '../services/accessControl';
+import { Election, Post, Candidate, Party, PartyMember, MediaAsset, Voter } from '../types/index.d';
 import { ethers } from 'ethers'; // For address validation
 
 // --- Election Management ---
 export const createElection = async (req: Request, res: Response) => {
   try {
-    const { title, description, startDate, endDate } = req.body;
+    const { title, description, startDate, endDate, tiePolicy } = req.body;
 
     if (!title || !description || !startDate || !endDate) {
       return res.status(400).json({ error: 'Missing required election fields.' });
     }
+    if (tiePolicy && !TIE_POLICIES.includes(tiePolicy)) {
+      return res.status(400).json({ error: `Invalid tie policy. Must be one of: ${TIE_POLICIES.join(', ')}.` });
+    }
 
     const systemContractAddress = process.env.ELECTION_SYSTEM_CONTRACT_ADDRESS;
     if (!systemContractAddress) {
@@ -25,6 +45,7 @@ export const createElection = async (req: Request, res: Response) => {
       start_date: new Date(startDate),
       end_date: new Date(endDate),
       blockchain_contract_address: systemContractAddress,
+      tie_policy: tiePolicy || 'declare_tie',
     };
 
     const electionId = await mysqlService.createElection(newElectionData);
@@ -52,10 +73,14 @@ export const createElection = async (req: Request, res: Response) => {
 };
 export const getAllElections = async (req: Request, res: Response) => {
   try {
-    const elections = await mysqlService.getAllElections();
+    const parsed = parseListQuery(mysqlService.ELECTION_LIST, req.query);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const page = await mysqlService.listElections(parsed.query);
     res.status(200).json({
-      message: 'All elections retrieved.',
-      elections: elections,
+      message: 'Elections retrieved.',
+      ...page,
     });
   } catch (error) {
     console.error('Error getting all elections:', error);
@@ -66,33 +91,30 @@ export const getAllElections = async (req: Request, res: Response) => {
 export const updateElectionStatus = async (req: Request, res: Response) => {
   try {
     const { electionId } = req.params;
-    const { status, results, winningCandidateId } = req.body;
+    const { status, reason } = req.body;
 
     if (!status) {
       return res.status(400).json({ error: 'Status is required.' });
     }
-    if (!['pending', 'active', 'ended'].includes(status)) {
-      return res.status(400).json({ error: 'Invalid election status.' });
-    }
 
-    const election = await mysqlService.getElectionById(parseInt(electionId));
-    if (!election) {
-      return res.status(404).json({ error: 'Election not found.' });
-    }
-
-    const updates: Partial<Election> = { status };
-    if (status === 'ended') {
-      updates.results = JSON.stringify(results); // Store results as JSON string
-      updates.winning_candidate_id = winningCandidateId;
+    // Results and winners are only ever written by the lifecycle service from on-chain tallies
+    const transition = await electionLifecycleService.transitionElection(
+      parseInt(electionId),
+      status,
+      { type: 'admin', userId: req.user?.id },
+      reason
+    );
+    if (!transition.ok) {
+      return res.status(transition.status).json({ error: transition.error });
     }
 
-    const success = await mysqlService.updateElection(parseInt(electionId), updates);
-
-    if (success) {
-      res.status(200).json({ message: `Election ${electionId} status updated to ${status}.`, election: { ...election, ...updates } });
-    } else {
-      res.status(400).json({ error: 'Failed to update election status.' });
-    }
+    res.status(transition.pendingReason ? 202 : 200).json({
+      message: `Election ${electionId} status updated to ${transition.election.status}.`,
+      election: transition.election,
+      results: transition.results,
+      pendingReason: transition.pendingReason,
+      blockchainTxHash: transition.blockchainTxHash,
+    });
   } catch (error) {
     console.error('Error updating election status:', error);
     res.status(500).json({ error: `Failed to update election status: ${(error as Error).message}` });
@@ -102,29 +124,20 @@ export const updateElectionStatus = async (req: Request, res: Response) => {
 export const startElection = async (req: Request, res: Response) => {
   try {
     const { electionId } = req.params;
-    const id = parseInt(electionId);
-
-    const election = await mysqlService.getElectionById(id);
-    if (!election) {
-      return res.status(404).json({ error: 'Election not found.' });
-    }
-    if (election.status !== 'pending') {
-      return res.status(400).json({ error: `Election is already ${election.status}. Cannot start.` });
-    }
+    const { reason } = req.body || {};
 
-    const systemContractAddress = process.env.ELECTION_SYSTEM_CONTRACT_ADDRESS;
-    if (!systemContractAddress) {
-      throw new Error('ELECTION_SYSTEM_CONTRACT_ADDRESS is not set in environment variables.');
+    const transition = await electionLifecycleService.startElection(
+      parseInt(electionId),
+      { type: 'admin', userId: req.user?.id },
+      reason
+    );
+    if (!transition.ok) {
+      return res.status(transition.status).json({ error: transition.error });
     }
 
-    // Call smart contract to officially open voting
-    const txHash = await blockchainService.startElectionOnChain(systemContractAddress, id);
-
-    await mysqlService.updateElection(id, { status: 'active' });
-
     res.status(200).json({
-      message: `Election ${electionId} has been started. Voting is now active.`,
-      blockchainTxHash: txHash,
+      message: `Election ${electionId} is now active. Voting is open.`,
+      blockchainTxHash: transition.blockchainTxHash,
     });
   } catch (error) {
     console.error('Error starting election:', error);
@@ -135,67 +148,78 @@ export const startElection = async (req: Request, res: Response) => {
 export const endElection = async (req: Request, res: Response) => {
   try {
     const { electionId } = req.params;
-    const id = parseInt(electionId);
+    const { reason } = req.body || {};
 
-    const election = await mysqlService.getElectionById(id);
-    if (!election) {
-      return res.status(404).json({ error: 'Election not found.' });
-    }
-    if (election.status !== 'active') {
-      return res.status(400).json({ error: `Election is not active. Current status: ${election.status}.` });
+    const transition = await electionLifecycleService.endElection(
+      parseInt(electionId),
+      { type: 'admin', userId: req.user?.id },
+      reason
+    );
+    if (!transition.ok) {
+      return res.status(transition.status).json({ error: transition.error });
     }
 
-    const systemContractAddress = process.env.ELECTION_SYSTEM_CONTRACT_ADDRESS;
-    if (!systemContractAddress) {
-      throw new Error('ELECTION_SYSTEM_CONTRACT_ADDRESS is not set in environment variables.');
+    // Voting is closed either way; results can still be waiting for the block lots are drawn from
+    if (transition.pendingReason) {
+      return res.status(202).json({
+        message: `Voting in election ${electionId} has closed. ${transition.pendingReason}`,
+        status: transition.election.status,
+        blockchainTxHash: transition.blockchainTxHash,
+      });
     }
 
-    // Call smart contract function to close voting and trigger tallying.
-    const txHash = await blockchainService.endElectionOnChain(systemContractAddress, id);
-
-    // Fetch final results from smart contract
-    const candidates = await mysqlService.getCandidatesByElectionId(id);
-    const blockchainCandidateIds = candidates.map(c => c.blockchain_candidate_id!).filter(Boolean) as string[];
-
-    const finalBlockchainResults = await blockchainService.getFinalResultsFromChain(
-      systemContractAddress,
-      id,
-      blockchainCandidateIds
-    );
-
-    // Determine winner (simple example)
-    let winningCandidateId: number | undefined;
-    let maxVotes = -1;
-    let winnerBlockchainId: string | undefined;
+    res.status(200).json({
+      message: `Election ${electionId} has ended and results finalized.`,
+      results: transition.results,
+      tallies: transition.tallies,
+      blockchainTxHash: transition.blockchainTxHash,
+    });
+  } catch (error) {
+    console.error('Error ending election:', error);
+    res.status(500).json({ error: `Failed to end election: ${(error as Error).message}` });
+  }
+};
 
-    for (const bcId of blockchainCandidateIds) {
-        if (finalBlockchainResults[bcId] > maxVotes) {
-            maxVotes = finalBlockchainResults[bcId];
-            winnerBlockchainId = bcId;
-        }
+export const getElectionTally = async (req: Request, res: Response) => {
+  try {
+    const { electionId } = req.params;
+    const election = await mysqlService.getElectionById(parseInt(electionId));
+    if (!election) {
+      return res.status(404).json({ error: 'Election not found.' });
     }
-
-    if (winnerBlockchainId) {
-        const winnerCandidate = candidates.find(c => c.blockchain_candidate_id === winnerBlockchainId);
-        if (winnerCandidate) {
-            winningCandidateId = winnerCandidate.id;
-        }
+    if (!election.blockchain_contract_address) {
+      return res.status(400).json({ error: 'Election has no deployed smart contract address for tallying.' });
     }
 
-    await mysqlService.updateElection(id, {
-      status: 'ended',
-      results: JSON.stringify(finalBlockchainResults),
-      winning_candidate_id: winningCandidateId,
+    // Finalised elections serve the stored count; otherwise count the votes cast so far
+    const isFinal = election.status === 'ended' || election.status === 'certified';
+    const tallies = isFinal
+      ? await tallyService.getSavedElectionTally(election.id!)
+      : await tallyService.tallyElection(election, await tallyService.loadElectionBallots(election));
+
+    res.status(200).json({
+      message: `${isFinal ? 'Final' : 'Provisional'} tally for election ${electionId} retrieved.`,
+      isFinal,
+      tallies,
+      tieResolutions: isFinal ? await mysqlService.getTieResolutionsByElectionId(election.id!) : [],
     });
+  } catch (error) {
+    console.error('Error tallying election:', error);
+    res.status(500).json({ error: `Failed to tally election: ${(error as Error).message}` });
+  }
+};
 
+export const getElectionStatusHistory = async (req: Request, res: Response) => {
+  try {
+    const { electionId } = req.params;
+    const history = await mysqlService.getElectionStatusHistory(parseInt(electionId));
     res.status(200).json({
-      message: `Election ${electionId} has ended and results finalized.`,
-      results: finalBlockchainResults,
-      blockchainTxHash: txHash,
+      message: `Status history for election ${electionId} retrieved.`,
+      history: history,
     });
   } catch (error) {
-    console.error('Error ending election:', error);
-    res.status(500).json({ error: `Failed to end election: ${(error as Error).message}` });
+    console.error('Error getting election status history:', error);
+    res.status(500).json({ error: `Failed to retrieve status history: ${(error as Error).message}` });
   }
 };
 
@@ -212,13 +236,10 @@ export const auditElection = async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Election has no deployed smart contract address for auditing.' });
     }
 
-    const auditReport = await blockchainService.performAudit(
-      election.blockchain_contract_address,
-      id // Pass election ID to audit function
-    );
+    const auditReport = await auditService.buildElectionAuditReport(election);
 
     res.status(200).json({
-      message: `Audit report for election ${electionId} generated from blockchain data.`,
+      message: `Audit report for election ${electionId} reconciled against blockchain data.`,
       report: auditReport,
       electionMetadata: election,
     });
@@ -249,13 +270,22 @@ export const getElectionDetails = async (req: Request, res: Response) => {
 export const createPost = async (req: Request, res: Response) => {
   try {
     const { electionId } = req.params;
-    const { name, maxVotesPerVoter } = req.body;
+    const { name, maxVotesPerVoter, votingMethod, seats } = req.body;
     const election_id = parseInt(electionId);
 
     if (!name || !election_id) {
       return res.status(400).json({ error: 'Post name and election ID are required.' });
     }
 
+    const max_votes_per_voter = maxVotesPerVoter || 1;
+    const voting_method = votingMethod || 'plurality';
+    const postSeats = seats || 1;
+    const invalidRules = validatePostVotingRules(voting_method, postSeats, max_votes_per_voter)
+      || checkVotingMethodSupported(voting_method, blockchainService.getChainAdapterKind());
+    if (invalidRules) {
+      return res.status(400).json({ error: invalidRules });
+    }
+
     const election = await mysqlService.getElectionById(election_id);
     if (!election) {
       return res.status(404).json({ error: 'Election not found.' });
@@ -263,11 +293,16 @@ export const createPost = async (req: Request, res: Response) => {
     if (!election.blockchain_contract_address) {
       return res.status(400).json({ error: 'Election has no deployed smart contract address.' });
     }
+    if (election.status !== 'draft') {
+      return res.status(400).json({ error: `Posts can only be added while the election is in draft. Current status: ${election.status}.` });
+    }
 
     const newPost: Omit<Post, 'id' | 'created_at' | 'updated_at'> = {
       election_id,
       name,
-      max_votes_per_voter: maxVotesPerVoter || 1,
+      max_votes_per_voter,
+      voting_method,
+      seats: postSeats,
     };
 
     // First, create in MySQL
@@ -280,7 +315,7 @@ export const createPost = async (req: Request, res: Response) => {
       election_id,
       postId,
       name,
-      maxVotesPerVoter || 1
+      max_votes_per_voter
     );
 
     res.status(201).json({
@@ -297,10 +332,14 @@ export const createPost = async (req: Request, res: Response) => {
 export const getElectionPosts = async (req: Request, res: Response) => {
   try {
     const { electionId } = req.params;
-    const posts = await mysqlService.getPostsByElectionId(parseInt(electionId));
+    const parsed = parseListQuery(mysqlService.POST_LIST, req.query);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const page = await mysqlService.listElectionPosts(parsed.query, parseInt(electionId));
     res.status(200).json({
       message: `Posts for election ${electionId} retrieved.`,
-      posts: posts,
+      ...page,
     });
   } catch (error) {
     console.error('Error getting election posts:', error);
@@ -327,6 +366,9 @@ export const addCandidateToPost = async (req: Request, res: Response) => {
     if (!election || !election.blockchain_contract_address) {
       return res.status(400).json({ error: 'Associated election not found or has no deployed smart contract.' });
     }
+    if (election.status !== 'draft') {
+      return res.status(400).json({ error: `Candidates can only be added while the election is in draft. Current status: ${election.status}.` });
+    }
 
     const partyMember = await mysqlService.getPartyMemberById(partyMemberId);
     if (!partyMember) {
@@ -368,28 +410,19 @@ export const addCandidateToPost = async (req: Request, res: Response) => {
 export const getPostCandidates = async (req: Request, res: Response) => {
   try {
     const { postId } = req.params;
-    const candidates = await mysqlService.getCandidatesByPostId(parseInt(postId));
-
-    const detailedCandidates = await Promise.all(candidates.map(async (candidate) => {
-      const partyMember = await mysqlService.getPartyMemberById(candidate.party_member_id);
-      let partyName = 'N/A';
-      if (partyMember && partyMember.party_id) {
-        const party = await mysqlService.getPartyById(partyMember.party_id);
-        partyName = party ? party.name : 'N/A';
-      }
-
-      return {
-        ...candidate,
-        party_member_name: partyMember?.name,
-        party_member_email: partyMember?.email,
-        image_url: partyMember?.image_url,
-        party_name: partyName,
-      };
-    }));
-
+    const parsed = parseListQuery(mysqlService.CANDIDATE_LIST, req.query);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const page = await mysqlService.listPostCandidates(parsed.query, parseInt(postId));
     res.status(200).json({
       message: `Candidates for post ${postId} retrieved.`,
-      candidates: detailedCandidates,
+      data: page.data.map(({ party_member_image_url, party_member_image_public_id, ...candidate }) => ({
+        ...candidate,
+        image_url: mediaService.resolveMediaUrl(party_member_image_public_id, party_member_image_url),
+        party_name: candidate.party_name ?? 'N/A',
+      })),
+      pagination: page.pagination,
     });
   } catch (error) {
     console.error('Error getting post candidates:', error);
@@ -398,40 +431,258 @@ export const getPostCandidates = async (req: Request, res: Response) => {
 };
 
 
+// --- Access Control ---
+export const getMyAccess = async (req: Request, res: Response) => {
+  try {
+    const role = req.user!.role;
+    const [user, assignments] = await Promise.all([
+      mysqlService.findUserById(req.user!.id!),
+      mysqlService.getUserElectionRoleAssignments(req.user!.id!),
+    ]);
+    res.status(200).json({
+      message: 'Access retrieved.',
+      user: { id: req.user!.id, email: req.user!.email, role },
+      permissions: isAdminRole(role) ? getRolePermissions(role) : [],
+      twoFactor: {
+        enabled: twoFactorService.isTwoFactorEnabled(user!),
+        required: twoFactorService.isTwoFactorRequired(role),
+        recoveryCodesLeft: twoFactorService.isTwoFactorEnabled(user!) ? await mysqlService.countUnusedRecoveryCodes(user!.id!) : null,
+      },
+      electionRoles: assignments.map(assignment => ({
+        electionId: assignment.election_id,
+        role: assignment.role,
+        permissions: getRolePermissions(assignment.role),
+      })),
+    });
+  } catch (error) {
+    console.error('Error getting access:', error);
+    res.status(500).json({ error: `Failed to retrieve access: ${(error as Error).message}` });
+  }
+};
+
+export const getElectionRoleAssignments = async (req: Request, res: Response) => {
+  try {
+    const electionId = parseInt(req.params.electionId);
+    if (!(await mysqlService.getElectionById(electionId))) {
+      return res.status(404).json({ error: 'Election not found.' });
+    }
+    const assignments = await mysqlService.getElectionRoleAssignments(electionId);
+    res.status(200).json({ message: `Role assignments for election ${electionId} retrieved.`, assignments });
+  } catch (error) {
+    console.error('Error getting election role assignments:', error);
+    res.status(500).json({ error: `Failed to retrieve role assignments: ${(error as Error).message}` });
+  }
+};
+
+export const assignElectionRole = async (req: Request, res: Response) => {
+  try {
+    const electionId = parseInt(req.params.electionId);
+    const { userId, role } = req.body;
+    if (!ELECTION_SCOPED_ROLES.includes(role)) {
+      return res.status(400).json({ error: `Invalid role. Must be one of: ${ELECTION_SCOPED_ROLES.join(', ')}.` });
+    }
+    if (!(await mysqlService.getElectionById(electionId))) {
+      return res.status(404).json({ error: 'Election not found.' });
+    }
+    const user = Number.isInteger(userId) ? await mysqlService.findUserById(userId) : null;
+    if (!user || !isAdminRole(user.role)) {
+      return res.status(404).json({ error: 'Admin user not found.' });
+    }
+
+    const assignmentId = await mysqlService.createElectionRoleAssignment({
+      user_id: user.id!,
+      election_id: electionId,
+      role,
+      assigned_by_user_id: req.user?.id ?? null,
+    });
+    res.status(201).json({
+      message: `${user.email} is now ${role} for election ${electionId}.`,
+      assignment: { id: assignmentId, user_id: user.id, election_id: electionId, role },
+    });
+  } catch (error) {
+    if (mysqlService.isDuplicateEntryError(error)) {
+      return res.status(409).json({ error: 'The user already has this role for the election.' });
+    }
+    console.error('Error assigning election role:', error);
+    res.status(500).json({ error: `Failed to assign role: ${(error as Error).message}` });
+  }
+};
+
+export const removeElectionRoleAssignment = async (req: Request, res: Response) => {
+  try {
+    const removed = await mysqlService.deleteElectionRoleAssignment(parseInt(req.params.electionId), parseInt(req.params.assignmentId));
+    if (!removed) {
+      return res.status(404).json({ error: 'Role assignment not found.' });
+    }
+    res.status(200).json({ message: 'Role assignment removed.' });
+  } catch (error) {
+    console.error('Error removing election role assignment:', error);
+    res.status(500).json({ error: `Failed to remove role assignment: ${(error as Error).message}` });
+  }
+};
+
+// --- Admin User Management ---
+export const getUsers = async (req: Request, res: Response) => {
+  try {
+    const parsed = parseListQuery(mysqlService.USER_LIST, req.query);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const page = await mysqlService.listUsers(parsed.query);
+    res.status(200).json({
+      message: 'Users retrieved.',
+      ...page,
+    });
+  } catch (error) {
+    console.error('Error getting users:', error);
+    res.status(500).json({ error: `Failed to retrieve users: ${(error as Error).message}` });
+  }
+};
+
+export const getUser = async (req: Request, res: Response) => {
+  try {
+    const user = await mysqlService.findUserById(parseInt(req.params.userId));
+    if (!user) {
+      return res.status(404).json({ error: 'User not found.' });
+    }
+    const assignments = await mysqlService.getUserElectionRoleAssignments(user.id!);
+    res.status(200).json({ message: 'User retrieved.', user: adminUserService.toPublicUser(user), electionRoles: assignments });
+  } catch (error) {
+    console.error('Error getting user:', error);
+    res.status(500).json({ error: `Failed to retrieve user: ${(error as Error).message}` });
+  }
+};
+
+export const inviteUser = async (req: Request, res: Response) => {
+  try {
+    const { email, role } = req.body;
+    const result = await adminUserService.inviteAdminUser(email, role, req.user?.id ?? null);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+    res.status(201).json({ message: `Invite sent to ${result.user.email}.`, user: result.user, inviteExpiresAt: result.expiresAt });
+  } catch (error) {
+    console.error('Error inviting user:', error);
+    res.status(500).json({ error: `Failed to invite user: ${(error as Error).message}` });
+  }
+};
+
+export const updateUserRole = async (req: Request, res: Response) => {
+  try {
+    const result = await adminUserService.setUserRole(parseInt(req.params.userId), req.body.role);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+    res.status(200).json({ message: `${result.user.email} is now ${result.user.role}.`, user: result.user });
+  } catch (error) {
+    console.error('Error updating user role:', error);
+    res.status(500).json({ error: `Failed to update user role: ${(error as Error).message}` });
+  }
+};
+
+const setUserStatus = (action: adminUserService.UserStatusAction) => async (req: Request, res: Response) => {
+  try {
+    const result = await adminUserService.setUserStatus(parseInt(req.params.userId), action, req.user?.id ?? null);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+    res.status(200).json({ message: `${result.user.email} is now ${result.user.status}.`, user: result.user });
+  } catch (error) {
+    console.error(`Error changing user status (${action}):`, error);
+    res.status(500).json({ error: `Failed to ${action} user: ${(error as Error).message}` });
+  }
+};
+
+export const disableUser = setUserStatus('disable');
+export const enableUser = setUserStatus('enable');
+
+// For users who lost their authenticator and recovery codes; they set it up again at their next login if their role requires it
+export const resetUserTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    if (userId === req.user?.id) {
+      return res.status(409).json({ error: 'Use POST /api/admin/2fa/disable to turn off your own two-factor authentication.' });
+    }
+    const user = await mysqlService.findUserById(userId);
+    if (!user || !isAdminRole(user.role)) {
+      return res.status(404).json({ error: 'Admin user not found.' });
+    }
+    await twoFactorService.disableTwoFactor(userId);
+    res.status(200).json({ message: `Two-factor authentication reset for ${user.email}.` });
+  } catch (error) {
+    console.error('Error resetting two-factor authentication:', error);
+    res.status(500).json({ error: `Failed to reset two-factor authentication: ${(error as Error).message}` });
+  }
+};
+
+// Signs the user out everywhere, e.g. after a lost device; unlike disabling, they can log in again
+export const revokeUserSessions = async (req: Request, res: Response) => {
+  try {
+    const user = await mysqlService.findUserById(parseInt(req.params.userId));
+    if (!user || !isAdminRole(user.role)) {
+      return res.status(404).json({ error: 'Admin user not found.' });
+    }
+    const sessionsEnded = await sessionService.revokeAllSessions({ userId: user.id! }, 'revoked_by_admin');
+    res.status(200).json({ message: `Sessions of ${user.email} ended.`, sessionsEnded });
+  } catch (error) {
+    console.error('Error revoking admin user sessions:', error);
+    res.status(500).json({ error: `Failed to revoke sessions: ${(error as Error).message}` });
+  }
+};
+
 // --- Voter Management (Admin Side) ---
+
+/**
+ * Emails a voter their verification link and code. Failures are logged rather than thrown, since the
+ * voter change they follow has already been saved and the email can be resent.
+ */
+const sendVerificationEmail = async (voter: Voter) => {
+  try {
+    const result = await emailVerificationService.sendEmailVerification(voter);
+    if (!result.ok) console.warn(`Verification email not sent to voter ${voter.id}: ${result.error}`);
+    return result;
+  } catch (error) {
+    console.error(`Failed to send verification email to voter ${voter.id}:`, error);
+    return null;
+  }
+};
+
+const receiveVoterRoll = (req: Request, res: Response): Promise<void> =>
+  new Promise((resolve, reject) =>
+    multer({
+      storage: multer.memoryStorage(),
+      limits: { fileSize: voterImportService.VOTER_IMPORT_MAX_BYTES, files: 1 },
+    }).single('file')(req, res, error => (error ? reject(error) : resolve()))
+  );
+
 export const registerVoterByAdmin = async (req: Request, res: Response) => {
   try {
     const { email, name, age, gender, nationalIdNumber } = req.body;
 
-    if (!email || !name || !age || !gender) {
-      return res.status(400).json({ error: 'Missing required voter fields (email, name, age, gender).' });
-    }
-    if (!['Male', 'Female', 'Other'].includes(gender)) {
-      return res.status(400).json({ error: 'Invalid gender. Must be Male, Female, or Other.' });
-    }
-    if (typeof age !== 'number' || age < 18) {
-      return res.status(400).json({ error: 'Age must be a number and 18 or older.' });
+    const { voter: newVoter, errors } = validateNewVoter({ email, name, age, gender, nationalIdNumber });
+    if (!newVoter) {
+      return res.status(400).json({ error: errors[0].message, errors });
     }
 
-    const existingVoter = await mysqlService.getVoterByEmail(email);
-    if (existingVoter) {
+    const registered = await mysqlService.findRegisteredVoterIdentifiers(
+      [newVoter.email],
+      newVoter.national_id_number ? [newVoter.national_id_number] : []
+    );
+    if (registered.emails.size > 0) {
       return res.status(409).json({ error: 'Voter with this email already registered.' });
     }
+    if (registered.nationalIdNumbers.size > 0) {
+      return res.status(409).json({ error: 'Voter with this national ID number already registered.' });
+    }
 
-    const newVoter: Omit<Voter, 'id' | 'created_at' | 'updated_at' | 'registration_status' | 'is_eligible_on_chain' | 'wallet_address' | 'auth_nonce'> = {
-      email,
-      name,
-      age,
-      gender,
-      national_id_number: nationalIdNumber || null,
-    };
-
-    const voterId = await mysqlService.createVoter(newVoter);
-    const createdVoter = await mysqlService.getVoterByEmail(email);
+    await mysqlService.createVoter(newVoter);
+    const createdVoter = await mysqlService.getVoterByEmail(newVoter.email);
+    const verificationEmail = createdVoter && await sendVerificationEmail(createdVoter);
 
     res.status(201).json({
-      message: 'Voter registered by admin successfully. Voter will need to link their wallet during first login.',
+      message: 'Voter registered by admin successfully. Voter will need to verify their email and link their wallet during first login.',
       voter: createdVoter,
+      verificationEmailSent: Boolean(verificationEmail?.ok),
     });
   } catch (error) {
     console.error('Error registering voter by admin:', error);
@@ -439,12 +690,120 @@ export const registerVoterByAdmin = async (req: Request, res: Response) => {
   }
 };
 
+export const importVoters = async (req: Request, res: Response) => {
+  try {
+    let csvText: string;
+    let fileName: string | undefined;
+    if (req.is('multipart/form-data')) {
+      try {
+        await receiveVoterRoll(req, res);
+      } catch (error) {
+        if (error instanceof multer.MulterError) {
+          const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+          return res.status(status).json({ error: error.message, code: error.code });
+        }
+        throw error;
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: 'No CSV file provided in the "file" field.' });
+      }
+      csvText = req.file.buffer.toString('utf8');
+      fileName = req.file.originalname;
+    } else if (typeof req.body === 'string') {
+      csvText = req.body;
+    } else {
+      return res.status(415).json({ error: 'Upload the voter roll as text/csv or as multipart/form-data with a "file" field.' });
+    }
+
+    const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === 'true';
+    const result = await voterImportService.startVoterImport(csvText, { dryRun, fileName, createdBy: req.user?.id });
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    const { job } = result;
+    if (dryRun) {
+      return res.status(200).json({
+        message: `Dry run: ${job.valid_rows} of ${job.total_rows} voters would be registered.`,
+        job,
+      });
+    }
+    res.status(202).json({
+      message: `Importing ${job.valid_rows} of ${job.total_rows} voters. Poll GET /api/admin/voters/import/${job.id} for progress.`,
+      job,
+    });
+  } catch (error) {
+    console.error('Error importing voters:', error);
+    res.status(500).json({ error: `Failed to import voters: ${(error as Error).message}` });
+  }
+};
+
+export const getVoterImportJob = async (req: Request, res: Response) => {
+  try {
+    const job = await mysqlService.getVoterImportJobById(parseInt(req.params.jobId));
+    if (!job) {
+      return res.status(404).json({ error: 'Import job not found.' });
+    }
+    res.status(200).json({
+      message: `Import job ${job.id} is ${job.status}.`,
+      job: { ...job, errors: typeof job.errors === 'string' ? JSON.parse(job.errors) : job.errors },
+    });
+  } catch (error) {
+    console.error('Error getting voter import job:', error);
+    res.status(500).json({ error: `Failed to retrieve import job: ${(error as Error).message}` });
+  }
+};
+
+export const getVoterImportErrors = async (req: Request, res: Response) => {
+  try {
+    const job = await mysqlService.getVoterImportJobById(parseInt(req.params.jobId));
+    if (!job) {
+      return res.status(404).json({ error: 'Import job not found.' });
+    }
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="voter-import-${job.id}-errors.csv"`);
+    res.status(200).send(voterImportService.formatImportErrorsCsv(job));
+  } catch (error) {
+    console.error('Error getting voter import errors:', error);
+    res.status(500).json({ error: `Failed to retrieve import errors: ${(error as Error).message}` });
+  }
+};
+
+export const exportVoters = async (req: Request, res: Response) => {
+  const parsed = voterExportService.parseVoterExportQuery(req.query as Record<string, unknown>);
+  if (!parsed.ok) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const { options } = parsed;
+
+  const extension = options.format === 'ndjson' ? 'ndjson' : options.format;
+  res.setHeader('Content-Type', voterExportService.VOTER_EXPORT_CONTENT_TYPES[options.format]);
+  res.setHeader('Content-Disposition', `attachment; filename="voter-roll-${new Date().toISOString().slice(0, 10)}.${extension}"`);
+  res.setHeader('Cache-Control', 'no-store');
+  try {
+    const count = await voterExportService.streamVoterExport(res, options);
+    console.log(`Exported ${count} voters as ${options.format} for admin ${req.user?.email}.`);
+  } catch (error) {
+    console.error('Error exporting voters:', error);
+    // Part of the file may already have been sent, so the response can only be aborted
+    if (!res.headersSent) {
+      res.status(500).json({ error: `Failed to export voters: ${(error as Error).message}` });
+    } else {
+      res.destroy(error as Error);
+    }
+  }
+};
+
 export const getAllVoters = async (req: Request, res: Response) => {
   try {
-    const voters = await mysqlService.getAllVoters();
+    const parsed = parseListQuery(mysqlService.VOTER_LIST, req.query);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const page = await mysqlService.listVoters(parsed.query);
     res.status(200).json({
-      message: 'All registered voters retrieved.',
-      voters: voters,
+      message: 'Registered voters retrieved.',
+      ...page,
     });
   } catch (error) {
     console.error('Error getting all voters:', error);
@@ -452,6 +811,242 @@ export const getAllVoters = async (req: Request, res: Response) => {
   }
 };
 
+export const getVoter = async (req: Request, res: Response) => {
+  try {
+    const voter = await mysqlService.getVoterById(parseInt(req.params.voterId));
+    if (!voter) {
+      return res.status(404).json({ error: 'Voter not found.' });
+    }
+    res.status(200).json({ message: 'Voter retrieved.', voter: voter });
+  } catch (error) {
+    console.error('Error getting voter:', error);
+    res.status(500).json({ error: `Failed to retrieve voter: ${(error as Error).message}` });
+  }
+};
+
+export const updateVoter = async (req: Request, res: Response) => {
+  try {
+    const { email, name, age, gender, nationalIdNumber, reason } = req.body;
+    const result = await voterProfileService.updateVoterProfile(
+      parseInt(req.params.voterId),
+      { email, name, age, gender, nationalIdNumber },
+      { userId: req.user?.id, reason }
+    );
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+
+    // A changed address has to be verified again before the voter can link a wallet
+    const emailChanged = typeof result.change?.changes === 'object' && 'email' in result.change.changes;
+    const verificationEmail = emailChanged && result.voter.registration_status === 'pending_email_verification'
+      ? await sendVerificationEmail(result.voter)
+      : null;
+
+    res.status(200).json({
+      message: result.change ? 'Voter updated successfully.' : 'No changes to the voter.',
+      voter: result.voter,
+      change: result.change,
+      verificationEmailSent: Boolean(verificationEmail?.ok),
+    });
+  } catch (error) {
+    console.error('Error updating voter:', error);
+    res.status(500).json({ error: `Failed to update voter: ${(error as Error).message}` });
+  }
+};
+
+export const resendVoterVerification = async (req: Request, res: Response) => {
+  try {
+    const voter = await mysqlService.getVoterById(parseInt(req.params.voterId));
+    if (!voter) {
+      return res.status(404).json({ error: 'Voter not found.' });
+    }
+    const result = await emailVerificationService.sendEmailVerification(voter);
+    if (!result.ok) {
+      if (result.retryAfterSeconds) res.setHeader('Retry-After', String(result.retryAfterSeconds));
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+    res.status(200).json({ message: `Verification email sent to ${voter.email}.`, expiresAt: result.expiresAt });
+  } catch (error) {
+    console.error('Error sending verification email:', error);
+    res.status(500).json({ error: `Failed to send verification email: ${(error as Error).message}` });
+  }
+};
+
+const setVoterAccountStatus = (action: voterProfileService.VoterStatusAction) => async (req: Request, res: Response) => {
+  try {
+    const systemContractAddress = process.env.ELECTION_SYSTEM_CONTRACT_ADDRESS;
+    if (!systemContractAddress) {
+      throw new Error('ELECTION_SYSTEM_CONTRACT_ADDRESS is not set in environment variables.');
+    }
+    const result = await voterProfileService.setVoterAccountStatus(
+      parseInt(req.params.voterId),
+      action,
+      systemContractAddress,
+      { userId: req.user?.id, reason: req.body?.reason }
+    );
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+
+    res.status(200).json({
+      message: `Voter is now ${result.voter.account_status}.`,
+      voter: result.voter,
+      change: result.change,
+    });
+  } catch (error) {
+    console.error(`Error changing voter status (${action}):`, error);
+    res.status(500).json({ error: `Failed to ${action} voter: ${(error as Error).message}` });
+  }
+};
+
+export const suspendVoter = setVoterAccountStatus('suspend');
+export const deactivateVoter = setVoterAccountStatus('deactivate');
+export const reactivateVoter = setVoterAccountStatus('reactivate');
+
+export const revokeVoterSessions = async (req: Request, res: Response) => {
+  try {
+    const voter = await mysqlService.getVoterById(parseInt(req.params.voterId));
+    if (!voter) {
+      return res.status(404).json({ error: 'Voter not found.' });
+    }
+    const sessionsEnded = await sessionService.revokeAllSessions({ voterId: voter.id! }, 'revoked_by_admin');
+    res.status(200).json({ message: 'Voter\'s sessions ended.', sessionsEnded });
+  } catch (error) {
+    console.error('Error revoking voter sessions:', error);
+    res.status(500).json({ error: `Failed to revoke sessions: ${(error as Error).message}` });
+  }
+};
+
+export const eraseVoter = async (req: Request, res: Response) => {
+  try {
+    const systemContractAddress = process.env.ELECTION_SYSTEM_CONTRACT_ADDRESS;
+    if (!systemContractAddress) {
+      throw new Error('ELECTION_SYSTEM_CONTRACT_ADDRESS is not set in environment variables.');
+    }
+    const result = await voterProfileService.eraseVoter(
+      parseInt(req.params.voterId),
+      systemContractAddress,
+      { userId: req.user?.id, reason: req.body?.reason }
+    );
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+
+    res.status(200).json({
+      message: 'Voter\'s personal data erased. Their vote logs and receipts are kept.',
+      voter: result.voter,
+      change: result.change,
+    });
+  } catch (error) {
+    console.error('Error erasing voter:', error);
+    res.status(500).json({ error: `Failed to erase voter: ${(error as Error).message}` });
+  }
+};
+
+export const getVoterChanges = async (req: Request, res: Response) => {
+  try {
+    const voterId = parseInt(req.params.voterId);
+    const parsed = parseListQuery(mysqlService.VOTER_CHANGE_LIST, req.query);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    if (!(await mysqlService.getVoterById(voterId))) {
+      return res.status(404).json({ error: 'Voter not found.' });
+    }
+    const page = await mysqlService.listVoterChanges(parsed.query, voterId);
+    res.status(200).json({
+      message: `Changes to voter ${voterId} retrieved.`,
+      ...page,
+    });
+  } catch (error) {
+    console.error('Error getting voter changes:', error);
+    res.status(500).json({ error: `Failed to retrieve voter changes: ${(error as Error).message}` });
+  }
+};
+
+export const getVoterWalletHistory = async (req: Request, res: Response) => {
+  try {
+    const voterId = parseInt(req.params.voterId);
+    const voter = await mysqlService.getVoterById(voterId);
+    if (!voter) {
+      return res.status(404).json({ error: 'Voter not found.' });
+    }
+    const history = await mysqlService.getVoterWalletHistory(voterId);
+    res.status(200).json({
+      message: `Wallet history of voter ${voterId} retrieved.`,
+      currentWalletAddress: voter.wallet_address || null,
+      history,
+    });
+  } catch (error) {
+    console.error('Error getting voter wallet history:', error);
+    res.status(500).json({ error: `Failed to retrieve wallet history: ${(error as Error).message}` });
+  }
+};
+
+// --- Wallet Change Requests ---
+export const getWalletChangeRequests = async (req: Request, res: Response) => {
+  try {
+    const parsed = parseListQuery(mysqlService.WALLET_CHANGE_REQUEST_LIST, req.query);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const page = await mysqlService.listWalletChangeRequests(parsed.query);
+    res.status(200).json({
+      message: 'Wallet change requests retrieved.',
+      ...page,
+    });
+  } catch (error) {
+    console.error('Error getting wallet change requests:', error);
+    res.status(500).json({ error: `Failed to retrieve wallet change requests: ${(error as Error).message}` });
+  }
+};
+
+export const approveWalletChangeRequest = async (req: Request, res: Response) => {
+  try {
+    const systemContractAddress = process.env.ELECTION_SYSTEM_CONTRACT_ADDRESS;
+    if (!systemContractAddress) {
+      throw new Error('ELECTION_SYSTEM_CONTRACT_ADDRESS is not set in environment variables.');
+    }
+    const result = await walletBindingService.approveWalletChange(
+      parseInt(req.params.requestId),
+      systemContractAddress,
+      { userId: req.user?.id, reason: req.body?.reason }
+    );
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+
+    res.status(200).json({
+      message: 'Wallet change approved. The old wallet was removed from the whitelist and the new one whitelisted.',
+      walletChangeRequest: result.request,
+      voter: result.voter,
+    });
+  } catch (error) {
+    console.error('Error approving wallet change:', error);
+    res.status(500).json({ error: `Failed to approve wallet change: ${(error as Error).message}` });
+  }
+};
+
+export const rejectWalletChangeRequest = async (req: Request, res: Response) => {
+  try {
+    const result = await walletBindingService.rejectWalletChange(
+      parseInt(req.params.requestId),
+      { userId: req.user?.id, reason: req.body?.reason }
+    );
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+
+    res.status(200).json({
+      message: 'Wallet change rejected. The voter keeps their current wallet.',
+      walletChangeRequest: result.request,
+    });
+  } catch (error) {
+    console.error('Error rejecting wallet change:', error);
+    res.status(500).json({ error: `Failed to reject wallet change: ${(error as Error).message}` });
+  }
+};
+
 export const getWhitelistedVoters = async (req: Request, res: Response) => {
   try {
     const { electionId } = req.params;
@@ -466,32 +1061,24 @@ export const getWhitelistedVoters = async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Election has no deployed smart contract address.' });
     }
 
-    const allRegisteredVoters = await mysqlService.getAllVoters();
-    const whitelistedVotersList = [];
-
-    // voter is whitelisted if they have a wallet address linked in MySQL
-    for (const voter of allRegisteredVoters) {
-        if (voter.wallet_address) { // Only consider if wallet is linked
-            // const isWhitelistedOnChain = await blockchainService.isVoterGloballyWhitelisted(
-            //     election.blockchain_contract_address,
-            //     voter.wallet_address
-            // );
-            // if (isWhitelistedOnChain) { // Original logic
-            whitelistedVotersList.push({ // Always add if wallet is linked for demo
-              id: voter.id,
-              name: voter.name,
-              email: voter.email,
-              wallet_address: voter.wallet_address,
-              isWhitelistedOnChain: true, // ASSUMING TRUE FOR DEMO
-              registration_status: voter.registration_status
-            });
-            // }
-        }
+    // A voter is whitelisted once they have a wallet address linked in MySQL
+    const parsed = parseListQuery(mysqlService.VOTER_LIST, { ...req.query, hasWallet: 'true' });
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error });
     }
+    const page = await mysqlService.listVoters(parsed.query);
 
     res.status(200).json({
       message: `Whitelisted voters for election ${electionId} retrieved.`,
-      whitelistedVoters: whitelistedVotersList,
+      data: page.data.map(voter => ({
+        id: voter.id,
+        name: voter.name,
+        email: voter.email,
+        wallet_address: voter.wallet_address,
+        isWhitelistedOnChain: true, // ASSUMING TRUE FOR DEMO; not checked against the contract
+        registration_status: voter.registration_status,
+      })),
+      pagination: page.pagination,
     });
   } catch (error) {
     console.error('Error getting whitelisted voters:', error);
@@ -501,10 +1088,15 @@ export const getWhitelistedVoters = async (req: Request, res: Response) => {
 
 export const getAllParties = async (req: Request, res: Response) => {
   try {
-    const parties = await mysqlService.getAllParties();
+    const parsed = parseListQuery(mysqlService.PARTY_LIST, req.query);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const page = await mysqlService.listParties(parsed.query, req.query.includeArchived === 'true');
     res.status(200).json({
-      message: 'All parties retrieved.',
-      parties: parties,
+      message: 'Parties retrieved.',
+      data: page.data.map(mediaService.withPartyLogoUrl),
+      pagination: page.pagination,
     });
   } catch (error) {
     console.error('Error getting all parties:', error);
@@ -512,13 +1104,211 @@ export const getAllParties = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Deletes a replaced or orphaned party logo from storage. Failures are logged rather than thrown,
+ * since the party change they follow has already been saved.
+ * @param {string | null | undefined} publicId - The Cloudinary public ID of the logo.
+ */
+const deletePartyLogo = async (publicId: string | null | undefined): Promise<void> => {
+  if (!publicId) return;
+  await mediaService.deleteAsset(publicId);
+};
+
+/**
+ * Resolves the logo for a party from an uploaded media asset (POST /media with purpose party_logo).
+ * @returns {Promise<{ asset: MediaAsset } | { error: string }>} The asset, or why it cannot be used.
+ */
+const getPartyLogoAsset = async (assetId: unknown, partyId?: number): Promise<{ asset: MediaAsset } | { error: string }> => {
+  const asset = await mysqlService.getMediaAssetById(Number(assetId));
+  if (!asset || asset.status !== 'active') {
+    return { error: 'Logo asset not found or not yet uploaded.' };
+  }
+  if (asset.purpose !== 'party_logo') {
+    return { error: 'Logo asset must be uploaded with purpose party_logo.' };
+  }
+  const owner = await mysqlService.getPartyByLogoPublicId(asset.public_id);
+  if (owner && owner.id !== partyId) {
+    return { error: 'Logo asset is already used by another party.' };
+  }
+  return { asset };
+};
+
+export const createParty = async (req: Request, res: Response) => {
+  try {
+    const { name, description, logoAssetId } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Party name is required.' });
+    }
+    if (await mysqlService.getPartyByName(name)) {
+      return res.status(409).json({ error: `A party named "${name.trim()}" already exists.` });
+    }
+
+    let logo: MediaAsset | null = null;
+    if (logoAssetId) {
+      const logoAsset = await getPartyLogoAsset(logoAssetId);
+      if ('error' in logoAsset) {
+        return res.status(400).json({ error: logoAsset.error });
+      }
+      logo = logoAsset.asset;
+    }
+
+    const partyId = await mysqlService.createParty({
+      name: name.trim(),
+      description: description || null,
+      logo_url: logo?.url || null,
+      logo_public_id: logo?.public_id || null,
+    });
+    const createdParty = await mysqlService.getPartyById(partyId);
+
+    res.status(201).json({
+      message: 'Party created successfully.',
+      party: createdParty && mediaService.withPartyLogoUrl(createdParty),
+    });
+  } catch (error) {
+    if (mysqlService.isDuplicateEntryError(error)) {
+      return res.status(409).json({ error: 'A party with this name already exists.' });
+    }
+    console.error('Error creating party:', error);
+    res.status(500).json({ error: `Failed to create party: ${(error as Error).message}` });
+  }
+};
+
+export const updateParty = async (req: Request, res: Response) => {
+  try {
+    const partyId = parseInt(req.params.partyId);
+    const { name, description, logoAssetId, removeLogo } = req.body;
+
+    const party = await mysqlService.getPartyById(partyId);
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found.' });
+    }
+    if (logoAssetId && removeLogo) {
+      return res.status(400).json({ error: 'Provide either a new logo or removeLogo, not both.' });
+    }
+
+    const updates: Partial<Party> = {};
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'Party name cannot be empty.' });
+      }
+      const existing = await mysqlService.getPartyByName(name);
+      if (existing && existing.id !== partyId) {
+        return res.status(409).json({ error: `A party named "${name.trim()}" already exists.` });
+      }
+      updates.name = name.trim();
+    }
+    if (description !== undefined) {
+      updates.description = description || null;
+    }
+    if (logoAssetId) {
+      const logoAsset = await getPartyLogoAsset(logoAssetId, partyId);
+      if ('error' in logoAsset) {
+        return res.status(400).json({ error: logoAsset.error });
+      }
+      updates.logo_url = logoAsset.asset.url;
+      updates.logo_public_id = logoAsset.asset.public_id;
+    } else if (removeLogo) {
+      updates.logo_url = null;
+      updates.logo_public_id = null;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({ error: 'No party fields to update.' });
+    }
+
+    await mysqlService.updateParty(partyId, updates);
+    if (updates.logo_public_id !== undefined && party.logo_public_id !== updates.logo_public_id) {
+      await deletePartyLogo(party.logo_public_id);
+    }
+    const updatedParty = await mysqlService.getPartyById(partyId);
+
+    res.status(200).json({
+      message: 'Party updated successfully.',
+      party: updatedParty && mediaService.withPartyLogoUrl(updatedParty),
+    });
+  } catch (error) {
+    if (mysqlService.isDuplicateEntryError(error)) {
+      return res.status(409).json({ error: 'A party with this name already exists.' });
+    }
+    console.error('Error updating party:', error);
+    res.status(500).json({ error: `Failed to update party: ${(error as Error).message}` });
+  }
+};
+
+/**
+ * Archives or restores a party. Archived parties keep their members and past candidacies but are
+ * hidden from the party list and cannot take new members.
+ */
+const setPartyArchived = (archived: boolean) => async (req: Request, res: Response) => {
+  try {
+    const partyId = parseInt(req.params.partyId);
+    const party = await mysqlService.getPartyById(partyId);
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found.' });
+    }
+    if (Boolean(party.archived_at) === archived) {
+      return res.status(409).json({ error: `Party is already ${archived ? 'archived' : 'active'}.` });
+    }
+
+    await mysqlService.updateParty(partyId, { archived_at: archived ? new Date() : null });
+    const updatedParty = await mysqlService.getPartyById(partyId);
+
+    res.status(200).json({
+      message: `Party ${archived ? 'archived' : 'restored'} successfully.`,
+      party: updatedParty && mediaService.withPartyLogoUrl(updatedParty),
+    });
+  } catch (error) {
+    console.error(`Error ${archived ? 'archiving' : 'restoring'} party:`, error);
+    res.status(500).json({ error: `Failed to ${archived ? 'archive' : 'restore'} party: ${(error as Error).message}` });
+  }
+};
+
+export const archiveParty = setPartyArchived(true);
+export const restoreParty = setPartyArchived(false);
+
+export const deleteParty = async (req: Request, res: Response) => {
+  try {
+    const partyId = parseInt(req.params.partyId);
+    const party = await mysqlService.getPartyById(partyId);
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found.' });
+    }
+
+    // The delete cascades through party_members to candidates, vote_logs and voter_receipts, so refuse
+    // while any member has stood in any election, finished ones included, or their recorded votes would
+    // go with it. Archive the party instead.
+    const candidacies = await mysqlService.getCandidaciesForParty(partyId);
+    if (candidacies.length > 0) {
+      return res.status(409).json({
+        error: 'Party has members who have stood as candidates in elections. Archive the party instead.',
+        code: 'PARTY_HAS_CANDIDACIES',
+        elections: [...new Map(candidacies.map(c => [c.election_id, { id: c.election_id, title: c.election_title, status: c.status }])).values()],
+      });
+    }
+
+    await mysqlService.deleteParty(partyId);
+    await deletePartyLogo(party.logo_public_id);
+
+    res.status(200).json({ message: `Party ${partyId} deleted successfully.` });
+  } catch (error) {
+    console.error('Error deleting party:', error);
+    res.status(500).json({ error: `Failed to delete party: ${(error as Error).message}` });
+  }
+};
+
 export const getPartyMembers = async (req: Request, res: Response) => {
   try {
     const { partyId } = req.params;
-    const members = await mysqlService.getPartyMembersByPartyId(parseInt(partyId));
+    const parsed = parseListQuery(mysqlService.PARTY_MEMBER_LIST, req.query);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const page = await mysqlService.listPartyMembers(parsed.query, parseInt(partyId));
     res.status(200).json({
       message: `Party members for party ${partyId} retrieved.`,
-      members: members,
+      data: page.data.map(mediaService.withMemberImageUrl),
+      pagination: page.pagination,
     });
   } catch (error) {
     console.error('Error getting party members:', error);
@@ -528,17 +1318,35 @@ export const getPartyMembers = async (req: Request, res: Response) => {
 
 export const createPartyMember = async (req: Request, res: Response) => {
   try {
-    const { partyId, name, email, imageUrl } = req.body;
+    const { partyId, name, email, imageUrl, imageAssetId } = req.body;
 
     if (!partyId || !name || !email) {
       return res.status(400).json({ error: 'Party ID, name, and email are required to create a party member.' });
     }
 
+    const party = await mysqlService.getPartyById(parseInt(partyId));
+    if (!party) {
+      return res.status(404).json({ error: 'Party not found.' });
+    }
+    if (party.archived_at) {
+      return res.status(409).json({ error: 'Cannot add members to an archived party.' });
+    }
+
+    // Photos uploaded through POST /media are referenced by asset so their URL follows the media store
+    let photo: MediaAsset | null = null;
+    if (imageAssetId) {
+      photo = await mysqlService.getMediaAssetById(Number(imageAssetId));
+      if (!photo || photo.status !== 'active' || photo.purpose !== 'member_photo') {
+        return res.status(400).json({ error: 'Image asset not found, not yet uploaded, or not uploaded with purpose member_photo.' });
+      }
+    }
+
     const newPartyMember: Omit<PartyMember, 'id' | 'created_at' | 'updated_at'> = {
       party_id: parseInt(partyId),
       name,
       email,
-      image_url: imageUrl || null,
+      image_url: photo?.url || imageUrl || null,
+      image_public_id: photo?.public_id || null,
     };
 
     const memberId = await mysqlService.createPartyMember(newPartyMember);
@@ -546,7 +1354,7 @@ export const createPartyMember = async (req: Request, res: Response) => {
 
     res.status(201).json({
       message: 'Party member created successfully.',
-      member: createdMember,
+      member: createdMember && mediaService.withMemberImageUrl(createdMember),
     });
   } catch (error) {
     console.error('Error creating party member:', error);
@@ -556,33 +1364,18 @@ export const createPartyMember = async (req: Request, res: Response) => {
 
 export const getAllPartyMembers = async (req: Request, res: Response) => {
   try {
-    const members = await mysqlService.getAllPartyMembers();
+    const parsed = parseListQuery(mysqlService.PARTY_MEMBER_LIST, req.query);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const page = await mysqlService.listPartyMembers(parsed.query);
     res.status(200).json({
-      message: 'All party members retrieved.',
-      members: members,
+      message: 'Party members retrieved.',
+      data: page.data.map(mediaService.withMemberImageUrl),
+      pagination: page.pagination,
     });
   } catch (error) {
     console.error('Error getting all party members:', error);
     res.status(500).json({ error: `Failed to retrieve party members: ${(error as Error).message}` });
   }
 };
-
-// --- Cloudinary Integration (Example for Image Upload) ---
-export const uploadImage = async (req: Request, res: Response) => {
-  try {
-    const { imageBase64 } = req.body;
-
-    if (!imageBase64) {
-      return res.status(400).json({ error: 'No image data provided.' });
-    }
-
-    const result = await cloudinaryService.uploadImage(imageBase64);
-    res.status(200).json({
-      message: 'Image uploaded successfully to Cloudinary.',
-      imageUrl: result.secure_url,
-    });
-  } catch (error) {
-    console.error('Error uploading image to Cloudinary:', error);
-    res.status(500).json({ error: `Failed to upload image: ${(error as Error).message}` });
-  }
-};
\ No newline at end of file
@@ -1,14 +1,40 @@
 import { Request, Response } from 'express';
-import bcrypt from 'bcryptjs';
-import { generateToken, verifyWalletSignature } from '../services/authService';
-import { findUserByEmail, getVoterByEmail, updateVoterAuthNonce, updateVoterStatusAndWallet } from '../services/mysqlService';
+import { findUserByEmail, findUserById, getVoterByEmail, getVoterByWalletAddress, updateVoterStatusAndWallet } from '../services/mysqlService';
 import { Voter, User } from '../types/index.d'; // Import User type
-import { v4 as uuidv4 } from 'uuid'; // For generating unique nonces
 import * as blockchainService from '../services/blockchainService'; 
+import * as emailVerificationService from '../services/emailVerificationService';
+import * as siweService from '../services/siweService';
+import * as walletBindingService from '../services/walletBindingService';
+import * as adminUserService from '../services/adminUserService';
+import * as twoFactorService from '../services/twoFactorService';
+import * as sessionService from '../services/sessionService';
+import { verifyPassword } from '../services/passwords';
+import { getRolePermissions, isAdminRole } from '../services/accessControl';
 import { ethers } from 'ethers';
 
-// Message to be signed by the voter's wallet for authentication
-export const VOTER_AUTH_MESSAGE_PREFIX = "Authenticate to VoteX: ";
+// Session tokens and permissions returned whenever an admin signs in or sets a password
+const adminSession = async (req: Request, user: User) => ({
+  ...(await sessionService.createSession({ kind: 'admin', user }, sessionService.sessionContext(req))),
+  user: { id: user.id, email: user.email, role: user.role, permissions: isAdminRole(user.role) ? getRolePermissions(user.role) : [] },
+});
+
+/**
+ * What an admin gets once their password is accepted: a login token, or, if they use two-factor
+ * authentication or their role requires it, a pre-auth token for the second step.
+ */
+const adminSignIn = async (req: Request, user: User, message: string) => {
+  if (twoFactorService.isTwoFactorEnabled(user)) {
+    return { message: 'Enter the code from your authenticator app.', twoFactorRequired: true, ...twoFactorService.createPreAuthToken(user) };
+  }
+  if (twoFactorService.isTwoFactorRequired(user.role)) {
+    return {
+      message: 'Your role requires two-factor authentication. Set it up to finish logging in.',
+      twoFactorSetupRequired: true,
+      ...twoFactorService.createPreAuthToken(user),
+    };
+  }
+  return { message, ...(await adminSession(req, user)) };
+};
 
 // Admin Login
 export const adminLogin = async (req: Request, res: Response) => {
@@ -21,41 +47,339 @@ export const adminLogin = async (req: Request, res: Response) => {
   try {
     const user: User | null = await findUserByEmail(email); // Use User type
 
-    if (!user || user.role !== 'admin') {
+    if (!user || !isAdminRole(user.role)) {
       return res.status(401).json({ error: 'Invalid credentials or not an admin user.' });
     }
 
-    const isPasswordValid = await bcrypt.compare(password, user.password_hash);
+    const isPasswordValid = await verifyPassword(password, user.password_hash);
 
     if (!isPasswordValid) {
       return res.status(401).json({ error: 'Invalid credentials.' });
     }
 
-    const payload = {
-      id: user.id!, // Use non-null assertion as user exists
-      email: user.email,
-      role: user.role,
-    };
+    if (user.status !== 'active') {
+      return res.status(403).json({ error: `Account is ${user.status}.`, code: 'USER_NOT_ACTIVE' });
+    }
 
-    const token = generateToken(payload, '1h');
+    res.status(200).json(await adminSignIn(req, user, 'Admin login successful!'));
+  } catch (error) {
+    console.error('Error during admin login:', error);
+    res.status(500).json({ error: 'Failed to authenticate admin.' });
+  }
+};
 
+// Admin Login, Second Step (a code from the authenticator app, or a recovery code)
+export const completeAdminTwoFactorLogin = async (req: Request, res: Response) => {
+  const { preAuthToken, code, recoveryCode } = req.body;
+
+  if (!preAuthToken || (!code && !recoveryCode)) {
+    return res.status(400).json({ error: 'preAuthToken and either code or recoveryCode are required.' });
+  }
+
+  try {
+    const preAuth = twoFactorService.verifyPreAuthToken(preAuthToken);
+    const user = preAuth ? await findUserById(preAuth.userId) : null;
+    const passwordChanged = user?.password_changed_at && preAuth!.issuedAt * 1000 < new Date(user.password_changed_at).getTime();
+    if (!user || !isAdminRole(user.role) || user.status !== 'active' || passwordChanged) {
+      return res.status(401).json({ error: 'Login has expired. Log in again.', code: 'INVALID_PRE_AUTH_TOKEN' });
+    }
+
+    const result = await twoFactorService.verifySecondFactor(user, { code, recoveryCode });
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
     res.status(200).json({
       message: 'Admin login successful!',
-      token,
-      user: { id: user.id, email: user.email, role: user.role },
+      ...(await adminSession(req, user)),
+      ...(result.recoveryCodesLeft !== undefined ? { recoveryCodesLeft: result.recoveryCodesLeft } : {}),
     });
   } catch (error) {
-    console.error('Error during admin login:', error);
+    console.error('Error verifying admin second factor:', error);
     res.status(500).json({ error: 'Failed to authenticate admin.' });
   }
 };
 
-// Voter Request Auth Message (Step 1 of Web3 Login)
-export const requestVoterAuthMessage = async (req: Request, res: Response) => {
+// Admin Two-Factor Setup (signed in, or with a pre-auth token when the role requires it)
+export const setupAdminTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const user = await findUserById(req.user!.id!);
+    const result = await twoFactorService.beginTwoFactorSetup(user!);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+    res.status(200).json({
+      message: 'Scan the QR code with your authenticator app, then confirm with a code from it.',
+      secret: result.secret,
+      otpauthUri: result.otpauthUri,
+    });
+  } catch (error) {
+    console.error('Error setting up two-factor authentication:', error);
+    res.status(500).json({ error: 'Failed to set up two-factor authentication.' });
+  }
+};
+
+// Admin Two-Factor Enable (confirms setup; finishes the login when called with a pre-auth token)
+export const enableAdminTwoFactor = async (req: Request, res: Response) => {
+  const { code } = req.body;
+
+  if (!code) {
+    return res.status(400).json({ error: 'A code from your authenticator app is required.' });
+  }
+
+  try {
+    const user = await findUserById(req.user!.id!);
+    const result = await twoFactorService.enableTwoFactor(user!, code);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+    res.status(200).json({
+      message: 'Two-factor authentication enabled. Store the recovery codes somewhere safe; they are shown only once.',
+      recoveryCodes: result.recoveryCodes,
+      ...(res.locals.preAuth ? await adminSession(req, user!) : {}),
+    });
+  } catch (error) {
+    console.error('Error enabling two-factor authentication:', error);
+    res.status(500).json({ error: 'Failed to enable two-factor authentication.' });
+  }
+};
+
+// Admin Two-Factor Disable (needs the password and a code; not allowed for roles that require 2FA)
+export const disableAdminTwoFactor = async (req: Request, res: Response) => {
+  const { password, code, recoveryCode } = req.body;
+
+  if (!password || (!code && !recoveryCode)) {
+    return res.status(400).json({ error: 'Password and either code or recoveryCode are required.' });
+  }
+
+  try {
+    const user = (await findUserById(req.user!.id!))!;
+    if (twoFactorService.isTwoFactorRequired(user.role)) {
+      return res.status(403).json({ error: `Two-factor authentication is required for ${user.role} users.`, code: 'TWO_FACTOR_REQUIRED_BY_POLICY' });
+    }
+    if (!(await verifyPassword(password, user.password_hash))) {
+      return res.status(401).json({ error: 'Password is incorrect.', code: 'WRONG_PASSWORD' });
+    }
+    const result = await twoFactorService.verifySecondFactor(user, { code, recoveryCode });
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+    await twoFactorService.disableTwoFactor(user.id!);
+    res.status(200).json({ message: 'Two-factor authentication disabled.' });
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error);
+    res.status(500).json({ error: 'Failed to disable two-factor authentication.' });
+  }
+};
+
+// Admin Recovery Codes (replaces them, after a code from the authenticator app)
+export const regenerateAdminRecoveryCodes = async (req: Request, res: Response) => {
+  const { code } = req.body;
+
+  if (!code) {
+    return res.status(400).json({ error: 'A code from your authenticator app is required.' });
+  }
+
+  try {
+    const user = await findUserById(req.user!.id!);
+    const result = await twoFactorService.regenerateRecoveryCodes(user!, code);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+    res.status(200).json({ message: 'New recovery codes issued; the old ones no longer work.', recoveryCodes: result.recoveryCodes });
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error);
+    res.status(500).json({ error: 'Failed to regenerate recovery codes.' });
+  }
+};
+
+// Admin Accept Invite (sets the first password with the token from the invite link)
+export const acceptAdminInvite = async (req: Request, res: Response) => {
+  const { token, password } = req.body;
+
+  if (!token || typeof token !== 'string') {
+    return res.status(400).json({ error: 'The token from the invite link is required.' });
+  }
+
+  try {
+    const result = await adminUserService.acceptInvite(token, password);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+    const user = await findUserById(result.user.id!);
+    res.status(200).json(await adminSignIn(req, user!, 'Invite accepted. Your account is active.'));
+  } catch (error) {
+    console.error('Error accepting admin invite:', error);
+    res.status(500).json({ error: 'Failed to accept invite.' });
+  }
+};
+
+// Admin Forgot Password (emails a reset link; the response is the same whether or not the account exists)
+export const requestAdminPasswordReset = async (req: Request, res: Response) => {
+  const { email } = req.body;
+
+  if (!email || typeof email !== 'string') {
+    return res.status(400).json({ error: 'Email is required.' });
+  }
+
+  try {
+    await adminUserService.requestPasswordReset(email);
+    res.status(200).json({ message: 'If an active admin account exists for this email, a password reset link has been sent to it.' });
+  } catch (error) {
+    console.error('Error requesting admin password reset:', error);
+    res.status(500).json({ error: 'Failed to send password reset email.' });
+  }
+};
+
+// Admin Reset Password (with the token from the reset link)
+export const resetAdminPassword = async (req: Request, res: Response) => {
+  const { token, password } = req.body;
+
+  if (!token || typeof token !== 'string') {
+    return res.status(400).json({ error: 'The token from the reset link is required.' });
+  }
+
+  try {
+    const result = await adminUserService.resetPassword(token, password);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+    res.status(200).json({ message: 'Password reset. Log in with your new password.' });
+  } catch (error) {
+    console.error('Error resetting admin password:', error);
+    res.status(500).json({ error: 'Failed to reset password.' });
+  }
+};
+
+// Admin Change Password (signed in; returns a new session, since the change ends all existing ones)
+export const changeAdminPassword = async (req: Request, res: Response) => {
+  const { currentPassword, newPassword } = req.body;
+
+  if (!currentPassword || !newPassword) {
+    return res.status(400).json({ error: 'Current password and new password are required.' });
+  }
+
+  try {
+    const result = await adminUserService.changePassword(req.user!.id!, currentPassword, newPassword);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+    const user = await findUserById(result.user.id!);
+    res.status(200).json({ message: 'Password changed.', ...(await adminSession(req, user!)) });
+  } catch (error) {
+    console.error('Error changing admin password:', error);
+    res.status(500).json({ error: 'Failed to change password.' });
+  }
+};
+
+// Admin Refresh Token (exchanges the refresh token for new session tokens; the old refresh token stops working)
+export const refreshAdminToken = async (req: Request, res: Response) => {
+  try {
+    const result = await sessionService.refreshSession('admin', req.body.refreshToken, sessionService.sessionContext(req));
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+    const { subject, ...tokens } = result;
+    const { user } = subject as Extract<sessionService.SessionSubject, { kind: 'admin' }>;
+    res.status(200).json({
+      message: 'Session refreshed.',
+      ...tokens,
+      user: { id: user.id, email: user.email, role: user.role, permissions: isAdminRole(user.role) ? getRolePermissions(user.role) : [] },
+    });
+  } catch (error) {
+    console.error('Error refreshing admin session:', error);
+    res.status(500).json({ error: 'Failed to refresh session.' });
+  }
+};
+
+// Logout (ends the session of the access token used; shared by admins and voters)
+export const logout = async (req: Request, res: Response) => {
+  try {
+    await sessionService.revokeSession(req.user!.sid!);
+    res.status(200).json({ message: 'Logged out.' });
+  } catch (error) {
+    console.error('Error logging out:', error);
+    res.status(500).json({ error: 'Failed to log out.' });
+  }
+};
+
+// Logout Everywhere (ends every session of the signed-in admin or voter, including the current one)
+export const logoutAll = async (req: Request, res: Response) => {
+  try {
+    const owner = req.user!.role === 'voter' ? { voterId: req.user!.id! } : { userId: req.user!.id! };
+    const sessionsEnded = await sessionService.revokeAllSessions(owner, 'logout_all');
+    res.status(200).json({ message: 'Logged out of all sessions.', sessionsEnded });
+  } catch (error) {
+    console.error('Error logging out of all sessions:', error);
+    res.status(500).json({ error: 'Failed to log out.' });
+  }
+};
+
+// Voter Verify Email (from the link or the code in the verification email)
+export const verifyVoterEmail = async (req: Request, res: Response) => {
+  const { token, email, code } = req.body;
+
+  if (!token && !(email && code)) {
+    return res.status(400).json({ error: 'Either the token from the verification link, or email and code, are required.' });
+  }
+
+  try {
+    const result = token
+      ? await emailVerificationService.verifyEmailWithToken(String(token))
+      : await emailVerificationService.verifyEmailWithCode(String(email), String(code));
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+
+    res.status(200).json({
+      message: 'Email address verified. You can now link your wallet.',
+      voterEmail: result.voter.email,
+      registrationStatus: result.voter.registration_status,
+    });
+  } catch (error) {
+    console.error('Error verifying voter email:', error);
+    res.status(500).json({ error: 'Failed to verify email address.' });
+  }
+};
+
+// Voter Resend Verification Email
+export const resendVoterEmailVerification = async (req: Request, res: Response) => {
   const { email } = req.body;
 
   if (!email) {
-    return res.status(400).json({ error: 'Email is required to request an authentication message.' });
+    return res.status(400).json({ error: 'Email is required to resend the verification email.' });
+  }
+
+  try {
+    const voter: Voter | null = await getVoterByEmail(email);
+    if (!voter) {
+      return res.status(404).json({ error: 'Voter profile not found. Please ensure you are registered by an admin.' });
+    }
+
+    const result = await emailVerificationService.sendEmailVerification(voter);
+    if (!result.ok) {
+      if (result.retryAfterSeconds) res.setHeader('Retry-After', String(result.retryAfterSeconds));
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+
+    res.status(200).json({
+      message: 'Verification email sent.',
+      expiresAt: result.expiresAt,
+    });
+  } catch (error) {
+    console.error('Error resending verification email:', error);
+    res.status(500).json({ error: 'Failed to send verification email.' });
+  }
+};
+
+// Voter Request Auth Message (Step 1 of Web3 Login): a Sign-In with Ethereum (EIP-4361) message
+export const requestVoterAuthMessage = async (req: Request, res: Response) => {
+  const { email, walletAddress } = req.body;
+
+  if (!email || !walletAddress) {
+    return res.status(400).json({ error: 'Email and wallet address are required to request an authentication message.' });
+  }
+  if (!ethers.isAddress(walletAddress)) {
+    return res.status(400).json({ error: 'Invalid wallet address.' });
   }
 
   try {
@@ -64,15 +388,19 @@ export const requestVoterAuthMessage = async (req: Request, res: Response) => {
     if (!voter) {
       return res.status(404).json({ error: 'Voter profile not found. Please ensure you are registered by an admin.' });
     }
+    if (voter.account_status && voter.account_status !== 'active') {
+      return res.status(403).json({ error: `Voter account is ${voter.account_status}. Contact an administrator.`, code: 'VOTER_NOT_ACTIVE' });
+    }
+    if (voter.registration_status === 'pending_email_verification') {
+      return res.status(403).json({ error: 'Verify your email address before linking a wallet.', code: 'EMAIL_NOT_VERIFIED' });
+    }
 
-    const nonce = uuidv4();
-    const messageToSign = `${VOTER_AUTH_MESSAGE_PREFIX}${nonce}`;
-
-    await updateVoterAuthNonce(voter.id!, nonce); // Store the nonce
+    const { message: messageToSign, expiresAt } = await siweService.createVoterSiweMessage(voter, walletAddress);
 
     res.status(200).json({
       message: 'Please sign this message with your linked wallet to authenticate.',
       messageToSign: messageToSign,
+      expiresAt,
       voterEmail: email,
     });
   } catch (error) {
@@ -83,28 +411,47 @@ export const requestVoterAuthMessage = async (req: Request, res: Response) => {
 
 // Voter Authenticate (Step 2 of Web3 Login)
 export const voterAuthenticate = async (req: Request, res: Response) => {
-  const { message, signature, walletAddress, email } = req.body;
+  const { message, signature, walletAddress: claimedAddress, email } = req.body;
 
-  if (!message || !signature || !walletAddress || !email) {
-    return res.status(400).json({ error: 'Message, signature, wallet address, and email are required.' });
+  if (!message || !signature) {
+    return res.status(400).json({ error: 'The signed message and signature are required.' });
   }
 
   try {
-    const voter: Voter | null = await getVoterByEmail(email);
-
-    if (!voter) {
-      return res.status(404).json({ error: 'Voter profile not found.' });
+    const result = await siweService.verifyVoterSiweLogin(String(message), String(signature));
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
     }
+    const { voter, address: walletAddress } = result;
 
-    const expectedNonce = voter.auth_nonce;
-    if (!expectedNonce || message !== `${VOTER_AUTH_MESSAGE_PREFIX}${expectedNonce}`) {
-      return res.status(400).json({ error: 'Invalid or outdated authentication message.' });
+    // Optional, for clients that still send them; they must agree with the signed message
+    if ((email && email !== voter.email) || (claimedAddress && String(claimedAddress).toLowerCase() !== walletAddress)) {
+      return res.status(401).json({ error: 'Email or wallet address does not match the signed message.' });
+    }
+    if (voter.account_status && voter.account_status !== 'active') {
+      return res.status(403).json({ error: `Voter account is ${voter.account_status}. Contact an administrator.`, code: 'VOTER_NOT_ACTIVE' });
+    }
+    if (voter.registration_status === 'pending_email_verification') {
+      return res.status(403).json({ error: 'Verify your email address before linking a wallet.', code: 'EMAIL_NOT_VERIFIED' });
     }
 
-    const recoveredAddress = verifyWalletSignature(message, signature);
-
-    if (!recoveredAddress || recoveredAddress.toLowerCase() !== walletAddress.toLowerCase()) {
-      return res.status(401).json({ error: 'Signature verification failed. Invalid signature or wallet address.' });
+    // A wallet other than the bound one is only a change request, applied once an admin approves it
+    if (voter.wallet_address && voter.wallet_address.toLowerCase() !== walletAddress) {
+      const change = await walletBindingService.requestWalletChange(voter, walletAddress);
+      if (!change.ok) {
+        return res.status(change.status).json({ error: change.error, code: change.code });
+      }
+      return res.status(202).json({
+        message: 'This wallet is not the one linked to your account. A request to switch to it has been sent to an administrator; sign in with your current wallet until it is approved.',
+        walletChangeRequest: change.request,
+      });
+    }
+    const linksWallet = !voter.wallet_address;
+    if (linksWallet) {
+      const owner = await getVoterByWalletAddress(walletAddress);
+      if (owner && owner.id !== voter.id) {
+        return res.status(409).json({ error: 'This wallet is already linked to another voter.', code: 'WALLET_IN_USE' });
+      }
     }
 
     // --- AUTOMATED GLOBAL WHITELISTING LOGIC ---
@@ -114,8 +461,8 @@ export const voterAuthenticate = async (req: Request, res: Response) => {
     }
 
     let whitelistTxHash: string | null = null;
-    // Only attempt to whitelist if not already marked as eligible on-chain (or if wallet address changed)
-    if (!voter.is_eligible_on_chain || (voter.wallet_address && voter.wallet_address.toLowerCase() !== walletAddress.toLowerCase())) {
+    // Only attempt to whitelist if not already marked as eligible on-chain
+    if (!voter.is_eligible_on_chain) {
       try {
         // Call the new global whitelist function
         whitelistTxHash = await blockchainService.globalWhitelistVoterOnChain(
@@ -150,24 +497,19 @@ export const voterAuthenticate = async (req: Request, res: Response) => {
       voter.id!,
       walletAddress.toLowerCase(),
       newRegistrationStatus,
-      null, // Clear nonce after use
       isEligibleOnChain // Update is_eligible_on_chain flag
     );
+    if (linksWallet) {
+      await walletBindingService.recordInitialWalletBinding(voter.id!, walletAddress, whitelistTxHash);
+    }
 
 
-    // Generate a JWT for the voter
-    const payload = {
-      id: voter.id!,
-      email: voter.email,
-      walletAddress: walletAddress.toLowerCase(),
-      name: voter.name,
-      role: 'voter',
-    };
-    const token = generateToken(payload, '12h');
+    // Start a session for the voter with the wallet they signed in with
+    const tokens = await sessionService.createSession({ kind: 'voter', voter, walletAddress }, sessionService.sessionContext(req));
 
     res.status(200).json({
       message: 'Voter authentication successful! Wallet linked and whitelisted on chain.',
-      token,
+      ...tokens,
       user: {
         id: voter.id,
         email: voter.email,
@@ -181,4 +523,24 @@ export const voterAuthenticate = async (req: Request, res: Response) => {
     console.error('Error during voter authentication:', error);
     res.status(500).json({ error: `Failed to authenticate voter: ${(error as Error).message}` });
   }
+};
+
+// Voter Refresh Token (exchanges the refresh token for new session tokens; the old refresh token stops working)
+export const refreshVoterToken = async (req: Request, res: Response) => {
+  try {
+    const result = await sessionService.refreshSession('voter', req.body.refreshToken, sessionService.sessionContext(req));
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+    const { subject, ...tokens } = result;
+    const { voter, walletAddress } = subject as Extract<sessionService.SessionSubject, { kind: 'voter' }>;
+    res.status(200).json({
+      message: 'Session refreshed.',
+      ...tokens,
+      user: { id: voter.id, email: voter.email, walletAddress, name: voter.name, role: 'voter' },
+    });
+  } catch (error) {
+    console.error('Error refreshing voter session:', error);
+    res.status(500).json({ error: 'Failed to refresh session.' });
+  }
 };
\ No newline at end of file
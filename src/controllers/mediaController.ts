@@ -0,0 +1,108 @@
+import { Request, Response } from 'express';
+import multer from 'multer';
+import * as mediaService from '../services/mediaService';
+import { MediaPurpose } from '../types/index.d';
+
+// Files are kept in memory: they are small, capped at MEDIA_MAX_BYTES, and validated before storage
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: mediaService.MEDIA_MAX_BYTES, files: 1, fields: 5 },
+}).single('image');
+
+/**
+ * Parses a multipart/form-data request with a single `image` file field.
+ */
+const receiveImage = (req: Request, res: Response): Promise<void> =>
+  new Promise((resolve, reject) => imageUpload(req, res, error => (error ? reject(error) : resolve())));
+
+const parsePurpose = (purpose: unknown): MediaPurpose | null => {
+  if (purpose === undefined || purpose === '') return 'general';
+  return typeof purpose === 'string' && Object.hasOwn(mediaService.MEDIA_PURPOSES, purpose) ? (purpose as MediaPurpose) : null;
+};
+
+const invalidPurposeError = () =>
+  `Invalid purpose. Must be one of: ${Object.keys(mediaService.MEDIA_PURPOSES).join(', ')}.`;
+
+export const uploadImage = async (req: Request, res: Response) => {
+  try {
+    if (!req.is('multipart/form-data')) {
+      return res.status(415).json({ error: 'Images must be uploaded as multipart/form-data with an "image" field.' });
+    }
+    try {
+      await receiveImage(req, res);
+    } catch (error) {
+      if (error instanceof multer.MulterError) {
+        const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+        return res.status(status).json({ error: error.message, code: error.code });
+      }
+      throw error;
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'No image file provided in the "image" field.' });
+    }
+    const purpose = parsePurpose(req.body?.purpose);
+    if (!purpose) {
+      return res.status(400).json({ error: invalidPurposeError() });
+    }
+
+    const result = await mediaService.storeImage(req.file.buffer, req.file.mimetype, purpose, req.user?.id);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+
+    res.status(201).json({
+      message: 'Image uploaded successfully.',
+      asset: result.value,
+      imageUrl: result.value.url,
+    });
+  } catch (error) {
+    console.error('Error uploading image:', error);
+    res.status(500).json({ error: `Failed to upload image: ${(error as Error).message}` });
+  }
+};
+
+export const createDirectUpload = async (req: Request, res: Response) => {
+  try {
+    const purpose = parsePurpose(req.body?.purpose);
+    if (!purpose) {
+      return res.status(400).json({ error: invalidPurposeError() });
+    }
+    const { mimeType } = req.body;
+    if (!mimeType || typeof mimeType !== 'string') {
+      return res.status(400).json({ error: 'The mimeType of the image to be uploaded is required.' });
+    }
+
+    const result = await mediaService.createDirectUpload(purpose, mimeType.toLowerCase(), req.user?.id);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+
+    res.status(201).json({
+      message: `Upload the image as described in upload, then complete the upload before ${result.value.expiresAt.toISOString()}.`,
+      ...result.value,
+    });
+  } catch (error) {
+    console.error('Error creating direct upload:', error);
+    res.status(500).json({ error: `Failed to create direct upload: ${(error as Error).message}` });
+  }
+};
+
+export const completeDirectUpload = async (req: Request, res: Response) => {
+  try {
+    const assetId = parseInt(req.params.assetId);
+    const result = await mediaService.completeDirectUpload(assetId);
+    if (!result.ok) {
+      return res.status(result.status).json({ error: result.error, code: result.code });
+    }
+
+    res.status(200).json({
+      message: 'Direct upload completed.',
+      asset: result.value,
+      imageUrl: result.value.url,
+    });
+  } catch (error) {
+    console.error('Error completing direct upload:', error);
+    res.status(500).json({ error: `Failed to complete direct upload: ${(error as Error).message}` });
+  }
+};
@@ -1,7 +1,13 @@
 import { Request, Response } from 'express';
 import * as mysqlService from '../services/mysqlService';
 import * as blockchainService from '../services/blockchainService';
-import { Election, VoteLog } from '../types/index.d'
+import * as indexerService from '../services/indexerService';
+import * as resultsService from '../services/resultsService';
+import * as mediaService from '../services/mediaService';
+import * as voteService from '../services/voteService';
+import { parseListQuery } from '../services/listQuery';
+import { checkVotingMethodSupported } from '../services/tally';
+import { Election, Voter } from '../types/index.d'
 import { ethers } from 'ethers'; // For address validation
 
 export const getAvailableElections = async (req: Request, res: Response) => {
@@ -36,22 +42,39 @@ export const getAvailableElections = async (req: Request, res: Response) => {
 
 export const castVote = async (req: Request, res: Response) => {
   try {
-    const { electionId, postId, candidateId } = req.body;
+    const { electionId, postId, candidateId, transactionHash: submittedHash } = req.body;
     const voterWalletAddress = req.user?.walletAddress;
 
-    if (!electionId || !postId || !candidateId || !voterWalletAddress) {
-      return res.status(400).json({ error: 'Missing election ID, post ID, candidate ID, or voter wallet address.' });
+    if (!electionId || !postId || !candidateId || !submittedHash || !voterWalletAddress) {
+      return res.status(400).json({ error: 'Missing election ID, post ID, candidate ID, transaction hash, or voter wallet address.' });
     }
+    if (!ethers.isHexString(submittedHash, 32)) {
+      return res.status(400).json({ error: 'Invalid transaction hash format.', code: 'INVALID_TX_HASH' });
+    }
+    // Stored lowercase like the indexer's hashes, so one transaction has one form in every table
+    const transactionHash = submittedHash.toLowerCase();
 
     const election = await mysqlService.getElectionById(electionId);
+    if (election?.status === 'paused') {
+      return res.status(409).json({ error: 'Voting for this election is paused.', code: 'ELECTION_PAUSED' });
+    }
     if (!election || election.status !== 'active') {
       return res.status(400).json({ error: 'Election is not active or does not exist.' });
     }
+    // The scheduler may not have closed the election yet; the configured window is authoritative
+    const now = new Date();
+    if (now < new Date(election.start_date) || now > new Date(election.end_date)) {
+      return res.status(400).json({ error: 'Voting is outside the election\'s scheduled voting period.', code: 'OUTSIDE_VOTING_PERIOD' });
+    }
 
     const post = await mysqlService.getPostById(postId);
     if (!post || post.election_id !== electionId) {
       return res.status(400).json({ error: 'Invalid post ID for this election.' });
     }
+    const unsupported = checkVotingMethodSupported(post.voting_method || 'plurality', blockchainService.getChainAdapterKind());
+    if (unsupported) {
+      return res.status(409).json({ error: unsupported, code: 'VOTING_METHOD_UNSUPPORTED' });
+    }
 
     const candidate = await mysqlService.getCandidateById(candidateId);
     if (!candidate || candidate.post_id !== postId) {
@@ -63,32 +86,24 @@ export const castVote = async (req: Request, res: Response) => {
       throw new Error('ELECTION_SYSTEM_CONTRACT_ADDRESS is not set in environment variables.');
     }
 
-    // const isGloballyWhitelisted = await blockchainService.isVoterGloballyWhitelisted(systemContractAddress, voterWalletAddress);
-    // if (!isGloballyWhitelisted) {
-    //   return res.status(403).json({ error: 'You are not globally whitelisted to vote. Please ensure your wallet is linked.' });
-    // }
-
-    // Check double voting against MySQL vote_logs table
-    const hasVotedForThisPost = await mysqlService.hasVoterVotedForPostInDB(electionId, postId, voterWalletAddress);
-    if (hasVotedForThisPost) {
-      return res.status(403).json({ error: 'You have already voted for this post in this election' });
+    // A transaction hash can only ever back one vote log
+    const existingLog = await mysqlService.getVoteLogByTransactionHash(transactionHash);
+    if (existingLog) {
+      return res.status(409).json({ error: 'This transaction has already been recorded.', code: 'TX_ALREADY_RECORDED' });
     }
 
-    // Cast vote on the smart contract
-    const transactionHash = await blockchainService.castVoteOnChain(
-      systemContractAddress,
-      electionId,
-      postId,
-      candidate.blockchain_candidate_id!,
-      voterWalletAddress
-    );
-
-    if (!transactionHash) {
-      return res.status(500).json({ error: 'Failed to record vote on blockchain.' });
+    // Check double voting against MySQL vote_logs table. Multi-select and ranked posts take one
+    // transaction per choice, up to max_votes_per_voter distinct candidates.
+    const previousVotes = await mysqlService.getVoteLogsForVoterPost(electionId, postId, voterWalletAddress);
+    if (previousVotes.some(log => log.candidate_id === candidateId)) {
+      return res.status(403).json({ error: 'You have already voted for this candidate.', code: 'ALREADY_VOTED_FOR_CANDIDATE' });
+    }
+    if (previousVotes.length >= (post.max_votes_per_voter || 1)) {
+      return res.status(403).json({ error: 'You have already used all your votes for this post in this election', code: 'ALREADY_VOTED' });
     }
 
-    // Verify the transaction on-chain
-    const isTxValid = await blockchainService.verifyVoteTransaction(
+    // The voter's wallet submitted castVote; confirm it on chain before recording anything
+    const verification = await blockchainService.verifyVoteTransaction(
         transactionHash,
         systemContractAddress,
         electionId,
@@ -97,12 +112,14 @@ export const castVote = async (req: Request, res: Response) => {
         voterWalletAddress
     );
 
-    if (!isTxValid) {
-      console.error(`CRITICAL: Blockchain transaction ${transactionHash} for vote did not verify correctly.`);
+    if (!verification.valid) {
+      console.warn(`Rejected vote transaction ${transactionHash} from ${voterWalletAddress}: ${verification.code}`);
+      const status = verification.code === 'TX_NOT_FOUND' || verification.code === 'TX_CONFIRMATION_TIMEOUT' ? 409 : 422;
+      return res.status(status).json({ error: verification.reason, code: verification.code });
     }
 
-    // 4. Log the vote in MySQL for auditing purposes
-    await mysqlService.createVoteLog({
+    // Log the vote in MySQL for auditing and create the voter's receipt, together
+    await voteService.recordVote({
       election_id: electionId,
       post_id: postId,
       candidate_id: candidateId,
@@ -110,30 +127,67 @@ export const castVote = async (req: Request, res: Response) => {
       transaction_hash: transactionHash,
     });
 
-    // 5. Create a voter receipt for the voter's personal record
-    await mysqlService.createVoterReceipt({
-      voter_wallet_address: voterWalletAddress,
-      election_id: electionId,
-      post_id: postId,
-      candidate_id: candidateId,
-      transaction_hash: transactionHash,
-    });
-
-
     res.status(200).json({
-      message: 'Vote cast successfully and recorded on the blockchain. Transaction hash logged.',
+      message: 'Vote verified on the blockchain and recorded. Transaction hash logged.',
       electionId,
       postId,
       candidateId,
       voterWalletAddress,
       transactionHash,
+      choiceNumber: previousVotes.length + 1, // Preference order on ranked posts
+      votesRemaining: (post.max_votes_per_voter || 1) - previousVotes.length - 1,
+      blockNumber: verification.blockNumber,
+      confirmations: verification.confirmations,
     });
   } catch (error) {
+    // The same transaction was submitted concurrently and recorded by the other request
+    if (mysqlService.isDuplicateEntryError(error)) {
+      return res.status(409).json({ error: 'This transaction has already been recorded.', code: 'TX_ALREADY_RECORDED' });
+    }
     console.error('Error casting vote:', error);
     res.status(500).json({ error: `Failed to cast vote: ${(error as Error).message}` });
   }
 };
 
+// Stands in for the voter's wallet when running against the simulated chain ledger.
+// The returned hash is then submitted to POST /vote like a real wallet transaction.
+export const castVoteOnSimulatedChain = async (req: Request, res: Response) => {
+  try {
+    const { electionId, postId, candidateId } = req.body;
+    const voterWalletAddress = req.user?.walletAddress;
+
+    if (!electionId || !postId || !candidateId || !voterWalletAddress) {
+      return res.status(400).json({ error: 'Missing election ID, post ID, candidate ID, or voter wallet address.' });
+    }
+
+    const candidate = await mysqlService.getCandidateById(candidateId);
+    if (!candidate || candidate.post_id !== postId || candidate.election_id !== electionId) {
+      return res.status(400).json({ error: 'Invalid candidate ID for this post.' });
+    }
+
+    const systemContractAddress = process.env.ELECTION_SYSTEM_CONTRACT_ADDRESS;
+    if (!systemContractAddress) {
+      throw new Error('ELECTION_SYSTEM_CONTRACT_ADDRESS is not set in environment variables.');
+    }
+
+    const transactionHash = await blockchainService.castVoteAsVoterOnChain(
+      systemContractAddress,
+      electionId,
+      postId,
+      candidate.blockchain_candidate_id!,
+      voterWalletAddress
+    );
+
+    res.status(200).json({
+      message: 'Vote transaction mined on the simulated chain. Submit the transaction hash to /vote to record it.',
+      transactionHash,
+    });
+  } catch (error) {
+    console.error('Error casting vote on simulated chain:', error);
+    res.status(400).json({ error: `Simulated chain rejected the vote: ${(error as Error).message}` });
+  }
+};
+
 export const getElectionDetailsPublic = async (req: Request, res: Response) => {
   try {
     const { electionId } = req.params;
@@ -182,7 +236,7 @@ export const getPostCandidatesPublic = async (req: Request, res: Response) => {
         ...candidate,
         party_member_name: partyMember?.name,
         party_member_email: partyMember?.email,
-        image_url: partyMember?.image_url,
+        image_url: partyMember ? mediaService.resolveMediaUrl(partyMember.image_public_id, partyMember.image_url) : undefined,
         party_name: partyName,
       };
     }));
@@ -242,6 +296,32 @@ export const getVoterElectionStatus = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Builds a voter filter from the results query's gender and age range, or null if neither is set.
+ */
+const buildVoterFilter = async (gender: unknown, ageRange: unknown): Promise<((voterAddress: string) => boolean) | null> => {
+  const genderFilter = typeof gender === 'string' && gender ? gender : null;
+  let minAge: number | null = null;
+  let maxAge: number | null = null;
+  if (typeof ageRange === 'string' && ageRange) {
+    const [minAgeStr, maxAgeStr] = ageRange.split('-');
+    if (!isNaN(parseInt(minAgeStr)) && !isNaN(parseInt(maxAgeStr))) {
+      minAge = parseInt(minAgeStr);
+      maxAge = parseInt(maxAgeStr);
+    }
+  }
+  if (!genderFilter && minAge === null) return null;
+
+  const matchingWallets = new Set(
+    await mysqlService.getVoterWalletAddresses({
+      gender: (genderFilter as Voter['gender']) ?? undefined,
+      minAge: minAge ?? undefined,
+      maxAge: maxAge ?? undefined,
+    })
+  );
+  return voterAddress => matchingWallets.has(voterAddress);
+};
+
 export const getElectionResults = async (req: Request, res: Response) => {
   try {
     const { electionId } = req.params;
@@ -255,116 +335,35 @@ export const getElectionResults = async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Election has no deployed smart contract address for results.' });
     }
 
-    // Fetch candidates associated with this election from MySQL
-    const candidates = await mysqlService.getCandidatesByElectionId(parseInt(electionId));
-    const blockchainCandidateIds = candidates.map(c => c.blockchain_candidate_id!).filter(Boolean) as string[];
-
-    // If election is active, get real-time counts from blockchain
-    if (election.status === 'active') {
-      const liveResults = await blockchainService.getLiveElectionResultsFromChain(
-        election.blockchain_contract_address,
-        parseInt(electionId),
-        blockchainCandidateIds
-      );
-
-      // Map blockchain IDs back to names for display
-      const displayResults: Record<string, number> = {};
-      for (const candidate of candidates) {
-          if (candidate.blockchain_candidate_id && liveResults[candidate.blockchain_candidate_id]) {
-              const partyMember = await mysqlService.getPartyMemberById(candidate.party_member_id);
-              displayResults[partyMember?.name || candidate.blockchain_candidate_id] = liveResults[candidate.blockchain_candidate_id];
-          }
-      }
-
+    const isLive = ['active', 'paused', 'tallying'].includes(election.status);
+    const isFinal = election.status === 'ended' || election.status === 'certified';
+    if (!isLive && !isFinal) {
+      // Draft, scheduled or cancelled
       return res.status(200).json({
-        message: `Real-time results for election ${electionId} retrieved.`,
+        message: `Election ${electionId} is ${election.status}. Results are not available.`,
         election: election,
-        results: displayResults,
+        results: null,
         isFinal: false,
       });
     }
 
-    // If election is ended, get final results from MySQL (which were logged from blockchain)
-    if (election.status === 'ended') {
-      let finalResults = election.results ? JSON.parse(election.results) : {};
-
-      // Map blockchain IDs back to names for display
-      const displayResults: Record<string, number> = {};
-      for (const candidate of candidates) {
-          if (candidate.blockchain_candidate_id && finalResults[candidate.blockchain_candidate_id]) {
-              const partyMember = await mysqlService.getPartyMemberById(candidate.party_member_id);
-              displayResults[partyMember?.name || candidate.blockchain_candidate_id] = finalResults[candidate.blockchain_candidate_id];
-          }
-      }
-
-      // Filtering by gender and age range (requires joining vote_logs with voters table)
-      if (gender || ageRange) {
-        const allVoteLogs = await mysqlService.getVoteLogsByElectionId(parseInt(electionId));
-        let filteredVoteLogs: VoteLog[] = allVoteLogs; // Initialize with the correct type
-
-        // Apply gender filter
-        if (typeof gender === 'string' && gender) { // Ensure gender is a string
-          const votersPromises = filteredVoteLogs.map(log => mysqlService.getVoterByWalletAddress(log.voter_wallet_address));
-          const voters = await Promise.all(votersPromises);
-
-          filteredVoteLogs = filteredVoteLogs.filter((log, index) => {
-            const voter = voters[index];
-            return voter?.gender === gender;
-          });
-        }
-
-        // Apply age range filter
-        if (typeof ageRange === 'string' && ageRange) { // Ensure ageRange is a string
-          const [minAgeStr, maxAgeStr] = ageRange.split('-');
-          const minAge = parseInt(minAgeStr);
-          const maxAge = parseInt(maxAgeStr);
-
-          if (!isNaN(minAge) && !isNaN(maxAge)) {
-            const votersPromises = filteredVoteLogs.map(log => mysqlService.getVoterByWalletAddress(log.voter_wallet_address));
-            const voters = await Promise.all(votersPromises);
-
-            filteredVoteLogs = filteredVoteLogs.filter((log, index) => {
-              const voter = voters[index];
-              return voter && voter.age >= minAge && voter.age <= maxAge;
-            });
-          }
-        }
-
-        // Re-aggregate results based on filtered logs
-        const filteredAggregatedResults: Record<string, number> = {};
-        for (const log of filteredVoteLogs) {
-            const votedCandidate = candidates.find(c => c.id === log.candidate_id);
-            if (votedCandidate && votedCandidate.blockchain_candidate_id) {
-                const partyMember = await mysqlService.getPartyMemberById(votedCandidate.party_member_id);
-                const candidateName = partyMember?.name || votedCandidate.blockchain_candidate_id;
-                filteredAggregatedResults[candidateName] = (filteredAggregatedResults[candidateName] || 0) + 1;
-            }
-        }
-        return res.status(200).json({
-          message: `Final results for election ${electionId} filtered by ${gender || 'All Genders'} and ${ageRange || 'All Ages'}.`,
-          election: election,
-          results: filteredAggregatedResults,
-          isFinal: true,
-          filters: { gender, ageRange }
-        });
-      }
+    // Filtering by gender and age range recounts only the matching voters' ballots
+    const voterFilter = await buildVoterFilter(gender, ageRange);
 
-      return res.status(200).json({
-        message: `Final results for election ${electionId} retrieved.`,
-        election: election,
-        results: displayResults,
-        isFinal: true,
-      });
-    }
+    // Once results are published, serve the document stored at finalisation
+    const storedResults = isFinal && !voterFilter ? resultsService.getStoredResultsDocument(election) : null;
+    const results = storedResults
+      || (await resultsService.computeElectionResults(election, { isFinal, voterFilter: voterFilter || undefined })).document;
 
-    // If election is pending
-    return res.status(200).json({
-      message: `Election ${electionId} is pending. Results are not available yet.`,
+    res.status(200).json({
+      message: voterFilter
+        ? `${isFinal ? 'Final' : 'Real-time'} results for election ${electionId} filtered by ${gender || 'All Genders'} and ${ageRange || 'All Ages'}.`
+        : `${isFinal ? 'Final' : 'Real-time'} results for election ${electionId} retrieved.`,
       election: election,
-      results: {},
-      isFinal: false,
+      results: results,
+      isFinal,
+      ...(voterFilter ? { filters: { gender, ageRange } } : {}),
     });
-
   } catch (error) {
     console.error('Error getting election results:', error);
     res.status(500).json({ error: `Failed to retrieve election results: ${(error as Error).message}` });
@@ -373,10 +372,14 @@ export const getElectionResults = async (req: Request, res: Response) => {
 
 export const getAllElectionsPublic = async (req: Request, res: Response) => {
   try {
-    const elections = await mysqlService.getAllElections();
+    const parsed = parseListQuery(mysqlService.ELECTION_LIST, req.query);
+    if (!parsed.ok) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const page = await mysqlService.listElections(parsed.query);
     res.status(200).json({
-      message: 'All elections retrieved for public display.',
-      elections: elections,
+      message: 'Elections retrieved for public display.',
+      ...page,
     });
   } catch (error) {
     console.error('Error getting all public elections:', error);
@@ -394,6 +397,11 @@ export const getVoterVoteReceipts = async (req: Request, res: Response) => {
 
     const receipts = await mysqlService.getVoterReceiptsByWalletAddress(voterWalletAddress);
 
+    const systemContractAddress = process.env.ELECTION_SYSTEM_CONTRACT_ADDRESS;
+    const chainStatuses = systemContractAddress
+      ? await indexerService.getIndexedTransactionStatuses(systemContractAddress, receipts.map(r => r.transaction_hash))
+      : {};
+
     // For each receipt, fetch candidate and election details for better display
     const detailedReceipts = await Promise.all(receipts.map(async (receipt) => {
         const election = await mysqlService.getElectionById(receipt.election_id);
@@ -415,6 +423,7 @@ export const getVoterVoteReceipts = async (req: Request, res: Response) => {
             electionTitle,
             postName,
             candidateName,
+            chainStatus: chainStatuses[receipt.transaction_hash] || null,
             // You can add a link to block explorer here if needed
             blockExplorerUrl: `https://sepolia.etherscan.io/tx/${receipt.transaction_hash}` // Adjust for Hardhat if needed
         };
@@ -1,4 +1,23 @@
 -- Drop tables if they exist to allow for clean re-creation during development
+DROP TABLE IF EXISTS sessions;
+DROP TABLE IF EXISTS user_recovery_codes;
+DROP TABLE IF EXISTS user_tokens;
+DROP TABLE IF EXISTS election_role_assignments;
+DROP TABLE IF EXISTS voter_wallet_history;
+DROP TABLE IF EXISTS wallet_change_requests;
+DROP TABLE IF EXISTS auth_nonces;
+DROP TABLE IF EXISTS email_verifications;
+DROP TABLE IF EXISTS voter_changes;
+DROP TABLE IF EXISTS voter_import_jobs;
+DROP TABLE IF EXISTS media_assets;
+DROP TABLE IF EXISTS chain_candidate_tallies;
+DROP TABLE IF EXISTS chain_lifecycle_events;
+DROP TABLE IF EXISTS chain_vote_events;
+DROP TABLE IF EXISTS chain_blocks;
+DROP TABLE IF EXISTS chain_sync_cursors;
+DROP TABLE IF EXISTS tie_resolutions;
+DROP TABLE IF EXISTS post_tallies;
+DROP TABLE IF EXISTS election_status_history;
 DROP TABLE IF EXISTS voter_receipts;
 DROP TABLE IF EXISTS vote_logs;
 DROP TABLE IF EXISTS candidates;
@@ -13,8 +32,18 @@ DROP TABLE IF EXISTS users; -- For admin users, etc.
 CREATE TABLE users (
     id INT AUTO_INCREMENT PRIMARY KEY,
     email VARCHAR(255) UNIQUE NOT NULL,
-    password_hash VARCHAR(255) NOT NULL,
-    role ENUM('admin', 'voter') NOT NULL, -- 'voter' role here for backend management, not primary voter auth
+    password_hash VARCHAR(255), -- bcrypt; NULL until an invited user accepts their invite
+    -- Admin roles grant the permissions in accessControl.ts; 'voter' role here for backend management, not primary voter auth
+    role ENUM('super_admin', 'election_officer', 'registrar', 'auditor', 'observer', 'voter') NOT NULL,
+    status ENUM('invited', 'active', 'disabled') NOT NULL DEFAULT 'active', -- Only active users can log in
+    invited_by_user_id INT,
+    password_changed_at TIMESTAMP NULL, -- Login tokens issued before this are no longer accepted
+    disabled_at TIMESTAMP NULL,
+    totp_secret VARCHAR(255), -- Encrypted TOTP secret; set during enrollment, in use once totp_enabled_at is set
+    totp_enabled_at TIMESTAMP NULL,
+    totp_last_used_step BIGINT, -- Time step of the last accepted code, so a code cannot be used twice
+    totp_failed_attempts INT NOT NULL DEFAULT 0,
+    totp_locked_until TIMESTAMP NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
 );
@@ -24,7 +53,9 @@ CREATE TABLE parties (
     id INT AUTO_INCREMENT PRIMARY KEY,
     name VARCHAR(255) UNIQUE NOT NULL,
     logo_url VARCHAR(255),
+    logo_public_id VARCHAR(255), -- Media store key of the logo; its URL is resolved through the store
     description TEXT,
+    archived_at TIMESTAMP NULL, -- Archived parties are hidden from listings and accept no new members
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
 );
@@ -35,7 +66,8 @@ CREATE TABLE party_members (
     party_id INT NOT NULL,
     name VARCHAR(255) NOT NULL,
     email VARCHAR(255) UNIQUE NOT NULL,
-    image_url VARCHAR(255), -- Cloudinary URL for member's photo
+    image_url VARCHAR(255), -- URL of the member's photo
+    image_public_id VARCHAR(255), -- Media store key of the photo, when uploaded through the API
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
     FOREIGN KEY (party_id) REFERENCES parties(id) ON DELETE CASCADE
@@ -50,9 +82,10 @@ CREATE TABLE voters (
     gender ENUM('Male', 'Female', 'Other'),
     national_id_number VARCHAR(255) UNIQUE, -- If NIN is used for verification
     wallet_address VARCHAR(255) UNIQUE, -- Linked MetaMask wallet (DID)
-    auth_nonce VARCHAR(255),
     is_eligible_on_chain BOOLEAN DEFAULT FALSE, -- Set to TRUE when whitelisted on smart contract
     registration_status ENUM('pending_email_verification', 'email_verified', 'wallet_linked', 'eligible_on_chain') DEFAULT 'pending_email_verification',
+    account_status ENUM('active', 'suspended', 'deactivated', 'erased') NOT NULL DEFAULT 'active', -- Only active voters can authenticate or vote
+    erased_at TIMESTAMP NULL, -- Set when the voter's personal data was anonymised
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
 );
@@ -64,12 +97,17 @@ CREATE TABLE elections (
     description TEXT,
     start_date DATETIME NOT NULL,
     end_date DATETIME NOT NULL,
-    status ENUM('pending', 'active', 'ended') DEFAULT 'pending',
+    status ENUM('draft', 'scheduled', 'active', 'paused', 'tallying', 'ended', 'certified', 'cancelled') DEFAULT 'draft',
     blockchain_contract_address VARCHAR(255), -- Address of the deployed smart contract for this election
     results JSON, -- Store final aggregated results as JSON
     winning_candidate_id INT, -- ID of the winning candidate from the candidates table
+    tie_policy ENUM('declare_tie', 'lot', 'runoff') NOT NULL DEFAULT 'declare_tie', -- How ties are resolved when results are finalised
+    tie_seed_block_number INT, -- Block whose hash seeds lots, fixed when the election enters tallying
+    tie_seed_block_hash VARCHAR(66), -- Its hash, stored before any lot is drawn so retries draw the same lots
+    parent_election_id INT, -- Set on runoff elections: the election whose tie they resolve
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (parent_election_id) REFERENCES elections(id) ON DELETE SET NULL
 );
 
 -- 6. Posts Table (e.g., President, Governor, Senator within an election)
@@ -78,6 +116,8 @@ CREATE TABLE posts (
     election_id INT NOT NULL,
     name VARCHAR(255) NOT NULL, -- e.g., "President", "Governor"
     max_votes_per_voter INT DEFAULT 1, -- How many candidates a voter can choose for this post
+    voting_method ENUM('plurality', 'approval', 'top_n', 'irv', 'stv') NOT NULL DEFAULT 'plurality',
+    seats INT NOT NULL DEFAULT 1, -- How many candidates are elected to this post
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
     FOREIGN KEY (election_id) REFERENCES elections(id) ON DELETE CASCADE
@@ -128,4 +168,299 @@ CREATE TABLE voter_receipts (
     FOREIGN KEY (election_id) REFERENCES elections(id) ON DELETE CASCADE,
     FOREIGN KEY (post_id) REFERENCES posts(id) ON DELETE CASCADE,
     FOREIGN KEY (candidate_id) REFERENCES candidates(id) ON DELETE CASCADE
-);
\ No newline at end of file
+);
+
+-- 10. Chain Sync Cursors (indexer checkpoint per system contract)
+CREATE TABLE chain_sync_cursors (
+    contract_address VARCHAR(255) PRIMARY KEY,
+    last_block_number BIGINT NOT NULL, -- Last block fully indexed
+    last_block_hash VARCHAR(66) NOT NULL, -- Hash of that block, used to detect reorgs
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+-- 11. Chain Blocks (recent indexed block hashes, kept for the unconfirmed window to find reorg fork points)
+CREATE TABLE chain_blocks (
+    contract_address VARCHAR(255) NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    PRIMARY KEY (contract_address, block_number)
+);
+
+-- 12. Chain Vote Events (VoteCast events indexed from the blockchain; the canonical vote record)
+CREATE TABLE chain_vote_events (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    contract_address VARCHAR(255) NOT NULL,
+    election_id INT NOT NULL,
+    post_id INT NOT NULL,
+    blockchain_candidate_id VARCHAR(255) NOT NULL,
+    voter_wallet_address VARCHAR(255) NOT NULL,
+    transaction_hash VARCHAR(255) NOT NULL,
+    log_index INT NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (transaction_hash, log_index),
+    INDEX idx_chain_vote_events_election (contract_address, election_id),
+    INDEX idx_chain_vote_events_block (contract_address, block_number)
+);
+
+-- 13. Chain Lifecycle Events (election start/end and voter whitelist events indexed from the blockchain)
+CREATE TABLE chain_lifecycle_events (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    contract_address VARCHAR(255) NOT NULL,
+    event_type ENUM('ElectionStarted', 'ElectionEnded', 'VoterWhitelisted', 'VoterRemovedFromWhitelist') NOT NULL,
+    election_id INT, -- Set for election start/end events
+    voter_wallet_address VARCHAR(255), -- Set for whitelist events
+    transaction_hash VARCHAR(255) NOT NULL,
+    log_index INT NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash VARCHAR(66) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (transaction_hash, log_index),
+    INDEX idx_chain_lifecycle_events_block (contract_address, block_number)
+);
+
+-- 14. Chain Candidate Tallies (per-candidate vote counts derived from chain_vote_events)
+CREATE TABLE chain_candidate_tallies (
+    contract_address VARCHAR(255) NOT NULL,
+    election_id INT NOT NULL,
+    blockchain_candidate_id VARCHAR(255) NOT NULL,
+    vote_count INT NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    PRIMARY KEY (contract_address, election_id, blockchain_candidate_id)
+);
+
+-- 15. Election Status History (every lifecycle transition, manual or scheduled)
+CREATE TABLE election_status_history (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    election_id INT NOT NULL,
+    from_status VARCHAR(32) NOT NULL,
+    to_status VARCHAR(32) NOT NULL,
+    actor_type ENUM('admin', 'scheduler') NOT NULL,
+    actor_user_id INT, -- users.id of the admin, NULL for the scheduler
+    reason VARCHAR(255),
+    blockchain_tx_hash VARCHAR(255), -- startElection/endElection transaction, if the transition sent one
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (election_id) REFERENCES elections(id) ON DELETE CASCADE
+);
+
+-- 16. Post Tallies (per-post winners and round-by-round counts, written when results are finalised)
+CREATE TABLE post_tallies (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    election_id INT NOT NULL,
+    post_id INT NOT NULL UNIQUE,
+    voting_method VARCHAR(16) NOT NULL,
+    seats INT NOT NULL,
+    valid_ballots INT NOT NULL,
+    winner_candidate_ids JSON NOT NULL, -- candidates.id of the elected candidates
+    outcome JSON NOT NULL, -- Rounds, quota and any tie, keyed by blockchain candidate ID
+    has_tie BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (election_id) REFERENCES elections(id) ON DELETE CASCADE,
+    FOREIGN KEY (post_id) REFERENCES posts(id) ON DELETE CASCADE
+);
+
+-- 17. Tie Resolutions (how each tie found when finalising results was handled)
+CREATE TABLE tie_resolutions (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    election_id INT NOT NULL,
+    post_id INT NOT NULL,
+    policy ENUM('declare_tie', 'lot', 'runoff') NOT NULL,
+    tie_kind ENUM('seat', 'elimination') NOT NULL,
+    round INT NOT NULL,
+    tied_candidate_ids JSON NOT NULL, -- candidates.id
+    seats INT NOT NULL, -- Seats contested by the tied candidates (1 for an elimination tie)
+    selected_candidate_ids JSON, -- Drawn by lot: the winners of a seat tie, or the candidate excluded in an elimination tie
+    seed VARCHAR(66), -- keccak256(seed_block_hash, election_id); anyone can recompute the draw from it
+    seed_block_number BIGINT,
+    seed_block_hash VARCHAR(66),
+    runoff_election_id INT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (election_id) REFERENCES elections(id) ON DELETE CASCADE,
+    FOREIGN KEY (post_id) REFERENCES posts(id) ON DELETE CASCADE,
+    FOREIGN KEY (runoff_election_id) REFERENCES elections(id) ON DELETE SET NULL
+);
+
+-- 18. Media Assets (every uploaded image, so unused or replaced ones can be deleted from the media store)
+CREATE TABLE media_assets (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    public_id VARCHAR(255) UNIQUE NOT NULL, -- Key in the media store: Cloudinary public ID, file path or S3 object key
+    store ENUM('cloudinary', 'local', 's3') NOT NULL, -- Media store (MEDIA_STORE) holding the file
+    purpose ENUM('party_logo', 'member_photo', 'general') NOT NULL DEFAULT 'general',
+    upload_method ENUM('server', 'direct') NOT NULL, -- direct: uploaded by the browser straight to the store
+    status ENUM('pending', 'active', 'rejected', 'deleted') NOT NULL DEFAULT 'pending',
+    url VARCHAR(512),
+    mime_type VARCHAR(50),
+    bytes INT,
+    width INT,
+    height INT,
+    uploaded_by INT,
+    expires_at TIMESTAMP NULL, -- Pending direct uploads must be completed before this
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (uploaded_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_media_assets_status (status, expires_at)
+);
+
+-- 19. Voter Import Jobs (bulk registration from a CSV voter roll)
+CREATE TABLE voter_import_jobs (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    file_name VARCHAR(255),
+    dry_run BOOLEAN NOT NULL DEFAULT FALSE, -- Validated only; nothing was registered
+    status ENUM('processing', 'completed', 'failed') NOT NULL DEFAULT 'processing',
+    total_rows INT NOT NULL DEFAULT 0,
+    valid_rows INT NOT NULL DEFAULT 0, -- Rows that passed validation and are (to be) registered
+    processed_rows INT NOT NULL DEFAULT 0, -- Valid rows attempted so far
+    imported_rows INT NOT NULL DEFAULT 0,
+    failed_rows INT NOT NULL DEFAULT 0, -- Invalid rows plus rows rejected by the database on insert
+    verification_emails_sent INT NOT NULL DEFAULT 0, -- Imported voters sent their verification email
+    verification_emails_failed INT NOT NULL DEFAULT 0, -- Imported voters whose verification email could not be sent
+    errors JSON, -- [{ row, email, field, message }]; row 1 is the header
+    failure_reason TEXT, -- Why the job as a whole failed
+    created_by INT,
+    locked_by VARCHAR(128), -- API instance (host:pid:random) running the import
+    heartbeat_at TIMESTAMP NULL, -- Refreshed while the import runs; a stale one means its instance stopped
+    completed_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- 20. Voter Changes (admin edits, suspensions and erasures of voter profiles, with before/after values)
+CREATE TABLE voter_changes (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    voter_id INT NOT NULL,
+    action ENUM('update', 'suspend', 'deactivate', 'reactivate', 'erase') NOT NULL,
+    changes JSON NOT NULL, -- { field: { before, after } }; personal data is redacted when the voter is erased
+    reason VARCHAR(255),
+    actor_user_id INT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (voter_id) REFERENCES voters(id) ON DELETE CASCADE,
+    FOREIGN KEY (actor_user_id) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_voter_changes_voter (voter_id, created_at)
+);
+
+-- 21. Email Verifications (link and one-time code sent to confirm a voter's email address)
+CREATE TABLE email_verifications (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    voter_id INT NOT NULL,
+    email VARCHAR(255) NOT NULL, -- Address the link and code were sent to; must still be the voter's email
+    code_hash CHAR(64) NOT NULL, -- SHA-256 of the one-time code
+    attempts INT NOT NULL DEFAULT 0, -- Codes entered
+    expires_at TIMESTAMP NOT NULL,
+    consumed_at TIMESTAMP NULL, -- Used, or superseded by a newer verification
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (voter_id) REFERENCES voters(id) ON DELETE CASCADE,
+    INDEX idx_email_verifications_voter (voter_id, created_at)
+);
+
+-- 22. Auth Nonces (single-use nonces of Sign-In with Ethereum messages issued to voters)
+CREATE TABLE auth_nonces (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    nonce VARCHAR(64) UNIQUE NOT NULL,
+    voter_id INT NOT NULL,
+    wallet_address VARCHAR(255) NOT NULL, -- Address the message was issued for (lowercase)
+    issued_at TIMESTAMP NOT NULL,
+    expires_at TIMESTAMP NOT NULL, -- The message's Expiration Time; the nonce is useless after it
+    used_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (voter_id) REFERENCES voters(id) ON DELETE CASCADE,
+    INDEX idx_auth_nonces_expires (expires_at)
+);
+
+-- 23. Wallet Change Requests (a voter signing in with a different wallet; applied once an admin approves)
+CREATE TABLE wallet_change_requests (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    voter_id INT NOT NULL,
+    current_wallet_address VARCHAR(255) NOT NULL, -- Bound when the request was made (lowercase)
+    requested_wallet_address VARCHAR(255) NOT NULL, -- Proven by a signed sign-in message (lowercase)
+    status ENUM('pending', 'approved', 'rejected', 'cancelled') NOT NULL DEFAULT 'pending', -- cancelled: replaced by a newer request
+    reason TEXT, -- Admin's note on approval or rejection
+    reviewed_by_user_id INT,
+    reviewed_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (voter_id) REFERENCES voters(id) ON DELETE CASCADE,
+    FOREIGN KEY (reviewed_by_user_id) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_wallet_change_requests_status (status, created_at),
+    INDEX idx_wallet_change_requests_voter (voter_id, status)
+);
+
+-- 24. Voter Wallet History (every wallet bound to a voter, and when it was replaced)
+CREATE TABLE voter_wallet_history (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    voter_id INT NOT NULL,
+    wallet_address VARCHAR(255) NOT NULL, -- Lowercase
+    bound_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    unbound_at TIMESTAMP NULL, -- NULL while this is the voter's current wallet
+    change_request_id INT, -- The approved request that bound it; NULL for the first wallet linked at sign-in
+    whitelist_tx_hash VARCHAR(255), -- Set if binding it sent a whitelist transaction
+    removal_tx_hash VARCHAR(255), -- Set if unbinding it sent a whitelist removal transaction
+    FOREIGN KEY (voter_id) REFERENCES voters(id) ON DELETE CASCADE,
+    FOREIGN KEY (change_request_id) REFERENCES wallet_change_requests(id) ON DELETE SET NULL,
+    INDEX idx_voter_wallet_history_voter (voter_id, bound_at),
+    INDEX idx_voter_wallet_history_wallet (wallet_address)
+);
+
+-- 25. Election Role Assignments (admin roles granted for one election only, on top of the user's own role)
+CREATE TABLE election_role_assignments (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    user_id INT NOT NULL,
+    election_id INT NOT NULL,
+    role ENUM('election_officer', 'registrar', 'auditor', 'observer') NOT NULL,
+    assigned_by_user_id INT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (election_id) REFERENCES elections(id) ON DELETE CASCADE,
+    FOREIGN KEY (assigned_by_user_id) REFERENCES users(id) ON DELETE SET NULL,
+    UNIQUE (user_id, election_id, role),
+    INDEX idx_election_role_assignments_election (election_id)
+);
+
+-- 26. User Tokens (one-time invite and password reset links for admin users)
+CREATE TABLE user_tokens (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    user_id INT NOT NULL,
+    purpose ENUM('invite', 'password_reset') NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP NULL, -- Set when the link is used, or when a newer one replaces it
+    created_by_user_id INT, -- Admin who sent the invite; NULL for resets the user asked for
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (created_by_user_id) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_user_tokens_user (user_id, purpose)
+);
+
+-- 27. User Recovery Codes (single-use codes that stand in for a TOTP code when the authenticator is lost)
+CREATE TABLE user_recovery_codes (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    user_id INT NOT NULL,
+    code_hash CHAR(64) NOT NULL, -- SHA-256 of the normalised code
+    used_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    UNIQUE (user_id, code_hash)
+);
+
+-- 28. Sessions (refresh tokens; every rotation adds a row to the login's family)
+CREATE TABLE sessions (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    family_id CHAR(36) NOT NULL, -- Shared by all refresh tokens of one login; access tokens carry it as sid
+    user_id INT, -- Admin sessions
+    voter_id INT, -- Voter sessions
+    wallet_address VARCHAR(42), -- Wallet a voter session was signed in with
+    refresh_token_hash CHAR(64) UNIQUE NOT NULL, -- SHA-256 of the refresh token
+    expires_at TIMESTAMP NOT NULL, -- End of the whole login; rotation does not extend it
+    rotated_at TIMESTAMP NULL, -- Set when exchanged for a newer token; presenting it again revokes the family
+    revoked_at TIMESTAMP NULL,
+    revoked_reason ENUM('logout', 'logout_all', 'refresh_token_reused', 'password_changed', 'account_disabled', 'wallet_changed', 'revoked_by_admin'),
+    user_agent VARCHAR(255),
+    ip_address VARCHAR(45),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (voter_id) REFERENCES voters(id) ON DELETE CASCADE,
+    INDEX idx_sessions_family (family_id),
+    INDEX idx_sessions_user (user_id, revoked_at),
+    INDEX idx_sessions_voter (voter_id, revoked_at),
+    INDEX idx_sessions_expires_at (expires_at)
+);
@@ -1,7 +1,7 @@
 import pool from '../config/database';
 import fs from 'fs/promises';
 import path from 'path';
-import bcrypt from 'bcryptjs';
+import { hashPassword, validatePassword } from '../services/passwords';
 
 async function seedDatabase() {
   try {
@@ -23,13 +23,18 @@ async function seedDatabase() {
 
     // Hash admin password
     const adminPassword = process.env.ADMIN_PASSWORD || 'adminpassword123';
-    const passwordHash = await bcrypt.hash(adminPassword, 10); // Salt rounds: 10
+    const adminEmail = process.env.ADMIN_EMAIL || 'admin@votex.com';
+    const passwordErrors = validatePassword(adminPassword, adminEmail);
+    if (passwordErrors.length > 0) {
+      console.warn(`ADMIN_PASSWORD is weak; change it after logging in. ${passwordErrors.join(' ')}`);
+    }
+    const passwordHash = await hashPassword(adminPassword);
 
     // Seed Users (Admin)
     const [userResult] = await connection.execute(
-      `INSERT INTO users (email, password_hash, role) VALUES (?, ?, ?)
-       ON DUPLICATE KEY UPDATE password_hash = VALUES(password_hash), role = VALUES(role);`,
-      [process.env.ADMIN_EMAIL || 'admin@votex.com', passwordHash, 'admin']
+      `INSERT INTO users (email, password_hash, role, status) VALUES (?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE password_hash = VALUES(password_hash), role = VALUES(role), status = VALUES(status);`,
+      [adminEmail, passwordHash, 'super_admin', 'active']
     );
     console.log('Admin user seeded/updated.');
 
@@ -1,12 +1,33 @@
-import { Router, Request, Response, NextFunction } from "express";
-import { adminLogin } from "../controllers/authController";
+import express, { Router, Request, Response, NextFunction } from "express";
+import {
+  adminLogin,
+  acceptAdminInvite,
+  requestAdminPasswordReset,
+  resetAdminPassword,
+  changeAdminPassword,
+  completeAdminTwoFactorLogin,
+  setupAdminTwoFactor,
+  enableAdminTwoFactor,
+  disableAdminTwoFactor,
+  regenerateAdminRecoveryCodes,
+  refreshAdminToken,
+  logout,
+  logoutAll,
+} from "../controllers/authController";
 import * as adminController from "../controllers/adminController";
+import * as mediaController from "../controllers/mediaController";
 import { verifyToken } from "../services/authService";
+import { findUserById, getPostById } from "../services/mysqlService";
+import { hasPermission, isAdminRole, Permission } from "../services/accessControl";
+import { isTwoFactorEnabled, isTwoFactorRequired, verifyPreAuthToken } from "../services/twoFactorService";
+import { VOTER_IMPORT_MAX_BYTES } from "../services/voterImportService";
 import { DecodedToken } from "../types/index.d";
 
 const router = Router();
 
-const authenticateAdmin = (req: Request, res: Response, next: NextFunction) => {
+// allowPreAuth: also accept the pre-auth token from the first login step, for setting up two-factor
+// authentication when the user's role requires it
+const authenticateAdmin = (allowPreAuth = false) => async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
     return res
@@ -15,55 +36,179 @@ const authenticateAdmin = (req: Request, res: Response, next: NextFunction) => {
   }
 
   const token = authHeader.split(" ")[1];
-  const decoded = verifyToken(token);
 
-  if (!decoded) {
-    return res.status(403).json({ error: "Invalid or expired token." });
-  }
+  // The role is read from the database, so role changes apply to tokens already issued
+  try {
+    let decoded = await verifyToken(token);
+    const preAuth = !decoded && allowPreAuth ? verifyPreAuthToken(token) : null;
+    if (preAuth) {
+      decoded = { id: preAuth.userId, role: "voter", iat: preAuth.issuedAt, exp: 0 }; // The role is loaded below
+      res.locals.preAuth = true;
+    }
 
-  if (decoded.role !== "admin") {
-    return res
-      .status(403)
-      .json({ error: "Access denied. Admin role required." });
-  }
+    if (!decoded) {
+      return res.status(403).json({ error: "Invalid or expired token." });
+    }
 
-  req.user = decoded;
+    const user = decoded.id ? await findUserById(decoded.id) : null;
+    if (!user || !isAdminRole(user.role)) {
+      return res
+        .status(403)
+        .json({ error: "Access denied. Admin role required." });
+    }
+    if (user.status !== "active") {
+      return res
+        .status(403)
+        .json({ error: `Account is ${user.status}.`, code: "USER_NOT_ACTIVE" });
+    }
+    // Tokens issued before a password change or reset are no longer accepted
+    if (user.password_changed_at && decoded.iat * 1000 < new Date(user.password_changed_at).getTime()) {
+      return res
+        .status(401)
+        .json({ error: "Password was changed. Log in again.", code: "TOKEN_REVOKED" });
+    }
+    if (!allowPreAuth && isTwoFactorRequired(user.role) && !isTwoFactorEnabled(user)) {
+      return res
+        .status(403)
+        .json({ error: "Your role requires two-factor authentication. Set it up to continue.", code: "TWO_FACTOR_SETUP_REQUIRED" });
+    }
+    req.user = { ...decoded, email: user.email, role: user.role };
+  } catch (error) {
+    console.error("Error loading admin user:", error);
+    return res.status(500).json({ error: "Failed to authenticate admin." });
+  }
   next();
 };
 
+// Election a route concerns, for permissions granted by election role assignments
+type ElectionScope = (req: Request) => Promise<number | null>;
+
+const electionFromParams: ElectionScope = async (req) =>
+  req.params.electionId ? parseInt(req.params.electionId) : null;
+
+const electionFromPost: ElectionScope = async (req) => {
+  const post = await getPostById(parseInt(req.params.postId));
+  return post ? post.election_id : null;
+};
+
+const requirePermission = (permission: Permission, scope?: ElectionScope) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const electionId = scope ? await scope(req) : null;
+      if (!(await hasPermission(req.user!, permission, electionId))) {
+        return res
+          .status(403)
+          .json({ error: `Access denied. Requires the ${permission} permission.`, code: "PERMISSION_DENIED" });
+      }
+    } catch (error) {
+      console.error("Error checking permissions:", error);
+      return res.status(500).json({ error: "Failed to check permissions." });
+    }
+    next();
+  };
+
 router.post("/login", adminLogin);
+router.post("/login/2fa", completeAdminTwoFactorLogin);
+router.post("/token/refresh", refreshAdminToken);
+router.post("/invites/accept", acceptAdminInvite);
+router.post("/password/forgot", requestAdminPasswordReset);
+router.post("/password/reset", resetAdminPassword);
+
+// Two-factor setup, also reachable with a pre-auth token
+router.post("/2fa/setup", authenticateAdmin(true), setupAdminTwoFactor);
+router.post("/2fa/enable", authenticateAdmin(true), enableAdminTwoFactor);
+
+router.use(authenticateAdmin());
+
+// Current user's role and permissions
+router.get("/me", adminController.getMyAccess);
+router.put("/me/password", changeAdminPassword);
+router.post("/logout", logout);
+router.post("/logout-all", logoutAll);
+router.post("/2fa/disable", disableAdminTwoFactor);
+router.post("/2fa/recovery-codes", regenerateAdminRecoveryCodes);
 
-router.use(authenticateAdmin);
+// Admin User Management
+router.get("/users", requirePermission("users:manage"), adminController.getUsers);
+router.post("/users", requirePermission("users:manage"), adminController.inviteUser);
+router.get("/users/:userId", requirePermission("users:manage"), adminController.getUser);
+router.put("/users/:userId/role", requirePermission("users:manage"), adminController.updateUserRole);
+router.post("/users/:userId/disable", requirePermission("users:manage"), adminController.disableUser);
+router.post("/users/:userId/enable", requirePermission("users:manage"), adminController.enableUser);
+router.delete("/users/:userId/2fa", requirePermission("users:manage"), adminController.resetUserTwoFactor);
+router.post("/users/:userId/sessions/revoke", requirePermission("users:manage"), adminController.revokeUserSessions);
 
 // Election Management
-router.post("/elections", adminController.createElection);
-router.get("/elections", adminController.getAllElections);
-router.get("/elections/:electionId", adminController.getElectionDetails);
+router.post("/elections", requirePermission("elections:manage"), adminController.createElection);
+router.get("/elections", requirePermission("elections:read"), adminController.getAllElections);
+router.get("/elections/:electionId", requirePermission("elections:read", electionFromParams), adminController.getElectionDetails);
 router.put(
   "/elections/:electionId/status",
+  requirePermission("elections:run", electionFromParams),
   adminController.updateElectionStatus
 );
-router.post("/elections/:electionId/start", adminController.startElection);
-router.post("/elections/:electionId/end", adminController.endElection);
-router.get("/elections/:electionId/audit", adminController.auditElection);
-router.get("/elections/:electionId/whitelisted-voters", adminController.getWhitelistedVoters);
+router.post("/elections/:electionId/start", requirePermission("elections:run", electionFromParams), adminController.startElection);
+router.post("/elections/:electionId/end", requirePermission("elections:run", electionFromParams), adminController.endElection);
+router.get("/elections/:electionId/status-history", requirePermission("audit:read", electionFromParams), adminController.getElectionStatusHistory);
+router.get("/elections/:electionId/tally", requirePermission("results:read", electionFromParams), adminController.getElectionTally);
+router.get("/elections/:electionId/audit", requirePermission("audit:read", electionFromParams), adminController.auditElection);
+router.get("/elections/:electionId/whitelisted-voters", requirePermission("voters:read", electionFromParams), adminController.getWhitelistedVoters);
+
+// Election Role Assignments (roles granted for one election)
+router.get("/elections/:electionId/role-assignments", requirePermission("users:manage"), adminController.getElectionRoleAssignments);
+router.post("/elections/:electionId/role-assignments", requirePermission("users:manage"), adminController.assignElectionRole);
+router.delete("/elections/:electionId/role-assignments/:assignmentId", requirePermission("users:manage"), adminController.removeElectionRoleAssignment);
 
 // Post Management within an Election
-router.post("/elections/:electionId/posts", adminController.createPost);
-router.get("/elections/:electionId/posts", adminController.getElectionPosts);
+router.post("/elections/:electionId/posts", requirePermission("elections:manage", electionFromParams), adminController.createPost);
+router.get("/elections/:electionId/posts", requirePermission("elections:read", electionFromParams), adminController.getElectionPosts);
 
 // Candidate Management
-router.post("/posts/:postId/candidates", adminController.addCandidateToPost);
-router.get("/posts/:postId/candidates", adminController.getPostCandidates);
+router.post("/posts/:postId/candidates", requirePermission("elections:manage", electionFromPost), adminController.addCandidateToPost);
+router.get("/posts/:postId/candidates", requirePermission("elections:read", electionFromPost), adminController.getPostCandidates);
 
 // Voter Management (Admin's role in registering voters)
-router.post("/voters", adminController.registerVoterByAdmin);
-router.get("/voters", adminController.getAllVoters);
+router.post("/voters", requirePermission("voters:manage"), adminController.registerVoterByAdmin);
+router.post(
+  "/voters/import",
+  requirePermission("voters:manage"),
+  express.text({ type: "text/csv", limit: VOTER_IMPORT_MAX_BYTES }),
+  adminController.importVoters
+);
+router.get("/voters/import/:jobId", requirePermission("voters:read"), adminController.getVoterImportJob);
+router.get("/voters/import/:jobId/errors", requirePermission("voters:read"), adminController.getVoterImportErrors);
+router.get("/voters", requirePermission("voters:read"), adminController.getAllVoters);
+router.get("/voters/export", requirePermission("voters:export"), adminController.exportVoters);
+router.get("/voters/:voterId", requirePermission("voters:read"), adminController.getVoter);
+router.patch("/voters/:voterId", requirePermission("voters:manage"), adminController.updateVoter);
+router.post("/voters/:voterId/verification-email", requirePermission("voters:manage"), adminController.resendVoterVerification);
+router.post("/voters/:voterId/suspend", requirePermission("voters:manage"), adminController.suspendVoter);
+router.post("/voters/:voterId/deactivate", requirePermission("voters:manage"), adminController.deactivateVoter);
+router.post("/voters/:voterId/reactivate", requirePermission("voters:manage"), adminController.reactivateVoter);
+router.post("/voters/:voterId/sessions/revoke", requirePermission("voters:manage"), adminController.revokeVoterSessions);
+router.delete("/voters/:voterId", requirePermission("voters:manage"), adminController.eraseVoter);
+router.get("/voters/:voterId/changes", requirePermission("voters:read"), adminController.getVoterChanges);
+router.get("/voters/:voterId/wallet-history", requirePermission("voters:read"), adminController.getVoterWalletHistory);
+
+// Wallet Change Requests (voters moving to another wallet)
+router.get("/wallet-change-requests", requirePermission("voters:read"), adminController.getWalletChangeRequests);
+router.post("/wallet-change-requests/:requestId/approve", requirePermission("voters:manage"), adminController.approveWalletChangeRequest);
+router.post("/wallet-change-requests/:requestId/reject", requirePermission("voters:manage"), adminController.rejectWalletChangeRequest);
 
 // Party and Party Member Management
-router.get("/parties", adminController.getAllParties);
-router.get("/parties/:partyId/members", adminController.getPartyMembers);
-router.post("/party-members", adminController.createPartyMember);
-router.get("/party-members", adminController.getAllPartyMembers); 
+router.post("/parties", requirePermission("parties:manage"), adminController.createParty);
+router.get("/parties", requirePermission("parties:read"), adminController.getAllParties);
+router.put("/parties/:partyId", requirePermission("parties:manage"), adminController.updateParty);
+router.post("/parties/:partyId/archive", requirePermission("parties:manage"), adminController.archiveParty);
+router.post("/parties/:partyId/restore", requirePermission("parties:manage"), adminController.restoreParty);
+router.delete("/parties/:partyId", requirePermission("parties:manage"), adminController.deleteParty);
+router.get("/parties/:partyId/members", requirePermission("parties:read"), adminController.getPartyMembers);
+router.post("/party-members", requirePermission("parties:manage"), adminController.createPartyMember);
+router.get("/party-members", requirePermission("parties:read"), adminController.getAllPartyMembers);
+
+// Media (images for party logos and member photos)
+router.post("/media", requirePermission("media:manage"), mediaController.uploadImage);
+router.post("/media/direct-uploads", requirePermission("media:manage"), mediaController.createDirectUpload);
+router.post("/media/direct-uploads/:assetId/complete", requirePermission("media:manage"), mediaController.completeDirectUpload);
 
 export default router;
@@ -2,29 +2,43 @@ import { Router, Request, Response, NextFunction } from 'express';
 import * as voterController from '../controllers/voterController';
 import * as authController from '../controllers/authController';
 import { verifyToken } from '../services/authService';
+import { getChainAdapterKind } from '../services/blockchainService';
+import { getVoterById } from '../services/mysqlService';
 import { DecodedToken }  from '../types/index.d';
 
 const router = Router();
 
-// Message that the frontend will sign for voter authentication
-export const VOTER_AUTH_MESSAGE = "Authenticate to VoteX: Please sign this message to verify your identity. This action will not cost gas.";
-
 // --- Voter Authentication Middleware ---
-const authenticateVoter = (req: Request, res: Response, next: NextFunction) => {
+const authenticateVoter = async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return res.status(401).json({ error: 'Authentication token required. Format: Bearer [token]' });
   }
 
   const token = authHeader.split(' ')[1];
-  const decoded = verifyToken(token);
 
-  if (!decoded) {
-    return res.status(403).json({ error: 'Invalid or expired token.' });
-  }
+  // Tokens outlive suspensions and wallet changes, so the voter's account is checked on every request
+  let decoded: DecodedToken | null;
+  try {
+    decoded = await verifyToken(token);
+    if (!decoded) {
+      return res.status(403).json({ error: 'Invalid or expired token.' });
+    }
 
-  if (decoded.role !== 'voter' || !decoded.walletAddress) {
-    return res.status(403).json({ error: 'Access denied. Valid voter token with wallet address required.' });
+    if (decoded.role !== 'voter' || !decoded.walletAddress) {
+      return res.status(403).json({ error: 'Access denied. Valid voter token with wallet address required.' });
+    }
+
+    const voter = decoded.id ? await getVoterById(decoded.id) : null;
+    if (!voter || (voter.account_status && voter.account_status !== 'active')) {
+      return res.status(403).json({ error: 'Voter account is not active.', code: 'VOTER_NOT_ACTIVE' });
+    }
+    if (voter.wallet_address?.toLowerCase() !== decoded.walletAddress.toLowerCase()) {
+      return res.status(403).json({ error: 'This wallet is no longer linked to your account. Sign in again.', code: 'WALLET_CHANGED' });
+    }
+  } catch (error) {
+    console.error('Error checking voter account status:', error);
+    return res.status(500).json({ error: 'Failed to authenticate voter.' });
   }
 
   req.user = decoded;
@@ -32,11 +46,11 @@ const authenticateVoter = (req: Request, res: Response, next: NextFunction) => {
 };
 
 // --- Public Routes (No Authentication Required) ---
-router.get('/auth-message', (req: Request, res: Response) => {
-  res.status(200).json({ message: VOTER_AUTH_MESSAGE });
-});
+router.post('/verify-email', authController.verifyVoterEmail);
+router.post('/resend-verification', authController.resendVoterEmailVerification);
 router.post('/request-auth-message', authController.requestVoterAuthMessage);
 router.post('/authenticate', authController.voterAuthenticate);
+router.post('/token/refresh', authController.refreshVoterToken);
 router.get('/elections/:electionId/results', voterController.getElectionResults);
 router.get('/elections/:electionId', voterController.getElectionDetailsPublic);
 router.get('/elections/:electionId/posts', voterController.getElectionPostsPublic);
@@ -45,10 +59,17 @@ router.get('/public/elections', voterController.getAllElectionsPublic);
 
 // --- Protected Voter Routes (Require Authentication) ---
 router.use(authenticateVoter);
+router.post('/logout', authController.logout);
+router.post('/logout-all', authController.logoutAll);
 router.get('/elections', voterController.getAvailableElections);
 router.post('/vote', voterController.castVote);
 router.get('/elections/:electionId/status', voterController.getVoterElectionStatus);
 router.get('/receipts', voterController.getVoterVoteReceipts);
 
+// Offline runs only: the simulated ledger signs castVote on the voter's behalf
+if (getChainAdapterKind() === 'simulated') {
+  router.post('/simulated-chain/vote', voterController.castVoteOnSimulatedChain);
+}
+
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,65 @@
+// --- Role-Based Access Control ---
+// Admin users have one role of their own, which applies everywhere, and can be given further roles
+// for single elections (election_role_assignments). Routes require a permission; a user has it if
+// their own role grants it, or if the route concerns an election and a role assigned for that
+// election grants it.
+
+import * as mysqlService from './mysqlService';
+import { AdminRole, ElectionRoleAssignment } from '../types/index.d';
+
+export const ADMIN_ROLES: readonly AdminRole[] = ['super_admin', 'election_officer', 'registrar', 'auditor', 'observer'];
+
+// Roles that can be assigned for a single election; super admins already have every permission
+export const ELECTION_SCOPED_ROLES: readonly ElectionRoleAssignment['role'][] = ['election_officer', 'registrar', 'auditor', 'observer'];
+
+export const PERMISSIONS = [
+  'elections:read', // Elections, posts and candidates
+  'elections:manage', // Create elections, posts and candidates
+  'elections:run', // Start, end, pause and otherwise change an election's status
+  'results:read', // Tallies
+  'audit:read', // Audit reports and status history
+  'voters:read',
+  'voters:manage', // Register, import, edit, suspend and erase voters; review wallet changes
+  'voters:export',
+  'parties:read',
+  'parties:manage',
+  'media:manage',
+  'users:manage', // Invite, disable and re-enable admin users; change roles and role assignments
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  super_admin: PERMISSIONS,
+  election_officer: [
+    'elections:read', 'elections:manage', 'elections:run', 'results:read', 'audit:read',
+    'voters:read', 'parties:read', 'parties:manage', 'media:manage',
+  ],
+  registrar: ['elections:read', 'voters:read', 'voters:manage', 'voters:export', 'parties:read'],
+  auditor: ['audit:read', 'results:read'], // Read-only, and only audits and results
+  observer: ['elections:read', 'results:read', 'parties:read'],
+};
+
+export const isAdminRole = (role: unknown): role is AdminRole => ADMIN_ROLES.includes(role as AdminRole);
+
+export const getRolePermissions = (role: AdminRole): readonly Permission[] => ROLE_PERMISSIONS[role] || [];
+
+/**
+ * Whether an admin user has a permission, through their own role or, for a route about one election,
+ * a role assigned to them for that election.
+ * @param {{ id?: number; role: string }} user - The authenticated user.
+ * @param {Permission} permission - The permission the route requires.
+ * @param {number | null} [electionId] - The election the route concerns, if any.
+ * @returns {Promise<boolean>} True if the user has the permission.
+ */
+export const hasPermission = async (
+  user: { id?: number; role: string },
+  permission: Permission,
+  electionId: number | null = null
+): Promise<boolean> => {
+  if (!isAdminRole(user.role)) return false;
+  if (getRolePermissions(user.role).includes(permission)) return true;
+  if (electionId === null || !user.id) return false;
+  const assignments = await mysqlService.getUserElectionRoleAssignments(user.id, electionId);
+  return assignments.some(assignment => getRolePermissions(assignment.role).includes(permission));
+};
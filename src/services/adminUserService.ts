@@ -0,0 +1,341 @@
+import dotenv from 'dotenv';
+import pool from '../config/database';
+import * as mysqlService from './mysqlService';
+import { generatePurposeToken, verifyPurposeToken } from './authService';
+import { isAdminRole } from './accessControl';
+import { hashPassword, validatePassword, verifyPassword } from './passwords';
+import { getMailTransport } from './mail';
+import { EMAIL_PATTERN } from './voterValidation';
+import { AdminRole, User, UserToken } from '../types/index.d';
+
+dotenv.config();
+
+// --- Configuration ---
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+const ADMIN_INVITE_TTL_HOURS = parseInt(process.env.ADMIN_INVITE_TTL_HOURS || '72', 10);
+const ADMIN_PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.ADMIN_PASSWORD_RESET_TTL_MINUTES || '30', 10);
+// Pages of the frontend that receive ?token= and post it with the new password
+const ADMIN_INVITE_URL = process.env.ADMIN_INVITE_URL || `${FRONTEND_URL}/admin/accept-invite`;
+const ADMIN_PASSWORD_RESET_URL = process.env.ADMIN_PASSWORD_RESET_URL || `${FRONTEND_URL}/admin/reset-password`;
+
+export type PublicUser = Omit<User, 'password_hash' | 'totp_secret' | 'totp_last_used_step'>;
+
+export type AdminUserResult =
+  | { ok: true; user: PublicUser; expiresAt?: Date }
+  | { ok: false; status: number; error: string; code?: string };
+
+// Status an admin action moves the user to, and the statuses it can be taken from
+const STATUS_ACTIONS: Record<'disable' | 'enable', { from: User['status'][] }> = {
+  disable: { from: ['invited', 'active'] },
+  enable: { from: ['disabled'] },
+};
+
+export type UserStatusAction = keyof typeof STATUS_ACTIONS;
+
+const TOKEN_EMAILS: Record<UserToken['purpose'], { url: string; ttlSeconds: number; subject: string; body: string }> = {
+  invite: {
+    url: ADMIN_INVITE_URL,
+    ttlSeconds: ADMIN_INVITE_TTL_HOURS * 60 * 60,
+    subject: 'You have been invited to administer VoteX',
+    body: 'You have been invited to administer VoteX. Choose a password to activate your account by opening this link:',
+  },
+  password_reset: {
+    url: ADMIN_PASSWORD_RESET_URL,
+    ttlSeconds: ADMIN_PASSWORD_RESET_TTL_MINUTES * 60,
+    subject: 'Reset your VoteX password',
+    body: 'Someone asked to reset the password of your VoteX admin account. Choose a new password by opening this link:',
+  },
+};
+
+const tokenPurpose = (purpose: UserToken['purpose']) => `admin-${purpose.replace('_', '-')}`;
+
+export const toPublicUser = ({ password_hash, totp_secret, totp_last_used_step, ...user }: User): PublicUser => user;
+
+// password_changed_at is compared with the whole-second iat of login tokens, so it is stored without a fraction
+const wholeSecondsNow = () => new Date(Math.floor(Date.now() / 1000) * 1000);
+
+/**
+ * Emails a user a one-time link for an invite or a password reset. Links sent to them earlier for the
+ * same purpose stop working.
+ * @returns {Promise<Date>} When the link expires.
+ */
+const sendUserTokenEmail = async (user: User, purpose: UserToken['purpose'], createdByUserId: number | null): Promise<Date> => {
+  const { url, ttlSeconds, subject, body } = TOKEN_EMAILS[purpose];
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+  await mysqlService.useUserTokens(user.id!, purpose);
+  const tokenId = await mysqlService.createUserToken({
+    user_id: user.id!,
+    purpose,
+    expires_at: expiresAt,
+    created_by_user_id: createdByUserId,
+  });
+
+  const token = generatePurposeToken(tokenPurpose(purpose), String(user.id), String(tokenId), ttlSeconds);
+  try {
+    await getMailTransport().send({
+      to: user.email,
+      subject,
+      text: [
+        'Hello,',
+        '',
+        body,
+        `${url}?token=${encodeURIComponent(token)}`,
+        '',
+        `The link can be used once and expires at ${expiresAt.toISOString()}. If you were not expecting this email, you can ignore it.`,
+      ].join('\n'),
+    });
+  } catch (error) {
+    await mysqlService.deleteUserToken(tokenId);
+    throw error;
+  }
+  return expiresAt;
+};
+
+/**
+ * Invites an admin user by email. The user is created as invited, without a password, and is sent a
+ * link to set one that is valid for ADMIN_INVITE_TTL_HOURS. Inviting someone who is still invited
+ * sends them a new link, with the new role.
+ * @param {unknown} email - The new user's email address.
+ * @param {unknown} role - Their admin role.
+ * @param {number | null} invitedByUserId - The admin sending the invite.
+ * @returns {Promise<AdminUserResult>} The invited user and when the link expires, or why they cannot be invited.
+ */
+export const inviteAdminUser = async (email: unknown, role: unknown, invitedByUserId: number | null): Promise<AdminUserResult> => {
+  const address = typeof email === 'string' ? email.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(address)) {
+    return { ok: false, status: 400, error: 'A valid email address is required.' };
+  }
+  if (!isAdminRole(role)) {
+    return { ok: false, status: 400, error: 'Invalid role. Must be an admin role.' };
+  }
+
+  let user = await mysqlService.findUserByEmail(address);
+  if (user && user.status !== 'invited') {
+    return { ok: false, status: 409, error: 'A user with this email address already exists.', code: 'USER_EXISTS' };
+  }
+  try {
+    if (user) {
+      await mysqlService.updateUser(user.id!, { role, invited_by_user_id: invitedByUserId });
+    } else {
+      await mysqlService.createUser({
+        email: address,
+        password_hash: null,
+        role,
+        status: 'invited',
+        invited_by_user_id: invitedByUserId,
+      });
+    }
+  } catch (error) {
+    if (mysqlService.isDuplicateEntryError(error)) {
+      return { ok: false, status: 409, error: 'A user with this email address already exists.', code: 'USER_EXISTS' };
+    }
+    throw error;
+  }
+  user = (await mysqlService.findUserByEmail(address))!;
+  const expiresAt = await sendUserTokenEmail(user, 'invite', invitedByUserId);
+  return { ok: true, user: toPublicUser(user), expiresAt };
+};
+
+/**
+ * Sets a user's password with a one-time link from an invite or a password reset email. Accepting an
+ * invite also activates the account. Every other link sent to the user stops working.
+ */
+const setPasswordWithToken = async (token: string, purpose: UserToken['purpose'], password: unknown): Promise<AdminUserResult> => {
+  const invalid: AdminUserResult = {
+    ok: false,
+    status: 400,
+    error: purpose === 'invite'
+      ? 'Invite link is invalid, already used or has expired. Ask an admin for a new invite.'
+      : 'Reset link is invalid, already used or has expired. Request a new one.',
+    code: 'INVALID_USER_TOKEN',
+  };
+  const claims = verifyPurposeToken(token, tokenPurpose(purpose));
+  const userToken = claims && (await mysqlService.getUserTokenById(parseInt(claims.jwtId)));
+  const user = userToken && (await mysqlService.findUserById(userToken.user_id));
+  if (!userToken || !user || userToken.purpose !== purpose || String(user.id) !== claims!.subject) return invalid;
+  if (userToken.used_at || new Date(userToken.expires_at) <= new Date()) return invalid;
+  if (user.status !== (purpose === 'invite' ? 'invited' : 'active')) return invalid;
+
+  const errors = validatePassword(password, user.email);
+  if (errors.length > 0) {
+    return { ok: false, status: 400, error: errors.join(' '), code: 'WEAK_PASSWORD' };
+  }
+  const passwordHash = await hashPassword(password as string);
+
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    // Used conditionally, so the same link cannot set two passwords
+    if (!(await mysqlService.useUserToken(userToken.id!, connection))) {
+      await connection.rollback();
+      return invalid;
+    }
+    await mysqlService.useUserTokens(user.id!, undefined, connection);
+    await mysqlService.updateUser(user.id!, {
+      password_hash: passwordHash,
+      password_changed_at: wholeSecondsNow(),
+      ...(purpose === 'invite' ? { status: 'active' as const } : {}),
+    }, connection);
+    await mysqlService.revokeAllSessions({ userId: user.id! }, 'password_changed', connection);
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+  const updated = await mysqlService.findUserById(user.id!);
+  return { ok: true, user: toPublicUser(updated!) };
+};
+
+/**
+ * Activates an invited user's account with the password they chose.
+ * @param {string} token - The token from the invite link.
+ * @param {unknown} password - The new password, which must pass validatePassword.
+ * @returns {Promise<AdminUserResult>} The activated user, or why the invite cannot be accepted.
+ */
+export const acceptInvite = (token: string, password: unknown): Promise<AdminUserResult> =>
+  setPasswordWithToken(token, 'invite', password);
+
+/**
+ * Emails an active admin user a link to reset their password, valid for ADMIN_PASSWORD_RESET_TTL_MINUTES.
+ * Does nothing for unknown, invited or disabled users, so callers cannot tell which emails have accounts.
+ * @param {string} email - The email address the reset was requested for.
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const user = await mysqlService.findUserByEmail(email.trim().toLowerCase());
+  if (!user || !isAdminRole(user.role) || user.status !== 'active') return;
+  await sendUserTokenEmail(user, 'password_reset', null);
+};
+
+/**
+ * Sets a new password with the link from a password reset email. All of the user's sessions are ended.
+ * @param {string} token - The token from the reset link.
+ * @param {unknown} password - The new password, which must pass validatePassword.
+ * @returns {Promise<AdminUserResult>} The user, or why the password was not reset.
+ */
+export const resetPassword = (token: string, password: unknown): Promise<AdminUserResult> =>
+  setPasswordWithToken(token, 'password_reset', password);
+
+/**
+ * Changes a signed-in user's password. All of their sessions are ended, including the current one,
+ * and any reset links they were sent are cancelled.
+ * @param {number} userId - The signed-in user.
+ * @param {unknown} currentPassword - Their current password.
+ * @param {unknown} newPassword - The new password, which must pass validatePassword.
+ * @returns {Promise<AdminUserResult>} The user, or why the password was not changed.
+ */
+export const changePassword = async (userId: number, currentPassword: unknown, newPassword: unknown): Promise<AdminUserResult> => {
+  const user = await mysqlService.findUserById(userId);
+  if (!user || user.status !== 'active') {
+    return { ok: false, status: 404, error: 'User not found.' };
+  }
+  if (typeof currentPassword !== 'string' || !(await verifyPassword(currentPassword, user.password_hash))) {
+    return { ok: false, status: 401, error: 'Current password is incorrect.', code: 'WRONG_PASSWORD' };
+  }
+  const errors = validatePassword(newPassword, user.email);
+  if (newPassword === currentPassword) errors.push('New password must be different from the current one.');
+  if (errors.length > 0) {
+    return { ok: false, status: 400, error: errors.join(' '), code: 'WEAK_PASSWORD' };
+  }
+
+  const passwordHash = await hashPassword(newPassword as string);
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    await mysqlService.updateUser(userId, { password_hash: passwordHash, password_changed_at: wholeSecondsNow() }, connection);
+    await mysqlService.useUserTokens(userId, 'password_reset', connection);
+    await mysqlService.revokeAllSessions({ userId }, 'password_changed', connection);
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+  const updated = await mysqlService.findUserById(userId);
+  return { ok: true, user: toPublicUser(updated!) };
+};
+
+/**
+ * Locks a user's row and the active super admins', applies `change` and saves it in one transaction.
+ * `change` returns the updates, or a failed result. The last active super admin cannot be disabled or
+ * given another role, so there is always someone who can manage users.
+ */
+const changeUser = async (
+  userId: number,
+  change: (user: User) => Partial<User> | Extract<AdminUserResult, { ok: false }>
+): Promise<AdminUserResult> => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const superAdmins = await mysqlService.countActiveSuperAdmins(connection, true);
+    const user = await mysqlService.findUserById(userId, connection, true);
+    if (!user || !isAdminRole(user.role)) {
+      await connection.rollback();
+      return { ok: false, status: 404, error: 'Admin user not found.' };
+    }
+
+    const updates = change(user);
+    if ('ok' in updates) {
+      await connection.rollback();
+      return updates;
+    }
+    const removesSuperAdmin = user.role === 'super_admin' && user.status === 'active'
+      && ((updates.role !== undefined && updates.role !== 'super_admin') || (updates.status !== undefined && updates.status !== 'active'));
+    if (removesSuperAdmin && superAdmins <= 1) {
+      await connection.rollback();
+      return { ok: false, status: 409, error: 'This is the last active super admin.', code: 'LAST_SUPER_ADMIN' };
+    }
+
+    await mysqlService.updateUser(userId, updates, connection);
+    // Sessions, invite links and reset links stop working once the user can no longer sign in
+    if (updates.status === 'disabled') {
+      await mysqlService.useUserTokens(userId, undefined, connection);
+      await mysqlService.revokeAllSessions({ userId }, 'account_disabled', connection);
+    }
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+  const updated = await mysqlService.findUserById(userId);
+  return { ok: true, user: toPublicUser(updated!) };
+};
+
+/**
+ * Changes an admin user's role.
+ * @param {number} userId - The user.
+ * @param {unknown} role - The new admin role.
+ * @returns {Promise<AdminUserResult>} The updated user, or why the role cannot be changed.
+ */
+export const setUserRole = (userId: number, role: unknown): Promise<AdminUserResult> => {
+  if (!isAdminRole(role)) {
+    return Promise.resolve({ ok: false, status: 400, error: 'Invalid role. Must be an admin role.' });
+  }
+  return changeUser(userId, () => ({ role: role as AdminRole }));
+};
+
+/**
+ * Disables or re-enables an admin user. Disabled users cannot log in, their sessions are ended and
+ * their invite and reset links are cancelled. Re-enabled users who never accepted their invite go
+ * back to invited and need a new invite.
+ * @param {number} userId - The user.
+ * @param {UserStatusAction} action - disable or enable.
+ * @param {number | null} actorUserId - The admin taking the action, who cannot disable themselves.
+ * @returns {Promise<AdminUserResult>} The updated user, or why the action is not allowed.
+ */
+export const setUserStatus = (userId: number, action: UserStatusAction, actorUserId: number | null): Promise<AdminUserResult> =>
+  changeUser(userId, user => {
+    if (action === 'disable' && user.id === actorUserId) {
+      return { ok: false, status: 409, error: 'You cannot disable your own account.', code: 'CANNOT_DISABLE_SELF' };
+    }
+    if (!STATUS_ACTIONS[action].from.includes(user.status)) {
+      return { ok: false, status: 409, error: `Cannot ${action} a user who is ${user.status}.`, code: 'INVALID_USER_STATUS' };
+    }
+    return action === 'disable'
+      ? { status: 'disabled', disabled_at: new Date() }
+      : { status: user.password_hash ? 'active' : 'invited', disabled_at: null };
+  });
@@ -0,0 +1,255 @@
+import * as mysqlService from './mysqlService';
+import * as blockchainService from './blockchainService';
+import * as indexerService from './indexerService';
+import * as resultsService from './resultsService';
+import * as tallyService from './tallyService';
+import { VoteCastEvent } from './chain';
+import { Candidate, Election, VoteLog } from '../types/index.d';
+
+// --- Reconciliation report types ---
+
+export interface AuditMismatch {
+  transactionHash: string;
+  field: 'election' | 'post' | 'candidate' | 'voter';
+  database: string | number;
+  chain: string | number;
+}
+
+export interface AuditDuplicateVoter {
+  source: 'chain' | 'database';
+  postId: number;
+  voterAddress: string;
+  transactionHashes: string[];
+}
+
+export interface AuditOutOfWindowVote {
+  transactionHash: string;
+  blockNumber: number;
+  minedAt: string;
+  votingOpensAt: string;
+  votingClosesAt: string;
+}
+
+export interface AuditCandidateTally {
+  candidateId: number;
+  blockchainCandidateId: string;
+  postId: number;
+  chainVotes: number; // VoteCast events
+  voteLogs: number; // vote_logs rows
+  candidateVoteCount: number; // candidates.vote_count
+  storedResult: number | null; // elections.results entry, once finalised
+  matches: boolean;
+}
+
+export interface ElectionAuditReport {
+  electionId: number;
+  contractAddress: string;
+  source: 'indexer' | 'chain';
+  generatedAt: string;
+  integrityCheck: 'Passed' | 'Failed';
+  summary: {
+    onChainVotes: number;
+    databaseVoteLogs: number;
+    uniqueVoters: number;
+    matched: number;
+    missingInDatabase: number;
+    missingOnChain: number;
+    mismatches: number;
+    duplicateVoters: number;
+    outsideVotingWindow: number;
+    tallyMismatches: number;
+  };
+  missingInDatabase: VoteCastEvent[];
+  missingOnChain: VoteLog[];
+  mismatches: AuditMismatch[];
+  duplicateVoters: AuditDuplicateVoter[];
+  outsideVotingWindow: AuditOutOfWindowVote[];
+  tallies: AuditCandidateTally[];
+}
+
+// A voter may cast up to max_votes_per_voter votes per post, each for a different candidate
+const findDuplicateVoters = (
+  source: AuditDuplicateVoter['source'],
+  votes: { postId: number; voterAddress: string; transactionHash: string; candidate: string }[],
+  maxVotesByPost: Map<number, number>
+): AuditDuplicateVoter[] => {
+  const byPostAndVoter = new Map<string, AuditDuplicateVoter & { candidates: string[] }>();
+  for (const vote of votes) {
+    const voterAddress = vote.voterAddress.toLowerCase();
+    const key = `${vote.postId}:${voterAddress}`;
+    const entry = byPostAndVoter.get(key) || { source, postId: vote.postId, voterAddress, transactionHashes: [], candidates: [] };
+    entry.transactionHashes.push(vote.transactionHash);
+    entry.candidates.push(vote.candidate);
+    byPostAndVoter.set(key, entry);
+  }
+  return [...byPostAndVoter.values()]
+    .filter(entry =>
+      entry.transactionHashes.length > (maxVotesByPost.get(entry.postId) || 1) ||
+      new Set(entry.candidates).size < entry.candidates.length)
+    .map(({ candidates, ...entry }) => entry);
+};
+
+// elections.results is an ElectionResultsDocument; elections finalised before it was versioned hold a
+// flat { blockchainCandidateId: votes } map
+const getStoredResult = (election: Election, blockchainCandidateId: string): number | null => {
+  if (!election.results) return null;
+  const document = resultsService.getStoredResultsDocument(election);
+  if (document) {
+    const entry = document.posts
+      .flatMap(post => post.candidates)
+      .find(candidate => candidate.blockchainCandidateId === blockchainCandidateId);
+    return entry ? entry.castVotes : null;
+  }
+  const results = typeof election.results === 'string' ? JSON.parse(election.results) : election.results;
+  const value = results[blockchainCandidateId];
+  return typeof value === 'number' ? value : null;
+};
+
+/**
+ * Reconciles an election's vote_logs against the VoteCast events recorded on chain.
+ * Votes are matched by transaction hash; every discrepancy is listed so the report can be acted on,
+ * and `integrityCheck` only passes when none are found.
+ * @param {Election} election - The election to audit (must have a contract address).
+ * @returns {Promise<ElectionAuditReport>} The reconciliation report.
+ */
+export const buildElectionAuditReport = async (election: Election): Promise<ElectionAuditReport> => {
+  const electionId = election.id!;
+  const contractAddress = election.blockchain_contract_address!;
+
+  const candidates: Candidate[] = await mysqlService.getCandidatesByElectionId(electionId);
+
+  // Prefer the indexer's copy of the VoteCast events over scanning the chain from block 0, but only
+  // when it holds as many votes per candidate as the contract counts; an index that has not caught up
+  // would otherwise report the latest votes as missing on chain
+  const indexedEvents = await indexerService.getIndexedVoteEvents(contractAddress, electionId);
+  let useIndex = false;
+  if (indexedEvents) {
+    const blockchainCandidateIds = candidates.map(c => c.blockchain_candidate_id).filter((id): id is string => !!id);
+    const expectedCounts = await blockchainService.getLiveElectionResultsFromChain(contractAddress, electionId, blockchainCandidateIds);
+    const indexedCounts = tallyService.countEventsByCandidate(indexedEvents);
+    useIndex = blockchainCandidateIds.every(bcId =>
+      expectedCounts[bcId] !== undefined && (indexedCounts[bcId] || 0) === expectedCounts[bcId]);
+  }
+  const source: ElectionAuditReport['source'] = useIndex ? 'indexer' : 'chain';
+  const chainEvents = useIndex && indexedEvents
+    ? indexedEvents
+    : await blockchainService.getVoteCastEventsFromChain(contractAddress, electionId);
+  const voteLogs = await mysqlService.getVoteLogsByElectionId(electionId);
+  const posts = await mysqlService.getPostsByElectionId(electionId);
+  const maxVotesByPost = new Map(posts.map(p => [p.id!, p.max_votes_per_voter || 1]));
+
+  const candidatesById = new Map(candidates.map(c => [c.id!, c]));
+  const eventsByHash = new Map(chainEvents.map(e => [e.transactionHash.toLowerCase(), e]));
+  const logsByHash = new Map(voteLogs.map(l => [l.transaction_hash.toLowerCase(), l]));
+
+  // --- 1. Match rows to events by transaction hash ---
+  const missingInDatabase = chainEvents.filter(e => !logsByHash.has(e.transactionHash.toLowerCase()));
+  const missingOnChain = voteLogs.filter(l => !eventsByHash.has(l.transaction_hash.toLowerCase()));
+  const mismatches: AuditMismatch[] = [];
+  let matched = 0;
+
+  for (const log of voteLogs) {
+    const event = eventsByHash.get(log.transaction_hash.toLowerCase());
+    if (!event) continue;
+    matched++;
+    const candidate = candidatesById.get(log.candidate_id);
+    if (event.electionId !== log.election_id) {
+      mismatches.push({ transactionHash: log.transaction_hash, field: 'election', database: log.election_id, chain: event.electionId });
+    }
+    if (event.postId !== log.post_id) {
+      mismatches.push({ transactionHash: log.transaction_hash, field: 'post', database: log.post_id, chain: event.postId });
+    }
+    if (!candidate || candidate.blockchain_candidate_id !== event.blockchainCandidateId) {
+      mismatches.push({
+        transactionHash: log.transaction_hash,
+        field: 'candidate',
+        database: candidate?.blockchain_candidate_id || log.candidate_id,
+        chain: event.blockchainCandidateId,
+      });
+    }
+    if (event.voterAddress.toLowerCase() !== log.voter_wallet_address.toLowerCase()) {
+      mismatches.push({ transactionHash: log.transaction_hash, field: 'voter', database: log.voter_wallet_address, chain: event.voterAddress });
+    }
+  }
+
+  // --- 2. More votes per voter per post than allowed, or repeat votes for one candidate ---
+  const duplicateVoters = [
+    ...findDuplicateVoters('chain', chainEvents.map(e => ({ ...e, candidate: e.blockchainCandidateId })), maxVotesByPost),
+    ...findDuplicateVoters('database', voteLogs.map(l => ({
+      postId: l.post_id, voterAddress: l.voter_wallet_address, transactionHash: l.transaction_hash, candidate: String(l.candidate_id),
+    })), maxVotesByPost),
+  ];
+
+  // --- 3. Votes mined outside the election's start_date/end_date ---
+  const votingOpensAt = new Date(election.start_date);
+  const votingClosesAt = new Date(election.end_date);
+  const blockTimestamps = await blockchainService.getBlockTimestamps(chainEvents.map(e => e.blockNumber));
+  const outsideVotingWindow: AuditOutOfWindowVote[] = [];
+  for (const event of chainEvents) {
+    const timestamp = blockTimestamps[event.blockNumber];
+    if (timestamp === undefined) continue;
+    const minedAt = new Date(timestamp * 1000);
+    if (minedAt < votingOpensAt || minedAt > votingClosesAt) {
+      outsideVotingWindow.push({
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        minedAt: minedAt.toISOString(),
+        votingOpensAt: votingOpensAt.toISOString(),
+        votingClosesAt: votingClosesAt.toISOString(),
+      });
+    }
+  }
+
+  // --- 4. Per-candidate totals across chain, vote_logs, candidates.vote_count and elections.results ---
+  // Stored counts are only written when the election is finalised, so they are compared from then on.
+  const isFinalised = election.status === 'ended' || election.status === 'certified';
+  const tallies: AuditCandidateTally[] = candidates.map(candidate => {
+    const blockchainCandidateId = candidate.blockchain_candidate_id || '';
+    const chainVotes = chainEvents.filter(e => e.blockchainCandidateId === blockchainCandidateId).length;
+    const logCount = voteLogs.filter(l => l.candidate_id === candidate.id).length;
+    const candidateVoteCount = candidate.vote_count || 0;
+    const storedResult = getStoredResult(election, blockchainCandidateId);
+    const matches = chainVotes === logCount &&
+      (!isFinalised || (candidateVoteCount === chainVotes && storedResult === chainVotes));
+    return {
+      candidateId: candidate.id!,
+      blockchainCandidateId,
+      postId: candidate.post_id,
+      chainVotes,
+      voteLogs: logCount,
+      candidateVoteCount,
+      storedResult,
+      matches,
+    };
+  });
+  const tallyMismatches = tallies.filter(t => !t.matches).length;
+
+  const issueCount = missingInDatabase.length + missingOnChain.length + mismatches.length +
+    duplicateVoters.length + outsideVotingWindow.length + tallyMismatches;
+
+  return {
+    electionId,
+    contractAddress,
+    source,
+    generatedAt: new Date().toISOString(),
+    integrityCheck: issueCount === 0 ? 'Passed' : 'Failed',
+    summary: {
+      onChainVotes: chainEvents.length,
+      databaseVoteLogs: voteLogs.length,
+      uniqueVoters: new Set(chainEvents.map(e => e.voterAddress.toLowerCase())).size,
+      matched,
+      missingInDatabase: missingInDatabase.length,
+      missingOnChain: missingOnChain.length,
+      mismatches: mismatches.length,
+      duplicateVoters: duplicateVoters.length,
+      outsideVotingWindow: outsideVotingWindow.length,
+      tallyMismatches,
+    },
+    missingInDatabase,
+    missingOnChain,
+    mismatches,
+    duplicateVoters,
+    outsideVotingWindow,
+    tallies,
+  };
+};
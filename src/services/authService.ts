@@ -1,58 +1,156 @@
-import jwt from "jsonwebtoken";
-import type { SignOptions } from "jsonwebtoken";
+import fs from "fs";
+import path from "path";
 import { ethers } from "ethers";
+import { getChainAdapter, isEip6492Signature } from "./chain";
+import { isSessionFamilyActive } from "./mysqlService";
+import { JwtKey, keyFromPem, publicJwk, signJwt, verifyJwt } from "./jwt";
 import { DecodedToken } from "../types/index.d";
 
-const jwtSecret: string = process.env.JWT_SECRET || "my-fallback-secret";
+// --- Configuration ---
+// Every <kid>.pem file in JWT_KEYS_DIR is an accepted key: an RSA (RS256) or Ed25519 (EdDSA) private
+// key, or a public key that is only accepted. Tokens are signed with JWT_SIGNING_KEY_ID, which may be
+// left unset when there is a single private key. Keys listed in JWT_RETIRED_KEY_IDS are ignored.
+const JWT_KEYS_DIR = process.env.JWT_KEYS_DIR || "keys";
+const JWT_SIGNING_KEY_ID = process.env.JWT_SIGNING_KEY_ID || "";
+const JWT_RETIRED_KEY_IDS = (process.env.JWT_RETIRED_KEY_IDS || "")
+  .split(",")
+  .map(kid => kid.trim())
+  .filter(Boolean);
 
-if (!process.env.JWT_SECRET) {
-  console.error('JWT_SECRET is not defined in environment variables. JWT operations will fail.');
+const loadKeys = (): { keys: Map<string, JwtKey>; signingKey: JwtKey } => {
+  if (process.env.JWT_SECRET) {
+    console.warn("JWT_SECRET is no longer used; tokens are signed with the keys in JWT_KEYS_DIR.");
+  }
+  if (!fs.existsSync(JWT_KEYS_DIR)) {
+    throw new Error(`JWT_KEYS_DIR (${path.resolve(JWT_KEYS_DIR)}) does not exist.`);
+  }
+  const keys = new Map<string, JwtKey>();
+  for (const file of fs.readdirSync(JWT_KEYS_DIR).filter(name => name.endsWith(".pem")).sort()) {
+    const kid = path.basename(file, ".pem");
+    if (JWT_RETIRED_KEY_IDS.includes(kid)) continue;
+    keys.set(kid, keyFromPem(kid, fs.readFileSync(path.join(JWT_KEYS_DIR, file), "utf8")));
+  }
+
+  const signers = [...keys.values()].filter(key => key.privateKey);
+  const signingKey = JWT_SIGNING_KEY_ID ? signers.find(key => key.kid === JWT_SIGNING_KEY_ID) : signers.length === 1 ? signers[0] : undefined;
+  if (!signingKey) {
+    throw new Error(JWT_SIGNING_KEY_ID
+      ? `JWT_SIGNING_KEY_ID "${JWT_SIGNING_KEY_ID}" is not a private key in JWT_KEYS_DIR, or is retired.`
+      : `JWT_KEYS_DIR has ${signers.length} private keys; set JWT_SIGNING_KEY_ID to the one to sign with.`);
+  }
+  return { keys, signingKey };
+};
+
+let keySet: ReturnType<typeof loadKeys>;
+try {
+  keySet = loadKeys();
+} catch (error) {
+  console.error(`Could not load JWT signing keys: ${(error as Error).message}`);
   process.exit(1);
 }
 
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
 /**
  * Generates a JWT token for a given user payload.
  * @param {object} payload - The data to include in the token (e.g., userId, role, walletAddress).
- * @param {string} expiresIn - Token expiration time (e.g., '1h', '7d').
+ * @param {number} expiresInSeconds - How long the token is valid.
  * @returns {string} The signed JWT token.
  */
-export const generateToken = (payload: object, expiresIn: string = '1h'): string => {
-  const options: SignOptions = { expiresIn: expiresIn as any };
-  return jwt.sign(payload, jwtSecret as string, options);
+export const generateToken = (payload: object, expiresInSeconds: number): string => {
+  const issuedAt = nowInSeconds();
+  return signJwt({ ...payload, iat: issuedAt, exp: issuedAt + expiresInSeconds }, keySet.signingKey);
 };
 
 /**
- * Verifies a JWT token.
+ * Verifies a JWT token. Login tokens belong to a session (see sessionService), and are refused once
+ * it has been revoked, e.g. by logging out.
  * @param {string} token - The JWT token to verify.
- * @returns {DecodedToken | null} The decoded payload if valid, null otherwise.
+ * @returns {Promise<DecodedToken | null>} The decoded payload if valid, null otherwise.
  */
-export const verifyToken = (token: string): DecodedToken | null => {
+export const verifyToken = async (token: string): Promise<DecodedToken | null> => {
+  let decoded: DecodedToken & { aud?: unknown };
   try {
-    return jwt.verify(token, jwtSecret as string) as DecodedToken;
+    decoded = verifyJwt(token, keySet.keys) as unknown as DecodedToken & { aud?: unknown };
   } catch (error) {
     console.error('JWT verification failed:', (error as Error).message);
     return null;
   }
+  // Single-purpose tokens (see generatePurposeToken) are never login tokens
+  if (decoded.aud !== undefined) return null;
+  if (!decoded.sid || !(await isSessionFamilyActive(decoded.sid))) return null;
+  return decoded;
 };
 
 /**
- * Verifies an Ethereum wallet signature.
- * @param {string} message - The original message that was signed.
- * @param {string} signature - The signature generated by the wallet.
- * @returns {string | null} The address that signed the message if valid, null otherwise.
+ * Signs a single-purpose token, such as the one in an email verification link. It names its purpose
+ * as the audience, so verifyToken never accepts it as a login token.
+ * @param {string} purpose - What the token is for, e.g. 'email-verification'.
+ * @param {string} subject - Who it is about, e.g. the voter ID.
+ * @param {string} jwtId - ID of the record the token stands for, so it can be revoked or used once.
+ * @param {number} expiresInSeconds - How long the token is valid.
+ * @returns {string} The signed token.
  */
-export const verifyWalletSignature = (
-  message: string,
-  signature: string
-): string | null => {
+export const generatePurposeToken = (purpose: string, subject: string, jwtId: string, expiresInSeconds: number): string => {
+  const issuedAt = nowInSeconds();
+  return signJwt(
+    { aud: `votex:${purpose}`, sub: subject, jti: jwtId, iat: issuedAt, exp: issuedAt + expiresInSeconds },
+    keySet.signingKey
+  );
+};
+
+/**
+ * Verifies a token made by generatePurposeToken for the given purpose.
+ * @param {string} token - The token.
+ * @param {string} purpose - The purpose it must have been signed for.
+ * @returns {{ subject: string; jwtId: string; issuedAt: number } | null} Who and what the token is for and when
+ * it was issued (seconds since the epoch), or null if it is invalid or expired.
+ */
+export const verifyPurposeToken = (token: string, purpose: string): { subject: string; jwtId: string; issuedAt: number } | null => {
   try {
-    const recoveredAddress = ethers.verifyMessage(message, signature);
-    return recoveredAddress;
+    const decoded = verifyJwt(token, keySet.keys, { audience: `votex:${purpose}` });
+    return typeof decoded.sub === "string" && typeof decoded.jti === "string"
+      ? { subject: decoded.sub, jwtId: decoded.jti, issuedAt: decoded.iat ?? 0 }
+      : null;
   } catch (error) {
-    console.error(
-      "Wallet signature verification failed:",
-      (error as Error).message
-    );
     return null;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * The public keys tokens may be signed with, as a JWK set (RFC 7517) for /.well-known/jwks.json.
+ * Retired keys are left out.
+ * @returns {{ keys: object[] }} The JWK set.
+ */
+export const getJwks = () => ({ keys: [...keySet.keys.values()].map(publicJwk) });
+
+/**
+ * Verifies that a wallet signed a message (EIP-191 personal_sign). Signatures by externally owned
+ * accounts are checked by recovering the signer. Smart-contract wallets such as Safe are asked on chain
+ * through EIP-1271, and EIP-6492 signatures of wallets that are not deployed yet are checked by
+ * simulating the deployment.
+ * @param {string} message - The original message that was signed.
+ * @param {string} signature - The signature generated by the wallet.
+ * @param {string} address - The address claimed to have signed.
+ * @returns {Promise<boolean>} True if `address` signed the message.
+ */
+export const verifyWalletSignature = async (
+  message: string,
+  signature: string,
+  address: string
+): Promise<boolean> => {
+  const hash = ethers.hashMessage(message);
+  if (!isEip6492Signature(signature)) {
+    try {
+      if (ethers.recoverAddress(hash, signature).toLowerCase() === address.toLowerCase()) return true;
+    } catch (error) {
+      // Not an ECDSA signature, but a smart-contract wallet may still accept it
+    }
+  }
+
+  const chain = getChainAdapter();
+  if (isEip6492Signature(signature) || (await chain.getCode(address)) !== '0x') {
+    return chain.isValidSignature(address, hash, signature);
+  }
+  return false;
+};
@@ -1,51 +1,14 @@
-import { ethers, EventLog } from 'ethers';
 import dotenv from 'dotenv';
-import path from 'path';
-import fs from 'fs';
+import { getChainAdapter, ChainAdapterKind, VoteCastEvent } from './chain';
 
 dotenv.config();
 
 // --- Configuration ---
-const ETHEREUM_RPC_URL = process.env.ETHEREUM_RPC_URL || '[http://127.0.0.1:8545](http://127.0.0.1:8545)'; // Hardhat Network default
-const ADMIN_PRIVATE_KEY = process.env.ADMIN_PRIVATE_KEY; // Private key for backend-initiated transactions
+const VOTE_CONFIRMATIONS = parseInt(process.env.VOTE_CONFIRMATIONS || '1', 10); // Blocks to wait before accepting a vote tx
+const VOTE_CONFIRMATION_TIMEOUT_MS = parseInt(process.env.VOTE_CONFIRMATION_TIMEOUT_MS || '120000', 10);
 
-const contractAbiPath = path.join(__dirname, '../../abi/VoteXElection.json');
-
-const provider = new ethers.JsonRpcProvider(ETHEREUM_RPC_URL);
-
-let adminWallet: ethers.Wallet | null = null;
-if (ADMIN_PRIVATE_KEY) {
-  adminWallet = new ethers.Wallet(ADMIN_PRIVATE_KEY, provider);
-  console.log(`Blockchain Service: Admin wallet initialized with address ${adminWallet.address}`);
-} else {
-  console.warn('Blockchain Service: ADMIN_PRIVATE_KEY is not set. Backend will only be able to perform read operations.');
-}
-
-let VoteXElectionABI: any;
-let VoteXElectionBytecode: string; // To store bytecode for deployment
-try {
-    const contractJson = JSON.parse(fs.readFileSync(contractAbiPath, 'utf8'));
-    VoteXElectionABI = contractJson.abi;
-    VoteXElectionBytecode = contractJson.bytecode; // Extract bytecode
-    console.log('VoteXElection ABI and Bytecode loaded successfully.');
-} catch (error) {
-    console.error(`Error loading VoteXElection ABI/Bytecode from ${contractAbiPath}:`, (error as Error).message);
-    // Exit or throw if ABI is critical and not found
-    process.exit(1);
-}
-
-// Global contract instance, initialized when a contract address is provided
-let electionContractInstance: ethers.Contract | null = null;
-
-// Function to initialize the smart contract instance for a specific election
-// This should be called with the contract address obtained after deploying the VoteXElection contract for an election.
-export const getElectionContractInstance = (contractAddress: string): ethers.Contract => {
-    if (!ethers.isAddress(contractAddress)) {
-        throw new Error(`Invalid contract address: ${contractAddress}`);
-    }
-    // Return a new instance each time to ensure it's connected to the correct signer/provider
-    return new ethers.Contract(contractAddress, VoteXElectionABI, adminWallet || provider);
-};
+// All chain access goes through the adapter selected by CHAIN_ADAPTER (see ./chain).
+export const getChainAdapterKind = (): ChainAdapterKind => getChainAdapter().kind;
 
 /**
  * Deploys the VoteXElection contract (should happen once per overall system, or a new instance per election).
@@ -54,14 +17,10 @@ export const getElectionContractInstance = (contractAddress: string): ethers.Con
  * @returns {Promise<string>} The address of the deployed contract.
  */
 export const deployVoteXElectionSystemContract = async (): Promise<string> => {
-  if (!adminWallet) throw new Error("Admin wallet not configured. Cannot deploy contract.");
   console.log('[Blockchain Service] Deploying VoteXElection contract...');
 
   try {
-    const VoteXElectionFactory = new ethers.ContractFactory(VoteXElectionABI, VoteXElectionBytecode, adminWallet);
-    const contract = await VoteXElectionFactory.deploy();
-    await contract.waitForDeployment(); // Wait for contract to be mined
-    const contractAddress = await contract.getAddress();
+    const contractAddress = await getChainAdapter().deploySystemContract();
     console.log(`VoteXElection System Contract deployed to: ${contractAddress}`);
     return contractAddress;
   } catch (error) {
@@ -88,13 +47,10 @@ export const createElectionOnChain = async (
     startTime: number,
     endTime: number
 ): Promise<string> => {
-    if (!adminWallet) throw new Error("Admin wallet not configured. Cannot create election on chain.");
-    const contract = getElectionContractInstance(systemContractAddress); // Use getElectionContractInstance
     try {
-        const tx = await contract.createElection(electionId, title, description, startTime, endTime);
-        await tx.wait();
-        console.log(`Election ${electionId} created on chain. Tx hash: ${tx.hash}`);
-        return tx.hash;
+        const txHash = await getChainAdapter().createElection(systemContractAddress, electionId, title, description, startTime, endTime);
+        console.log(`Election ${electionId} created on chain. Tx hash: ${txHash}`);
+        return txHash;
     } catch (error) {
         console.error(`Error creating election ${electionId} on chain:`, (error as Error).message);
         throw new Error(`Failed to create election on chain: ${(error as Error).message}`);
@@ -117,13 +73,10 @@ export const createPostOnChain = async (
     name: string,
     maxVotesPerVoter: number
 ): Promise<string> => {
-    if (!adminWallet) throw new Error("Admin wallet not configured. Cannot create post on chain.");
-    const contract = getElectionContractInstance(systemContractAddress);
     try {
-        const tx = await contract.createPost(electionId, postId, name, maxVotesPerVoter);
-        await tx.wait();
-        console.log(`Post ${postId} created for election ${electionId} on chain. Tx hash: ${tx.hash}`);
-        return tx.hash;
+        const txHash = await getChainAdapter().createPost(systemContractAddress, electionId, postId, name, maxVotesPerVoter);
+        console.log(`Post ${postId} created for election ${electionId} on chain. Tx hash: ${txHash}`);
+        return txHash;
     } catch (error) {
         console.error(`Error creating post ${postId} on chain:`, (error as Error).message);
         throw new Error(`Failed to create post on chain: ${(error as Error).message}`);
@@ -146,13 +99,10 @@ export const registerCandidateOnChain = async (
     blockchainCandidateId: string,
     candidateName: string
 ): Promise<string> => {
-    if (!adminWallet) throw new Error("Admin wallet not configured. Cannot register candidate on chain.");
-    const contract = getElectionContractInstance(systemContractAddress);
     try {
-        const tx = await contract.registerCandidate(electionId, postId, blockchainCandidateId, candidateName);
-        await tx.wait();
-        console.log(`Candidate ${candidateName} (${blockchainCandidateId}) registered for post ${postId} in election ${electionId} on chain. Tx hash: ${tx.hash}`);
-        return tx.hash;
+        const txHash = await getChainAdapter().registerCandidate(systemContractAddress, electionId, postId, blockchainCandidateId, candidateName);
+        console.log(`Candidate ${candidateName} (${blockchainCandidateId}) registered for post ${postId} in election ${electionId} on chain. Tx hash: ${txHash}`);
+        return txHash;
     } catch (error) {
         console.error(`Error registering candidate ${blockchainCandidateId} on chain:`, (error as Error).message);
         throw new Error(`Failed to register candidate on chain: ${(error as Error).message}`);
@@ -170,19 +120,36 @@ export const globalWhitelistVoterOnChain = async ( // RENAMED FROM whitelistVote
   systemContractAddress: string,
   voterAddress: string
 ): Promise<string> => {
-  if (!adminWallet) throw new Error("Admin wallet not configured. Cannot whitelist voter globally.");
-  const contract = getElectionContractInstance(systemContractAddress);
   try {
-      const tx = await contract.globalWhitelistVoter(voterAddress); // Call the new global function
-      await tx.wait();
-      console.log(`Voter ${voterAddress} globally whitelisted. Tx hash: ${tx.hash}`);
-      return tx.hash;
+      const txHash = await getChainAdapter().globalWhitelistVoter(systemContractAddress, voterAddress);
+      console.log(`Voter ${voterAddress} globally whitelisted. Tx hash: ${txHash}`);
+      return txHash;
   } catch (error) {
       console.error(`Error globally whitelisting voter ${voterAddress}:`, (error as Error).message);
       throw new Error(`Failed to globally whitelist voter on chain: ${(error as Error).message}`);
   }
 };
 
+/**
+ * Admin: Removes a voter's wallet address from the global whitelist, e.g. when the voter moves to a new wallet.
+ * @param {string} systemContractAddress - The address of the main VoteXElection system contract.
+ * @param {string} voterAddress - The wallet address to remove.
+ * @returns {Promise<string>} Transaction hash.
+ */
+export const removeVoterFromGlobalWhitelistOnChain = async (
+  systemContractAddress: string,
+  voterAddress: string
+): Promise<string> => {
+  try {
+      const txHash = await getChainAdapter().removeVoterFromGlobalWhitelist(systemContractAddress, voterAddress);
+      console.log(`Voter ${voterAddress} removed from the global whitelist. Tx hash: ${txHash}`);
+      return txHash;
+  } catch (error) {
+      console.error(`Error removing voter ${voterAddress} from the global whitelist:`, (error as Error).message);
+      throw new Error(`Failed to remove voter from the global whitelist on chain: ${(error as Error).message}`);
+  }
+};
+
 /**
  * Checks if a voter is globally whitelisted.
  * @param {string} systemContractAddress - The address of the main VoteXElection system contract.
@@ -194,9 +161,8 @@ export const isVoterGloballyWhitelisted = async (
   voterAddress: string
 ): Promise<boolean> => {
   console.log(`[Blockchain] Checking if voter ${voterAddress} is globally whitelisted...`);
-  const contract = getElectionContractInstance(systemContractAddress);
   try {
-      const whitelisted = await contract.isVoterGloballyWhitelisted(voterAddress);
+      const whitelisted = await getChainAdapter().isVoterGloballyWhitelisted(systemContractAddress, voterAddress);
       return whitelisted;
   } catch (error) {
       console.error(`Error checking global whitelisted status for voter ${voterAddress}:`, (error as Error).message);
@@ -211,13 +177,10 @@ export const isVoterGloballyWhitelisted = async (
  * @returns {Promise<string>} Transaction hash.
  */
 export const startElectionOnChain = async (systemContractAddress: string, electionId: number): Promise<string> => {
-    if (!adminWallet) throw new Error("Admin wallet not configured. Cannot start election.");
-    const contract = getElectionContractInstance(systemContractAddress);
     try {
-        const tx = await contract.startElection(electionId);
-        await tx.wait();
-        console.log(`Election ${electionId} started on chain. Tx hash: ${tx.hash}`);
-        return tx.hash;
+        const txHash = await getChainAdapter().startElection(systemContractAddress, electionId);
+        console.log(`Election ${electionId} started on chain. Tx hash: ${txHash}`);
+        return txHash;
     } catch (error) {
         console.error(`Error starting election ${electionId} on chain:`, (error as Error).message);
         throw new Error(`Failed to start election on chain: ${(error as Error).message}`);
@@ -231,13 +194,10 @@ export const startElectionOnChain = async (systemContractAddress: string, electi
  * @returns {Promise<string>} Transaction hash.
  */
 export const endElectionOnChain = async (systemContractAddress: string, electionId: number): Promise<string> => {
-    if (!adminWallet) throw new Error("Admin wallet not configured. Cannot end election.");
-    const contract = getElectionContractInstance(systemContractAddress);
     try {
-        const tx = await contract.endElection(electionId);
-        await tx.wait();
-        console.log(`Election ${electionId} ended on chain. Tx hash: ${tx.hash}`);
-        return tx.hash;
+        const txHash = await getChainAdapter().endElection(systemContractAddress, electionId);
+        console.log(`Election ${electionId} ended on chain. Tx hash: ${txHash}`);
+        return txHash;
     } catch (error) {
         console.error(`Error ending election ${electionId} on chain:`, (error as Error).message);
         throw new Error(`Failed to end election on chain: ${(error as Error).message}`);
@@ -245,135 +205,161 @@ export const endElectionOnChain = async (systemContractAddress: string, election
 };
 
 /**
- * Admin: Fetches raw vote logs/events from the blockchain for auditing.
+ * Admin: Fetches raw VoteCast events for an election directly from the blockchain.
+ * Prefer the indexer's copy (indexerService.getIndexedVoteEvents) where available; this scans the chain.
  * @param {string} systemContractAddress - The address of the main VoteXElection system contract.
- * @param {number} electionId - The ID of the election to audit.
- * @returns {Promise<any>} Audit report data.
+ * @param {number} electionId - The ID of the election.
+ * @param {number} [fromBlock=0] - First block to scan.
+ * @returns {Promise<VoteCastEvent[]>} The VoteCast events in chain order.
  */
-export const performAudit = async (systemContractAddress: string, electionId: number): Promise<any> => {
-  console.log(`[Blockchain Service] Performing audit for election ${electionId} on contract ${systemContractAddress}...`);
-  const contract = getElectionContractInstance(systemContractAddress);
+export const getVoteCastEventsFromChain = async (systemContractAddress: string, electionId: number, fromBlock: number = 0): Promise<VoteCastEvent[]> => {
+  console.log(`[Blockchain Service] Fetching VoteCast events for election ${electionId} on contract ${systemContractAddress}...`);
   try {
-    const filter = contract.filters.VoteCast(electionId);
-    const events = await contract.queryFilter(filter, 0);
-
-    // Filter for EventLog types and map
-    const parsedEvents = events.filter((event): event is EventLog => 'args' in event)
-                               .map(event => ({
-                                   electionId: Number(event.args.electionId),
-                                   postId: Number(event.args.postId),
-                                   blockchainCandidateId: event.args.blockchainCandidateId,
-                                   voterAddress: event.args.voterAddress,
-                                   transactionHash: event.transactionHash,
-                                   blockNumber: event.blockNumber,
-                               }));
+    return await getChainAdapter().getVoteCastEvents(systemContractAddress, electionId, fromBlock);
+  } catch (error) {
+    console.error(`Error fetching VoteCast events for election ${electionId}:`, (error as Error).message);
+    throw new Error(`Failed to fetch vote events from chain: ${(error as Error).message}`);
+  }
+};
 
-    const totalVotesRecorded = parsedEvents.length;
-    const uniqueVoters = new Set(parsedEvents.map(event => event.voterAddress)).size;
+/**
+ * Gets the timestamps of the given blocks, e.g. to check when votes were mined.
+ * @param {number[]} blockNumbers - Block numbers to look up (duplicates are fetched once).
+ * @returns {Promise<Record<number, number>>} Block number mapped to its Unix timestamp in seconds.
+ */
+export const getBlockTimestamps = async (blockNumbers: number[]): Promise<Record<number, number>> => {
+  const chain = getChainAdapter();
+  const timestamps: Record<number, number> = {};
+  for (const blockNumber of new Set(blockNumbers)) {
+    const timestamp = await chain.getBlockTimestamp(blockNumber);
+    if (timestamp !== null) timestamps[blockNumber] = timestamp;
+  }
+  return timestamps;
+};
 
-    return {
-      totalVotesRecorded,
-      uniqueVoters,
-      rawEvents: parsedEvents, // Use the already parsed events
-      integrityCheck: 'Passed (based on event count)',
-    };
-  } catch (error) {
-    console.error(`Error performing audit for election ${electionId}:`, (error as Error).message);
-    throw new Error(`Failed to perform audit on chain: ${(error as Error).message}`);
+/**
+ * Returns the latest block's number and hash, e.g. as a public source of randomness.
+ * @returns {Promise<{ blockNumber: number; blockHash: string }>} The chain head.
+ */
+export const getLatestBlock = async (): Promise<{ blockNumber: number; blockHash: string }> => {
+  const chain = getChainAdapter();
+  const blockNumber = await chain.getBlockNumber();
+  const blockHash = await chain.getBlockHash(blockNumber);
+  if (!blockHash) {
+    throw new Error(`Block ${blockNumber} is not available from the chain adapter.`);
   }
+  return { blockNumber, blockHash };
 };
 
 /**
- * Casts a vote on the blockchain.
- * Note: This function would primarily verify a transaction hash sent from the frontend.
- * The actual `castVote` transaction is typically initiated by the voter's wallet (MetaMask) in the frontend.
+ * Returns the hash of a mined block.
+ * @param {number} blockNumber - The block number.
+ * @returns {Promise<string | null>} The block hash, or null if the block has not been mined.
+ */
+export const getBlockHash = async (blockNumber: number): Promise<string | null> =>
+  getChainAdapter().getBlockHash(blockNumber);
+
+/**
+ * Submits a castVote transaction as the given voter.
+ * Only the simulated chain adapter supports this; it stands in for the voter's wallet during offline runs.
  * @param {string} systemContractAddress - The address of the main VoteXElection system contract.
  * @param {number} electionId - The ID of the election.
  * @param {number} postId - The ID of the post.
  * @param {string} blockchainCandidateId - The unique string ID of the candidate being voted for.
- * @param {string} voterWalletAddress - The voter's wallet address (for logging/verification).
+ * @param {string} voterWalletAddress - The voter's wallet address (msg.sender on the simulated ledger).
  * @returns {Promise<string>} Transaction hash of the vote.
  */
-export const castVoteOnChain = async (
+export const castVoteAsVoterOnChain = async (
     systemContractAddress: string,
     electionId: number,
     postId: number,
     blockchainCandidateId: string,
-    voterWalletAddress: string // This wallet address should match msg.sender in contract
+    voterWalletAddress: string
 ): Promise<string> => {
-    // In a real app, the frontend sends the tx, then sends the tx hash to the backend.
-    // The backend would then verify the tx on chain and log it.
-    // For this full stack, we simulate the backend initiating it for demo consistency,
-    // but note this is not how typical MetaMask dApps work for casting votes.
-    // If backend signs:
-    // const contract = getElectionContractInstance(systemContractAddress); // Must use adminWallet here if backend signs
-    // const tx = await contract.castVote(electionId, postId, blockchainCandidateId);
-    // await tx.wait();
-    // return tx.hash;
-
-    // Simulate returning a transaction hash that frontend would generate
-    console.log(`[Blockchain] Simulating vote cast for election ${electionId}, post ${postId}, candidate ${blockchainCandidateId} by ${voterWalletAddress}...`);
-    await new Promise(resolve => setTimeout(resolve, 1500)); // Simulate tx time
-    const dummyTxHash = `0xTxHashForVote_${Math.random().toString(36).substring(2, 15)}`;
-    console.log(`Simulated vote transaction sent. Tx hash: ${dummyTxHash}`);
-    return dummyTxHash;
+    const txHash = await getChainAdapter().castVote(systemContractAddress, electionId, postId, blockchainCandidateId, voterWalletAddress);
+    console.log(`[Blockchain] Vote cast by ${voterWalletAddress} for post ${postId} in election ${electionId}. Tx hash: ${txHash}`);
+    return txHash;
 };
 
+export type VoteVerificationErrorCode =
+    | 'TX_NOT_FOUND'
+    | 'TX_FAILED'
+    | 'TX_CONFIRMATION_TIMEOUT'
+    | 'TX_WRONG_CONTRACT'
+    | 'TX_SENDER_MISMATCH'
+    | 'VOTE_EVENT_NOT_FOUND'
+    | 'ELECTION_MISMATCH'
+    | 'POST_MISMATCH'
+    | 'CANDIDATE_MISMATCH'
+    | 'VOTER_MISMATCH';
+
+export type VoteVerificationResult =
+    | { valid: true; blockNumber: number; confirmations: number }
+    | { valid: false; code: VoteVerificationErrorCode; reason: string };
+
 /**
- * Verifies if a given transaction hash corresponds to a valid vote transaction on the blockchain.
- * This is crucial for backend logging after a frontend-initiated vote.
- * @param {string} transactionHash - The transaction hash to verify.
+ * Verifies that a voter-submitted transaction is a successful `castVote` call matching the expected ballot.
+ * Waits for `VOTE_CONFIRMATIONS` confirmations before decoding the `VoteCast` log, so callers
+ * only persist votes that are settled on chain.
+ * @param {string} transactionHash - The transaction hash submitted by the voter's wallet.
  * @param {string} systemContractAddress - The address of the main VoteXElection system contract.
  * @param {number} expectedElectionId - The election ID expected in the vote.
  * @param {number} expectedPostId - The post ID expected in the vote.
  * @param {string} expectedBlockchainCandidateId - The blockchain candidate ID expected in the vote.
  * @param {string} expectedVoterAddress - The voter's address expected to have cast the vote.
- * @returns {Promise<boolean>} True if the transaction is valid and matches expected parameters, false otherwise.
+ * @returns {Promise<VoteVerificationResult>} `valid: true` with the mined block, or an error code describing the first mismatch.
  */
 export const verifyVoteTransaction = async (
     transactionHash: string,
     systemContractAddress: string,
-    expectedElectionId: number, // ADDED
-    expectedPostId: number, // ADDED
+    expectedElectionId: number,
+    expectedPostId: number,
     expectedBlockchainCandidateId: string,
     expectedVoterAddress: string
-): Promise<boolean> => {
-    console.log(`[Blockchain] Verifying transaction ${transactionHash} for vote...`);
-    const contract = getElectionContractInstance(systemContractAddress); // Use provider for verification
-    try {
-        const receipt = await provider.getTransactionReceipt(transactionHash);
-        if (!receipt || receipt.status !== 1) { // Check if transaction was successful
-            console.warn(`Transaction ${transactionHash} failed or not found.`);
-            return false;
-        }
+): Promise<VoteVerificationResult> => {
+    console.log(`[Blockchain] Verifying transaction ${transactionHash} for vote (waiting for ${VOTE_CONFIRMATIONS} confirmation(s))...`);
+    const chain = getChainAdapter();
 
-        // Parse logs to find the VoteCast event
-        for (const log of receipt.logs) {
-            try {
-                const parsedLog = contract.interface.parseLog(log);
-                if (parsedLog && parsedLog.name === 'VoteCast') {
-                    const { electionId, postId, blockchainCandidateId, voterAddress } = parsedLog.args;
+    const tx = await chain.getTransaction(transactionHash);
+    if (!tx) {
+        return { valid: false, code: 'TX_NOT_FOUND', reason: `Transaction ${transactionHash} was not found on chain.` };
+    }
+    if (!tx.to || tx.to.toLowerCase() !== systemContractAddress.toLowerCase()) {
+        return { valid: false, code: 'TX_WRONG_CONTRACT', reason: 'Transaction was not sent to the VoteX election contract.' };
+    }
+    if (tx.from.toLowerCase() !== expectedVoterAddress.toLowerCase()) {
+        return { valid: false, code: 'TX_SENDER_MISMATCH', reason: 'Transaction was not signed by the authenticated voter wallet.' };
+    }
 
-                    if (
-                        Number(electionId) === expectedElectionId && // Compare numbers
-                        Number(postId) === expectedPostId && // Compare numbers
-                        blockchainCandidateId === expectedBlockchainCandidateId &&
-                        voterAddress.toLowerCase() === expectedVoterAddress.toLowerCase()
-                    ) {
-                        console.log(`Transaction ${transactionHash} verified. VoteCast event found.`);
-                        return true;
-                    }
-                }
-            } catch (e) {
-                // Ignore logs that cannot be parsed by our contract ABI
-            }
-        }
-        console.warn(`VoteCast event not found in transaction ${transactionHash} or arguments mismatch.`);
-        return false;
-    } catch (error) {
-        console.error(`Error verifying vote transaction ${transactionHash}:`, (error as Error).message);
-        return false;
+    const receipt = await chain.waitForVoteReceipt(systemContractAddress, transactionHash, VOTE_CONFIRMATIONS, VOTE_CONFIRMATION_TIMEOUT_MS);
+    if (!receipt) {
+        return { valid: false, code: 'TX_CONFIRMATION_TIMEOUT', reason: `Transaction did not reach ${VOTE_CONFIRMATIONS} confirmation(s) in time.` };
+    }
+    if (!receipt.succeeded) {
+        return { valid: false, code: 'TX_FAILED', reason: 'Transaction reverted on chain.' };
+    }
+
+    const voteCast = receipt.voteCast;
+    if (!voteCast) {
+        return { valid: false, code: 'VOTE_EVENT_NOT_FOUND', reason: 'No VoteCast event was emitted by this transaction.' };
     }
+
+    const { electionId, postId, blockchainCandidateId, voterAddress } = voteCast;
+    if (electionId !== expectedElectionId) {
+        return { valid: false, code: 'ELECTION_MISMATCH', reason: `Vote was cast in election ${electionId}, expected ${expectedElectionId}.` };
+    }
+    if (postId !== expectedPostId) {
+        return { valid: false, code: 'POST_MISMATCH', reason: `Vote was cast for post ${postId}, expected ${expectedPostId}.` };
+    }
+    if (blockchainCandidateId !== expectedBlockchainCandidateId) {
+        return { valid: false, code: 'CANDIDATE_MISMATCH', reason: 'Vote was cast for a different candidate.' };
+    }
+    if (voterAddress.toLowerCase() !== expectedVoterAddress.toLowerCase()) {
+        return { valid: false, code: 'VOTER_MISMATCH', reason: 'VoteCast event voter does not match the authenticated voter wallet.' };
+    }
+
+    console.log(`Transaction ${transactionHash} verified in block ${receipt.blockNumber} with ${receipt.confirmations} confirmation(s).`);
+    return { valid: true, blockNumber: receipt.blockNumber, confirmations: receipt.confirmations };
 };
 
 /**
@@ -391,9 +377,8 @@ export const hasVotedForPost = async (
   voterAddress: string
 ): Promise<boolean> => {
   console.log(`[Blockchain] Checking if voter ${voterAddress} has voted for post ${postId} in election ${electionId}...`);
-  const contract = getElectionContractInstance(systemContractAddress);
   try {
-      const voted = await contract.hasVotedForPost(electionId, postId, voterAddress);
+      const voted = await getChainAdapter().hasVotedForPost(systemContractAddress, electionId, postId, voterAddress);
       return voted;
   } catch (error) {
       console.error(`Error checking voter ${voterAddress} vote status for post ${postId} in election ${electionId}:`, (error as Error).message);
@@ -414,13 +399,12 @@ export const checkVoterHasVotedForElection = async (
     voterWalletAddress: string
 ): Promise<boolean> => {
     console.log(`[Blockchain] Checking if voter ${voterWalletAddress} has voted in election ${electionId}...`);
-    const contract = getElectionContractInstance(systemContractAddress);
+    const chain = getChainAdapter();
     try {
-        const electionDetails = await contract.getElectionDetails(electionId);
-        const postIds = electionDetails.postIds; // Assuming postIds is part of returned details
-        if (postIds && postIds.length > 0) {
+        const postIds = await chain.getElectionPostIds(systemContractAddress, electionId);
+        if (postIds.length > 0) {
           for (const postId of postIds) {
-            const hasVotedForThisPost = await contract.hasVotedForPost(electionId, postId, voterWalletAddress);
+            const hasVotedForThisPost = await chain.hasVotedForPost(systemContractAddress, electionId, postId, voterWalletAddress);
             if (hasVotedForThisPost) return true; // If voted for any post, return true
           }
         }
@@ -444,12 +428,11 @@ export const getLiveElectionResultsFromChain = async ( // RENAMED FROM getRealti
     blockchainCandidateIds: string[]
 ): Promise<Record<string, number>> => {
     console.log(`[Blockchain] Getting real-time vote counts for election ${electionId} from ${systemContractAddress}...`);
-    const contract = getElectionContractInstance(systemContractAddress);
+    const chain = getChainAdapter();
     const results: Record<string, number> = {};
     try {
         for (const candidateId of blockchainCandidateIds) {
-            const votes = await contract.getCandidateElectionVoteCount(electionId, candidateId);
-            results[candidateId] = Number(votes); // Convert BigInt to number
+            results[candidateId] = await chain.getCandidateVoteCount(systemContractAddress, electionId, candidateId);
         }
         return results;
     } catch (error) {
@@ -489,11 +472,8 @@ export const getVoterVoteForPost = async (
     voterWalletAddress: string
 ): Promise<string | null> => {
     console.log(`[Blockchain] Getting voter ${voterWalletAddress}'s vote for post ${postId} in election ${electionId}...`);
-    const contract = getElectionContractInstance(systemContractAddress);
     try {
-        // This function in the contract returns an empty string if not voted or not found
-        const votedCandidateId = await contract.getVoterVoteForPost(electionId, postId, voterWalletAddress);
-        return (votedCandidateId && votedCandidateId !== "") ? votedCandidateId : null;
+        return await getChainAdapter().getVoterVoteForPost(systemContractAddress, electionId, postId, voterWalletAddress);
     } catch (error) {
         console.error(`Error getting voter vote for post ${postId} in election ${electionId}:`, (error as Error).message);
         return null;
@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.26;
+
+interface IERC1271 {
+    function isValidSignature(bytes32 hash, bytes calldata signature) external view returns (bytes4);
+}
+
+// Deployless signature check for EIP-1271 smart-contract wallets and EIP-6492 signatures of wallets
+// that are not deployed yet. It is never deployed: eth_call its creation code (with the constructor
+// arguments appended) and the constructor returns 0x01 for a valid signature and 0x00 otherwise.
+// Because it runs inside eth_call, the factory deployment of an EIP-6492 signature leaves no trace.
+// Compiled with solc 0.8.26+commit.8a97fa7a (optimizer on with 200 runs, evmVersion paris so it also
+// runs on nodes without Shanghai/Cancun opcodes) into VALIDATE_SIG_OFFCHAIN_BYTECODE in
+// walletSignatures.ts, which lists the exact settings; recompile and update that constant when
+// changing this file.
+contract ValidateSigOffchain {
+    constructor(address signer, bytes32 hash, bytes memory signature) {
+        bool valid = isValidSig(signer, hash, signature);
+        assembly {
+            mstore(0, valid)
+            return(31, 1)
+        }
+    }
+
+    function isValidSig(address signer, bytes32 hash, bytes memory signature) internal returns (bool) {
+        uint256 length = signature.length;
+        bytes32 suffix;
+        if (length >= 32) {
+            assembly {
+                suffix := mload(add(signature, length))
+            }
+        }
+        if (suffix == 0x6492649264926492649264926492649264926492649264926492649264926492) {
+            assembly {
+                mstore(signature, sub(length, 32))
+            }
+            (address factory, bytes memory factoryCalldata, bytes memory innerSignature) =
+                abi.decode(signature, (address, bytes, bytes));
+            if (signer.code.length == 0) {
+                (bool deployed,) = factory.call(factoryCalldata);
+                deployed;
+            }
+            signature = innerSignature;
+        }
+        if (signer.code.length > 0) {
+            try IERC1271(signer).isValidSignature(hash, signature) returns (bytes4 magicValue) {
+                return magicValue == IERC1271.isValidSignature.selector;
+            } catch {
+                return false;
+            }
+        }
+        if (signature.length != 65) return false;
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        assembly {
+            r := mload(add(signature, 32))
+            s := mload(add(signature, 64))
+            v := byte(0, mload(add(signature, 96)))
+        }
+        if (v < 27) v += 27;
+        return ecrecover(hash, v, r, s) == signer;
+    }
+}
@@ -0,0 +1,91 @@
+// --- Chain Adapter Contract ---
+// Every blockchain interaction in the backend goes through a ChainAdapter so the API can run
+// against a real node (ethers) or fully offline against the in-process simulated ledger.
+
+export type ChainAdapterKind = 'ethers' | 'simulated';
+
+export interface VoteCastEvent {
+  electionId: number;
+  postId: number;
+  blockchainCandidateId: string;
+  voterAddress: string;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+interface ChainEventBase {
+  transactionHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockHash: string;
+}
+
+// Contract events followed by the indexer
+export type ChainEvent =
+  | (ChainEventBase & { type: 'VoteCast'; electionId: number; postId: number; blockchainCandidateId: string; voterAddress: string })
+  | (ChainEventBase & { type: 'ElectionStarted' | 'ElectionEnded'; electionId: number })
+  | (ChainEventBase & { type: 'VoterWhitelisted' | 'VoterRemovedFromWhitelist'; voterAddress: string });
+
+export type ChainEventType = ChainEvent['type'];
+
+export interface ChainTransactionInfo {
+  hash: string;
+  from: string;
+  to: string | null;
+}
+
+export interface ChainVoteReceipt {
+  blockNumber: number;
+  confirmations: number;
+  succeeded: boolean;
+  // Decoded VoteCast log emitted by the system contract, if any
+  voteCast: VoteCastEvent | null;
+}
+
+export interface ChainAdapter {
+  readonly kind: ChainAdapterKind;
+
+  // --- System setup ---
+  deploySystemContract(): Promise<string>;
+
+  // --- Election configuration (admin signed, return tx hash) ---
+  createElection(systemContractAddress: string, electionId: number, title: string, description: string, startTime: number, endTime: number): Promise<string>;
+  createPost(systemContractAddress: string, electionId: number, postId: number, name: string, maxVotesPerVoter: number): Promise<string>;
+  registerCandidate(systemContractAddress: string, electionId: number, postId: number, blockchainCandidateId: string, candidateName: string): Promise<string>;
+  globalWhitelistVoter(systemContractAddress: string, voterAddress: string): Promise<string>;
+  removeVoterFromGlobalWhitelist(systemContractAddress: string, voterAddress: string): Promise<string>;
+  startElection(systemContractAddress: string, electionId: number): Promise<string>;
+  endElection(systemContractAddress: string, electionId: number): Promise<string>;
+
+  // --- Voting ---
+  // Submits castVote as `voterAddress`. Only possible where the adapter controls the voter's signer (simulated ledger).
+  castVote(systemContractAddress: string, electionId: number, postId: number, blockchainCandidateId: string, voterAddress: string): Promise<string>;
+  getTransaction(txHash: string): Promise<ChainTransactionInfo | null>;
+  // Resolves once the tx has `confirmations` confirmations, or null if that does not happen within `timeoutMs`.
+  waitForVoteReceipt(systemContractAddress: string, txHash: string, confirmations: number, timeoutMs: number): Promise<ChainVoteReceipt | null>;
+
+  // --- Reads ---
+  isVoterGloballyWhitelisted(systemContractAddress: string, voterAddress: string): Promise<boolean>;
+  hasVotedForPost(systemContractAddress: string, electionId: number, postId: number, voterAddress: string): Promise<boolean>;
+  getElectionPostIds(systemContractAddress: string, electionId: number): Promise<number[]>;
+  getCandidateVoteCount(systemContractAddress: string, electionId: number, blockchainCandidateId: string): Promise<number>;
+  // The voter's choice on a post; the first one on the simulated ledger's multi-choice posts
+  getVoterVoteForPost(systemContractAddress: string, electionId: number, postId: number, voterAddress: string): Promise<string | null>;
+
+  // --- Wallet signatures ---
+  // Code deployed at `address`; '0x' for externally owned accounts and wallets that are not deployed yet
+  getCode(address: string): Promise<string>;
+  // Whether the smart-contract wallet at `signer` accepts `signature` over `hash` (EIP-1271). An EIP-6492
+  // signature of a wallet that is not deployed yet is checked as if the wallet were, without deploying it.
+  isValidSignature(signer: string, hash: string, signature: string): Promise<boolean>;
+
+  // --- Events ---
+  getBlockNumber(): Promise<number>;
+  // Hash of the canonical block at `blockNumber`, or null if it does not exist (yet)
+  getBlockHash(blockNumber: number): Promise<string | null>;
+  // Unix timestamp (seconds) of the block at `blockNumber`, or null if it does not exist (yet)
+  getBlockTimestamp(blockNumber: number): Promise<number | null>;
+  // All followed events emitted by the system contract in [fromBlock, toBlock], in chain order
+  getContractEvents(systemContractAddress: string, fromBlock: number, toBlock: number): Promise<ChainEvent[]>;
+  getVoteCastEvents(systemContractAddress: string, electionId: number, fromBlock: number, toBlock?: number): Promise<VoteCastEvent[]>;
+}
@@ -0,0 +1,260 @@
+import { ethers, EventLog } from 'ethers';
+import path from 'path';
+import fs from 'fs';
+import { ChainAdapter, ChainEvent, ChainVoteReceipt, VoteCastEvent } from './chainAdapter';
+import { VALIDATE_SIG_OFFCHAIN_BYTECODE } from './walletSignatures';
+
+const contractAbiPath = path.join(__dirname, '../../../abi/VoteXElection.json');
+
+interface ContractArtifact {
+  abi: any;
+  bytecode: string;
+}
+
+let cachedArtifact: ContractArtifact | null = null;
+
+// The ABI is loaded on first use so the API can still boot (e.g. with the simulated adapter)
+// when the sibling votex-contracts build has not been copied into dist/abi.
+const loadContractArtifact = (): ContractArtifact => {
+  if (cachedArtifact) return cachedArtifact;
+  try {
+    const contractJson = JSON.parse(fs.readFileSync(contractAbiPath, 'utf8'));
+    cachedArtifact = { abi: contractJson.abi, bytecode: contractJson.bytecode };
+    console.log('VoteXElection ABI and Bytecode loaded successfully.');
+    return cachedArtifact;
+  } catch (error) {
+    throw new Error(`Error loading VoteXElection ABI/Bytecode from ${contractAbiPath}: ${(error as Error).message}`);
+  }
+};
+
+const toVoteCastEvent = (args: ethers.Result, transactionHash: string, blockNumber: number): VoteCastEvent => ({
+  electionId: Number(args.electionId),
+  postId: Number(args.postId),
+  blockchainCandidateId: args.blockchainCandidateId,
+  voterAddress: String(args.voterAddress).toLowerCase(),
+  transactionHash,
+  blockNumber,
+});
+
+// Contract event names mapped onto the adapter's event types
+const LIFECYCLE_EVENT_NAMES: Record<string, 'ElectionStarted' | 'ElectionEnded'> = {
+  ElectionStarted: 'ElectionStarted',
+  ElectionEnded: 'ElectionEnded',
+};
+const WHITELIST_EVENT_NAMES = ['VoterGloballyWhitelisted', 'VoterWhitelisted'];
+const WHITELIST_REMOVAL_EVENT_NAMES = ['VoterRemovedFromGlobalWhitelist', 'VoterRemovedFromWhitelist'];
+
+const toChainEvent = (parsedLog: ethers.LogDescription, log: ethers.Log): ChainEvent | null => {
+  const base = {
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+  };
+  if (parsedLog.name === 'VoteCast') {
+    const { electionId, postId, blockchainCandidateId, voterAddress } = toVoteCastEvent(parsedLog.args, log.transactionHash, log.blockNumber);
+    return { ...base, type: 'VoteCast', electionId, postId, blockchainCandidateId, voterAddress };
+  }
+  if (LIFECYCLE_EVENT_NAMES[parsedLog.name]) {
+    return { ...base, type: LIFECYCLE_EVENT_NAMES[parsedLog.name], electionId: Number(parsedLog.args[0]) };
+  }
+  if (WHITELIST_EVENT_NAMES.includes(parsedLog.name)) {
+    return { ...base, type: 'VoterWhitelisted', voterAddress: String(parsedLog.args[0]).toLowerCase() };
+  }
+  if (WHITELIST_REMOVAL_EVENT_NAMES.includes(parsedLog.name)) {
+    return { ...base, type: 'VoterRemovedFromWhitelist', voterAddress: String(parsedLog.args[0]).toLowerCase() };
+  }
+  return null;
+};
+
+/**
+ * Creates a ChainAdapter backed by an ethers JSON-RPC provider and the deployed VoteXElection contract.
+ * @param {string} rpcUrl - The Ethereum JSON-RPC endpoint.
+ * @param {string} [adminPrivateKey] - Private key used to sign admin transactions. Without it the adapter is read-only.
+ * @returns {ChainAdapter} The ethers-backed adapter.
+ */
+export const createEthersChainAdapter = (rpcUrl: string, adminPrivateKey?: string): ChainAdapter => {
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+
+  let adminWallet: ethers.Wallet | null = null;
+  if (adminPrivateKey) {
+    adminWallet = new ethers.Wallet(adminPrivateKey, provider);
+    console.log(`Blockchain Service: Admin wallet initialized with address ${adminWallet.address}`);
+  } else {
+    console.warn('Blockchain Service: ADMIN_PRIVATE_KEY is not set. Backend will only be able to perform read operations.');
+  }
+
+  // Return a new instance each time to ensure it's connected to the correct signer/provider
+  const getContract = (contractAddress: string): ethers.Contract => {
+    if (!ethers.isAddress(contractAddress)) {
+      throw new Error(`Invalid contract address: ${contractAddress}`);
+    }
+    return new ethers.Contract(contractAddress, loadContractArtifact().abi, adminWallet || provider);
+  };
+
+  const requireAdminWallet = (action: string): ethers.Wallet => {
+    if (!adminWallet) throw new Error(`Admin wallet not configured. Cannot ${action}.`);
+    return adminWallet;
+  };
+
+  // Sends an admin transaction and waits for it to be mined
+  const sendAdminTx = async (systemContractAddress: string, action: string, method: string, args: unknown[]): Promise<string> => {
+    requireAdminWallet(action);
+    const contract = getContract(systemContractAddress);
+    const tx = await contract[method](...args);
+    await tx.wait();
+    return tx.hash;
+  };
+
+  return {
+    kind: 'ethers',
+
+    deploySystemContract: async () => {
+      const wallet = requireAdminWallet('deploy contract');
+      const { abi, bytecode } = loadContractArtifact();
+      const factory = new ethers.ContractFactory(abi, bytecode, wallet);
+      const contract = await factory.deploy();
+      await contract.waitForDeployment(); // Wait for contract to be mined
+      return contract.getAddress();
+    },
+
+    createElection: (systemContractAddress, electionId, title, description, startTime, endTime) =>
+      sendAdminTx(systemContractAddress, 'create election on chain', 'createElection', [electionId, title, description, startTime, endTime]),
+
+    createPost: (systemContractAddress, electionId, postId, name, maxVotesPerVoter) =>
+      sendAdminTx(systemContractAddress, 'create post on chain', 'createPost', [electionId, postId, name, maxVotesPerVoter]),
+
+    registerCandidate: (systemContractAddress, electionId, postId, blockchainCandidateId, candidateName) =>
+      sendAdminTx(systemContractAddress, 'register candidate on chain', 'registerCandidate', [electionId, postId, blockchainCandidateId, candidateName]),
+
+    globalWhitelistVoter: (systemContractAddress, voterAddress) =>
+      sendAdminTx(systemContractAddress, 'whitelist voter globally', 'globalWhitelistVoter', [voterAddress]),
+
+    removeVoterFromGlobalWhitelist: (systemContractAddress, voterAddress) =>
+      sendAdminTx(systemContractAddress, 'remove voter from global whitelist', 'removeVoterFromGlobalWhitelist', [voterAddress]),
+
+    startElection: (systemContractAddress, electionId) =>
+      sendAdminTx(systemContractAddress, 'start election', 'startElection', [electionId]),
+
+    endElection: (systemContractAddress, electionId) =>
+      sendAdminTx(systemContractAddress, 'end election', 'endElection', [electionId]),
+
+    castVote: async () => {
+      // The backend never holds voter keys; votes are signed by the voter's wallet in the frontend.
+      throw new Error('castVote must be submitted by the voter\'s wallet when using the ethers chain adapter.');
+    },
+
+    getTransaction: async (txHash) => {
+      const tx = await provider.getTransaction(txHash);
+      if (!tx) return null;
+      return { hash: tx.hash, from: tx.from, to: tx.to };
+    },
+
+    waitForVoteReceipt: async (systemContractAddress, txHash, confirmations, timeoutMs): Promise<ChainVoteReceipt | null> => {
+      let receipt: ethers.TransactionReceipt | null;
+      try {
+        receipt = await provider.waitForTransaction(txHash, confirmations, timeoutMs);
+      } catch (error) {
+        console.warn(`Timed out waiting for confirmations on ${txHash}:`, (error as Error).message);
+        return null;
+      }
+      if (!receipt) return null;
+
+      // Decode the first VoteCast log emitted by our contract
+      const contract = getContract(systemContractAddress);
+      let voteCast: VoteCastEvent | null = null;
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== systemContractAddress.toLowerCase()) continue;
+        try {
+          const parsedLog = contract.interface.parseLog(log);
+          if (parsedLog && parsedLog.name === 'VoteCast') {
+            voteCast = toVoteCastEvent(parsedLog.args, receipt.hash, receipt.blockNumber);
+            break;
+          }
+        } catch (e) {
+          // Ignore logs that cannot be parsed by our contract ABI
+        }
+      }
+
+      return {
+        blockNumber: receipt.blockNumber,
+        confirmations: await receipt.confirmations(),
+        succeeded: receipt.status === 1,
+        voteCast,
+      };
+    },
+
+    isVoterGloballyWhitelisted: async (systemContractAddress, voterAddress) =>
+      getContract(systemContractAddress).isVoterGloballyWhitelisted(voterAddress),
+
+    hasVotedForPost: async (systemContractAddress, electionId, postId, voterAddress) =>
+      getContract(systemContractAddress).hasVotedForPost(electionId, postId, voterAddress),
+
+    getElectionPostIds: async (systemContractAddress, electionId) => {
+      const electionDetails = await getContract(systemContractAddress).getElectionDetails(electionId);
+      return (electionDetails.postIds || []).map((postId: bigint) => Number(postId));
+    },
+
+    getCandidateVoteCount: async (systemContractAddress, electionId, blockchainCandidateId) => {
+      const votes = await getContract(systemContractAddress).getCandidateElectionVoteCount(electionId, blockchainCandidateId);
+      return Number(votes); // Convert BigInt to number
+    },
+
+    getVoterVoteForPost: async (systemContractAddress, electionId, postId, voterAddress) => {
+      // This function in the contract returns an empty string if not voted or not found
+      const votedCandidateId = await getContract(systemContractAddress).getVoterVoteForPost(electionId, postId, voterAddress);
+      return (votedCandidateId && votedCandidateId !== '') ? votedCandidateId : null;
+    },
+
+    getCode: (address) => provider.getCode(address),
+
+    isValidSignature: async (signer, hash, signature) => {
+      // Runs ValidateSigOffchain's constructor in an eth_call; it returns 0x01 for a valid signature
+      const args = ethers.AbiCoder.defaultAbiCoder().encode(['address', 'bytes32', 'bytes'], [signer, hash, signature]);
+      try {
+        const result = await provider.call({ data: ethers.concat([VALIDATE_SIG_OFFCHAIN_BYTECODE, args]) });
+        return result === '0x01';
+      } catch (error) {
+        // A malformed EIP-6492 wrapper reverts; anything else (e.g. the node being down) is not an answer
+        if (ethers.isError(error, 'CALL_EXCEPTION')) return false;
+        throw error;
+      }
+    },
+
+    getBlockNumber: () => provider.getBlockNumber(),
+
+    getBlockHash: async (blockNumber) => {
+      const block = await provider.getBlock(blockNumber);
+      return block?.hash || null;
+    },
+
+    getBlockTimestamp: async (blockNumber) => {
+      const block = await provider.getBlock(blockNumber);
+      return block ? block.timestamp : null;
+    },
+
+    getContractEvents: async (systemContractAddress, fromBlock, toBlock) => {
+      const contract = getContract(systemContractAddress);
+      const logs = await provider.getLogs({ address: systemContractAddress, fromBlock, toBlock });
+      const events: ChainEvent[] = [];
+      for (const log of logs) {
+        try {
+          const parsedLog = contract.interface.parseLog(log);
+          const event = parsedLog ? toChainEvent(parsedLog, log) : null;
+          if (event) events.push(event);
+        } catch (e) {
+          // Ignore logs that cannot be parsed by our contract ABI
+        }
+      }
+      return events;
+    },
+
+    getVoteCastEvents: async (systemContractAddress, electionId, fromBlock, toBlock) => {
+      const contract = getContract(systemContractAddress);
+      const events = await contract.queryFilter(contract.filters.VoteCast(electionId), fromBlock, toBlock);
+      return events
+        .filter((event): event is EventLog => 'args' in event)
+        .map(event => toVoteCastEvent(event.args, event.transactionHash, event.blockNumber));
+    },
+  };
+};
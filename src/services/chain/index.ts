@@ -0,0 +1,44 @@
+import dotenv from 'dotenv';
+import { ChainAdapter, ChainAdapterKind } from './chainAdapter';
+import { createEthersChainAdapter } from './ethersChainAdapter';
+import { createSimulatedChainAdapter } from './simulatedChainAdapter';
+
+dotenv.config();
+
+export * from './chainAdapter';
+export * from './walletSignatures';
+export type { SimulatedChainAdapter, SimulatedSmartWallet } from './simulatedChainAdapter';
+
+// --- Configuration ---
+const CHAIN_ADAPTER = (process.env.CHAIN_ADAPTER || 'ethers') as ChainAdapterKind; // 'ethers' | 'simulated'
+const ETHEREUM_RPC_URL = process.env.ETHEREUM_RPC_URL || 'http://127.0.0.1:8545'; // Hardhat Network default
+const ADMIN_PRIVATE_KEY = process.env.ADMIN_PRIVATE_KEY; // Private key for backend-initiated transactions
+
+let chainAdapter: ChainAdapter | null = null;
+
+/**
+ * Returns the process-wide chain adapter selected by CHAIN_ADAPTER, creating it on first use.
+ * @returns {ChainAdapter} The active chain adapter.
+ */
+export const getChainAdapter = (): ChainAdapter => {
+  if (chainAdapter) return chainAdapter;
+  switch (CHAIN_ADAPTER) {
+    case 'ethers':
+      chainAdapter = createEthersChainAdapter(ETHEREUM_RPC_URL, ADMIN_PRIVATE_KEY);
+      break;
+    case 'simulated':
+      chainAdapter = createSimulatedChainAdapter(ADMIN_PRIVATE_KEY);
+      break;
+    default:
+      throw new Error(`Unknown CHAIN_ADAPTER "${CHAIN_ADAPTER}". Expected "ethers" or "simulated".`);
+  }
+  return chainAdapter;
+};
+
+/**
+ * Replaces the active chain adapter, e.g. with a fresh simulated ledger in integration tests.
+ * @param {ChainAdapter} adapter - The adapter to use for all subsequent blockchain calls.
+ */
+export const setChainAdapter = (adapter: ChainAdapter): void => {
+  chainAdapter = adapter;
+};
@@ -0,0 +1,369 @@
+import { ethers } from 'ethers';
+import { ChainAdapter, ChainEvent, ChainTransactionInfo, VoteCastEvent } from './chainAdapter';
+import { unwrapEip6492Signature } from './walletSignatures';
+
+// --- In-process simulated ledger ---
+// Mirrors the VoteXElection contract rules (whitelist, voting window, one vote per post for
+// plurality posts) so the backend can be run and integration-tested without a node or the contract
+// build. Unlike the contract as far as it is known, it also accepts up to maxVotesPerVoter distinct
+// choices per voter per post, which approval, top_n, irv and stv posts need; those methods are only
+// allowed on this ledger (see checkVotingMethodSupported).
+
+interface SimulatedElection {
+  id: number;
+  title: string;
+  description: string;
+  startTime: number;
+  endTime: number;
+  isStarted: boolean;
+  isEnded: boolean;
+  postIds: number[];
+}
+
+interface SimulatedPost {
+  id: number;
+  name: string;
+  maxVotesPerVoter: number;
+  candidateIds: string[];
+}
+
+interface SimulatedContract {
+  elections: Map<number, SimulatedElection>;
+  posts: Map<string, SimulatedPost>; // key: electionId:postId
+  candidateNames: Map<string, string>; // key: electionId:blockchainCandidateId
+  voteCounts: Map<string, number>; // key: electionId:blockchainCandidateId
+  votes: Map<string, string[]>; // key: electionId:postId:voterAddress -> blockchainCandidateIds in the order cast
+  whitelist: Set<string>;
+  events: ChainEvent[];
+}
+
+interface SimulatedTransaction extends ChainTransactionInfo {
+  blockNumber: number;
+  voteCast: VoteCastEvent | null;
+}
+
+export interface SimulatedSmartWallet {
+  address: string;
+  owner: string;
+  factory: string; // With factoryCalldata, the deployment data for EIP-6492 signatures
+  factoryCalldata: string;
+  deployed: boolean;
+}
+
+export interface SimulatedChainAdapter extends ChainAdapter {
+  // Moves the ledger clock forward, e.g. to pass an election's endTime in tests.
+  increaseTime(seconds: number): void;
+  // Mines empty blocks, e.g. to add confirmations.
+  mineBlocks(count: number): void;
+  // Creates a smart-contract wallet that accepts signatures by `owner`'s key (EIP-1271), like a 1-of-1 Safe.
+  // With deploy: false it stays counterfactual, so only EIP-6492 signatures verify until it is created again
+  // with deploy: true. The same owner and salt always give the same address.
+  createSmartWallet(owner: string, options?: { deploy?: boolean; salt?: number }): SimulatedSmartWallet;
+}
+
+const DEFAULT_ADMIN_ADDRESS = '0x0000000000000000000000000000000000000001';
+const SMART_WALLET_FACTORY_ADDRESS = '0x0000000000000000000000000000000000001271';
+const smartWalletFactory = new ethers.Interface(['function createAccount(address owner, uint256 salt) returns (address)']);
+// Only whether an account has code matters to callers, so deployed accounts all report the same stand-in
+const SIMULATED_CODE = '0xfe';
+
+// Address the simulated factory deploys a wallet for `owner` and `salt` to (CREATE2)
+const smartWalletAddress = (owner: string, salt: number): string =>
+  ethers.getCreate2Address(
+    SMART_WALLET_FACTORY_ADDRESS,
+    ethers.zeroPadValue(ethers.toBeHex(salt), 32),
+    ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(['address'], [owner]))
+  ).toLowerCase();
+
+// Surfaces rule violations the way ethers reports contract reverts, so callers can match on the error name.
+const revert = (reason: string): never => {
+  throw new Error(`execution reverted: ${reason}`);
+};
+
+/**
+ * Creates a ChainAdapter backed by an in-memory ledger that enforces the VoteXElection rules.
+ * Every transaction is mined into its own block immediately; contracts are created on first use
+ * so any configured ELECTION_SYSTEM_CONTRACT_ADDRESS works.
+ * @param {string} [adminPrivateKey] - Used only to derive the admin sender address for recorded transactions.
+ * @returns {SimulatedChainAdapter} The simulated adapter.
+ */
+export const createSimulatedChainAdapter = (adminPrivateKey?: string): SimulatedChainAdapter => {
+  const adminAddress = (adminPrivateKey ? new ethers.Wallet(adminPrivateKey).address : DEFAULT_ADMIN_ADDRESS).toLowerCase();
+  const contracts = new Map<string, SimulatedContract>();
+  const transactions = new Map<string, SimulatedTransaction>();
+  const smartWallets = new Map<string, string>(); // deployed wallet address -> owner
+  const blockHashes: string[] = [ethers.ZeroHash]; // index = block number; block 0 is genesis
+  const blockTimestamps: number[] = [Math.floor(Date.now() / 1000)];
+  let timeOffset = 0;
+  let deployNonce = 0;
+
+  console.log('Blockchain Service: Using simulated in-memory chain ledger.');
+
+  const currentBlock = (): number => blockHashes.length - 1;
+
+  const now = (): number => Math.floor(Date.now() / 1000) + timeOffset;
+
+  const mineBlock = (): number => {
+    blockHashes.push(ethers.keccak256(ethers.toUtf8Bytes(`block:${blockHashes.length}:${Math.random()}`)));
+    blockTimestamps.push(now());
+    return currentBlock();
+  };
+
+  const getContract = (address: string): SimulatedContract => {
+    if (!ethers.isAddress(address)) {
+      throw new Error(`Invalid contract address: ${address}`);
+    }
+    const key = address.toLowerCase();
+    let contract = contracts.get(key);
+    if (!contract) {
+      contract = {
+        elections: new Map(),
+        posts: new Map(),
+        candidateNames: new Map(),
+        voteCounts: new Map(),
+        votes: new Map(),
+        whitelist: new Set(),
+        events: [],
+      };
+      contracts.set(key, contract);
+    }
+    return contract;
+  };
+
+  const getElection = (contract: SimulatedContract, electionId: number): SimulatedElection => {
+    const election = contract.elections.get(electionId);
+    if (!election) return revert('ElectionNotFound');
+    return election;
+  };
+
+  const getPost = (contract: SimulatedContract, electionId: number, postId: number): SimulatedPost => {
+    const post = contract.posts.get(`${electionId}:${postId}`);
+    if (!post) return revert('PostNotFound');
+    return post;
+  };
+
+  // Event fields known before the transaction is mined (distributes over the ChainEvent union)
+  type EventPayload = ChainEvent extends infer E ? (E extends ChainEvent ? Omit<E, 'transactionHash' | 'logIndex' | 'blockNumber' | 'blockHash'> : never) : never;
+
+  // Records a successful transaction (and the event it emits) in a freshly mined block and returns its hash
+  const mineTransaction = (from: string, to: string, eventPayload?: EventPayload): string => {
+    const blockNumber = mineBlock();
+    const hash = ethers.keccak256(ethers.toUtf8Bytes(`${from}:${to}:${blockNumber}:${Math.random()}`));
+    let voteCast: VoteCastEvent | null = null;
+    if (eventPayload) {
+      const event = { ...eventPayload, transactionHash: hash, logIndex: 0, blockNumber, blockHash: blockHashes[blockNumber] } as ChainEvent;
+      getContract(to).events.push(event);
+      if (event.type === 'VoteCast') {
+        const { electionId, postId, blockchainCandidateId, voterAddress } = event;
+        voteCast = { electionId, postId, blockchainCandidateId, voterAddress, transactionHash: hash, blockNumber };
+      }
+    }
+    transactions.set(hash, { hash, from, to: to.toLowerCase(), blockNumber, voteCast });
+    return hash;
+  };
+
+  return {
+    kind: 'simulated',
+
+    increaseTime: (seconds) => {
+      timeOffset += seconds;
+    },
+
+    mineBlocks: (count) => {
+      for (let i = 0; i < count; i++) mineBlock();
+    },
+
+    createSmartWallet: (owner, options = {}) => {
+      if (!ethers.isAddress(owner)) throw new Error(`Invalid owner address: ${owner}`);
+      const salt = options.salt ?? 0;
+      const address = smartWalletAddress(owner, salt);
+      const factoryCalldata = smartWalletFactory.encodeFunctionData('createAccount', [owner, salt]);
+      if (options.deploy !== false && !smartWallets.has(address)) {
+        smartWallets.set(address, owner.toLowerCase());
+        mineTransaction(adminAddress, SMART_WALLET_FACTORY_ADDRESS);
+      }
+      return {
+        address,
+        owner: owner.toLowerCase(),
+        factory: SMART_WALLET_FACTORY_ADDRESS,
+        factoryCalldata,
+        deployed: smartWallets.has(address),
+      };
+    },
+
+    deploySystemContract: async () => {
+      const address = ethers.getCreateAddress({ from: adminAddress, nonce: deployNonce++ });
+      getContract(address);
+      mineTransaction(adminAddress, address);
+      return address;
+    },
+
+    createElection: async (systemContractAddress, electionId, title, description, startTime, endTime) => {
+      const contract = getContract(systemContractAddress);
+      if (contract.elections.has(electionId)) revert('ElectionAlreadyExists');
+      if (endTime <= startTime) revert('InvalidElectionPeriod');
+      contract.elections.set(electionId, {
+        id: electionId, title, description, startTime, endTime, isStarted: false, isEnded: false, postIds: [],
+      });
+      return mineTransaction(adminAddress, systemContractAddress);
+    },
+
+    createPost: async (systemContractAddress, electionId, postId, name, maxVotesPerVoter) => {
+      const contract = getContract(systemContractAddress);
+      const election = getElection(contract, electionId);
+      if (election.isStarted) revert('ElectionAlreadyStarted');
+      if (contract.posts.has(`${electionId}:${postId}`)) revert('PostAlreadyExists');
+      contract.posts.set(`${electionId}:${postId}`, { id: postId, name, maxVotesPerVoter, candidateIds: [] });
+      election.postIds.push(postId);
+      return mineTransaction(adminAddress, systemContractAddress);
+    },
+
+    registerCandidate: async (systemContractAddress, electionId, postId, blockchainCandidateId, candidateName) => {
+      const contract = getContract(systemContractAddress);
+      const election = getElection(contract, electionId);
+      if (election.isStarted) revert('ElectionAlreadyStarted');
+      const post = getPost(contract, electionId, postId);
+      if (contract.candidateNames.has(`${electionId}:${blockchainCandidateId}`)) revert('CandidateAlreadyRegistered');
+      post.candidateIds.push(blockchainCandidateId);
+      contract.candidateNames.set(`${electionId}:${blockchainCandidateId}`, candidateName);
+      contract.voteCounts.set(`${electionId}:${blockchainCandidateId}`, 0);
+      return mineTransaction(adminAddress, systemContractAddress);
+    },
+
+    globalWhitelistVoter: async (systemContractAddress, voterAddress) => {
+      if (!ethers.isAddress(voterAddress)) revert('InvalidVoterAddress');
+      const contract = getContract(systemContractAddress);
+      const voter = voterAddress.toLowerCase();
+      if (contract.whitelist.has(voter)) revert('AlreadyGloballyWhitelisted');
+      contract.whitelist.add(voter);
+      return mineTransaction(adminAddress, systemContractAddress, { type: 'VoterWhitelisted', voterAddress: voter });
+    },
+
+    removeVoterFromGlobalWhitelist: async (systemContractAddress, voterAddress) => {
+      if (!ethers.isAddress(voterAddress)) revert('InvalidVoterAddress');
+      const contract = getContract(systemContractAddress);
+      const voter = voterAddress.toLowerCase();
+      if (!contract.whitelist.has(voter)) revert('NotGloballyWhitelisted');
+      contract.whitelist.delete(voter);
+      return mineTransaction(adminAddress, systemContractAddress, { type: 'VoterRemovedFromWhitelist', voterAddress: voter });
+    },
+
+    startElection: async (systemContractAddress, electionId) => {
+      const contract = getContract(systemContractAddress);
+      const election = getElection(contract, electionId);
+      if (election.isStarted) revert('ElectionAlreadyStarted');
+      if (now() > election.endTime) revert('ElectionPeriodOver');
+      election.isStarted = true;
+      return mineTransaction(adminAddress, systemContractAddress, { type: 'ElectionStarted', electionId });
+    },
+
+    endElection: async (systemContractAddress, electionId) => {
+      const contract = getContract(systemContractAddress);
+      const election = getElection(contract, electionId);
+      if (!election.isStarted) revert('ElectionNotStarted');
+      if (election.isEnded) revert('ElectionAlreadyEnded');
+      election.isEnded = true;
+      return mineTransaction(adminAddress, systemContractAddress, { type: 'ElectionEnded', electionId });
+    },
+
+    castVote: async (systemContractAddress, electionId, postId, blockchainCandidateId, voterAddress) => {
+      const contract = getContract(systemContractAddress);
+      const voter = voterAddress.toLowerCase();
+      const election = getElection(contract, electionId);
+      if (!election.isStarted || election.isEnded) revert('ElectionNotActive');
+      const timestamp = now();
+      if (timestamp < election.startTime || timestamp > election.endTime) revert('OutsideVotingPeriod');
+      if (!contract.whitelist.has(voter)) revert('VoterNotWhitelisted');
+      const post = getPost(contract, electionId, postId);
+      if (!post.candidateIds.includes(blockchainCandidateId)) revert('CandidateNotFound');
+      // Multi-select and ranked posts take up to maxVotesPerVoter distinct choices, one transaction each
+      const voteKey = `${electionId}:${postId}:${voter}`;
+      const choices = contract.votes.get(voteKey) || [];
+      if (choices.includes(blockchainCandidateId)) revert('AlreadyVotedForCandidate');
+      if (choices.length >= post.maxVotesPerVoter) revert('AlreadyVotedForPost');
+
+      contract.votes.set(voteKey, [...choices, blockchainCandidateId]);
+      const countKey = `${electionId}:${blockchainCandidateId}`;
+      contract.voteCounts.set(countKey, (contract.voteCounts.get(countKey) || 0) + 1);
+
+      return mineTransaction(voter, systemContractAddress, { type: 'VoteCast', electionId, postId, blockchainCandidateId, voterAddress: voter });
+    },
+
+    getTransaction: async (txHash) => {
+      const tx = transactions.get(txHash);
+      return tx ? { hash: tx.hash, from: tx.from, to: tx.to } : null;
+    },
+
+    waitForVoteReceipt: async (systemContractAddress, txHash, confirmations) => {
+      const tx = transactions.get(txHash);
+      if (!tx) return null;
+      // Transactions here are final immediately; mine empty blocks instead of waiting
+      while (currentBlock() - tx.blockNumber + 1 < confirmations) mineBlock();
+      const voteCast = tx.to === systemContractAddress.toLowerCase() ? tx.voteCast : null;
+      return { blockNumber: tx.blockNumber, confirmations: currentBlock() - tx.blockNumber + 1, succeeded: true, voteCast };
+    },
+
+    isVoterGloballyWhitelisted: async (systemContractAddress, voterAddress) =>
+      getContract(systemContractAddress).whitelist.has(voterAddress.toLowerCase()),
+
+    hasVotedForPost: async (systemContractAddress, electionId, postId, voterAddress) =>
+      getContract(systemContractAddress).votes.has(`${electionId}:${postId}:${voterAddress.toLowerCase()}`),
+
+    getElectionPostIds: async (systemContractAddress, electionId) =>
+      [...getElection(getContract(systemContractAddress), electionId).postIds],
+
+    getCandidateVoteCount: async (systemContractAddress, electionId, blockchainCandidateId) =>
+      getContract(systemContractAddress).voteCounts.get(`${electionId}:${blockchainCandidateId}`) || 0,
+
+    getVoterVoteForPost: async (systemContractAddress, electionId, postId, voterAddress) =>
+      getContract(systemContractAddress).votes.get(`${electionId}:${postId}:${voterAddress.toLowerCase()}`)?.[0] || null,
+
+    getCode: async (address) =>
+      (contracts.has(address.toLowerCase()) || smartWallets.has(address.toLowerCase()) ? SIMULATED_CODE : '0x'),
+
+    isValidSignature: async (signer, hash, signature) => {
+      const wallet = signer.toLowerCase();
+      let owner = smartWallets.get(wallet);
+      let walletSignature = signature;
+      const wrapped = unwrapEip6492Signature(signature);
+      if (wrapped) {
+        walletSignature = wrapped.signature;
+        // Simulates the deployment without recording it, as an eth_call would
+        if (!owner && wrapped.factory === SMART_WALLET_FACTORY_ADDRESS) {
+          try {
+            const [walletOwner, salt] = smartWalletFactory.decodeFunctionData('createAccount', wrapped.factoryCalldata);
+            if (smartWalletAddress(walletOwner, Number(salt)) === wallet) owner = String(walletOwner).toLowerCase();
+          } catch (error) {
+            // Not a call to the simulated factory, so nothing is deployed
+          }
+        }
+      }
+      if (!owner) return false;
+      try {
+        return ethers.recoverAddress(hash, walletSignature).toLowerCase() === owner;
+      } catch (error) {
+        return false;
+      }
+    },
+
+    getBlockNumber: async () => currentBlock(),
+
+    getBlockHash: async (blockNumber) => blockHashes[blockNumber] || null,
+
+    getBlockTimestamp: async (blockNumber) => blockTimestamps[blockNumber] ?? null,
+
+    getContractEvents: async (systemContractAddress, fromBlock, toBlock) =>
+      getContract(systemContractAddress).events.filter(event => event.blockNumber >= fromBlock && event.blockNumber <= toBlock),
+
+    getVoteCastEvents: async (systemContractAddress, electionId, fromBlock, toBlock) => {
+      const voteEvents: VoteCastEvent[] = [];
+      for (const event of getContract(systemContractAddress).events) {
+        if (event.type !== 'VoteCast' || event.electionId !== electionId) continue;
+        if (event.blockNumber < fromBlock || (toBlock !== undefined && event.blockNumber > toBlock)) continue;
+        const { postId, blockchainCandidateId, voterAddress, transactionHash, blockNumber } = event;
+        voteEvents.push({ electionId, postId, blockchainCandidateId, voterAddress, transactionHash, blockNumber });
+      }
+      return voteEvents;
+    },
+  };
+};
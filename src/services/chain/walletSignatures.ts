@@ -0,0 +1,59 @@
+import { ethers } from 'ethers';
+
+// --- Smart-contract wallet signatures (EIP-1271 / EIP-6492) ---
+
+// ERC-1271 isValidSignature(bytes32,bytes) returns its own selector for a valid signature
+export const ERC1271_MAGIC_VALUE = '0x1626ba7e';
+
+// Appended to an EIP-6492 signature: abi.encode(factory, factoryCalldata, signature) ++ suffix
+export const EIP6492_SUFFIX = '0x6492649264926492649264926492649264926492649264926492649264926492';
+
+// Creation code of ValidateSigOffchain.sol, built with solc 0.8.26+commit.8a97fa7a and the standard JSON
+// settings { optimizer: { enabled: true, runs: 200 }, evmVersion: 'paris' }, everything else left at the
+// defaults (the CBOR metadata is appended). To reproduce it, compile the file with solc-js 0.8.26
+// (solc.compile on that standard JSON input) and take evm.bytecode.object.
+export const VALIDATE_SIG_OFFCHAIN_BYTECODE =
+  '0x608060405234801561001057600080fd5b506040516104c53803806104c583398101604081905261002f91610358565b600061003c848484610048565b9050806000526001601ff35b8051600090816020821061005c5750828101515b7f649264926492649264926492649264926492649264926492649264926492649281900361011c57601f19820184526000808061009e878601602089016103b1565b925092509250886001600160a01b03163b600003610117576000836001600160a01b0316836040516100d09190610417565b6000604051808303816000865af19150503d806000811461010d576040519150601f19603f3d011682016040523d82523d6000602084013e610112565b606091505b505050505b955050505b6001600160a01b0386163b156101bf57604051630b135d3f60e11b81526001600160a01b03871690631626ba7e9061015a9088908890600401610433565b602060405180830381865afa925050508015610193575060408051601f3d908101601f191682019092526101909181019061046d565b60015b6101a257600092505050610276565b6001600160e01b031916630b135d3f60e11b149250610276915050565b83516041146101d357600092505050610276565b60208401516040850151606086015160001a601b8110156101fc576101f9601b82610497565b90505b6040805160008152602081018083528a905260ff83169181019190915260608101849052608081018390526001600160a01b038a169060019060a0016020604051602081039080840390855afa15801561025a573d6000803e3d6000fd5b505050602060405103516001600160a01b031614955050505050505b9392505050565b6001600160a01b038116811461029257600080fd5b50565b634e487b7160e01b600052604160045260246000fd5b60005b838110156102c65781810151838201526020016102ae565b50506000910152565b600082601f8301126102e057600080fd5b81516001600160401b038111156102f9576102f9610295565b604051601f8201601f19908116603f011681016001600160401b038111828210171561032757610327610295565b60405281815283820160200185101561033f57600080fd5b6103508260208301602087016102ab565b949350505050565b60008060006060848603121561036d57600080fd5b83516103788161027d565b6020850151604086015191945092506001600160401b0381111561039b57600080fd5b6103a7868287016102cf565b9150509250925092565b6000806000606084860312156103c657600080fd5b83516103d18161027d565b60208501519093506001600160401b038111156103ed57600080fd5b6103f9868287016102cf565b604086015190935090506001600160401b0381111561039b57600080fd5b600082516104298184602087016102ab565b9190910192915050565b82815260406020820152600082518060408401526104588160608501602087016102ab565b601f01601f1916919091016060019392505050565b60006020828403121561047f57600080fd5b81516001600160e01b03198116811461027657600080fd5b60ff81811683821601908111156104be57634e487b7160e01b600052601160045260246000fd5b9291505056fe';
+
+export interface Eip6492Signature {
+  factory: string; // Contract that deploys the wallet
+  factoryCalldata: string; // Call to the factory that deploys it
+  signature: string; // The wallet's own signature, checked with EIP-1271 once deployed
+}
+
+/**
+ * Whether a signature is wrapped for EIP-6492, i.e. made by a smart-contract wallet that may not be deployed yet.
+ * @param {string} signature - The signature as hex.
+ * @returns {boolean} True if it ends with the EIP-6492 magic suffix.
+ */
+export const isEip6492Signature = (signature: string): boolean =>
+  ethers.isHexString(signature) && signature.toLowerCase().endsWith(EIP6492_SUFFIX.slice(2));
+
+/**
+ * Unwraps an EIP-6492 signature into the wallet's factory call and its own signature.
+ * @param {string} signature - The wrapped signature.
+ * @returns {Eip6492Signature | null} The parts, or null if the signature is not a well-formed EIP-6492 signature.
+ */
+export const unwrapEip6492Signature = (signature: string): Eip6492Signature | null => {
+  if (!isEip6492Signature(signature)) return null;
+  try {
+    const [factory, factoryCalldata, innerSignature] = ethers.AbiCoder.defaultAbiCoder().decode(
+      ['address', 'bytes', 'bytes'],
+      ethers.dataSlice(signature, 0, ethers.dataLength(signature) - 32)
+    );
+    return { factory: String(factory).toLowerCase(), factoryCalldata, signature: innerSignature };
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Wraps a smart-contract wallet's signature for EIP-6492, so it can be verified before the wallet is deployed.
+ * @param {Eip6492Signature} parts - The wallet's factory, factory call and own signature.
+ * @returns {string} The wrapped signature.
+ */
+export const wrapEip6492Signature = (parts: Eip6492Signature): string =>
+  ethers.concat([
+    ethers.AbiCoder.defaultAbiCoder().encode(['address', 'bytes', 'bytes'], [parts.factory, parts.factoryCalldata, parts.signature]),
+    EIP6492_SUFFIX,
+  ]);
@@ -10,23 +10,25 @@ cloudinary.config({
   secure: true, // Use HTTPS
 });
 
-// Basic validation for Cloudinary config
-if (!process.env.CLOUDINARY_CLOUD_NAME || !process.env.CLOUDINARY_API_KEY || !process.env.CLOUDINARY_API_SECRET) {
-  console.warn('Cloudinary credentials are not fully defined in environment variables. Image uploads will fail.');
-  // In a production app, you might want to throw an error and stop the server.
-  // process.exit(1);
-}
+/**
+ * Whether Cloudinary credentials are fully defined in environment variables.
+ * @returns {boolean} False if uploads will fail.
+ */
+export const isConfigured = (): boolean =>
+  Boolean(process.env.CLOUDINARY_CLOUD_NAME && process.env.CLOUDINARY_API_KEY && process.env.CLOUDINARY_API_SECRET);
 
 /**
  * Uploads an image (base64 string or file path) to Cloudinary.
  * @param {string} imagePath - The base64 encoded image string (e.g., "data:image/jpeg;base64,...") or a local file path.
  * @param {string} [folder='votex_images'] - The folder name in Cloudinary to upload to.
+ * @param {string} [publicId] - Name to store the image under within the folder; generated by Cloudinary if omitted.
  * @returns {Promise<cloudinary.UploadApiResponse>} The Cloudinary upload response.
  */
-export const uploadImage = async (imagePath: string, folder: string = 'votex_images'): Promise<any> => { 
+export const uploadImage = async (imagePath: string, folder: string = 'votex_images', publicId?: string): Promise<any> => { 
   try {
     const result = await cloudinary.uploader.upload(imagePath, {
       folder: folder,
+      public_id: publicId,
       resource_type: 'image', // Ensure it's treated as an image
     });
     console.log('Image uploaded to Cloudinary:', result.secure_url);
@@ -51,4 +53,50 @@ export const deleteImage = async (publicId: string): Promise<any> => {
     console.error('Cloudinary deletion error:', (error as Error).message);
     throw new Error(`Failed to delete image from Cloudinary: ${(error as Error).message}`);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Signs upload parameters so a browser can upload one image straight to Cloudinary.
+ * Cloudinary rejects the signature once it is an hour old; callers enforce any shorter lifetime.
+ * @param {string} publicId - The public ID (including folder) the image must be stored under.
+ * @param {string[]} allowedFormats - Image formats Cloudinary should accept, e.g. ['png', 'jpg'].
+ * @returns {object} The fields to post to `uploadUrl` together with the file.
+ */
+export const getSignedUploadParams = (publicId: string, allowedFormats: string[]) => {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const paramsToSign = {
+    timestamp,
+    public_id: publicId,
+    allowed_formats: allowedFormats.join(','),
+  };
+  const signature = cloudinary.utils.api_sign_request(paramsToSign, process.env.CLOUDINARY_API_SECRET || '');
+  return {
+    uploadUrl: `https://api.cloudinary.com/v1_1/${process.env.CLOUDINARY_CLOUD_NAME}/image/upload`,
+    apiKey: process.env.CLOUDINARY_API_KEY,
+    ...paramsToSign,
+    signature,
+  };
+};
+
+/**
+ * Looks up a stored image's format, size and dimensions.
+ * @param {string} publicId - The public ID of the image.
+ * @returns {Promise<any | null>} The Cloudinary resource, or null if no image has that public ID.
+ */
+export const getImageDetails = async (publicId: string): Promise<any | null> => {
+  try {
+    return await cloudinary.api.resource(publicId, { resource_type: 'image' });
+  } catch (error: any) {
+    if (error?.error?.http_code === 404) return null;
+    console.error('Cloudinary lookup error:', error?.error?.message || (error as Error).message);
+    throw new Error(`Failed to look up image in Cloudinary: ${error?.error?.message || (error as Error).message}`);
+  }
+};
+
+
+/**
+ * Returns the delivery URL of a stored image.
+ * @param {string} publicId - The public ID of the image.
+ * @returns {string} The HTTPS URL.
+ */
+export const getImageUrl = (publicId: string): string => cloudinary.url(publicId, { secure: true, resource_type: 'image' });
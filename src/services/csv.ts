@@ -0,0 +1,72 @@
+// --- CSV (RFC 4180) ---
+// Minimal reader and writer for the comma-separated files admins exchange with spreadsheets.
+
+/**
+ * Parses CSV text into records of fields. Handles quoted fields containing commas, quotes and line
+ * breaks, CRLF or LF line endings and a leading byte order mark. Blank lines are skipped.
+ * @param {string} text - The CSV file contents.
+ * @returns {string[][]} One array of raw field values per record.
+ * @throws {Error} If a quoted field is never closed.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== '') records.push(record);
+    record = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (inQuotes) {
+    throw new Error('CSV ends inside a quoted field.');
+  }
+  if (field !== '' || record.length > 0) endRecord();
+  return records;
+};
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Formats one CSV record, quoting fields where needed. Text that a spreadsheet would treat as a
+ * formula is prefixed with a quote so exported data cannot execute when opened.
+ * @param {unknown[]} values - The field values; null and undefined become empty fields.
+ * @returns {string} The record, terminated with CRLF.
+ */
+export const formatCsvRow = (values: unknown[]): string =>
+  values
+    .map(value => {
+      if (value === null || value === undefined) return '';
+      let text = value instanceof Date ? value.toISOString() : String(value);
+      if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',') + '\r\n';
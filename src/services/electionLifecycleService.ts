@@ -0,0 +1,412 @@
+import dotenv from 'dotenv';
+import pool from '../config/database';
+import * as mysqlService from './mysqlService';
+import * as blockchainService from './blockchainService';
+import * as auditService from './auditService';
+import * as tallyService from './tallyService';
+import * as resultsService from './resultsService';
+import * as tieBreakService from './tieBreakService';
+import * as runoffService from './runoffService';
+import { checkVotingMethodSupported } from './tally';
+import { Election, ElectionResultsDocument, ElectionStatus, ElectionStatusHistory } from '../types/index.d';
+
+dotenv.config();
+
+// --- Configuration ---
+// Blocks between voting closing and the block whose hash seeds lots. 0 uses the block voting closed
+// in, for chains that only mine blocks for transactions (e.g. Hardhat automine).
+const TIE_SEED_BLOCK_DELAY = parseInt(process.env.TIE_SEED_BLOCK_DELAY || '5', 10);
+
+export interface TransitionActor {
+  type: ElectionStatusHistory['actor_type'];
+  userId?: number; // users.id for admin actors
+}
+
+export type TransitionResult =
+  | {
+      ok: true;
+      election: Election;
+      blockchainTxHash: string | null;
+      results?: ElectionResultsDocument;
+      tallies?: tallyService.PostTally[];
+      pendingReason?: string; // Why an election is still tallying, e.g. its lot seed block is not mined yet
+    }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Legal election status transitions. Anything not listed here is rejected.
+ *  - draft: posts and candidates are being set up; the only state in which they can be added.
+ *  - scheduled: set up is locked in; the scheduler opens voting at start_date.
+ *  - active / paused: voting is open / temporarily suspended. The contract has no pause, so pausing
+ *    is enforced by the API refusing to record votes.
+ *  - tallying: voting closed on chain, final results being read back. Only left once results are stored.
+ *  - ended -> certified: results published, then signed off after a clean audit.
+ *  - cancelled: abandoned before results were published.
+ */
+export const ELECTION_TRANSITIONS: Record<ElectionStatus, ElectionStatus[]> = {
+  draft: ['scheduled', 'cancelled'],
+  scheduled: ['draft', 'active', 'cancelled'],
+  active: ['paused', 'tallying', 'cancelled'],
+  paused: ['active', 'tallying', 'cancelled'],
+  tallying: ['ended'],
+  ended: ['certified'],
+  certified: [],
+  cancelled: [],
+};
+
+export const isLegalTransition = (from: ElectionStatus, to: ElectionStatus): boolean =>
+  ELECTION_TRANSITIONS[from]?.includes(to) ?? false;
+
+// Reverts that mean the chain is already in the target state, e.g. after a crash between the
+// chain call and the MySQL update. Treated as success so retries converge.
+const ALREADY_STARTED_ERRORS = ['ElectionAlreadyStarted'];
+const ALREADY_ENDED_ERRORS = ['ElectionAlreadyEnded'];
+
+const isAlreadyInState = (error: unknown, reasons: string[]): boolean =>
+  reasons.some(reason => (error as Error).message?.includes(reason));
+
+/**
+ * Runs `fn` while holding a per-election MySQL advisory lock, so manual admin actions and the
+ * scheduler on any API instance never transition the same election concurrently.
+ */
+const withElectionLock = async (electionId: number, fn: () => Promise<TransitionResult>): Promise<TransitionResult> => {
+  const lockName = `votex_election_${electionId}`;
+  const connection = await pool.getConnection();
+  try {
+    if (!(await mysqlService.acquireAdvisoryLock(connection, lockName))) {
+      return { ok: false, status: 409, error: `Election ${electionId} is already being transitioned. Try again shortly.` };
+    }
+    try {
+      return await fn();
+    } finally {
+      await mysqlService.releaseAdvisoryLock(connection, lockName);
+    }
+  } finally {
+    connection.release();
+  }
+};
+
+const getSystemContractAddress = (election: Election): string => {
+  const systemContractAddress = election.blockchain_contract_address || process.env.ELECTION_SYSTEM_CONTRACT_ADDRESS;
+  if (!systemContractAddress) {
+    throw new Error('ELECTION_SYSTEM_CONTRACT_ADDRESS is not set in environment variables.');
+  }
+  return systemContractAddress;
+};
+
+// --- Preconditions ---
+
+/**
+ * Checks that an election has something to vote on: at least one post, at least as many candidates
+ * as seats on every post, and only voting methods the active chain can record.
+ * @returns {Promise<string | null>} Why the election is not ready, or null if it is.
+ */
+const checkBallotReady = async (election: Election): Promise<string | null> => {
+  const posts = await mysqlService.getPostsByElectionId(election.id!);
+  if (posts.length === 0) {
+    return 'Election has no posts.';
+  }
+  const chainKind = blockchainService.getChainAdapterKind();
+  for (const post of posts) {
+    const unsupported = checkVotingMethodSupported(post.voting_method || 'plurality', chainKind);
+    if (unsupported) return `Post ${post.name}: ${unsupported}`;
+  }
+  const candidates = await mysqlService.getCandidatesByElectionId(election.id!);
+  const emptyPosts = posts.filter(post => !candidates.some(c => c.post_id === post.id));
+  if (emptyPosts.length > 0) {
+    return `Every post needs at least one candidate. Missing candidates for: ${emptyPosts.map(p => p.name).join(', ')}.`;
+  }
+  const understaffedPosts = posts.filter(post => candidates.filter(c => c.post_id === post.id).length < (post.seats || 1));
+  if (understaffedPosts.length > 0) {
+    return `Every post needs at least as many candidates as seats. Not enough candidates for: ${understaffedPosts.map(p => p.name).join(', ')}.`;
+  }
+  return null;
+};
+
+/**
+ * Returns why `election` cannot move to `toStatus` right now, or null if it can.
+ * Only called for transitions that are legal in ELECTION_TRANSITIONS.
+ */
+const checkPreconditions = async (election: Election, toStatus: ElectionStatus, now: Date): Promise<string | null> => {
+  const startDate = new Date(election.start_date);
+  const endDate = new Date(election.end_date);
+
+  switch (toStatus) {
+    case 'scheduled':
+      if (endDate <= startDate) return 'Election end date must be after its start date.';
+      if (endDate <= now) return 'Election end date has already passed.';
+      return checkBallotReady(election);
+    case 'active':
+      if (endDate <= now) return 'Election end date has already passed.';
+      if (election.status === 'scheduled') return checkBallotReady(election);
+      return null; // Resuming a paused election
+    case 'certified': {
+      if (!election.blockchain_contract_address) return 'Election has no deployed smart contract address for auditing.';
+      const report = await auditService.buildElectionAuditReport(election);
+      if (report.integrityCheck !== 'Passed') {
+        const issues = Object.entries(report.summary)
+          .filter(([key, count]) => count > 0 && !['onChainVotes', 'databaseVoteLogs', 'uniqueVoters', 'matched'].includes(key))
+          .map(([key, count]) => `${key}: ${count}`);
+        return `Election audit failed (${issues.join(', ')}). Resolve the discrepancies before certifying.`;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+// --- Transition side effects ---
+
+type TieSeedResult = { ok: true; seed: tieBreakService.TieSeed } | { ok: false; waitingForBlock: number; chainHead: number };
+
+/**
+ * Returns the seed lots are drawn from: the hash of the block TIE_SEED_BLOCK_DELAY blocks after the one
+ * voting closed in, chosen when the election entered tallying. Nobody knows that hash when voting
+ * closes, so choosing when to finalise cannot choose the outcome. The hash is stored before any lot is
+ * drawn, so a retried finalisation draws the same lots.
+ * @returns {Promise<TieSeedResult>} The seed, or the block still to be mined.
+ */
+const resolveTieSeed = async (election: Election): Promise<TieSeedResult> => {
+  const electionId = election.id!;
+  let blockNumber = election.tie_seed_block_number ?? null;
+  if (blockNumber !== null && election.tie_seed_block_hash) {
+    return { ok: true, seed: tieBreakService.deriveTieSeed(electionId, { blockNumber, blockHash: election.tie_seed_block_hash }) };
+  }
+
+  const head = await blockchainService.getLatestBlock();
+  if (blockNumber === null) {
+    // Entered tallying before seed blocks were chosen then; choose one now, still ahead of the chain
+    blockNumber = head.blockNumber + TIE_SEED_BLOCK_DELAY;
+    await mysqlService.updateElection(electionId, { tie_seed_block_number: blockNumber });
+  }
+  const blockHash = blockNumber <= head.blockNumber ? await blockchainService.getBlockHash(blockNumber) : null;
+  if (!blockHash) {
+    return { ok: false, waitingForBlock: blockNumber, chainHead: head.blockNumber };
+  }
+  await mysqlService.updateElection(electionId, { tie_seed_block_hash: blockHash });
+  return { ok: true, seed: tieBreakService.deriveTieSeed(electionId, { blockNumber, blockHash }) };
+};
+
+/**
+ * Reads final counts from the chain, counts each post with its voting method, resolves ties with the
+ * election's tie policy, stores the per-post tallies and the results document and moves the election
+ * from tallying to ended. If a tie has to be drawn by lot before the seed block is mined, the election
+ * stays in tallying and the result says why. Safe to retry: lots are drawn from the stored seed (see resolveTieSeed),
+ * tallies and tie resolutions are replaced, an existing runoff is resumed, and nothing else changes
+ * until the final status update.
+ */
+const finaliseResults = async (
+  election: Election,
+  actor: TransitionActor,
+  reason?: string
+): Promise<TransitionResult> => {
+  const electionId = election.id!;
+  const systemContractAddress = getSystemContractAddress(election);
+
+  // Fetch final results from smart contract
+  const candidates = await mysqlService.getCandidatesByElectionId(electionId);
+  const blockchainCandidateIds = candidates.map(c => c.blockchain_candidate_id!).filter(Boolean) as string[];
+
+  const finalBlockchainResults = await blockchainService.getFinalResultsFromChain(
+    systemContractAddress,
+    electionId,
+    blockchainCandidateIds
+  );
+
+  // Count each post's ballots with its own voting method. The first count draws no lots; most
+  // elections have no tie that needs one, and those finalise without waiting for the seed block.
+  const tiePolicy = election.tie_policy || 'declare_tie';
+  const finalElection: Election = { ...election, blockchain_contract_address: systemContractAddress, status: 'ended' };
+  const countResults = (seed: tieBreakService.TieSeed | null, draws: tieBreakService.LotDraw[]) =>
+    resultsService.computeElectionResults(finalElection, {
+      isFinal: true,
+      expectedCounts: finalBlockchainResults,
+      tieBreakerFor: tieBreakService.createTieBreakerFactory(tiePolicy, seed, draws),
+    });
+  let { document, tallies } = await countResults(null, []);
+
+  // Lots are drawn from a seed derived from a committed block hash, recorded so anyone can recompute them
+  let tieSeed: tieBreakService.TieSeed | null = null;
+  const lotDraws: tieBreakService.LotDraw[] = [];
+  if (tieBreakService.needsLots(tiePolicy, tallies)) {
+    const resolved = await resolveTieSeed(election);
+    if (!resolved.ok) {
+      return {
+        ok: true,
+        election: { ...election, status: 'tallying' },
+        blockchainTxHash: null,
+        pendingReason: `Results need lots drawn from block ${resolved.waitingForBlock}, which is not mined yet (chain is at ${resolved.chainHead}). Finalisation is retried until it is.`,
+      };
+    }
+    tieSeed = resolved.seed;
+    ({ document, tallies } = await countResults(tieSeed, lotDraws));
+  }
+
+  // Seats still tied under the runoff policy go to a new election between the tied candidates
+  const tiedSeatTallies = tallies.filter(t => t.outcome.tie?.kind === 'seat' && !t.outcome.tieResolved);
+  const runoffElectionId = tiePolicy === 'runoff' && tiedSeatTallies.length > 0
+    ? await runoffService.createRunoffElection(finalElection, tiedSeatTallies, { actor_type: actor.type, actor_user_id: actor.userId })
+    : null;
+
+  tieBreakService.annotateDocumentTies(document, tiePolicy, tieSeed, lotDraws, runoffElectionId);
+  await tallyService.saveElectionTally(electionId, tallies);
+  await mysqlService.replaceTieResolutions(
+    electionId,
+    tieBreakService.buildTieResolutions(electionId, tiePolicy, tieSeed, lotDraws, tallies, candidates, runoffElectionId)
+  );
+
+  // Persist chain counts on each candidate so audits can cross-check them
+  for (const candidate of candidates) {
+    if (candidate.blockchain_candidate_id) {
+      await mysqlService.updateCandidateVoteCount(candidate.id!, finalBlockchainResults[candidate.blockchain_candidate_id] || 0);
+    }
+  }
+
+  // winning_candidate_id only makes sense for a single-post, single-winner election; per-post winners are in the document
+  const soleWinnerId = tallies.length === 1 && tallies[0].winnerCandidateIds.length === 1
+    ? tallies[0].winnerCandidateIds[0]
+    : null;
+
+  const updates: Partial<Election> = {
+    results: JSON.stringify(document),
+    winning_candidate_id: soleWinnerId ?? undefined,
+  };
+  const transitioned = await mysqlService.transitionElectionStatus(electionId, 'tallying', 'ended', updates, {
+    actor_type: actor.type,
+    actor_user_id: actor.userId,
+    reason,
+  });
+  if (!transitioned) {
+    return { ok: false, status: 409, error: `Election ${electionId} changed status while results were being finalised.` };
+  }
+
+  return {
+    ok: true,
+    election: { ...election, ...updates, status: 'ended' },
+    blockchainTxHash: null,
+    results: document,
+    tallies,
+  };
+};
+
+/**
+ * Sends the on-chain transaction a transition needs, if any.
+ * @returns {Promise<string | null>} The transaction hash, or null if nothing was sent.
+ */
+const applyChainTransition = async (election: Election, toStatus: ElectionStatus): Promise<string | null> => {
+  const electionId = election.id!;
+
+  // Opening voting for the first time (resuming from paused needs no chain call)
+  if (toStatus === 'active' && election.status === 'scheduled') {
+    try {
+      return await blockchainService.startElectionOnChain(getSystemContractAddress(election), electionId);
+    } catch (error) {
+      if (!isAlreadyInState(error, ALREADY_STARTED_ERRORS)) throw error;
+      console.log(`Election ${electionId} was already started on chain. Syncing MySQL status.`);
+      return null;
+    }
+  }
+
+  // Closing voting, either to tally or to abandon an election that has opened
+  const closesVoting = toStatus === 'tallying' || (toStatus === 'cancelled' && ['active', 'paused'].includes(election.status));
+  if (closesVoting) {
+    try {
+      return await blockchainService.endElectionOnChain(getSystemContractAddress(election), electionId);
+    } catch (error) {
+      if (!isAlreadyInState(error, ALREADY_ENDED_ERRORS)) throw error;
+      console.log(`Election ${electionId} was already ended on chain. Syncing MySQL status.`);
+      return null;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Moves an election to `toStatus` if the transition is legal and its preconditions hold, sending any
+ * on-chain transaction it requires and recording it in election_status_history.
+ * Moving to `tallying` immediately finalises results as well, so the election normally ends up `ended`;
+ * if finalisation fails, or is waiting for the block its lots are drawn from, it stays in `tallying`
+ * and can be retried by transitioning to `ended`.
+ * @param {number} electionId - The ID of the election.
+ * @param {ElectionStatus} toStatus - The requested status.
+ * @param {TransitionActor} actor - Who triggered the transition (recorded in election_status_history).
+ * @param {string} [reason] - Optional note for the history entry.
+ * @returns {Promise<TransitionResult>} The updated election, or an HTTP-style error.
+ */
+export const transitionElection = (
+  electionId: number,
+  toStatus: ElectionStatus,
+  actor: TransitionActor,
+  reason?: string
+): Promise<TransitionResult> =>
+  withElectionLock(electionId, async () => {
+    const election = await mysqlService.getElectionById(electionId);
+    if (!election) {
+      return { ok: false, status: 404, error: 'Election not found.' };
+    }
+    if (!(toStatus in ELECTION_TRANSITIONS)) {
+      return { ok: false, status: 400, error: `Invalid election status: ${toStatus}.` };
+    }
+    if (!isLegalTransition(election.status, toStatus)) {
+      const allowed = ELECTION_TRANSITIONS[election.status];
+      return {
+        ok: false,
+        status: 400,
+        error: `Cannot move election from ${election.status} to ${toStatus}. ` +
+          (allowed.length ? `Allowed: ${allowed.join(', ')}.` : `${election.status} is a final status.`),
+      };
+    }
+
+    const unmet = await checkPreconditions(election, toStatus, new Date());
+    if (unmet) {
+      return { ok: false, status: 422, error: unmet };
+    }
+
+    if (toStatus === 'ended') {
+      return finaliseResults(election, actor, reason);
+    }
+
+    const txHash = await applyChainTransition(election, toStatus);
+    // The block that will seed lots is fixed as voting closes, before its hash can be known
+    const updates: Partial<Election> = toStatus === 'tallying'
+      ? { tie_seed_block_number: (await blockchainService.getLatestBlock()).blockNumber + TIE_SEED_BLOCK_DELAY }
+      : {};
+    const transitioned = await mysqlService.transitionElectionStatus(electionId, election.status, toStatus, updates, {
+      actor_type: actor.type,
+      actor_user_id: actor.userId,
+      reason,
+      blockchain_tx_hash: txHash,
+    });
+    if (!transitioned) {
+      return { ok: false, status: 409, error: `Election ${electionId} changed status during the transition. Try again.` };
+    }
+
+    if (toStatus === 'tallying') {
+      const finalised = await finaliseResults({ ...election, ...updates, status: 'tallying' }, actor, reason);
+      return finalised.ok ? { ...finalised, blockchainTxHash: txHash } : finalised;
+    }
+
+    return { ok: true, election: { ...election, status: toStatus }, blockchainTxHash: txHash };
+  });
+
+/**
+ * Opens voting for a scheduled election on chain and marks it active.
+ * @param {number} electionId - The ID of the election to start.
+ * @param {TransitionActor} actor - Who triggered the transition (recorded in election_status_history).
+ * @param {string} [reason] - Optional note for the history entry.
+ * @returns {Promise<TransitionResult>} The updated election, or an HTTP-style error.
+ */
+export const startElection = (electionId: number, actor: TransitionActor, reason?: string): Promise<TransitionResult> =>
+  transitionElection(electionId, 'active', actor, reason);
+
+/**
+ * Closes voting for an active or paused election on chain, then finalises results from the chain tallies.
+ * @param {number} electionId - The ID of the election to end.
+ * @param {TransitionActor} actor - Who triggered the transition (recorded in election_status_history).
+ * @param {string} [reason] - Optional note for the history entry.
+ * @returns {Promise<TransitionResult>} The updated election with final results, or an HTTP-style error.
+ */
+export const endElection = (electionId: number, actor: TransitionActor, reason?: string): Promise<TransitionResult> =>
+  transitionElection(electionId, 'tallying', actor, reason);
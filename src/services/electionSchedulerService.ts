@@ -0,0 +1,113 @@
+import dotenv from 'dotenv';
+import pool from '../config/database';
+import * as mysqlService from './mysqlService';
+import * as electionLifecycleService from './electionLifecycleService';
+
+dotenv.config();
+
+// --- Configuration ---
+const SCHEDULER_POLL_INTERVAL_MS = parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '15000', 10);
+
+const SCHEDULER_LOCK_NAME = 'votex_election_scheduler';
+
+let pollTimer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+export interface SchedulerRunResult {
+  started: number[];
+  ended: number[];
+  finalised: number[]; // Elections left in tallying by a failed finalisation or an unmined lot seed block
+  failed: { electionId: number; error: string }[];
+}
+
+/**
+ * Runs one scheduler pass: starts scheduled elections whose start_date has passed, ends active or
+ * paused elections whose end_date has passed and retries finalising elections stuck in tallying.
+ * Transitions are idempotent and per-election locked, and the pass itself only runs on one API
+ * instance at a time.
+ * @returns {Promise<SchedulerRunResult | null>} What was transitioned, or null if another instance is running the pass.
+ */
+export const runElectionSchedule = async (now: Date = new Date()): Promise<SchedulerRunResult | null> => {
+  const lockConnection = await pool.getConnection();
+  try {
+    if (!(await mysqlService.acquireAdvisoryLock(lockConnection, SCHEDULER_LOCK_NAME))) {
+      return null;
+    }
+
+    try {
+      const result: SchedulerRunResult = { started: [], ended: [], finalised: [], failed: [] };
+
+      for (const election of await mysqlService.getElectionsDueToStart(now)) {
+        try {
+          const transition = await electionLifecycleService.startElection(election.id!, { type: 'scheduler' }, 'Scheduled start_date reached');
+          if (transition.ok) result.started.push(election.id!);
+        } catch (error) {
+          result.failed.push({ electionId: election.id!, error: (error as Error).message });
+        }
+      }
+
+      for (const election of await mysqlService.getElectionsDueToEnd(now)) {
+        try {
+          const transition = await electionLifecycleService.endElection(election.id!, { type: 'scheduler' }, 'Scheduled end_date reached');
+          if (transition.ok) result.ended.push(election.id!);
+        } catch (error) {
+          result.failed.push({ electionId: election.id!, error: (error as Error).message });
+        }
+      }
+
+      for (const election of await mysqlService.getElectionsByStatus('tallying')) {
+        try {
+          const transition = await electionLifecycleService.transitionElection(election.id!, 'ended', { type: 'scheduler' }, 'Retrying result finalisation');
+          if (transition.ok && transition.election.status === 'ended') result.finalised.push(election.id!);
+        } catch (error) {
+          result.failed.push({ electionId: election.id!, error: (error as Error).message });
+        }
+      }
+
+      if (result.started.length || result.ended.length || result.finalised.length) {
+        console.log(
+          `[Scheduler] Started elections [${result.started.join(', ')}], ended elections [${result.ended.join(', ')}], ` +
+          `finalised elections [${result.finalised.join(', ')}].`
+        );
+      }
+      for (const failure of result.failed) {
+        console.error(`[Scheduler] Transition failed for election ${failure.electionId}: ${failure.error}`);
+      }
+      return result;
+    } finally {
+      await mysqlService.releaseAdvisoryLock(lockConnection, SCHEDULER_LOCK_NAME);
+    }
+  } finally {
+    lockConnection.release();
+  }
+};
+
+/**
+ * Starts the election scheduler in the background. Safe to call on every API instance.
+ */
+export const startElectionScheduler = (): void => {
+  if (pollTimer) return;
+  console.log(`[Scheduler] Checking election start/end dates every ${SCHEDULER_POLL_INTERVAL_MS}ms.`);
+
+  const tick = async () => {
+    if (isRunning) return; // Previous pass still running
+    isRunning = true;
+    try {
+      await runElectionSchedule();
+    } catch (error) {
+      console.error('[Scheduler] Run failed:', (error as Error).message);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  pollTimer = setInterval(tick, SCHEDULER_POLL_INTERVAL_MS);
+  tick();
+};
+
+export const stopElectionScheduler = (): void => {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+};
@@ -0,0 +1,188 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import pool from '../config/database';
+import * as mysqlService from './mysqlService';
+import { generatePurposeToken, verifyPurposeToken } from './authService';
+import { getMailTransport } from './mail';
+import { Voter } from '../types/index.d';
+
+dotenv.config();
+
+// --- Configuration ---
+const EMAIL_VERIFICATION_TTL_MINUTES = parseInt(process.env.EMAIL_VERIFICATION_TTL_MINUTES || '60', 10);
+const EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS = parseInt(process.env.EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS || '60', 10);
+const EMAIL_VERIFICATION_MAX_PER_HOUR = parseInt(process.env.EMAIL_VERIFICATION_MAX_PER_HOUR || '5', 10);
+const EMAIL_VERIFICATION_MAX_ATTEMPTS = parseInt(process.env.EMAIL_VERIFICATION_MAX_ATTEMPTS || '5', 10); // Wrong codes per email
+// Page of the frontend that receives ?token= and posts it to POST /api/voters/verify-email
+const EMAIL_VERIFICATION_URL = process.env.EMAIL_VERIFICATION_URL
+  || `${process.env.FRONTEND_URL || 'http://localhost:5173'}/verify-email`;
+
+const TOKEN_PURPOSE = 'email-verification';
+
+export type EmailVerificationResult =
+  | { ok: true; voter: Voter }
+  | { ok: false; status: number; error: string; code: string; retryAfterSeconds?: number };
+
+export type SendEmailVerificationResult =
+  | { ok: true; expiresAt: Date }
+  | Extract<EmailVerificationResult, { ok: false }>;
+
+const hashCode = (code: string) => crypto.createHash('sha256').update(code).digest('hex');
+
+/**
+ * Emails a voter a verification link and a six-digit code, both valid for EMAIL_VERIFICATION_TTL_MINUTES.
+ * Earlier links and codes stop working. A voter can be sent at most EMAIL_VERIFICATION_MAX_PER_HOUR
+ * emails an hour, at least EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS apart.
+ * @param {Voter} voter - The voter, who must still be pending email verification.
+ * @returns {Promise<SendEmailVerificationResult>} When the link and code expire, or why nothing was sent.
+ */
+export const sendEmailVerification = async (voter: Voter): Promise<SendEmailVerificationResult> => {
+  if (voter.account_status && voter.account_status !== 'active') {
+    return { ok: false, status: 403, error: `Voter account is ${voter.account_status}.`, code: 'VOTER_NOT_ACTIVE' };
+  }
+  if (voter.registration_status !== 'pending_email_verification') {
+    return { ok: false, status: 409, error: 'Email address is already verified.', code: 'EMAIL_ALREADY_VERIFIED' };
+  }
+
+  const now = Date.now();
+  const stats = await mysqlService.getEmailVerificationSendStats(voter.id!, new Date(now - 60 * 60 * 1000));
+  if (stats.count >= EMAIL_VERIFICATION_MAX_PER_HOUR) {
+    return {
+      ok: false,
+      status: 429,
+      error: 'Too many verification emails sent. Try again later.',
+      code: 'VERIFICATION_RATE_LIMITED',
+      retryAfterSeconds: 60 * 60,
+    };
+  }
+  if (stats.lastSentAt) {
+    const waitSeconds = Math.ceil(EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS - (now - stats.lastSentAt.getTime()) / 1000);
+    if (waitSeconds > 0) {
+      return {
+        ok: false,
+        status: 429,
+        error: `A verification email was just sent. Try again in ${waitSeconds} seconds.`,
+        code: 'VERIFICATION_RATE_LIMITED',
+        retryAfterSeconds: waitSeconds,
+      };
+    }
+  }
+
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+  const expiresAt = new Date(now + EMAIL_VERIFICATION_TTL_MINUTES * 60 * 1000);
+  await mysqlService.consumeEmailVerifications(voter.id!);
+  const verificationId = await mysqlService.createEmailVerification({
+    voter_id: voter.id!,
+    email: voter.email,
+    code_hash: hashCode(code),
+    expires_at: expiresAt,
+  });
+
+  const token = generatePurposeToken(TOKEN_PURPOSE, String(voter.id), String(verificationId), EMAIL_VERIFICATION_TTL_MINUTES * 60);
+  const link = `${EMAIL_VERIFICATION_URL}?token=${encodeURIComponent(token)}`;
+  try {
+    await getMailTransport().send({
+      to: voter.email,
+      subject: 'Verify your email address for VoteX',
+      text: [
+        `Hello ${voter.name},`,
+        '',
+        'You have been registered to vote on VoteX. Confirm your email address by opening this link:',
+        link,
+        '',
+        `Or enter this code: ${code}`,
+        '',
+        `The link and code expire in ${EMAIL_VERIFICATION_TTL_MINUTES} minutes. If you were not expecting this email, you can ignore it.`,
+      ].join('\n'),
+    });
+  } catch (error) {
+    // Nothing was delivered, so do not count it against the voter's limits
+    await mysqlService.deleteEmailVerification(verificationId);
+    throw error;
+  }
+  return { ok: true, expiresAt };
+};
+
+/**
+ * Uses a verification: marks it and any older ones used, and the voter's email verified.
+ */
+const completeVerification = async (voterId: number): Promise<EmailVerificationResult> => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    await mysqlService.consumeEmailVerifications(voterId, connection);
+    await mysqlService.markVoterEmailVerified(voterId, connection);
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+  const voter = await mysqlService.getVoterById(voterId);
+  return { ok: true, voter: voter! };
+};
+
+const invalid = (error: string, code = 'INVALID_VERIFICATION'): EmailVerificationResult =>
+  ({ ok: false, status: 400, error, code });
+
+/**
+ * Verifies a voter's email address from the token in a verification link.
+ * @param {string} token - The token from the link.
+ * @returns {Promise<EmailVerificationResult>} The verified voter, or why the link does not work.
+ */
+export const verifyEmailWithToken = async (token: string): Promise<EmailVerificationResult> => {
+  const claims = verifyPurposeToken(token, TOKEN_PURPOSE);
+  if (!claims) {
+    return invalid('Verification link is invalid or has expired. Request a new one.');
+  }
+  const verification = await mysqlService.getEmailVerificationById(parseInt(claims.jwtId));
+  const voter = verification && (await mysqlService.getVoterById(verification.voter_id));
+  if (!verification || !voter || String(verification.voter_id) !== claims.subject) {
+    return invalid('Verification link is invalid or has expired. Request a new one.');
+  }
+  if (voter.registration_status !== 'pending_email_verification') {
+    return { ok: true, voter };
+  }
+  if (verification.consumed_at || new Date(verification.expires_at) <= new Date() || verification.email !== voter.email) {
+    return invalid('Verification link has been replaced by a newer one or has expired. Request a new one.');
+  }
+  return completeVerification(voter.id!);
+};
+
+/**
+ * Verifies a voter's email address with the six-digit code from the verification email. After
+ * EMAIL_VERIFICATION_MAX_ATTEMPTS wrong codes the voter has to request a new email.
+ * @param {string} email - The voter's email address.
+ * @param {string} code - The code they entered.
+ * @returns {Promise<EmailVerificationResult>} The verified voter, or why the code was not accepted.
+ */
+export const verifyEmailWithCode = async (email: string, code: string): Promise<EmailVerificationResult> => {
+  const voter = await mysqlService.getVoterByEmail(email);
+  if (!voter) {
+    return { ok: false, status: 404, error: 'Voter profile not found.', code: 'VOTER_NOT_FOUND' };
+  }
+  if (voter.registration_status !== 'pending_email_verification') {
+    return { ok: true, voter };
+  }
+
+  const verification = await mysqlService.getOpenEmailVerification(voter.id!);
+  if (!verification || new Date(verification.expires_at) <= new Date() || verification.email !== voter.email) {
+    return invalid('No valid verification code. Request a new one.');
+  }
+  // Counted before comparing, so parallel guesses cannot get past the limit
+  if (!(await mysqlService.countEmailVerificationAttempt(verification.id!, EMAIL_VERIFICATION_MAX_ATTEMPTS))) {
+    return { ok: false, status: 429, error: 'Too many wrong codes. Request a new one.', code: 'VERIFICATION_ATTEMPTS_EXCEEDED' };
+  }
+
+  const expected = Buffer.from(verification.code_hash, 'hex');
+  const given = Buffer.from(hashCode(String(code).trim()), 'hex');
+  if (!crypto.timingSafeEqual(expected, given)) {
+    const remaining = EMAIL_VERIFICATION_MAX_ATTEMPTS - verification.attempts - 1;
+    return invalid(
+      remaining > 0 ? `Wrong code. ${remaining} attempt(s) left.` : 'Wrong code. Request a new one.',
+      'WRONG_VERIFICATION_CODE'
+    );
+  }
+  return completeVerification(voter.id!);
+};
@@ -0,0 +1,289 @@
+import dotenv from 'dotenv';
+import pool from '../config/database';
+import * as mysqlService from './mysqlService';
+import { getChainAdapter, ChainEvent, VoteCastEvent } from './chain';
+
+dotenv.config();
+
+// --- Configuration ---
+const INDEXER_POLL_INTERVAL_MS = parseInt(process.env.INDEXER_POLL_INTERVAL_MS || '5000', 10);
+const INDEXER_START_BLOCK = parseInt(process.env.INDEXER_START_BLOCK || '0', 10); // Block the system contract was deployed at
+const INDEXER_BATCH_SIZE = parseInt(process.env.INDEXER_BATCH_SIZE || '2000', 10); // Max blocks per getLogs call
+const INDEXER_CONFIRMATIONS = parseInt(process.env.INDEXER_CONFIRMATIONS || '12', 10); // Blocks after which an indexed block is final
+
+const INDEXER_LOCK_NAME = 'votex_chain_indexer';
+
+export interface IndexerSyncResult {
+  fromBlock: number;
+  toBlock: number;
+  eventsIndexed: number;
+  rolledBackTo: number | null; // Set when a reorg was detected and unconfirmed blocks were discarded
+}
+
+let pollTimer: NodeJS.Timeout | null = null;
+let isSyncing = false;
+
+/**
+ * Checks the cursor and recent indexed blocks against the canonical chain.
+ * @returns {Promise<number | null>} The block to roll back to if a reorg is detected, or null if the cursor is canonical.
+ */
+const findReorgForkPoint = async (contractAddress: string, cursorBlock: number, cursorHash: string): Promise<number | null> => {
+  const chain = getChainAdapter();
+  if ((await chain.getBlockHash(cursorBlock)) === cursorHash) return null;
+
+  // Walk back through the unconfirmed window until a stored block is still canonical
+  const windowStart = Math.max(INDEXER_START_BLOCK - 1, cursorBlock - INDEXER_CONFIRMATIONS);
+  const storedBlocks = await mysqlService.getChainBlocksFrom(contractAddress, windowStart);
+  for (const block of storedBlocks) {
+    if (block.block_number >= cursorBlock) continue;
+    if ((await chain.getBlockHash(block.block_number)) === block.block_hash) {
+      return block.block_number;
+    }
+  }
+  // Nothing in the window survived: discard the whole unconfirmed range
+  return windowStart;
+};
+
+const storeEvent = async (contractAddress: string, event: ChainEvent, db: mysqlService.DbExecutor): Promise<void> => {
+  const base = {
+    contract_address: contractAddress,
+    transaction_hash: event.transactionHash,
+    log_index: event.logIndex,
+    block_number: event.blockNumber,
+    block_hash: event.blockHash,
+  };
+  switch (event.type) {
+    case 'VoteCast':
+      await mysqlService.createChainVoteEvent({
+        ...base,
+        election_id: event.electionId,
+        post_id: event.postId,
+        blockchain_candidate_id: event.blockchainCandidateId,
+        voter_wallet_address: event.voterAddress,
+      }, db);
+      break;
+    case 'ElectionStarted':
+    case 'ElectionEnded':
+      await mysqlService.createChainLifecycleEvent({ ...base, event_type: event.type, election_id: event.electionId }, db);
+      break;
+    case 'VoterWhitelisted':
+    case 'VoterRemovedFromWhitelist':
+      await mysqlService.createChainLifecycleEvent({ ...base, event_type: event.type, voter_wallet_address: event.voterAddress }, db);
+      break;
+  }
+};
+
+/**
+ * Runs one indexing pass for the system contract: detects reorgs, then indexes the next batch of blocks
+ * and refreshes the derived candidate tallies, all in a single transaction with the cursor update.
+ * Only one API instance indexes at a time (MySQL advisory lock); other instances skip the pass.
+ * @param {string} contractAddress - The address of the main VoteXElection system contract.
+ * @returns {Promise<IndexerSyncResult | null>} What was indexed, or null if another instance holds the lock.
+ */
+export const syncChainIndex = async (contractAddress: string): Promise<IndexerSyncResult | null> => {
+  const chain = getChainAdapter();
+  const lockConnection = await pool.getConnection();
+  try {
+    if (!(await mysqlService.acquireAdvisoryLock(lockConnection, INDEXER_LOCK_NAME))) {
+      return null;
+    }
+
+    try {
+      const cursor = await mysqlService.getChainSyncCursor(contractAddress);
+      let lastBlock = cursor ? cursor.last_block_number : INDEXER_START_BLOCK - 1;
+      let rolledBackTo: number | null = null;
+
+      if (cursor && cursor.last_block_number >= INDEXER_START_BLOCK) {
+        const forkPoint = await findReorgForkPoint(contractAddress, cursor.last_block_number, cursor.last_block_hash);
+        if (forkPoint !== null) {
+          console.warn(`[Indexer] Reorg detected at block ${cursor.last_block_number}. Rolling back to block ${forkPoint}.`);
+          await rollbackTo(contractAddress, forkPoint);
+          lastBlock = forkPoint;
+          rolledBackTo = forkPoint;
+        }
+      }
+
+      const headBlock = await chain.getBlockNumber();
+      const fromBlock = lastBlock + 1;
+      if (fromBlock > headBlock) {
+        return { fromBlock, toBlock: lastBlock, eventsIndexed: 0, rolledBackTo };
+      }
+      const toBlock = Math.min(headBlock, fromBlock + INDEXER_BATCH_SIZE - 1);
+
+      const events = await chain.getContractEvents(contractAddress, fromBlock, toBlock);
+      const toBlockHash = await chain.getBlockHash(toBlock);
+      if (!toBlockHash) {
+        throw new Error(`Block ${toBlock} is not available from the chain adapter.`);
+      }
+
+      const connection = await pool.getConnection();
+      try {
+        await connection.beginTransaction();
+
+        const touchedElectionIds = new Set<number>();
+        const eventBlocks = new Map<number, string>();
+        for (const event of events) {
+          await storeEvent(contractAddress, event, connection);
+          eventBlocks.set(event.blockNumber, event.blockHash);
+          if (event.type === 'VoteCast') touchedElectionIds.add(event.electionId);
+        }
+
+        // Keep hashes of event blocks and the new cursor block so later passes can locate a fork point
+        eventBlocks.set(toBlock, toBlockHash);
+        for (const [blockNumber, blockHash] of eventBlocks) {
+          await mysqlService.saveChainBlock({ contract_address: contractAddress, block_number: blockNumber, block_hash: blockHash }, connection);
+        }
+        await mysqlService.pruneChainBlocksBefore(contractAddress, toBlock - INDEXER_CONFIRMATIONS, connection);
+
+        for (const electionId of touchedElectionIds) {
+          await mysqlService.refreshChainCandidateTallies(contractAddress, electionId, connection);
+        }
+        await mysqlService.upsertChainSyncCursor(contractAddress, toBlock, toBlockHash, connection);
+
+        await connection.commit();
+      } catch (error) {
+        await connection.rollback();
+        throw error;
+      } finally {
+        connection.release();
+      }
+
+      if (events.length > 0) {
+        console.log(`[Indexer] Indexed ${events.length} event(s) from blocks ${fromBlock}-${toBlock}.`);
+      }
+      return { fromBlock, toBlock, eventsIndexed: events.length, rolledBackTo };
+    } finally {
+      await mysqlService.releaseAdvisoryLock(lockConnection, INDEXER_LOCK_NAME);
+    }
+  } finally {
+    lockConnection.release();
+  }
+};
+
+/**
+ * Discards everything indexed after `blockNumber` and recomputes the affected tallies.
+ */
+const rollbackTo = async (contractAddress: string, blockNumber: number): Promise<void> => {
+  const chain = getChainAdapter();
+  // Rolling back past the start block resets the cursor to "nothing indexed yet"
+  const forkHash = blockNumber >= INDEXER_START_BLOCK ? await chain.getBlockHash(blockNumber) : null;
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const affectedElectionIds = await mysqlService.getChainVoteElectionIdsAfterBlock(contractAddress, blockNumber, connection);
+    await mysqlService.deleteChainDataAfterBlock(contractAddress, blockNumber, connection);
+    for (const electionId of affectedElectionIds) {
+      await mysqlService.refreshChainCandidateTallies(contractAddress, electionId, connection);
+    }
+    await mysqlService.upsertChainSyncCursor(contractAddress, blockNumber, forkHash || '', connection);
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+/**
+ * Starts polling the chain in the background. Safe to call on every API instance.
+ * @param {string} contractAddress - The address of the main VoteXElection system contract.
+ */
+export const startChainIndexer = (contractAddress: string): void => {
+  if (pollTimer) return;
+  console.log(`[Indexer] Following contract ${contractAddress} every ${INDEXER_POLL_INTERVAL_MS}ms.`);
+
+  const tick = async () => {
+    if (isSyncing) return; // Previous pass still running
+    isSyncing = true;
+    try {
+      // Keep going while there is a backlog of full batches
+      let result = await syncChainIndex(contractAddress);
+      while (result && result.toBlock - result.fromBlock + 1 === INDEXER_BATCH_SIZE) {
+        result = await syncChainIndex(contractAddress);
+      }
+    } catch (error) {
+      console.error('[Indexer] Sync failed:', (error as Error).message);
+    } finally {
+      isSyncing = false;
+    }
+  };
+
+  pollTimer = setInterval(tick, INDEXER_POLL_INTERVAL_MS);
+  tick();
+};
+
+export const stopChainIndexer = (): void => {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+};
+
+// --- Read helpers for results, audits and receipts ---
+
+/**
+ * Returns chain-derived vote counts for an election from the index.
+ * @returns {Promise<Record<string, number> | null>} blockchainCandidateId -> votes, or null if the contract has not been indexed yet.
+ */
+export const getIndexedTallies = async (contractAddress: string, electionId: number): Promise<Record<string, number> | null> => {
+  const cursor = await mysqlService.getChainSyncCursor(contractAddress);
+  if (!cursor) return null;
+  const tallies = await mysqlService.getChainCandidateTallies(contractAddress, electionId);
+  const results: Record<string, number> = {};
+  for (const tally of tallies) {
+    results[tally.blockchain_candidate_id] = tally.vote_count;
+  }
+  return results;
+};
+
+/**
+ * Returns indexed VoteCast events for an election.
+ * @returns {Promise<VoteCastEvent[] | null>} The events in chain order, or null if the contract has not been indexed yet.
+ */
+export const getIndexedVoteEvents = async (contractAddress: string, electionId: number): Promise<VoteCastEvent[] | null> => {
+  const cursor = await mysqlService.getChainSyncCursor(contractAddress);
+  if (!cursor) return null;
+  const events = await mysqlService.getChainVoteEventsByElectionId(contractAddress, electionId);
+  return events.map(event => ({
+    electionId: event.election_id,
+    postId: event.post_id,
+    blockchainCandidateId: event.blockchain_candidate_id,
+    voterAddress: event.voter_wallet_address,
+    transactionHash: event.transaction_hash,
+    blockNumber: event.block_number,
+  }));
+};
+
+export interface IndexedTransactionStatus {
+  indexed: boolean;
+  blockNumber: number | null;
+  confirmations: number;
+  isFinal: boolean;
+}
+
+/**
+ * Looks up the indexed on-chain status of vote transactions, e.g. for voter receipts.
+ * Confirmations are counted against the indexer cursor, so no RPC call is made.
+ * @returns {Promise<Record<string, IndexedTransactionStatus>>} Status keyed by transaction hash.
+ */
+export const getIndexedTransactionStatuses = async (
+  contractAddress: string,
+  transactionHashes: string[]
+): Promise<Record<string, IndexedTransactionStatus>> => {
+  const cursor = await mysqlService.getChainSyncCursor(contractAddress);
+  const events = await mysqlService.getChainVoteEventsByTransactionHashes(transactionHashes);
+  const statuses: Record<string, IndexedTransactionStatus> = {};
+  for (const hash of transactionHashes) {
+    // Indexed hashes are lowercase; receipts recorded before hashes were normalised may not be
+    const event = events.find(e => e.transaction_hash.toLowerCase() === hash.toLowerCase());
+    const confirmations = event && cursor ? cursor.last_block_number - event.block_number + 1 : 0;
+    statuses[hash] = {
+      indexed: Boolean(event),
+      blockNumber: event ? event.block_number : null,
+      confirmations,
+      isFinal: confirmations >= INDEXER_CONFIRMATIONS,
+    };
+  }
+  return statuses;
+};
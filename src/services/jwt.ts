@@ -0,0 +1,128 @@
+// --- JSON Web Tokens (RFC 7519) with asymmetric keys ---
+// Signs and verifies compact JWS tokens with RS256 (RSA keys of at least 2048 bits) or EdDSA (Ed25519
+// keys), and formats public keys as a JWK set (RFC 7517) so other services can verify tokens without
+// a shared secret. Each token names its key in the kid header, so several keys can be accepted while
+// one is rotated out. Node's crypto is used since jsonwebtoken has no EdDSA. Loading keys is up to the
+// caller (see authService).
+
+import crypto from 'crypto';
+
+export type JwtAlgorithm = 'RS256' | 'EdDSA';
+
+export interface JwtKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  publicKey: crypto.KeyObject;
+  privateKey: crypto.KeyObject | null; // null for keys that are only accepted, not signed with
+}
+
+export interface JwtClaims {
+  [claim: string]: unknown;
+  iat?: number;
+  exp?: number;
+  nbf?: number;
+  aud?: string;
+  sub?: string;
+  jti?: string;
+}
+
+const RSA_MIN_BITS = 2048;
+
+// RS256 hashes with SHA-256 first; Ed25519 signs the message itself
+const digestFor = (alg: JwtAlgorithm): string | null => (alg === 'RS256' ? 'sha256' : null);
+
+const decodeJson = (part: string): Record<string, unknown> => {
+  const value = JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('Not a JSON object.');
+  return value;
+};
+
+/**
+ * Reads a PEM key. A private key signs and verifies; a public key only verifies.
+ * @param {string} kid - The key ID tokens name it by.
+ * @param {string} pem - The PEM text.
+ * @returns {JwtKey} The key and the algorithm it signs with.
+ * @throws {Error} If the PEM cannot be read, or the key is not RSA of at least 2048 bits or Ed25519.
+ */
+export const keyFromPem = (kid: string, pem: string): JwtKey => {
+  const privateKey = pem.includes('PRIVATE KEY') ? crypto.createPrivateKey(pem) : null;
+  const publicKey = crypto.createPublicKey(privateKey ?? pem);
+  if (publicKey.asymmetricKeyType === 'rsa') {
+    if ((publicKey.asymmetricKeyDetails?.modulusLength ?? 0) < RSA_MIN_BITS) {
+      throw new Error(`Key "${kid}" is too short; RSA keys must have at least ${RSA_MIN_BITS} bits.`);
+    }
+    return { kid, alg: 'RS256', publicKey, privateKey };
+  }
+  if (publicKey.asymmetricKeyType === 'ed25519') {
+    return { kid, alg: 'EdDSA', publicKey, privateKey };
+  }
+  throw new Error(`Key "${kid}" is ${publicKey.asymmetricKeyType}; only RSA and Ed25519 keys are supported.`);
+};
+
+/**
+ * Signs claims as a compact JWS with the key's algorithm and its kid in the header.
+ * @param {JwtClaims} claims - The payload, including iat and exp.
+ * @param {JwtKey} key - A key with a private half.
+ * @returns {string} The token.
+ */
+export const signJwt = (claims: JwtClaims, key: JwtKey): string => {
+  if (!key.privateKey) throw new Error(`Key "${key.kid}" has no private key to sign with.`);
+  const header = Buffer.from(JSON.stringify({ alg: key.alg, typ: 'JWT', kid: key.kid })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = crypto.sign(digestFor(key.alg), Buffer.from(`${header}.${payload}`), key.privateKey);
+  return `${header}.${payload}.${signature.toString('base64url')}`;
+};
+
+/**
+ * Verifies a token with the key its kid names, then checks exp, nbf and, if given, the audience.
+ * @param {string} token - The compact JWS.
+ * @param {Map<string, JwtKey>} keys - The accepted keys by kid.
+ * @param {{ audience?: string; now?: number }} [options] - The audience the token must be for, and the current time in milliseconds.
+ * @returns {JwtClaims} The verified claims.
+ * @throws {Error} Why the token is not accepted.
+ */
+export const verifyJwt = (
+  token: string,
+  keys: Map<string, JwtKey>,
+  options: { audience?: string; now?: number } = {}
+): JwtClaims => {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new Error('Malformed token.');
+  const [headerPart, payloadPart, signaturePart] = parts;
+
+  let header: Record<string, unknown>;
+  let claims: JwtClaims;
+  try {
+    header = decodeJson(headerPart);
+    claims = decodeJson(payloadPart);
+  } catch (error) {
+    throw new Error('Malformed token.');
+  }
+
+  const key = typeof header.kid === 'string' ? keys.get(header.kid) : undefined;
+  if (!key) throw new Error('Token is signed with an unknown or retired key.');
+  // The algorithm comes from the key, never from the token, so a token cannot choose how it is checked
+  if (header.alg !== key.alg) throw new Error('Token algorithm does not match its key.');
+  const signed = Buffer.from(`${headerPart}.${payloadPart}`);
+  if (!crypto.verify(digestFor(key.alg), signed, key.publicKey, Buffer.from(signaturePart, 'base64url'))) {
+    throw new Error('Invalid signature.');
+  }
+
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp <= now) throw new Error('Token has expired.');
+  if (typeof claims.nbf === 'number' && claims.nbf > now) throw new Error('Token is not valid yet.');
+  if (options.audience !== undefined && claims.aud !== options.audience) throw new Error('Token is for another audience.');
+  return claims;
+};
+
+/**
+ * Formats a key's public half as a JWK for a JWK set.
+ * @param {JwtKey} key - The key.
+ * @returns {crypto.JsonWebKey} The public JWK with kid, alg and use.
+ */
+export const publicJwk = (key: JwtKey): crypto.JsonWebKey => ({
+  ...key.publicKey.export({ format: 'jwk' }),
+  kid: key.kid,
+  alg: key.alg,
+  use: 'sig',
+});
@@ -0,0 +1,245 @@
+// --- List Query Layer ---
+// Shared pagination, filtering and sorting for list endpoints. Each list declares which query
+// parameters filter which columns and which keys it can be sorted by; anything else is rejected,
+// so request input never reaches SQL except as bound parameters.
+
+import { RowDataPacket } from 'mysql2/promise';
+import pool from '../config/database';
+
+export const DEFAULT_PAGE_LIMIT = 50;
+export const MAX_PAGE_LIMIT = 200;
+
+export type ListFilterSpec =
+  | { type: 'enum'; column: string; values: readonly string[] } // ?param=a or ?param=a,b
+  | { type: 'boolean'; column: string } // ?param=true|false
+  | { type: 'number'; column: string; op: '=' | '>=' | '<=' }
+  | { type: 'date'; column: string; op: '>=' | '<=' } // ISO 8601 date or date-time
+  | { type: 'exact'; column: string }
+  | { type: 'presence'; column: string } // ?param=true: column IS NOT NULL, false: IS NULL
+  | { type: 'search'; columns: string[] }; // Case-insensitive substring match on any of the columns
+
+export interface ListSortKey {
+  column: string; // Must be NOT NULL, so it can be used for cursor pagination
+  type?: 'date';
+}
+
+export interface ListQuerySpec {
+  select: string; // e.g. "c.*, pm.name AS party_member_name"
+  from: string; // Table with any joins
+  idColumn: string; // Unique column used to break sort ties, e.g. "c.id"
+  filters: Record<string, ListFilterSpec>; // Keyed by query parameter
+  sortKeys: Record<string, ListSortKey>; // Keyed by the row field the rows expose
+  defaultSort: string; // e.g. "-created_at"
+}
+
+export interface ListQuery {
+  limit: number;
+  offset: number;
+  cursor: { value: unknown; id: number } | null; // Replaces the offset when paging by cursor
+  sortKey: string;
+  descending: boolean;
+  conditions: string[];
+  params: unknown[];
+}
+
+export interface ListPagination {
+  total: number; // Rows matching the filters, across all pages
+  limit: number;
+  offset: number | null; // null when paging by cursor
+  nextCursor: string | null; // Pass as ?cursor= for the next page; null on the last page
+  hasMore: boolean;
+}
+
+export interface ListPage<T> {
+  data: T[];
+  pagination: ListPagination;
+}
+
+// A cursor encodes the sort it was issued for, so it cannot be replayed against a different sort
+const encodeCursor = (sort: string, value: unknown, id: number): string =>
+  Buffer.from(JSON.stringify({ s: sort, v: value instanceof Date ? value.toISOString() : value, i: id })).toString('base64url');
+
+const decodeCursor = (cursor: string): { s: string; v: unknown; i: number } | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof decoded?.s === 'string' && Number.isInteger(decoded.i) ? decoded : null;
+  } catch {
+    return null;
+  }
+};
+
+const parseFilter = (
+  name: string,
+  spec: ListFilterSpec,
+  raw: unknown
+): { sql: string; params: unknown[] } | { error: string } => {
+  const value = Array.isArray(raw) ? raw.join(',') : String(raw).trim();
+  switch (spec.type) {
+    case 'enum': {
+      const values = value.split(',').map(v => v.trim()).filter(Boolean);
+      const invalid = values.find(v => !spec.values.includes(v));
+      if (values.length === 0 || invalid) {
+        return { error: `Invalid ${name} "${invalid ?? value}". Must be one of: ${spec.values.join(', ')}.` };
+      }
+      return { sql: `${spec.column} IN (${values.map(() => '?').join(', ')})`, params: values };
+    }
+    case 'boolean':
+    case 'presence':
+      if (value !== 'true' && value !== 'false') {
+        return { error: `${name} must be true or false.` };
+      }
+      return spec.type === 'boolean'
+        ? { sql: `${spec.column} = ?`, params: [value === 'true'] }
+        : { sql: `${spec.column} IS ${value === 'true' ? 'NOT ' : ''}NULL`, params: [] };
+    case 'number': {
+      if (!/^-?\d+(\.\d+)?$/.test(value)) {
+        return { error: `${name} must be a number.` };
+      }
+      return { sql: `${spec.column} ${spec.op} ?`, params: [Number(value)] };
+    }
+    case 'date': {
+      const date = new Date(value);
+      if (!value || isNaN(date.getTime())) {
+        return { error: `${name} must be an ISO 8601 date.` };
+      }
+      return { sql: `${spec.column} ${spec.op} ?`, params: [date] };
+    }
+    case 'exact':
+      return { sql: `${spec.column} = ?`, params: [value] };
+    case 'search': {
+      if (!value) return { sql: '1 = 1', params: [] };
+      const pattern = `%${value.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+      return { sql: `(${spec.columns.map(column => `${column} LIKE ?`).join(' OR ')})`, params: spec.columns.map(() => pattern) };
+    }
+  }
+};
+
+/**
+ * Reads pagination (limit with offset or cursor), sort and filters from a request query, accepting
+ * only the filters and sort keys the list declares.
+ * @param {ListQuerySpec} spec - What the list can be filtered and sorted by.
+ * @param {Record<string, unknown>} query - The request query (req.query).
+ * @returns {{ ok: true; query: ListQuery } | { ok: false; error: string }} The parsed query, or what is invalid.
+ */
+export const parseListQuery = (
+  spec: ListQuerySpec,
+  query: Record<string, unknown>
+): { ok: true; query: ListQuery } | { ok: false; error: string } => {
+  let limit = DEFAULT_PAGE_LIMIT;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+      return { ok: false, error: `limit must be an integer between 1 and ${MAX_PAGE_LIMIT}.` };
+    }
+  }
+
+  const sort = typeof query.sort === 'string' && query.sort ? query.sort : spec.defaultSort;
+  const descending = sort.startsWith('-');
+  const sortKey = descending ? sort.slice(1) : sort;
+  if (!spec.sortKeys[sortKey]) {
+    return { ok: false, error: `Invalid sort "${sort}". Sort by one of: ${Object.keys(spec.sortKeys).join(', ')} (prefix with - for descending).` };
+  }
+
+  let offset = 0;
+  let cursor: ListQuery['cursor'] = null;
+  if (query.cursor !== undefined && query.offset !== undefined) {
+    return { ok: false, error: 'Use either cursor or offset, not both.' };
+  }
+  if (query.cursor !== undefined) {
+    const decoded = decodeCursor(String(query.cursor));
+    if (!decoded || decoded.s !== sort) {
+      return { ok: false, error: 'Invalid cursor, or the cursor was issued for a different sort.' };
+    }
+    // The value is bound into SQL, where mysql2 would expand an object into column assignments, so
+    // only a string or number (a valid date for date keys) is accepted
+    const isDateKey = spec.sortKeys[sortKey].type === 'date';
+    const value = isDateKey && typeof decoded.v === 'string' ? new Date(decoded.v) : decoded.v;
+    const isValidValue = isDateKey
+      ? value instanceof Date && !Number.isNaN(value.getTime())
+      : typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+    if (!isValidValue) {
+      return { ok: false, error: 'Invalid cursor, or the cursor was issued for a different sort.' };
+    }
+    cursor = { value, id: decoded.i };
+  } else if (query.offset !== undefined) {
+    offset = Number(query.offset);
+    if (!Number.isInteger(offset) || offset < 0) {
+      return { ok: false, error: 'offset must be a non-negative integer.' };
+    }
+  }
+
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  for (const [name, filterSpec] of Object.entries(spec.filters)) {
+    if (query[name] === undefined) continue;
+    const filter = parseFilter(name, filterSpec, query[name]);
+    if ('error' in filter) return { ok: false, error: filter.error };
+    conditions.push(filter.sql);
+    params.push(...filter.params);
+  }
+
+  return { ok: true, query: { limit, offset, cursor, sortKey, descending, conditions, params } };
+};
+
+/**
+ * Runs a parsed list query and returns one page of rows with the total count and next cursor.
+ * @param {ListQuerySpec} spec - The list the query was parsed for.
+ * @param {ListQuery} query - The parsed query.
+ * @param {{ sql: string; params: unknown[] }[]} [scope=[]] - Conditions fixed by the route, e.g. the parent post.
+ * @returns {Promise<ListPage<T>>} The page.
+ */
+export const runListQuery = async <T>(
+  spec: ListQuerySpec,
+  query: ListQuery,
+  scope: { sql: string; params: unknown[] }[] = []
+): Promise<ListPage<T>> => {
+  const conditions = [...scope.map(s => s.sql), ...query.conditions];
+  const params = [...scope.flatMap(s => s.params), ...query.params];
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const [countRows] = await pool.query<RowDataPacket[]>(`SELECT COUNT(*) AS total FROM ${spec.from} ${where}`, params);
+  const total = Number(countRows[0].total);
+
+  const { column } = spec.sortKeys[query.sortKey];
+  const direction = query.descending ? 'DESC' : 'ASC';
+  const pageConditions = [...conditions];
+  const pageParams = [...params];
+  const sortsById = column === spec.idColumn;
+  if (query.cursor) {
+    const comparison = query.descending ? '<' : '>';
+    if (sortsById) {
+      pageConditions.push(`${column} ${comparison} ?`);
+      pageParams.push(query.cursor.id);
+    } else {
+      pageConditions.push(`(${column} ${comparison} ? OR (${column} = ? AND ${spec.idColumn} ${comparison} ?))`);
+      pageParams.push(query.cursor.value, query.cursor.value, query.cursor.id);
+    }
+  }
+  const pageWhere = pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : '';
+  const orderBy = sortsById ? `${column} ${direction}` : `${column} ${direction}, ${spec.idColumn} ${direction}`;
+
+  // One extra row tells whether there is another page
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT ${spec.select} FROM ${spec.from} ${pageWhere}
+     ORDER BY ${orderBy}
+     LIMIT ? OFFSET ?`,
+    [...pageParams, query.limit + 1, query.cursor ? 0 : query.offset]
+  );
+  const hasMore = rows.length > query.limit;
+  const data = rows.slice(0, query.limit);
+  const last = data[data.length - 1];
+  const idField = spec.idColumn.split('.').pop()!;
+
+  return {
+    data: data as T[],
+    pagination: {
+      total,
+      limit: query.limit,
+      offset: query.cursor ? null : query.offset,
+      nextCursor: hasMore && last
+        ? encodeCursor(`${query.descending ? '-' : ''}${query.sortKey}`, last[query.sortKey], last[idField])
+        : null,
+      hasMore,
+    },
+  };
+};
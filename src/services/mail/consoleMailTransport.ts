@@ -0,0 +1,13 @@
+import { MailTransport } from './mailTransport';
+
+/**
+ * Creates a mail transport that prints every message to the console, for local development.
+ * @returns {MailTransport} The console mail transport.
+ */
+export const createConsoleMailTransport = (): MailTransport => ({
+  kind: 'console',
+
+  send: async message => {
+    console.log(`--- Email to ${message.to}: ${message.subject} ---\n${message.text}\n--- End of email ---`);
+  },
+});
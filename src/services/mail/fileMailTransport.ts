@@ -0,0 +1,22 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { MailTransport } from './mailTransport';
+
+/**
+ * Creates a mail transport that writes every message to a JSON file, for local development and
+ * for integration tests that need to read the links and codes that were sent.
+ * @param {string} directory - Directory the messages are written to.
+ * @returns {MailTransport} The file mail transport.
+ */
+export const createFileMailTransport = (directory: string): MailTransport => ({
+  kind: 'file',
+
+  send: async message => {
+    await fs.mkdir(directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${uuidv4()}.json`;
+    const filePath = path.join(directory, fileName);
+    await fs.writeFile(filePath, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+    console.log(`Email to ${message.to} (${message.subject}) written to ${filePath}`);
+  },
+});
@@ -0,0 +1,53 @@
+import dotenv from 'dotenv';
+import { MailTransport, MailTransportKind } from './mailTransport';
+import { createSmtpMailTransport } from './smtpMailTransport';
+import { createConsoleMailTransport } from './consoleMailTransport';
+import { createFileMailTransport } from './fileMailTransport';
+
+dotenv.config();
+
+export * from './mailTransport';
+
+// --- Configuration ---
+export const MAIL_TRANSPORT = (process.env.MAIL_TRANSPORT || 'console') as MailTransportKind; // 'smtp' | 'console' | 'file'
+const MAIL_FROM = process.env.MAIL_FROM || 'VoteX <no-reply@votex.local>';
+const MAIL_FILE_DIR = process.env.MAIL_FILE_DIR || 'mail';
+
+let mailTransport: MailTransport | null = null;
+
+/**
+ * Returns the process-wide mail transport selected by MAIL_TRANSPORT, creating it on first use.
+ * @returns {MailTransport} The active mail transport.
+ */
+export const getMailTransport = (): MailTransport => {
+  if (mailTransport) return mailTransport;
+  switch (MAIL_TRANSPORT) {
+    case 'smtp':
+      mailTransport = createSmtpMailTransport({
+        host: process.env.SMTP_HOST || '',
+        port: parseInt(process.env.SMTP_PORT || '587', 10),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from: MAIL_FROM,
+      });
+      break;
+    case 'console':
+      mailTransport = createConsoleMailTransport();
+      break;
+    case 'file':
+      mailTransport = createFileMailTransport(MAIL_FILE_DIR);
+      break;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${MAIL_TRANSPORT}". Expected "smtp", "console" or "file".`);
+  }
+  return mailTransport;
+};
+
+/**
+ * Replaces the active mail transport, e.g. with one that records messages in integration tests.
+ * @param {MailTransport} transport - The transport to use for all subsequent emails.
+ */
+export const setMailTransport = (transport: MailTransport): void => {
+  mailTransport = transport;
+};
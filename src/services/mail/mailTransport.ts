@@ -0,0 +1,19 @@
+// --- Mail Transport Contract ---
+// Every email the API sends goes through a MailTransport, so deployments can use any SMTP server
+// while local development writes messages to the console or to files instead.
+
+export type MailTransportKind = 'smtp' | 'console' | 'file';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly kind: MailTransportKind;
+
+  // Resolves once the message was accepted for delivery; rejects if it was not
+  send(message: MailMessage): Promise<void>;
+}
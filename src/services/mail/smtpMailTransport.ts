@@ -0,0 +1,36 @@
+import nodemailer from 'nodemailer';
+import { MailTransport } from './mailTransport';
+
+export interface SmtpMailTransportConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (usually port 465); otherwise STARTTLS is used when offered
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * Creates a mail transport that delivers through an SMTP server.
+ * @param {SmtpMailTransportConfig} config - Server, credentials and sender address.
+ * @returns {MailTransport} The SMTP mail transport.
+ */
+export const createSmtpMailTransport = (config: SmtpMailTransportConfig): MailTransport => {
+  if (!config.host) {
+    throw new Error('SMTP_HOST must be set when MAIL_TRANSPORT is "smtp".');
+  }
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined,
+  });
+
+  return {
+    kind: 'smtp',
+
+    send: async message => {
+      await transporter.sendMail({ from: config.from, ...message });
+    },
+  };
+};
@@ -0,0 +1,61 @@
+import * as cloudinaryService from '../cloudinaryService';
+import { IMAGE_MIME_TYPES } from './imageInspection';
+import { MediaStore } from './mediaStore';
+
+// Cloudinary keeps the format separately from the public ID, so keys are stored without an extension
+const stripExtension = (key: string): string => key.replace(/\.[a-z0-9]+$/i, '');
+
+const splitKey = (key: string): { folder: string; name: string } => {
+  const slash = key.lastIndexOf('/');
+  return { folder: key.slice(0, slash), name: key.slice(slash + 1) };
+};
+
+const toCloudinaryFormats = (mimeType: string): string[] =>
+  mimeType === IMAGE_MIME_TYPES.jpeg ? ['jpg', 'jpeg'] : [mimeType.replace('image/', '')];
+
+/**
+ * Creates the media store backed by Cloudinary (the original image hosting).
+ * @returns {MediaStore} The Cloudinary media store.
+ */
+export const createCloudinaryMediaStore = (): MediaStore => {
+  if (!cloudinaryService.isConfigured()) {
+    console.warn('Cloudinary credentials are not fully defined in environment variables. Image uploads will fail.');
+  }
+
+  return {
+    kind: 'cloudinary',
+
+    put: async (key, body, mimeType) => {
+      const { folder, name } = splitKey(stripExtension(key));
+      const result = await cloudinaryService.uploadImage(`data:${mimeType};base64,${body.toString('base64')}`, folder, name);
+      return { key: result.public_id, url: result.secure_url };
+    },
+
+    delete: async key => {
+      await cloudinaryService.deleteImage(key);
+    },
+
+    getUrl: key => cloudinaryService.getImageUrl(key),
+
+    createDirectUpload: async (key, mimeType) => {
+      const publicId = stripExtension(key);
+      const { uploadUrl, apiKey, ...signedFields } = cloudinaryService.getSignedUploadParams(publicId, toCloudinaryFormats(mimeType));
+      return {
+        key: publicId,
+        target: { method: 'POST', url: uploadUrl, fields: { api_key: apiKey, ...signedFields } },
+      };
+    },
+
+    describe: async key => {
+      const details = await cloudinaryService.getImageDetails(key);
+      if (!details) return null;
+      const format = details.format === 'jpg' ? 'jpeg' : details.format;
+      return {
+        bytes: details.bytes,
+        mimeType: IMAGE_MIME_TYPES[format as keyof typeof IMAGE_MIME_TYPES] || null,
+        width: details.width,
+        height: details.height,
+      };
+    },
+  };
+};
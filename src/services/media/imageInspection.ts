@@ -0,0 +1,102 @@
+// --- Image Inspection ---
+// Identifies an uploaded image from its leading bytes rather than trusting the declared MIME type
+// or file name, and reads its pixel dimensions from the header without decoding it.
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp';
+
+export interface ImageInfo {
+  format: ImageFormat;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+export const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+const startsWith = (buffer: Buffer, signature: number[], offset: number = 0): boolean =>
+  buffer.length >= offset + signature.length && signature.every((byte, i) => buffer[offset + i] === byte);
+
+const ascii = (buffer: Buffer, start: number, end: number): string =>
+  buffer.length >= end ? buffer.toString('latin1', start, end) : '';
+
+const readPngSize = (buffer: Buffer) =>
+  buffer.length >= 24 && ascii(buffer, 12, 16) === 'IHDR'
+    ? { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) }
+    : null;
+
+const readGifSize = (buffer: Buffer) =>
+  buffer.length >= 10 ? { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) } : null;
+
+/**
+ * Walks the JPEG marker segments up to the first start-of-frame, which holds the dimensions.
+ */
+const readJpegSize = (buffer: Buffer) => {
+  let offset = 2;
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2; // Markers without a length
+      continue;
+    }
+    const length = buffer.readUInt16BE(offset + 2);
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      if (offset + 9 > buffer.length) return null;
+      return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const readWebpSize = (buffer: Buffer) => {
+  const chunk = ascii(buffer, 12, 16);
+  if (chunk === 'VP8 ' && buffer.length >= 30) {
+    return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L' && buffer.length >= 25) {
+    const bits = buffer.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X' && buffer.length >= 30) {
+    return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+  }
+  return null;
+};
+
+/**
+ * Identifies a JPEG, PNG, GIF or WebP image by its magic bytes and reads its dimensions.
+ * @param {Buffer} buffer - The uploaded file's contents.
+ * @returns {ImageInfo | null} The detected format and size, or null if the bytes are not a supported image.
+ */
+export const inspectImage = (buffer: Buffer): ImageInfo | null => {
+  let format: ImageFormat | null = null;
+  let size: { width: number; height: number } | null = null;
+
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+    format = 'jpeg';
+    size = readJpegSize(buffer);
+  } else if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    format = 'png';
+    size = readPngSize(buffer);
+  } else if (ascii(buffer, 0, 6) === 'GIF87a' || ascii(buffer, 0, 6) === 'GIF89a') {
+    format = 'gif';
+    size = readGifSize(buffer);
+  } else if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WEBP') {
+    format = 'webp';
+    size = readWebpSize(buffer);
+  }
+
+  if (!format || !size || size.width === 0 || size.height === 0) return null;
+  return { format, mimeType: IMAGE_MIME_TYPES[format], ...size };
+};
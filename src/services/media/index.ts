@@ -0,0 +1,60 @@
+import dotenv from 'dotenv';
+import { MediaStore, MediaStoreKind } from './mediaStore';
+import { createCloudinaryMediaStore } from './cloudinaryMediaStore';
+import { createLocalMediaStore } from './localMediaStore';
+import { createS3MediaStore } from './s3MediaStore';
+
+dotenv.config();
+
+export * from './mediaStore';
+export * from './imageInspection';
+
+// --- Configuration ---
+export const MEDIA_STORE = (process.env.MEDIA_STORE || 'cloudinary') as MediaStoreKind; // 'cloudinary' | 'local' | 's3'
+export const MEDIA_LOCAL_DIR = process.env.MEDIA_LOCAL_DIR || 'uploads';
+export const MEDIA_LOCAL_ROUTE = '/media'; // Where the API serves MEDIA_LOCAL_DIR when MEDIA_STORE is 'local'
+const MEDIA_PUBLIC_BASE_URL = process.env.MEDIA_PUBLIC_BASE_URL; // Public URL of stored files (local route, bucket or CDN)
+const MEDIA_S3_ENDPOINT = process.env.MEDIA_S3_ENDPOINT; // Set for MinIO and other S3-compatible services
+
+let mediaStore: MediaStore | null = null;
+
+/**
+ * Returns the process-wide media store selected by MEDIA_STORE, creating it on first use.
+ * @returns {MediaStore} The active media store.
+ */
+export const getMediaStore = (): MediaStore => {
+  if (mediaStore) return mediaStore;
+  switch (MEDIA_STORE) {
+    case 'cloudinary':
+      mediaStore = createCloudinaryMediaStore();
+      break;
+    case 'local':
+      mediaStore = createLocalMediaStore(
+        MEDIA_LOCAL_DIR,
+        MEDIA_PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || 5000}${MEDIA_LOCAL_ROUTE}`
+      );
+      break;
+    case 's3':
+      mediaStore = createS3MediaStore({
+        bucket: process.env.MEDIA_S3_BUCKET || '',
+        region: process.env.MEDIA_S3_REGION || 'us-east-1',
+        endpoint: MEDIA_S3_ENDPOINT,
+        accessKeyId: process.env.MEDIA_S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.MEDIA_S3_SECRET_ACCESS_KEY,
+        forcePathStyle: (process.env.MEDIA_S3_FORCE_PATH_STYLE || (MEDIA_S3_ENDPOINT ? 'true' : 'false')) === 'true',
+        publicBaseUrl: MEDIA_PUBLIC_BASE_URL,
+      });
+      break;
+    default:
+      throw new Error(`Unknown MEDIA_STORE "${MEDIA_STORE}". Expected "cloudinary", "local" or "s3".`);
+  }
+  return mediaStore;
+};
+
+/**
+ * Replaces the active media store, e.g. with a local store in a temporary directory in integration tests.
+ * @param {MediaStore} store - The store to use for all subsequent media calls.
+ */
+export const setMediaStore = (store: MediaStore): void => {
+  mediaStore = store;
+};
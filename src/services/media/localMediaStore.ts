@@ -0,0 +1,65 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { inspectImage } from './imageInspection';
+import { MediaStore, StoredImageDetails } from './mediaStore';
+
+/**
+ * Creates a media store that keeps files on local disk, for offline and on-prem deployments.
+ * The API serves `directory` itself under the route that `publicBaseUrl` points at.
+ * @param {string} directory - Directory the files are written to.
+ * @param {string} publicBaseUrl - URL the directory is served from, e.g. "http://localhost:5000/media".
+ * @returns {MediaStore} The local media store.
+ */
+export const createLocalMediaStore = (directory: string, publicBaseUrl: string): MediaStore => {
+  const root = path.resolve(directory);
+  const baseUrl = publicBaseUrl.replace(/\/+$/, '');
+
+  // Keys are generated by the API, but never let one resolve outside the upload directory
+  const resolvePath = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid media key "${key}".`);
+    }
+    return filePath;
+  };
+
+  return {
+    kind: 'local',
+
+    put: async (key, body) => {
+      const filePath = resolvePath(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body, { flag: 'wx' }); // Never overwrite an existing file
+      return { key, url: `${baseUrl}/${key}` };
+    },
+
+    delete: async key => {
+      try {
+        await fs.unlink(resolvePath(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    },
+
+    getUrl: key => `${baseUrl}/${key}`,
+
+    // Browsers cannot write to the API's disk directly; they use the multipart upload endpoint instead
+    createDirectUpload: async () => null,
+
+    describe: async (key, maxBytes): Promise<StoredImageDetails | null> => {
+      const filePath = resolvePath(key);
+      let stats;
+      try {
+        stats = await fs.stat(filePath);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+      if (stats.size > maxBytes) {
+        return { bytes: stats.size, mimeType: null, width: 0, height: 0 };
+      }
+      const info = inspectImage(await fs.readFile(filePath));
+      return { bytes: stats.size, mimeType: info?.mimeType || null, width: info?.width || 0, height: info?.height || 0 };
+    },
+  };
+};
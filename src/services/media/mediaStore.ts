@@ -0,0 +1,44 @@
+// --- Media Store Contract ---
+// Every uploaded image is stored through a MediaStore, so party logos and member photos work with
+// Cloudinary, on local disk (served by the API) or in any S3-compatible bucket such as MinIO.
+
+export type MediaStoreKind = 'cloudinary' | 'local' | 's3';
+
+export interface StoredMedia {
+  key: string; // Where the store keeps the file: Cloudinary public ID, path under the upload directory or S3 object key
+  url: string;
+}
+
+export interface StoredImageDetails {
+  bytes: number;
+  mimeType: string | null; // null if the stored file is not a recognised image
+  width: number;
+  height: number;
+}
+
+// How the browser uploads a file straight to the store
+export interface DirectUploadTarget {
+  method: 'POST' | 'PUT';
+  url: string;
+  fields?: Record<string, string | number | undefined>; // Form fields to send alongside the file (POST)
+  headers?: Record<string, string>; // Headers the request must carry (PUT)
+}
+
+export interface MediaStore {
+  readonly kind: MediaStoreKind;
+
+  /**
+   * Stores a file under (roughly) `key`, e.g. "votex_parties/<uuid>.png". Stores that manage file
+   * extensions themselves may drop it, so callers must keep the returned key.
+   */
+  put(key: string, body: Buffer, mimeType: string): Promise<StoredMedia>;
+  // Deleting a key that holds nothing is not an error
+  delete(key: string): Promise<void>;
+  // Public URL of a stored file
+  getUrl(key: string): string;
+
+  // Direct uploads from the browser, valid for `expiresInSeconds`. Null when the store does not support them.
+  createDirectUpload(key: string, mimeType: string, expiresInSeconds: number): Promise<{ key: string; target: DirectUploadTarget } | null>;
+  // What is actually stored under `key`, or null if nothing is. Files over `maxBytes` are not downloaded to inspect them.
+  describe(key: string, maxBytes: number): Promise<StoredImageDetails | null>;
+}
@@ -0,0 +1,101 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { inspectImage } from './imageInspection';
+import { MediaStore } from './mediaStore';
+
+export interface S3MediaStoreConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string; // For S3-compatible services, e.g. "http://127.0.0.1:9000" for a local MinIO
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean; // MinIO serves buckets as http://host/bucket rather than http://bucket.host
+  publicBaseUrl?: string; // Where objects are publicly readable (bucket URL or CDN); derived from the endpoint if omitted
+}
+
+const isNotFound = (error: unknown): boolean =>
+  error instanceof S3ServiceException && (error.name === 'NotFound' || error.name === 'NoSuchKey' || error.$metadata.httpStatusCode === 404);
+
+/**
+ * Creates a media store backed by an S3 bucket or any S3-compatible service such as MinIO.
+ * Objects must be publicly readable (bucket policy) for their URLs to work in browsers.
+ * @param {S3MediaStoreConfig} config - Bucket, credentials and endpoint.
+ * @returns {MediaStore} The S3 media store.
+ */
+export const createS3MediaStore = (config: S3MediaStoreConfig): MediaStore => {
+  if (!config.bucket) {
+    throw new Error('MEDIA_S3_BUCKET is required when MEDIA_STORE is "s3".');
+  }
+
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    credentials: config.accessKeyId && config.secretAccessKey
+      ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+      : undefined, // Fall back to the SDK's default credential chain
+  });
+
+  const endpoint = config.endpoint?.replace(/\/+$/, '');
+  const baseUrl = (
+    config.publicBaseUrl
+    || (endpoint && config.forcePathStyle ? `${endpoint}/${config.bucket}` : null)
+    || `https://${config.bucket}.s3.${config.region}.amazonaws.com`
+  ).replace(/\/+$/, '');
+
+  return {
+    kind: 's3',
+
+    put: async (key, body, mimeType) => {
+      await client.send(new PutObjectCommand({
+        Bucket: config.bucket,
+        Key: key,
+        Body: body,
+        ContentType: mimeType,
+        CacheControl: 'public, max-age=31536000, immutable', // Keys are never reused
+      }));
+      return { key, url: `${baseUrl}/${key}` };
+    },
+
+    delete: async key => {
+      await client.send(new DeleteObjectCommand({ Bucket: config.bucket, Key: key }));
+    },
+
+    getUrl: key => `${baseUrl}/${key}`,
+
+    // A presigned PUT; the Content-Type is part of the signature, so the object is served as the declared type
+    createDirectUpload: async (key, mimeType, expiresInSeconds) => {
+      const url = await getSignedUrl(
+        client,
+        new PutObjectCommand({ Bucket: config.bucket, Key: key, ContentType: mimeType }),
+        { expiresIn: expiresInSeconds }
+      );
+      return { key, target: { method: 'PUT', url, headers: { 'Content-Type': mimeType } } };
+    },
+
+    describe: async (key, maxBytes) => {
+      let bytes: number;
+      try {
+        const head = await client.send(new HeadObjectCommand({ Bucket: config.bucket, Key: key }));
+        bytes = head.ContentLength || 0;
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+      if (bytes > maxBytes) {
+        return { bytes, mimeType: null, width: 0, height: 0 };
+      }
+      const object = await client.send(new GetObjectCommand({ Bucket: config.bucket, Key: key }));
+      const body = Buffer.from(await object.Body!.transformToByteArray());
+      const info = inspectImage(body);
+      return { bytes: body.length, mimeType: info?.mimeType || null, width: info?.width || 0, height: info?.height || 0 };
+    },
+  };
+};
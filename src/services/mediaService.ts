@@ -0,0 +1,275 @@
+import dotenv from 'dotenv';
+import { v4 as uuidv4 } from 'uuid';
+import * as mysqlService from './mysqlService';
+import { IMAGE_MIME_TYPES, ImageFormat, ImageInfo, getMediaStore, inspectImage } from './media';
+import { MediaAsset, MediaPurpose, Party, PartyMember } from '../types/index.d';
+
+dotenv.config();
+
+// --- Configuration ---
+export const MEDIA_MAX_BYTES = parseInt(process.env.MEDIA_MAX_BYTES || String(2 * 1024 * 1024), 10);
+const MEDIA_MIN_DIMENSION = parseInt(process.env.MEDIA_MIN_DIMENSION || '32', 10); // Pixels, per side
+const MEDIA_MAX_DIMENSION = parseInt(process.env.MEDIA_MAX_DIMENSION || '4096', 10);
+export const MEDIA_ALLOWED_TYPES = (process.env.MEDIA_ALLOWED_TYPES || 'image/jpeg,image/png,image/webp')
+  .split(',')
+  .map(type => type.trim().toLowerCase())
+  .filter(type => Object.values(IMAGE_MIME_TYPES).includes(type));
+const MEDIA_DIRECT_UPLOAD_TTL_SECONDS = parseInt(process.env.MEDIA_DIRECT_UPLOAD_TTL_SECONDS || '300', 10);
+
+export const MEDIA_PURPOSES: Record<MediaPurpose, string> = {
+  party_logo: 'votex_parties',
+  member_photo: 'votex_members',
+  general: 'votex_images',
+};
+
+export type MediaResult<T> = { ok: true; value: T } | { ok: false; status: number; error: string; code: string };
+
+const reject = (status: number, code: string, error: string): { ok: false; status: number; error: string; code: string } =>
+  ({ ok: false, status, code, error });
+
+const checkImageLimits = (
+  info: { mimeType: string | null; width: number; height: number },
+  bytes: number
+): MediaResult<null> => {
+  if (bytes > MEDIA_MAX_BYTES) {
+    return reject(413, 'FILE_TOO_LARGE', `Images must be at most ${MEDIA_MAX_BYTES} bytes.`);
+  }
+  if (!info.mimeType || !MEDIA_ALLOWED_TYPES.includes(info.mimeType)) {
+    return reject(415, 'UNSUPPORTED_MEDIA_TYPE', `Images must be one of: ${MEDIA_ALLOWED_TYPES.join(', ')}.`);
+  }
+  const outOfRange = (side: number) => side < MEDIA_MIN_DIMENSION || side > MEDIA_MAX_DIMENSION;
+  if (outOfRange(info.width) || outOfRange(info.height)) {
+    return reject(
+      422,
+      'INVALID_DIMENSIONS',
+      `Images must be between ${MEDIA_MIN_DIMENSION} and ${MEDIA_MAX_DIMENSION} pixels per side (got ${info.width}x${info.height}).`
+    );
+  }
+  return { ok: true, value: null };
+};
+
+/**
+ * Checks an uploaded file is a supported image whose content matches its declared type and
+ * which is within the size and dimension limits.
+ * @param {Buffer} buffer - The file's contents.
+ * @param {string} [declaredMimeType] - The Content-Type the client sent for the file.
+ * @returns {MediaResult<ImageInfo>} The detected format and dimensions, or why the file was rejected.
+ */
+export const validateImage = (buffer: Buffer, declaredMimeType?: string): MediaResult<ImageInfo> => {
+  const info = inspectImage(buffer);
+  if (!info) {
+    return reject(415, 'UNSUPPORTED_MEDIA_TYPE', 'File is not a supported image.');
+  }
+  if (declaredMimeType && declaredMimeType.toLowerCase() !== info.mimeType) {
+    return reject(415, 'MIME_TYPE_MISMATCH', `File content is ${info.mimeType} but was sent as ${declaredMimeType}.`);
+  }
+  const limits = checkImageLimits(info, buffer.length);
+  return limits.ok ? { ok: true, value: info } : limits;
+};
+
+// New files get a random name in their purpose's folder, e.g. "votex_parties/<uuid>.png"
+const newMediaKey = (purpose: MediaPurpose, mimeType: string): string => {
+  const format = (Object.keys(IMAGE_MIME_TYPES) as ImageFormat[]).find(f => IMAGE_MIME_TYPES[f] === mimeType);
+  return `${MEDIA_PURPOSES[purpose]}/${uuidv4()}.${format === 'jpeg' ? 'jpg' : format}`;
+};
+
+/**
+ * Validates an image uploaded through the API, writes it to the media store and records it in media_assets.
+ * @param {Buffer} buffer - The file's contents.
+ * @param {string | undefined} declaredMimeType - The Content-Type the client sent for the file.
+ * @param {MediaPurpose} purpose - What the image is for; decides the folder it is stored in.
+ * @param {number | undefined} uploadedBy - The admin user uploading it.
+ * @returns {Promise<MediaResult<MediaAsset>>} The recorded asset, or why the file was rejected.
+ */
+export const storeImage = async (
+  buffer: Buffer,
+  declaredMimeType: string | undefined,
+  purpose: MediaPurpose,
+  uploadedBy?: number
+): Promise<MediaResult<MediaAsset>> => {
+  const validation = validateImage(buffer, declaredMimeType);
+  if (!validation.ok) return validation;
+  const info = validation.value;
+
+  const store = getMediaStore();
+  const stored = await store.put(newMediaKey(purpose, info.mimeType), buffer, info.mimeType);
+  const asset: Omit<MediaAsset, 'id' | 'created_at' | 'updated_at'> = {
+    public_id: stored.key,
+    store: store.kind,
+    purpose,
+    upload_method: 'server',
+    status: 'active',
+    url: stored.url,
+    mime_type: info.mimeType,
+    bytes: buffer.length,
+    width: info.width,
+    height: info.height,
+    uploaded_by: uploadedBy ?? null,
+  };
+  const assetId = await mysqlService.createMediaAsset(asset);
+  return { ok: true, value: { id: assetId, ...asset } };
+};
+
+/**
+ * Issues short-lived parameters for the admin frontend to upload one image of the given type straight
+ * to the media store, and records the pending asset. The upload must be completed with
+ * `completeDirectUpload` within MEDIA_DIRECT_UPLOAD_TTL_SECONDS, or it is discarded.
+ * @param {MediaPurpose} purpose - What the image is for; decides the folder it is stored in.
+ * @param {string} mimeType - The type of the image that will be uploaded.
+ * @param {number | undefined} uploadedBy - The admin user uploading it.
+ */
+export const createDirectUpload = async (purpose: MediaPurpose, mimeType: string, uploadedBy?: number) => {
+  if (!MEDIA_ALLOWED_TYPES.includes(mimeType)) {
+    return reject(415, 'UNSUPPORTED_MEDIA_TYPE', `Images must be one of: ${MEDIA_ALLOWED_TYPES.join(', ')}.`);
+  }
+  await purgeExpiredUploads();
+
+  const store = getMediaStore();
+  const directUpload = await store.createDirectUpload(newMediaKey(purpose, mimeType), mimeType, MEDIA_DIRECT_UPLOAD_TTL_SECONDS);
+  if (!directUpload) {
+    return reject(501, 'DIRECT_UPLOAD_UNSUPPORTED', `The ${store.kind} media store does not accept direct uploads. Use POST /media instead.`);
+  }
+
+  const expiresAt = new Date(Date.now() + MEDIA_DIRECT_UPLOAD_TTL_SECONDS * 1000);
+  const assetId = await mysqlService.createMediaAsset({
+    public_id: directUpload.key,
+    store: store.kind,
+    purpose,
+    upload_method: 'direct',
+    status: 'pending',
+    mime_type: mimeType,
+    uploaded_by: uploadedBy ?? null,
+    expires_at: expiresAt,
+  });
+
+  return {
+    ok: true as const,
+    value: { assetId, expiresAt, maxBytes: MEDIA_MAX_BYTES, upload: directUpload.target },
+  };
+};
+
+/**
+ * Confirms a direct upload: inspects what the store actually holds and applies the same limits as
+ * API uploads. Rejected or late uploads are deleted from the store.
+ * @param {number} assetId - The asset returned by `createDirectUpload`.
+ * @returns {Promise<MediaResult<MediaAsset>>} The now active asset, or why it was rejected.
+ */
+export const completeDirectUpload = async (assetId: number): Promise<MediaResult<MediaAsset>> => {
+  const asset = await mysqlService.getMediaAssetById(assetId);
+  if (!asset || asset.upload_method !== 'direct') {
+    return reject(404, 'ASSET_NOT_FOUND', 'Direct upload not found.');
+  }
+  if (asset.status === 'active') {
+    return { ok: true, value: asset };
+  }
+  if (asset.status !== 'pending') {
+    return reject(409, 'ASSET_NOT_PENDING', `Direct upload is ${asset.status}.`);
+  }
+  const store = getMediaStore();
+  if (asset.store !== store.kind) {
+    return reject(409, 'STORE_CHANGED', `Direct upload was issued for the ${asset.store} media store.`);
+  }
+
+  if (asset.expires_at && new Date(asset.expires_at).getTime() <= Date.now()) {
+    await discardAsset(asset, 'rejected');
+    return reject(410, 'UPLOAD_EXPIRED', 'The upload parameters expired before the upload was completed.');
+  }
+
+  const details = await store.describe(asset.public_id, MEDIA_MAX_BYTES);
+  if (!details) {
+    return reject(409, 'UPLOAD_NOT_FOUND', 'No image has been uploaded for this asset yet.');
+  }
+
+  let limits = checkImageLimits(details, details.bytes);
+  if (limits.ok && details.mimeType !== asset.mime_type) {
+    limits = reject(415, 'MIME_TYPE_MISMATCH', `Uploaded image is ${details.mimeType} but ${asset.mime_type} was requested.`);
+  }
+  if (!limits.ok) {
+    await discardAsset(asset, 'rejected');
+    return limits;
+  }
+
+  const updates: Partial<MediaAsset> = {
+    status: 'active',
+    url: store.getUrl(asset.public_id),
+    bytes: details.bytes,
+    width: details.width,
+    height: details.height,
+    expires_at: null,
+  };
+  await mysqlService.updateMediaAsset(assetId, updates);
+  return { ok: true, value: { ...asset, ...updates } };
+};
+
+/**
+ * Deletes an asset from the media store and marks its record. Deletion failures are logged and leave
+ * the record untouched so the asset can be cleaned up later.
+ */
+const discardAsset = async (asset: MediaAsset, status: 'rejected' | 'deleted'): Promise<boolean> => {
+  const store = getMediaStore();
+  if (asset.store !== store.kind) {
+    console.warn(`Media asset ${asset.public_id} is in the ${asset.store} store, not ${store.kind}; leaving it in place.`);
+    return false;
+  }
+  try {
+    await store.delete(asset.public_id);
+  } catch (error) {
+    console.error(`Failed to delete media asset ${asset.public_id}:`, error);
+    return false;
+  }
+  await mysqlService.updateMediaAsset(asset.id!, { status });
+  return true;
+};
+
+/**
+ * Deletes a replaced or orphaned image from the media store. Images stored before media_assets
+ * existed are deleted too, they just have no record to update.
+ * @param {string} publicId - The image's key in the media store.
+ * @returns {Promise<boolean>} Whether the image was deleted.
+ */
+export const deleteAsset = async (publicId: string): Promise<boolean> => {
+  const asset = await mysqlService.getMediaAssetByPublicId(publicId);
+  if (asset) {
+    return discardAsset(asset, 'deleted');
+  }
+  try {
+    await getMediaStore().delete(publicId);
+    return true;
+  } catch (error) {
+    console.error(`Failed to delete media asset ${publicId}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Discards direct uploads that were never completed before their parameters expired.
+ * @returns {Promise<number>} How many were discarded.
+ */
+export const purgeExpiredUploads = async (): Promise<number> => {
+  const expired = await mysqlService.getExpiredPendingMediaAssets(new Date());
+  let purged = 0;
+  for (const asset of expired) {
+    if (await discardAsset(asset, 'rejected')) purged++;
+  }
+  return purged;
+};
+
+/**
+ * Returns the public URL for an image kept in the media store, or the stored URL for images that are
+ * not (external links and seed data).
+ * @param {string | null | undefined} publicId - The image's key in the media store.
+ * @param {string | null | undefined} storedUrl - The URL saved alongside it.
+ * @returns {string | null} The URL to serve.
+ */
+export const resolveMediaUrl = (publicId: string | null | undefined, storedUrl: string | null | undefined): string | null =>
+  publicId ? getMediaStore().getUrl(publicId) : storedUrl ?? null;
+
+export const withPartyLogoUrl = <T extends Party>(party: T): T => ({
+  ...party,
+  logo_url: resolveMediaUrl(party.logo_public_id, party.logo_url),
+});
+
+export const withMemberImageUrl = <T extends PartyMember>(member: T): T => ({
+  ...member,
+  image_url: resolveMediaUrl(member.image_public_id, member.image_url),
+});
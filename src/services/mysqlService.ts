@@ -9,12 +9,63 @@ import {
   Candidate,
   VoteLog,
   VoterReceipt,
+  ChainSyncCursor,
+  ChainBlock,
+  ChainVoteEventRecord,
+  ChainLifecycleEventRecord,
+  ChainCandidateTally,
+  ElectionStatusHistory,
+  PostTallyRecord,
+  TieResolution,
+  MediaAsset,
+  VoterImportJob,
+  VoterChange,
+  VoterAccountStatus,
+  EmailVerification,
+  AuthNonce,
+  WalletChangeRequest,
+  VoterWalletBinding,
+  ElectionRoleAssignment,
+  UserToken,
+  UserRecoveryCode,
+  Session,
+  SessionRevokedReason,
 } from "../types/index.d";
-import { RowDataPacket, OkPacket, ResultSetHeader } from "mysql2/promise";
+import { RowDataPacket, OkPacket, ResultSetHeader, Pool, PoolConnection } from "mysql2/promise";
+import { ListPage, ListQuery, ListQuerySpec, runListQuery } from "./listQuery";
+import { VOTER_ACCOUNT_STATUSES, VOTER_GENDERS, VOTER_REGISTRATION_STATUSES } from "./voterValidation";
 
 // Helper type for query results
 type QueryResult = [RowDataPacket[] | OkPacket | ResultSetHeader, any];
 
+// Either the shared pool or a connection holding an open transaction
+export type DbExecutor = Pool | PoolConnection;
+
+/**
+ * Whether a query failed because it would have duplicated a unique key.
+ */
+export const isDuplicateEntryError = (error: unknown): boolean =>
+  (error as { code?: string }).code === "ER_DUP_ENTRY";
+
+// --- Advisory Locks (coordinate background workers across API instances) ---
+export const acquireAdvisoryLock = async (
+  connection: PoolConnection,
+  name: string
+): Promise<boolean> => {
+  const [rows] = await connection.query<RowDataPacket[]>(
+    "SELECT GET_LOCK(?, 0) AS acquired",
+    [name]
+  );
+  return rows[0].acquired === 1;
+};
+
+export const releaseAdvisoryLock = async (
+  connection: PoolConnection,
+  name: string
+): Promise<void> => {
+  await connection.query("SELECT RELEASE_LOCK(?)", [name]);
+};
+
 // --- User (Admin) Operations ---
 export const findUserByEmail = async (email: string): Promise<User | null> => {
   const [rows] = await pool.execute<RowDataPacket[]>(
@@ -24,12 +75,100 @@ export const findUserByEmail = async (email: string): Promise<User | null> => {
   return (rows as User[])[0] || null;
 };
 
+export const findUserById = async (
+  id: number,
+  db: DbExecutor = pool,
+  forUpdate: boolean = false
+): Promise<User | null> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT * FROM users WHERE id = ?${forUpdate ? " FOR UPDATE" : ""}`,
+    [id]
+  );
+  return (rows as User[])[0] || null;
+};
+
+export const createUser = async (
+  user: Pick<User, "email" | "password_hash" | "role" | "status" | "invited_by_user_id">,
+  db: DbExecutor = pool
+): Promise<number> => {
+  const [result] = await db.execute<ResultSetHeader>(
+    "INSERT INTO users (email, password_hash, role, status, invited_by_user_id) VALUES (?, ?, ?, ?, ?)",
+    [user.email, user.password_hash, user.role, user.status, user.invited_by_user_id ?? null]
+  );
+  return result.insertId;
+};
+
+export const updateUser = async (
+  id: number,
+  updates: Partial<User>,
+  db: DbExecutor = pool
+): Promise<boolean> => {
+  const fields = Object.keys(updates)
+    .filter((key) => key !== "id" && key !== "created_at" && key !== "updated_at")
+    .map((key) => `${key} = ?`)
+    .join(", ");
+  const values = Object.values(updates);
+  if (fields.length === 0) return false; // No fields to update
+
+  const [result] = await db.execute<ResultSetHeader>(
+    `UPDATE users SET ${fields}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+    [...values, id]
+  );
+  return result.affectedRows > 0;
+};
+
+// Locks the active super admins' rows, so two admins cannot demote or disable the last two at once
+export const countActiveSuperAdmins = async (db: DbExecutor = pool, forUpdate: boolean = false): Promise<number> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT id FROM users WHERE role = 'super_admin' AND status = 'active'${forUpdate ? " FOR UPDATE" : ""}`
+  );
+  return rows.length;
+};
+
+// Never selects password_hash or the TOTP secret
+export const USER_LIST: ListQuerySpec = {
+  select: "id, email, role, status, invited_by_user_id, password_changed_at, disabled_at, totp_enabled_at, created_at, updated_at",
+  from: "users",
+  idColumn: "id",
+  filters: {
+    role: { type: "enum", column: "role", values: ["super_admin", "election_officer", "registrar", "auditor", "observer", "voter"] },
+    status: { type: "enum", column: "status", values: ["invited", "active", "disabled"] },
+    twoFactorEnabled: { type: "presence", column: "totp_enabled_at" },
+    q: { type: "search", columns: ["email"] },
+  },
+  sortKeys: {
+    email: { column: "email" },
+    created_at: { column: "created_at", type: "date" },
+    id: { column: "id" },
+  },
+  defaultSort: "email",
+};
+
+export const listUsers = (query: ListQuery): Promise<ListPage<Omit<User, "password_hash" | "totp_secret">>> =>
+  runListQuery(USER_LIST, query);
+
 // --- Party Operations ---
-export const getAllParties = async (): Promise<Party[]> => {
-  const [rows] = await pool.execute<RowDataPacket[]>("SELECT * FROM parties");
-  return rows as Party[];
+export const PARTY_LIST: ListQuerySpec = {
+  select: "*",
+  from: "parties",
+  idColumn: "id",
+  filters: {
+    q: { type: "search", columns: ["name", "description"] },
+  },
+  sortKeys: {
+    name: { column: "name" },
+    created_at: { column: "created_at", type: "date" },
+    id: { column: "id" },
+  },
+  defaultSort: "name",
 };
 
+export const listParties = (
+  query: ListQuery,
+  includeArchived: boolean = false
+): Promise<ListPage<Party>> =>
+  runListQuery<Party>(PARTY_LIST, query, includeArchived ? [] : [{ sql: "archived_at IS NULL", params: [] }]);
+
 export const getPartyById = async (id: number): Promise<Party | null> => {
   const [rows] = await pool.execute<RowDataPacket[]>(
     "SELECT * FROM parties WHERE id = ?",
@@ -38,24 +177,104 @@ export const getPartyById = async (id: number): Promise<Party | null> => {
   return (rows as Party[])[0] || null;
 };
 
-// --- Party Member Operations ---
-export const getAllPartyMembers = async (): Promise<PartyMember[]> => {
+// Party names are unique regardless of case or surrounding whitespace
+export const getPartyByName = async (name: string): Promise<Party | null> => {
   const [rows] = await pool.execute<RowDataPacket[]>(
-    "SELECT * FROM party_members"
+    "SELECT * FROM parties WHERE LOWER(name) = LOWER(?)",
+    [name.trim()]
+  );
+  return (rows as Party[])[0] || null;
+};
+
+export const getPartyByLogoPublicId = async (publicId: string): Promise<Party | null> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM parties WHERE logo_public_id = ?",
+    [publicId]
+  );
+  return (rows as Party[])[0] || null;
+};
+
+export const createParty = async (
+  party: Omit<Party, "id" | "created_at" | "updated_at" | "archived_at">
+): Promise<number> => {
+  const [result] = await pool.execute<ResultSetHeader>(
+    "INSERT INTO parties (name, logo_url, logo_public_id, description) VALUES (?, ?, ?, ?)",
+    [party.name, party.logo_url || null, party.logo_public_id || null, party.description || null]
+  );
+  return result.insertId;
+};
+
+export const updateParty = async (
+  id: number,
+  updates: Partial<Party>
+): Promise<boolean> => {
+  const fields = Object.keys(updates)
+    .filter(
+      (key) => key !== "id" && key !== "created_at" && key !== "updated_at"
+    )
+    .map((key) => `${key} = ?`)
+    .join(", ");
+  const values = Object.values(updates);
+  if (fields.length === 0) return false; // No fields to update
+
+  const [result] = await pool.execute<ResultSetHeader>(
+    `UPDATE parties SET ${fields}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+    [...values, id]
+  );
+  return result.affectedRows > 0;
+};
+
+export const deleteParty = async (id: number): Promise<boolean> => {
+  const [result] = await pool.execute<ResultSetHeader>(
+    "DELETE FROM parties WHERE id = ?",
+    [id]
   );
-  return rows as PartyMember[];
+  return result.affectedRows > 0;
 };
 
-export const getPartyMembersByPartyId = async (
+// Deleting a party cascades to its members' candidacies and their vote logs, so callers check
+// this first. Ended, certified and cancelled elections are closed and do not block deletion.
+export const getCandidaciesForParty = async (
   partyId: number
-): Promise<PartyMember[]> => {
+): Promise<{ candidate_id: number; election_id: number; election_title: string; status: Election["status"] }[]> => {
   const [rows] = await pool.execute<RowDataPacket[]>(
-    "SELECT * FROM party_members WHERE party_id = ?",
+    `SELECT c.id AS candidate_id, e.id AS election_id, e.title AS election_title, e.status
+     FROM candidates c
+     JOIN party_members pm ON pm.id = c.party_member_id
+     JOIN elections e ON e.id = c.election_id
+     WHERE pm.party_id = ?`,
     [partyId]
   );
-  return rows as PartyMember[];
+  return rows as { candidate_id: number; election_id: number; election_title: string; status: Election["status"] }[];
+};
+
+// --- Party Member Operations ---
+export const PARTY_MEMBER_LIST: ListQuerySpec = {
+  select: "*",
+  from: "party_members",
+  idColumn: "id",
+  filters: {
+    partyId: { type: "number", column: "party_id", op: "=" },
+    q: { type: "search", columns: ["name", "email"] },
+  },
+  sortKeys: {
+    name: { column: "name" },
+    email: { column: "email" },
+    created_at: { column: "created_at", type: "date" },
+    id: { column: "id" },
+  },
+  defaultSort: "name",
 };
 
+/**
+ * Lists party members, optionally only those of one party.
+ */
+export const listPartyMembers = (
+  query: ListQuery,
+  partyId?: number
+): Promise<ListPage<PartyMember>> =>
+  runListQuery<PartyMember>(PARTY_MEMBER_LIST, query, partyId === undefined ? [] : [{ sql: "party_id = ?", params: [partyId] }]);
+
 export const getPartyMemberById = async (
   id: number
 ): Promise<PartyMember | null> => {
@@ -70,8 +289,8 @@ export const createPartyMember = async (
   member: Omit<PartyMember, "id" | "created_at" | "updated_at">
 ): Promise<number> => {
   const [result] = await pool.execute<ResultSetHeader>(
-    "INSERT INTO party_members (party_id, name, email, image_url) VALUES (?, ?, ?, ?)",
-    [member.party_id, member.name, member.email, member.image_url]
+    "INSERT INTO party_members (party_id, name, email, image_url, image_public_id) VALUES (?, ?, ?, ?, ?)",
+    [member.party_id, member.name, member.email, member.image_url ?? null, member.image_public_id ?? null]
   );
   return result.insertId;
 };
@@ -85,11 +304,11 @@ export const createVoter = async (
     | "updated_at"
     | "registration_status"
     | "is_eligible_on_chain"
-    | "auth_nonce"
     | "wallet_address"
-  >
+  >,
+  db: DbExecutor = pool
 ): Promise<number> => {
-  const [result] = await pool.execute<ResultSetHeader>(
+  const [result] = await db.execute<ResultSetHeader>(
     "INSERT INTO voters (email, name, age, gender, national_id_number, registration_status) VALUES (?, ?, ?, ?, ?, ?)",
     [
       voter.email,
@@ -103,6 +322,44 @@ export const createVoter = async (
   return result.insertId;
 };
 
+// Which of the given emails and national ID numbers already belong to a registered voter
+export const findRegisteredVoterIdentifiers = async (
+  emails: string[],
+  nationalIdNumbers: string[]
+): Promise<{ emails: Set<string>; nationalIdNumbers: Set<string> }> => {
+  const found = { emails: new Set<string>(), nationalIdNumbers: new Set<string>() };
+  const CHUNK_SIZE = 1000;
+  for (let i = 0; i < emails.length; i += CHUNK_SIZE) {
+    const chunk = emails.slice(i, i + CHUNK_SIZE);
+    const [rows] = await pool.query<RowDataPacket[]>(
+      "SELECT email FROM voters WHERE email IN (?)",
+      [chunk]
+    );
+    rows.forEach((row) => found.emails.add(String(row.email).toLowerCase()));
+  }
+  for (let i = 0; i < nationalIdNumbers.length; i += CHUNK_SIZE) {
+    const chunk = nationalIdNumbers.slice(i, i + CHUNK_SIZE);
+    const [rows] = await pool.query<RowDataPacket[]>(
+      "SELECT national_id_number FROM voters WHERE national_id_number IN (?)",
+      [chunk]
+    );
+    rows.forEach((row) => found.nationalIdNumbers.add(String(row.national_id_number).toLowerCase()));
+  }
+  return found;
+};
+
+export const getVoterById = async (
+  id: number,
+  db: DbExecutor = pool,
+  forUpdate: boolean = false
+): Promise<Voter | null> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT * FROM voters WHERE id = ?${forUpdate ? " FOR UPDATE" : ""}`,
+    [id]
+  );
+  return (rows as Voter[])[0] || null;
+};
+
 export const getVoterByEmail = async (email: string): Promise<Voter | null> => {
   const [rows] = await pool.execute<RowDataPacket[]>(
     "SELECT * FROM voters WHERE email = ?",
@@ -121,15 +378,176 @@ export const getVoterByWalletAddress = async (
   return (rows as Voter[])[0] || null;
 };
 
-export const getAllVoters = async (): Promise<Voter[]> => {
-  // ADDED THIS FUNCTION
-  const [rows] = await pool.execute<RowDataPacket[]>("SELECT * FROM voters");
+export interface VoterRollFilters {
+  registrationStatuses?: Voter["registration_status"][];
+  accountStatuses?: VoterAccountStatus[];
+  isEligibleOnChain?: boolean;
+  gender?: Voter["gender"];
+  minAge?: number;
+  maxAge?: number;
+}
+
+const voterRollConditions = (filters: VoterRollFilters): { conditions: string[]; params: unknown[] } => {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (filters.registrationStatuses?.length) {
+    conditions.push(`registration_status IN (${filters.registrationStatuses.map(() => "?").join(", ")})`);
+    params.push(...filters.registrationStatuses);
+  }
+  if (filters.accountStatuses?.length) {
+    conditions.push(`account_status IN (${filters.accountStatuses.map(() => "?").join(", ")})`);
+    params.push(...filters.accountStatuses);
+  }
+  if (filters.isEligibleOnChain !== undefined) {
+    conditions.push("is_eligible_on_chain = ?");
+    params.push(filters.isEligibleOnChain);
+  }
+  if (filters.gender) {
+    conditions.push("gender = ?");
+    params.push(filters.gender);
+  }
+  if (filters.minAge !== undefined) {
+    conditions.push("age >= ?");
+    params.push(filters.minAge);
+  }
+  if (filters.maxAge !== undefined) {
+    conditions.push("age <= ?");
+    params.push(filters.maxAge);
+  }
+  return { conditions, params };
+};
+
+/**
+ * Reads one page of the voter roll in name order, continuing after `after` (keyset pagination,
+ * so large rolls can be streamed without loading every voter at once).
+ */
+export const getVoterRollPage = async (
+  filters: VoterRollFilters,
+  after: { name: string; id: number } | null,
+  limit: number
+): Promise<Voter[]> => {
+  const { conditions, params } = voterRollConditions(filters);
+  if (after) {
+    conditions.push("(name > ? OR (name = ? AND id > ?))");
+    params.push(after.name, after.name, after.id);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT * FROM voters ${where} ORDER BY name, id LIMIT ?`,
+    [...params, limit]
+  );
   return rows as Voter[];
 };
 
+/**
+ * Returns the linked wallet addresses (lowercased) of voters matching the filters.
+ */
+export const getVoterWalletAddresses = async (filters: VoterRollFilters): Promise<string[]> => {
+  const { conditions, params } = voterRollConditions(filters);
+  conditions.push("wallet_address IS NOT NULL");
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT wallet_address FROM voters WHERE ${conditions.join(" AND ")}`,
+    params
+  );
+  return rows.map(row => String(row.wallet_address).toLowerCase());
+};
+
+export const VOTER_LIST: ListQuerySpec = {
+  select: "id, email, name, age, gender, national_id_number, wallet_address, is_eligible_on_chain, registration_status, account_status, erased_at, created_at, updated_at",
+  from: "voters",
+  idColumn: "id",
+  filters: {
+    registrationStatus: { type: "enum", column: "registration_status", values: VOTER_REGISTRATION_STATUSES },
+    accountStatus: { type: "enum", column: "account_status", values: VOTER_ACCOUNT_STATUSES },
+    isEligibleOnChain: { type: "boolean", column: "is_eligible_on_chain" },
+    gender: { type: "enum", column: "gender", values: VOTER_GENDERS },
+    minAge: { type: "number", column: "age", op: ">=" },
+    maxAge: { type: "number", column: "age", op: "<=" },
+    hasWallet: { type: "presence", column: "wallet_address" },
+    registeredFrom: { type: "date", column: "created_at", op: ">=" },
+    registeredTo: { type: "date", column: "created_at", op: "<=" },
+    q: { type: "search", columns: ["name", "email", "national_id_number"] },
+  },
+  sortKeys: {
+    name: { column: "name" },
+    email: { column: "email" },
+    created_at: { column: "created_at", type: "date" },
+    id: { column: "id" },
+  },
+  defaultSort: "name",
+};
+
+export const listVoters = (query: ListQuery): Promise<ListPage<Voter>> =>
+  runListQuery<Voter>(VOTER_LIST, query);
+
+// Voters with a linked wallet are the ones whitelisted to vote, i.e. the turnout denominator
+// --- Voter Changes (admin edits, suspensions and erasures) ---
+export const createVoterChange = async (
+  change: Omit<VoterChange, "id" | "created_at">,
+  db: DbExecutor = pool
+): Promise<number> => {
+  const [result] = await db.execute<ResultSetHeader>(
+    "INSERT INTO voter_changes (voter_id, action, changes, reason, actor_user_id) VALUES (?, ?, ?, ?, ?)",
+    [
+      change.voter_id,
+      change.action,
+      typeof change.changes === "string" ? change.changes : JSON.stringify(change.changes),
+      change.reason ?? null,
+      change.actor_user_id ?? null,
+    ]
+  );
+  return result.insertId;
+};
+
+/**
+ * Overwrites the before/after values of the given fields in every change logged for a voter,
+ * so erased personal data does not survive in the change log.
+ */
+export const redactVoterChanges = async (
+  voterId: number,
+  fields: string[],
+  redacted: string,
+  db: DbExecutor = pool
+): Promise<void> => {
+  for (const field of fields) {
+    const path = `$.${field}`;
+    await db.execute(
+      `UPDATE voter_changes SET changes = JSON_SET(changes, '${path}.before', ?, '${path}.after', ?)
+       WHERE voter_id = ? AND JSON_CONTAINS_PATH(changes, 'one', '${path}')`,
+      [redacted, redacted, voterId]
+    );
+  }
+};
+
+export const VOTER_CHANGE_LIST: ListQuerySpec = {
+  select: "*",
+  from: "voter_changes",
+  idColumn: "id",
+  filters: {
+    action: { type: "enum", column: "action", values: ["update", "suspend", "deactivate", "reactivate", "erase"] },
+  },
+  sortKeys: {
+    created_at: { column: "created_at", type: "date" },
+    id: { column: "id" },
+  },
+  defaultSort: "-created_at",
+};
+
+export const listVoterChanges = (query: ListQuery, voterId: number): Promise<ListPage<VoterChange>> =>
+  runListQuery<VoterChange>(VOTER_CHANGE_LIST, query, [{ sql: "voter_id = ?", params: [voterId] }]);
+
+export const countVotersWithLinkedWallet = async (): Promise<number> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT COUNT(*) as count FROM voters WHERE wallet_address IS NOT NULL"
+  );
+  return Number((rows as RowDataPacket[])[0].count);
+};
+
 export const updateVoter = async (
   id: number,
-  updates: Partial<Voter>
+  updates: Partial<Voter>,
+  db: DbExecutor = pool
 ): Promise<boolean> => {
   const fields = Object.keys(updates)
     .filter(
@@ -140,29 +558,17 @@ export const updateVoter = async (
   const values = Object.values(updates);
   if (fields.length === 0) return false; // No fields to update
 
-  const [result] = await pool.execute<ResultSetHeader>(
+  const [result] = await db.execute<ResultSetHeader>(
     `UPDATE voters SET ${fields}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
     [...values, id]
   );
   return result.affectedRows > 0;
 };
 
-export const updateVoterStatusAndWallet = async (voterId: number, walletAddress: string, status: Voter['registration_status'], authNonce: string | null = null, isEligibleOnChain: boolean = false): Promise<boolean> => {
-  const [result] = await pool.execute<ResultSetHeader>(
-    'UPDATE voters SET wallet_address = ?, registration_status = ?, auth_nonce = ?, is_eligible_on_chain = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', // ADDED is_eligible_on_chain
-    [walletAddress.toLowerCase(), status, authNonce, isEligibleOnChain, voterId] // ADDED isEligibleOnChain
-  );
-  return result.affectedRows > 0;
-};
-
-export const updateVoterAuthNonce = async (
-  voterId: number,
-  nonce: string | null
-): Promise<boolean> => {
-  // ALLOW NULL FOR NONCE
+export const updateVoterStatusAndWallet = async (voterId: number, walletAddress: string, status: Voter['registration_status'], isEligibleOnChain: boolean = false): Promise<boolean> => {
   const [result] = await pool.execute<ResultSetHeader>(
-    "UPDATE voters SET auth_nonce = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?",
-    [nonce, voterId]
+    'UPDATE voters SET wallet_address = ?, registration_status = ?, is_eligible_on_chain = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', // ADDED is_eligible_on_chain
+    [walletAddress.toLowerCase(), status, isEligibleOnChain, voterId] // ADDED isEligibleOnChain
   );
   return result.affectedRows > 0;
 };
@@ -182,8 +588,17 @@ export const hasVoterVotedForPostInDB = async (
 // --- Election Operations ---
 export const createElection = async (election: Omit<Election, 'id' | 'created_at' | 'updated_at' | 'status' | 'results' | 'winning_candidate_id'>): Promise<number> => {
   const [result] = await pool.execute<ResultSetHeader>(
-    'INSERT INTO elections (title, description, start_date, end_date, status, blockchain_contract_address) VALUES (?, ?, ?, ?, ?, ?)',
-    [election.title, election.description, election.start_date, election.end_date, 'pending', election.blockchain_contract_address || null]
+    'INSERT INTO elections (title, description, start_date, end_date, status, blockchain_contract_address, tie_policy, parent_election_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    [
+      election.title,
+      election.description,
+      election.start_date,
+      election.end_date,
+      'draft',
+      election.blockchain_contract_address || null,
+      election.tie_policy || 'declare_tie',
+      election.parent_election_id || null,
+    ]
   );
   return result.insertId;
 };
@@ -196,11 +611,36 @@ export const getElectionById = async (id: number): Promise<Election | null> => {
   return (rows as Election[])[0] || null;
 };
 
-export const getAllElections = async (): Promise<Election[]> => {
-  const [rows] = await pool.execute<RowDataPacket[]>("SELECT * FROM elections");
-  return rows as Election[];
+export const ELECTION_LIST: ListQuerySpec = {
+  select: "*",
+  from: "elections",
+  idColumn: "id",
+  filters: {
+    status: {
+      type: "enum",
+      column: "status",
+      values: ["draft", "scheduled", "active", "paused", "tallying", "ended", "certified", "cancelled"],
+    },
+    startFrom: { type: "date", column: "start_date", op: ">=" },
+    startTo: { type: "date", column: "start_date", op: "<=" },
+    endFrom: { type: "date", column: "end_date", op: ">=" },
+    endTo: { type: "date", column: "end_date", op: "<=" },
+    parentElectionId: { type: "number", column: "parent_election_id", op: "=" },
+    q: { type: "search", columns: ["title", "description"] },
+  },
+  sortKeys: {
+    start_date: { column: "start_date", type: "date" },
+    end_date: { column: "end_date", type: "date" },
+    created_at: { column: "created_at", type: "date" },
+    title: { column: "title" },
+    id: { column: "id" },
+  },
+  defaultSort: "-start_date",
 };
 
+export const listElections = (query: ListQuery): Promise<ListPage<Election>> =>
+  runListQuery<Election>(ELECTION_LIST, query);
+
 export const getActiveElections = async (): Promise<Election[]> => {
   const [rows] = await pool.execute<RowDataPacket[]>(
     "SELECT * FROM elections WHERE status = ?",
@@ -229,13 +669,120 @@ export const updateElection = async (
   return result.affectedRows > 0;
 };
 
+export const getRunoffElectionByParentId = async (parentElectionId: number): Promise<Election | null> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM elections WHERE parent_election_id = ? ORDER BY id LIMIT 1",
+    [parentElectionId]
+  );
+  return (rows as Election[])[0] || null;
+};
+
+export const getElectionsDueToStart = async (now: Date): Promise<Election[]> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM elections WHERE status = ? AND start_date <= ? AND end_date > ?",
+    ["scheduled", now, now]
+  );
+  return rows as Election[];
+};
+
+export const getElectionsDueToEnd = async (now: Date): Promise<Election[]> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM elections WHERE status IN (?, ?) AND end_date <= ?",
+    ["active", "paused", now]
+  );
+  return rows as Election[];
+};
+
+export const getElectionsByStatus = async (status: Election["status"]): Promise<Election[]> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM elections WHERE status = ?",
+    [status]
+  );
+  return rows as Election[];
+};
+
+/**
+ * Moves an election from `fromStatus` to `toStatus` and records the transition, atomically.
+ * The update only applies while the election is still in `fromStatus`, so concurrent or repeated
+ * attempts at the same transition are no-ops.
+ * @returns {Promise<boolean>} True if this call performed the transition.
+ */
+export const transitionElectionStatus = async (
+  electionId: number,
+  fromStatus: Election["status"],
+  toStatus: Election["status"],
+  updates: Partial<Election>,
+  history: Omit<ElectionStatusHistory, "id" | "election_id" | "from_status" | "to_status" | "created_at">
+): Promise<boolean> => {
+  const fields = Object.keys(updates)
+    .filter((key) => key !== "id" && key !== "status" && key !== "created_at" && key !== "updated_at");
+  const assignments = ["status = ?", ...fields.map((key) => `${key} = ?`)].join(", ");
+  const values = fields.map((key) => (updates as Record<string, unknown>)[key] ?? null);
+
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const [result] = await connection.execute<ResultSetHeader>(
+      `UPDATE elections SET ${assignments}, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status = ?`,
+      [toStatus, ...values, electionId, fromStatus]
+    );
+    if (result.affectedRows === 0) {
+      await connection.rollback();
+      return false;
+    }
+    await createElectionStatusHistory({
+      ...history,
+      election_id: electionId,
+      from_status: fromStatus,
+      to_status: toStatus,
+    }, connection);
+    await connection.commit();
+    return true;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+// --- Election Status History ---
+export const createElectionStatusHistory = async (
+  entry: Omit<ElectionStatusHistory, "id" | "created_at">,
+  db: DbExecutor = pool
+): Promise<number> => {
+  const [result] = await db.execute<ResultSetHeader>(
+    "INSERT INTO election_status_history (election_id, from_status, to_status, actor_type, actor_user_id, reason, blockchain_tx_hash) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    [
+      entry.election_id,
+      entry.from_status,
+      entry.to_status,
+      entry.actor_type,
+      entry.actor_user_id ?? null,
+      entry.reason ?? null,
+      entry.blockchain_tx_hash ?? null,
+    ]
+  );
+  return result.insertId;
+};
+
+export const getElectionStatusHistory = async (
+  electionId: number
+): Promise<ElectionStatusHistory[]> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM election_status_history WHERE election_id = ? ORDER BY created_at, id",
+    [electionId]
+  );
+  return rows as ElectionStatusHistory[];
+};
+
 // --- Post Operations (for election positions) ---
 export const createPost = async (
   post: Omit<Post, "id" | "created_at" | "updated_at">
 ): Promise<number> => {
   const [result] = await pool.execute<ResultSetHeader>(
-    "INSERT INTO posts (election_id, name, max_votes_per_voter) VALUES (?, ?, ?)",
-    [post.election_id, post.name, post.max_votes_per_voter]
+    "INSERT INTO posts (election_id, name, max_votes_per_voter, voting_method, seats) VALUES (?, ?, ?, ?, ?)",
+    [post.election_id, post.name, post.max_votes_per_voter, post.voting_method || "plurality", post.seats || 1]
   );
   return result.insertId;
 };
@@ -250,6 +797,24 @@ export const getPostsByElectionId = async (
   return rows as Post[];
 };
 
+export const POST_LIST: ListQuerySpec = {
+  select: "*",
+  from: "posts",
+  idColumn: "id",
+  filters: {
+    votingMethod: { type: "enum", column: "voting_method", values: ["plurality", "approval", "top_n", "irv", "stv"] },
+    q: { type: "search", columns: ["name"] },
+  },
+  sortKeys: {
+    id: { column: "id" },
+    name: { column: "name" },
+  },
+  defaultSort: "id",
+};
+
+export const listElectionPosts = (query: ListQuery, electionId: number): Promise<ListPage<Post>> =>
+  runListQuery<Post>(POST_LIST, query, [{ sql: "election_id = ?", params: [electionId] }]);
+
 export const getPostById = async (id: number): Promise<Post | null> => {
   const [rows] = await pool.execute<RowDataPacket[]>(
     "SELECT * FROM posts WHERE id = ?",
@@ -284,6 +849,37 @@ export const getCandidatesByPostId = async (
   return rows as Candidate[];
 };
 
+export type CandidateListItem = Candidate & {
+  party_member_name: string;
+  party_member_email: string;
+  party_member_image_url: string | null;
+  party_member_image_public_id: string | null;
+  party_name: string | null;
+};
+
+export const CANDIDATE_LIST: ListQuerySpec = {
+  select: `c.*, pm.name AS party_member_name, pm.email AS party_member_email,
+    pm.image_url AS party_member_image_url, pm.image_public_id AS party_member_image_public_id, p.name AS party_name`,
+  from: "candidates c JOIN party_members pm ON pm.id = c.party_member_id LEFT JOIN parties p ON p.id = pm.party_id",
+  idColumn: "c.id",
+  filters: {
+    partyId: { type: "number", column: "pm.party_id", op: "=" },
+    q: { type: "search", columns: ["pm.name", "p.name"] },
+  },
+  sortKeys: {
+    id: { column: "c.id" },
+    party_member_name: { column: "pm.name" },
+    created_at: { column: "c.created_at", type: "date" },
+  },
+  defaultSort: "id",
+};
+
+/**
+ * Lists a post's candidates with their party member and party names.
+ */
+export const listPostCandidates = (query: ListQuery, postId: number): Promise<ListPage<CandidateListItem>> =>
+  runListQuery<CandidateListItem>(CANDIDATE_LIST, query, [{ sql: "c.post_id = ?", params: [postId] }]);
+
 export const getCandidateById = async (
   id: number
 ): Promise<Candidate | null> => {
@@ -323,9 +919,10 @@ export const updateCandidateVoteCount = async (
 
 // --- Vote Log Operations (for backend auditing) ---
 export const createVoteLog = async (
-  log: Omit<VoteLog, "id" | "timestamp">
+  log: Omit<VoteLog, "id" | "timestamp">,
+  db: DbExecutor = pool
 ): Promise<number> => {
-  const [result] = await pool.execute<ResultSetHeader>(
+  const [result] = await db.execute<ResultSetHeader>(
     "INSERT INTO vote_logs (election_id, post_id, candidate_id, voter_wallet_address, transaction_hash) VALUES (?, ?, ?, ?, ?)",
     [
       log.election_id,
@@ -359,11 +956,24 @@ export const getVoteLogsByElectionId = async (
   return rows as VoteLog[];
 };
 
+export const getVoteLogsForVoterPost = async (
+  electionId: number,
+  postId: number,
+  voterWalletAddress: string
+): Promise<VoteLog[]> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM vote_logs WHERE election_id = ? AND post_id = ? AND voter_wallet_address = ? ORDER BY id",
+    [electionId, postId, voterWalletAddress.toLowerCase()]
+  );
+  return rows as VoteLog[];
+};
+
 // --- Voter Receipts Operations (for voters to verify their own vote) ---
 export const createVoterReceipt = async (
-  receipt: Omit<VoterReceipt, "id" | "timestamp">
+  receipt: Omit<VoterReceipt, "id" | "timestamp">,
+  db: DbExecutor = pool
 ): Promise<number> => {
-  const [result] = await pool.execute<ResultSetHeader>(
+  const [result] = await db.execute<ResultSetHeader>(
     "INSERT INTO voter_receipts (voter_wallet_address, election_id, post_id, candidate_id, transaction_hash, blockchain_receipt_id) VALUES (?, ?, ?, ?, ?, ?)",
     [
       receipt.voter_wallet_address.toLowerCase(),
@@ -386,3 +996,900 @@ export const getVoterReceiptsByWalletAddress = async (
   );
   return rows as VoterReceipt[];
 };
+
+
+// --- Chain Indexer Operations ---
+export const getChainSyncCursor = async (
+  contractAddress: string
+): Promise<ChainSyncCursor | null> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM chain_sync_cursors WHERE contract_address = ?",
+    [contractAddress.toLowerCase()]
+  );
+  const cursor = (rows as ChainSyncCursor[])[0];
+  return cursor ? { ...cursor, last_block_number: Number(cursor.last_block_number) } : null;
+};
+
+export const upsertChainSyncCursor = async (
+  contractAddress: string,
+  blockNumber: number,
+  blockHash: string,
+  db: DbExecutor = pool
+): Promise<void> => {
+  await db.execute(
+    `INSERT INTO chain_sync_cursors (contract_address, last_block_number, last_block_hash) VALUES (?, ?, ?)
+     ON DUPLICATE KEY UPDATE last_block_number = VALUES(last_block_number), last_block_hash = VALUES(last_block_hash)`,
+    [contractAddress.toLowerCase(), blockNumber, blockHash]
+  );
+};
+
+export const saveChainBlock = async (
+  block: ChainBlock,
+  db: DbExecutor = pool
+): Promise<void> => {
+  await db.execute(
+    "INSERT INTO chain_blocks (contract_address, block_number, block_hash) VALUES (?, ?, ?) ON DUPLICATE KEY UPDATE block_hash = VALUES(block_hash)",
+    [block.contract_address.toLowerCase(), block.block_number, block.block_hash]
+  );
+};
+
+export const getChainBlocksFrom = async (
+  contractAddress: string,
+  fromBlock: number
+): Promise<ChainBlock[]> => {
+  // Newest first, so reorg detection can walk back to the fork point
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM chain_blocks WHERE contract_address = ? AND block_number >= ? ORDER BY block_number DESC",
+    [contractAddress.toLowerCase(), fromBlock]
+  );
+  return (rows as ChainBlock[]).map((block) => ({ ...block, block_number: Number(block.block_number) }));
+};
+
+export const pruneChainBlocksBefore = async (
+  contractAddress: string,
+  blockNumber: number,
+  db: DbExecutor = pool
+): Promise<void> => {
+  await db.execute(
+    "DELETE FROM chain_blocks WHERE contract_address = ? AND block_number < ?",
+    [contractAddress.toLowerCase(), blockNumber]
+  );
+};
+
+export const createChainVoteEvent = async (
+  event: Omit<ChainVoteEventRecord, "id" | "created_at">,
+  db: DbExecutor = pool
+): Promise<void> => {
+  // Re-indexing the same log after a restart is a no-op
+  await db.execute(
+    `INSERT IGNORE INTO chain_vote_events
+     (contract_address, election_id, post_id, blockchain_candidate_id, voter_wallet_address, transaction_hash, log_index, block_number, block_hash)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      event.contract_address.toLowerCase(),
+      event.election_id,
+      event.post_id,
+      event.blockchain_candidate_id,
+      event.voter_wallet_address.toLowerCase(),
+      event.transaction_hash,
+      event.log_index,
+      event.block_number,
+      event.block_hash,
+    ]
+  );
+};
+
+export const createChainLifecycleEvent = async (
+  event: Omit<ChainLifecycleEventRecord, "id" | "created_at">,
+  db: DbExecutor = pool
+): Promise<void> => {
+  await db.execute(
+    `INSERT IGNORE INTO chain_lifecycle_events
+     (contract_address, event_type, election_id, voter_wallet_address, transaction_hash, log_index, block_number, block_hash)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      event.contract_address.toLowerCase(),
+      event.event_type,
+      event.election_id ?? null,
+      event.voter_wallet_address ? event.voter_wallet_address.toLowerCase() : null,
+      event.transaction_hash,
+      event.log_index,
+      event.block_number,
+      event.block_hash,
+    ]
+  );
+};
+
+export const getChainVoteElectionIdsAfterBlock = async (
+  contractAddress: string,
+  blockNumber: number,
+  db: DbExecutor = pool
+): Promise<number[]> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    "SELECT DISTINCT election_id FROM chain_vote_events WHERE contract_address = ? AND block_number > ?",
+    [contractAddress.toLowerCase(), blockNumber]
+  );
+  return rows.map((row) => row.election_id as number);
+};
+
+export const deleteChainDataAfterBlock = async (
+  contractAddress: string,
+  blockNumber: number,
+  db: DbExecutor = pool
+): Promise<void> => {
+  const address = contractAddress.toLowerCase();
+  await db.execute("DELETE FROM chain_vote_events WHERE contract_address = ? AND block_number > ?", [address, blockNumber]);
+  await db.execute("DELETE FROM chain_lifecycle_events WHERE contract_address = ? AND block_number > ?", [address, blockNumber]);
+  await db.execute("DELETE FROM chain_blocks WHERE contract_address = ? AND block_number > ?", [address, blockNumber]);
+};
+
+export const refreshChainCandidateTallies = async (
+  contractAddress: string,
+  electionId: number,
+  db: DbExecutor = pool
+): Promise<void> => {
+  const address = contractAddress.toLowerCase();
+  await db.execute(
+    "DELETE FROM chain_candidate_tallies WHERE contract_address = ? AND election_id = ?",
+    [address, electionId]
+  );
+  await db.execute(
+    `INSERT INTO chain_candidate_tallies (contract_address, election_id, blockchain_candidate_id, vote_count)
+     SELECT contract_address, election_id, blockchain_candidate_id, COUNT(*)
+     FROM chain_vote_events WHERE contract_address = ? AND election_id = ?
+     GROUP BY contract_address, election_id, blockchain_candidate_id`,
+    [address, electionId]
+  );
+};
+
+export const getChainCandidateTallies = async (
+  contractAddress: string,
+  electionId: number
+): Promise<ChainCandidateTally[]> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM chain_candidate_tallies WHERE contract_address = ? AND election_id = ?",
+    [contractAddress.toLowerCase(), electionId]
+  );
+  return rows as ChainCandidateTally[];
+};
+
+export const getChainVoteEventsByElectionId = async (
+  contractAddress: string,
+  electionId: number
+): Promise<ChainVoteEventRecord[]> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM chain_vote_events WHERE contract_address = ? AND election_id = ? ORDER BY block_number, log_index",
+    [contractAddress.toLowerCase(), electionId]
+  );
+  return (rows as ChainVoteEventRecord[]).map((event) => ({ ...event, block_number: Number(event.block_number) }));
+};
+
+export const getChainVoteEventsByTransactionHashes = async (
+  transactionHashes: string[]
+): Promise<ChainVoteEventRecord[]> => {
+  if (transactionHashes.length === 0) return [];
+  const placeholders = transactionHashes.map(() => "?").join(", ");
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT * FROM chain_vote_events WHERE transaction_hash IN (${placeholders})`,
+    transactionHashes
+  );
+  return (rows as ChainVoteEventRecord[]).map((event) => ({ ...event, block_number: Number(event.block_number) }));
+};
+
+// --- Post Tallies ---
+export const savePostTally = async (
+  tally: Omit<PostTallyRecord, "id" | "created_at">
+): Promise<void> => {
+  // Re-finalising an election replaces the previous tally for each post
+  await pool.execute<ResultSetHeader>(
+    `INSERT INTO post_tallies (election_id, post_id, voting_method, seats, valid_ballots, winner_candidate_ids, outcome, has_tie)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE voting_method = VALUES(voting_method), seats = VALUES(seats), valid_ballots = VALUES(valid_ballots),
+       winner_candidate_ids = VALUES(winner_candidate_ids), outcome = VALUES(outcome), has_tie = VALUES(has_tie), created_at = CURRENT_TIMESTAMP`,
+    [
+      tally.election_id,
+      tally.post_id,
+      tally.voting_method,
+      tally.seats,
+      tally.valid_ballots,
+      JSON.stringify(tally.winner_candidate_ids),
+      JSON.stringify(tally.outcome),
+      tally.has_tie,
+    ]
+  );
+};
+
+export const getPostTalliesByElectionId = async (
+  electionId: number
+): Promise<PostTallyRecord[]> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM post_tallies WHERE election_id = ? ORDER BY post_id",
+    [electionId]
+  );
+  return rows as PostTallyRecord[];
+};
+
+// --- Tie Resolutions ---
+export const replaceTieResolutions = async (
+  electionId: number,
+  resolutions: Omit<TieResolution, "id" | "created_at">[]
+): Promise<void> => {
+  // Re-finalising an election records its ties afresh
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    await connection.execute("DELETE FROM tie_resolutions WHERE election_id = ?", [electionId]);
+    for (const resolution of resolutions) {
+      await connection.execute(
+        `INSERT INTO tie_resolutions (election_id, post_id, policy, tie_kind, round, tied_candidate_ids, seats, selected_candidate_ids,
+           seed, seed_block_number, seed_block_hash, runoff_election_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          resolution.election_id,
+          resolution.post_id,
+          resolution.policy,
+          resolution.tie_kind,
+          resolution.round,
+          JSON.stringify(resolution.tied_candidate_ids),
+          resolution.seats,
+          resolution.selected_candidate_ids ? JSON.stringify(resolution.selected_candidate_ids) : null,
+          resolution.seed ?? null,
+          resolution.seed_block_number ?? null,
+          resolution.seed_block_hash ?? null,
+          resolution.runoff_election_id ?? null,
+        ]
+      );
+    }
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+export const getTieResolutionsByElectionId = async (
+  electionId: number
+): Promise<TieResolution[]> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM tie_resolutions WHERE election_id = ? ORDER BY post_id, round",
+    [electionId]
+  );
+  return rows as TieResolution[];
+};
+
+
+// --- Media Asset Operations ---
+export const createMediaAsset = async (
+  asset: Omit<MediaAsset, "id" | "created_at" | "updated_at">
+): Promise<number> => {
+  const [result] = await pool.execute<ResultSetHeader>(
+    `INSERT INTO media_assets
+       (public_id, store, purpose, upload_method, status, url, mime_type, bytes, width, height, uploaded_by, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      asset.public_id,
+      asset.store,
+      asset.purpose,
+      asset.upload_method,
+      asset.status,
+      asset.url ?? null,
+      asset.mime_type ?? null,
+      asset.bytes ?? null,
+      asset.width ?? null,
+      asset.height ?? null,
+      asset.uploaded_by ?? null,
+      asset.expires_at ?? null,
+    ]
+  );
+  return result.insertId;
+};
+
+export const getMediaAssetById = async (id: number): Promise<MediaAsset | null> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM media_assets WHERE id = ?",
+    [id]
+  );
+  return (rows as MediaAsset[])[0] || null;
+};
+
+export const getMediaAssetByPublicId = async (publicId: string): Promise<MediaAsset | null> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM media_assets WHERE public_id = ?",
+    [publicId]
+  );
+  return (rows as MediaAsset[])[0] || null;
+};
+
+export const updateMediaAsset = async (
+  id: number,
+  updates: Partial<MediaAsset>
+): Promise<boolean> => {
+  const fields = Object.keys(updates)
+    .filter(
+      (key) => key !== "id" && key !== "created_at" && key !== "updated_at"
+    )
+    .map((key) => `${key} = ?`)
+    .join(", ");
+  const values = Object.values(updates);
+  if (fields.length === 0) return false; // No fields to update
+
+  const [result] = await pool.execute<ResultSetHeader>(
+    `UPDATE media_assets SET ${fields}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+    [...values, id]
+  );
+  return result.affectedRows > 0;
+};
+
+// Direct uploads whose signed parameters expired without the upload being completed
+export const getExpiredPendingMediaAssets = async (now: Date): Promise<MediaAsset[]> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM media_assets WHERE status = 'pending' AND expires_at <= ?",
+    [now]
+  );
+  return rows as MediaAsset[];
+};
+
+
+// --- Voter Import Jobs ---
+export const createVoterImportJob = async (
+  job: Omit<VoterImportJob, "id" | "created_at" | "updated_at" | "completed_at">
+): Promise<number> => {
+  const [result] = await pool.execute<ResultSetHeader>(
+    `INSERT INTO voter_import_jobs
+       (file_name, dry_run, status, total_rows, valid_rows, processed_rows, imported_rows, failed_rows,
+        verification_emails_sent, verification_emails_failed, errors, created_by, locked_by, heartbeat_at, completed_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${job.status === "processing" ? "CURRENT_TIMESTAMP" : "NULL"}, ?)`,
+    [
+      job.file_name ?? null,
+      job.dry_run,
+      job.status,
+      job.total_rows,
+      job.valid_rows,
+      job.processed_rows,
+      job.imported_rows,
+      job.failed_rows,
+      job.verification_emails_sent,
+      job.verification_emails_failed,
+      JSON.stringify(job.errors || []),
+      job.created_by ?? null,
+      job.locked_by ?? null,
+      job.status === "processing" ? null : new Date(),
+    ]
+  );
+  return result.insertId;
+};
+
+export const getVoterImportJobById = async (id: number): Promise<VoterImportJob | null> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM voter_import_jobs WHERE id = ?",
+    [id]
+  );
+  return (rows as VoterImportJob[])[0] || null;
+};
+
+export const updateVoterImportJob = async (
+  id: number,
+  updates: Partial<VoterImportJob>
+): Promise<boolean> => {
+  const values = { ...updates };
+  if (values.errors && typeof values.errors !== "string") {
+    values.errors = JSON.stringify(values.errors);
+  }
+  const fields = Object.keys(values)
+    .filter(
+      (key) => key !== "id" && key !== "created_at" && key !== "updated_at"
+    )
+    .map((key) => `${key} = ?`)
+    .join(", ");
+  if (fields.length === 0) return false; // No fields to update
+
+  const [result] = await pool.execute<ResultSetHeader>(
+    `UPDATE voter_import_jobs SET ${fields}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+    [...Object.values(values), id]
+  );
+  return result.affectedRows > 0;
+};
+
+// Imports run inside the API process, so any still processing at startup were cut off by a restart
+/**
+ * Refreshes the heartbeat of an import run by `lockedBy`.
+ * @returns {Promise<boolean>} False if the job is no longer processing under that owner, e.g. it was failed as stale.
+ */
+export const touchVoterImportJob = async (id: number, lockedBy: string): Promise<boolean> => {
+  const [result] = await pool.execute<ResultSetHeader>(
+    "UPDATE voter_import_jobs SET heartbeat_at = CURRENT_TIMESTAMP WHERE id = ? AND locked_by = ? AND status = 'processing'",
+    [id, lockedBy]
+  );
+  return result.affectedRows > 0;
+};
+
+// Fails processing imports whose heartbeat is older than `staleAfterSeconds`, i.e. whose process stopped
+export const failStaleVoterImports = async (staleAfterSeconds: number): Promise<number> => {
+  const [result] = await pool.execute<ResultSetHeader>(
+    `UPDATE voter_import_jobs
+     SET status = 'failed', failure_reason = 'Interrupted: the server running the import stopped. Re-import the file; registered voters will be reported as duplicates.',
+         completed_at = CURRENT_TIMESTAMP
+     WHERE status = 'processing'
+       AND (heartbeat_at IS NULL OR heartbeat_at < CURRENT_TIMESTAMP - INTERVAL ? SECOND)`,
+    [staleAfterSeconds]
+  );
+  return result.affectedRows;
+};
+
+// --- Email Verifications ---
+export const createEmailVerification = async (
+  verification: Omit<EmailVerification, "id" | "attempts" | "consumed_at" | "created_at">,
+  db: DbExecutor = pool
+): Promise<number> => {
+  const [result] = await db.execute<ResultSetHeader>(
+    "INSERT INTO email_verifications (voter_id, email, code_hash, expires_at) VALUES (?, ?, ?, ?)",
+    [verification.voter_id, verification.email, verification.code_hash, verification.expires_at]
+  );
+  return result.insertId;
+};
+
+export const getEmailVerificationById = async (id: number): Promise<EmailVerification | null> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM email_verifications WHERE id = ?",
+    [id]
+  );
+  return (rows as EmailVerification[])[0] || null;
+};
+
+// The verification a voter was most recently sent, if it has not been used or superseded
+export const getOpenEmailVerification = async (voterId: number): Promise<EmailVerification | null> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM email_verifications WHERE voter_id = ? AND consumed_at IS NULL ORDER BY id DESC LIMIT 1",
+    [voterId]
+  );
+  return (rows as EmailVerification[])[0] || null;
+};
+
+/**
+ * How many verification emails a voter was sent since `since`, and when the last one was sent.
+ */
+export const getEmailVerificationSendStats = async (
+  voterId: number,
+  since: Date
+): Promise<{ count: number; lastSentAt: Date | null }> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT COUNT(*) AS count, MAX(created_at) AS last_sent_at FROM email_verifications WHERE voter_id = ? AND created_at >= ?",
+    [voterId, since]
+  );
+  return { count: Number(rows[0].count), lastSentAt: rows[0].last_sent_at ? new Date(rows[0].last_sent_at) : null };
+};
+
+// Marks a voter's open verifications as used, so only the newest link and code work
+export const consumeEmailVerifications = async (voterId: number, db: DbExecutor = pool): Promise<void> => {
+  await db.execute(
+    "UPDATE email_verifications SET consumed_at = CURRENT_TIMESTAMP WHERE voter_id = ? AND consumed_at IS NULL",
+    [voterId]
+  );
+};
+
+/**
+ * Counts an attempt to enter a verification's code.
+ * @returns {Promise<boolean>} False if `maxAttempts` codes were already entered.
+ */
+export const countEmailVerificationAttempt = async (id: number, maxAttempts: number): Promise<boolean> => {
+  const [result] = await pool.execute<ResultSetHeader>(
+    "UPDATE email_verifications SET attempts = attempts + 1 WHERE id = ? AND attempts < ?",
+    [id, maxAttempts]
+  );
+  return result.affectedRows > 0;
+};
+
+export const deleteEmailVerification = async (id: number): Promise<void> => {
+  await pool.execute("DELETE FROM email_verifications WHERE id = ?", [id]);
+};
+
+// Removes every verification a voter was sent, with the address it went to, e.g. when the voter is erased
+export const deleteEmailVerificationsByVoterId = async (voterId: number, db: DbExecutor = pool): Promise<void> => {
+  await db.execute("DELETE FROM email_verifications WHERE voter_id = ?", [voterId]);
+};
+
+/**
+ * Moves a voter from pending_email_verification to email_verified.
+ * @returns {Promise<boolean>} False if the voter was not pending verification.
+ */
+export const markVoterEmailVerified = async (voterId: number, db: DbExecutor = pool): Promise<boolean> => {
+  const [result] = await db.execute<ResultSetHeader>(
+    "UPDATE voters SET registration_status = 'email_verified', updated_at = CURRENT_TIMESTAMP WHERE id = ? AND registration_status = 'pending_email_verification'",
+    [voterId]
+  );
+  return result.affectedRows > 0;
+};
+
+// --- Auth Nonces (Sign-In with Ethereum) ---
+export const createAuthNonce = async (
+  authNonce: Omit<AuthNonce, "id" | "used_at" | "created_at">
+): Promise<number> => {
+  const [result] = await pool.execute<ResultSetHeader>(
+    "INSERT INTO auth_nonces (nonce, voter_id, wallet_address, issued_at, expires_at) VALUES (?, ?, ?, ?, ?)",
+    [authNonce.nonce, authNonce.voter_id, authNonce.wallet_address.toLowerCase(), authNonce.issued_at, authNonce.expires_at]
+  );
+  return result.insertId;
+};
+
+export const getAuthNonce = async (nonce: string): Promise<AuthNonce | null> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM auth_nonces WHERE nonce = ?",
+    [nonce]
+  );
+  return (rows as AuthNonce[])[0] || null;
+};
+
+/**
+ * Marks a nonce used, unless it already was or has expired.
+ * @returns {Promise<boolean>} True if this call used the nonce.
+ */
+export const useAuthNonce = async (id: number): Promise<boolean> => {
+  const [result] = await pool.execute<ResultSetHeader>(
+    "UPDATE auth_nonces SET used_at = CURRENT_TIMESTAMP WHERE id = ? AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP",
+    [id]
+  );
+  return result.affectedRows > 0;
+};
+
+// Removes a voter's unused nonces, so messages issued to them earlier can no longer be used
+export const deleteUnusedAuthNonces = async (voterId: number, db: DbExecutor = pool): Promise<void> => {
+  await db.execute("DELETE FROM auth_nonces WHERE voter_id = ? AND used_at IS NULL", [voterId]);
+};
+
+export const deleteExpiredAuthNonces = async (): Promise<number> => {
+  const [result] = await pool.execute<ResultSetHeader>(
+    "DELETE FROM auth_nonces WHERE expires_at < CURRENT_TIMESTAMP"
+  );
+  return result.affectedRows;
+};
+
+// --- Wallet Change Requests ---
+export const createWalletChangeRequest = async (
+  request: Pick<WalletChangeRequest, "voter_id" | "current_wallet_address" | "requested_wallet_address">,
+  db: DbExecutor = pool
+): Promise<number> => {
+  const [result] = await db.execute<ResultSetHeader>(
+    "INSERT INTO wallet_change_requests (voter_id, current_wallet_address, requested_wallet_address) VALUES (?, ?, ?)",
+    [request.voter_id, request.current_wallet_address.toLowerCase(), request.requested_wallet_address.toLowerCase()]
+  );
+  return result.insertId;
+};
+
+export const getWalletChangeRequestById = async (
+  id: number,
+  db: DbExecutor = pool,
+  forUpdate: boolean = false
+): Promise<WalletChangeRequest | null> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT * FROM wallet_change_requests WHERE id = ?${forUpdate ? " FOR UPDATE" : ""}`,
+    [id]
+  );
+  return (rows as WalletChangeRequest[])[0] || null;
+};
+
+export const getPendingWalletChangeRequest = async (voterId: number, db: DbExecutor = pool): Promise<WalletChangeRequest | null> => {
+  const [rows] = await db.execute<RowDataPacket[]>(
+    "SELECT * FROM wallet_change_requests WHERE voter_id = ? AND status = 'pending' ORDER BY id DESC LIMIT 1",
+    [voterId]
+  );
+  return (rows as WalletChangeRequest[])[0] || null;
+};
+
+// A voter has at most one pending request; a newer one replaces the others
+export const cancelPendingWalletChangeRequests = async (voterId: number, db: DbExecutor = pool): Promise<void> => {
+  await db.execute(
+    "UPDATE wallet_change_requests SET status = 'cancelled' WHERE voter_id = ? AND status = 'pending'",
+    [voterId]
+  );
+};
+
+export const reviewWalletChangeRequest = async (
+  id: number,
+  status: "approved" | "rejected",
+  reviewedByUserId: number | null,
+  reason: string | null,
+  db: DbExecutor = pool
+): Promise<boolean> => {
+  const [result] = await db.execute<ResultSetHeader>(
+    `UPDATE wallet_change_requests SET status = ?, reviewed_by_user_id = ?, reason = ?, reviewed_at = CURRENT_TIMESTAMP
+     WHERE id = ? AND status = 'pending'`,
+    [status, reviewedByUserId, reason, id]
+  );
+  return result.affectedRows > 0;
+};
+
+export const WALLET_CHANGE_REQUEST_LIST: ListQuerySpec = {
+  select: "r.*, v.name AS voter_name, v.email AS voter_email",
+  from: "wallet_change_requests r JOIN voters v ON v.id = r.voter_id",
+  idColumn: "r.id",
+  filters: {
+    status: { type: "enum", column: "r.status", values: ["pending", "approved", "rejected", "cancelled"] },
+    voterId: { type: "number", column: "r.voter_id", op: "=" },
+  },
+  sortKeys: {
+    created_at: { column: "r.created_at", type: "date" },
+    id: { column: "r.id" },
+  },
+  defaultSort: "created_at",
+};
+
+export const listWalletChangeRequests = (query: ListQuery): Promise<ListPage<WalletChangeRequest & { voter_name: string; voter_email: string }>> =>
+  runListQuery(WALLET_CHANGE_REQUEST_LIST, query);
+
+// --- Voter Wallet History ---
+export const createVoterWalletBinding = async (
+  binding: Omit<VoterWalletBinding, "id" | "bound_at" | "unbound_at" | "removal_tx_hash">,
+  db: DbExecutor = pool
+): Promise<number> => {
+  const [result] = await db.execute<ResultSetHeader>(
+    "INSERT INTO voter_wallet_history (voter_id, wallet_address, change_request_id, whitelist_tx_hash) VALUES (?, ?, ?, ?)",
+    [binding.voter_id, binding.wallet_address.toLowerCase(), binding.change_request_id ?? null, binding.whitelist_tx_hash ?? null]
+  );
+  return result.insertId;
+};
+
+// Ends the voter's current binding, when it is replaced by another wallet
+export const closeVoterWalletBinding = async (
+  voterId: number,
+  removalTxHash: string | null,
+  db: DbExecutor = pool
+): Promise<void> => {
+  await db.execute(
+    "UPDATE voter_wallet_history SET unbound_at = CURRENT_TIMESTAMP, removal_tx_hash = ? WHERE voter_id = ? AND unbound_at IS NULL",
+    [removalTxHash, voterId]
+  );
+};
+
+export const getVoterWalletHistory = async (voterId: number): Promise<VoterWalletBinding[]> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM voter_wallet_history WHERE voter_id = ? ORDER BY bound_at, id",
+    [voterId]
+  );
+  return rows as VoterWalletBinding[];
+};
+
+/**
+ * Active or paused elections in which a wallet has cast a vote, recorded by the API or seen on chain by the indexer.
+ */
+export const getOpenElectionsVotedInByWallet = async (walletAddress: string): Promise<Pick<Election, "id" | "title">[]> => {
+  const wallet = walletAddress.toLowerCase();
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT e.id, e.title FROM elections e
+     WHERE e.status IN ('active', 'paused')
+       AND (EXISTS (SELECT 1 FROM vote_logs vl WHERE vl.election_id = e.id AND vl.voter_wallet_address = ?)
+         OR EXISTS (SELECT 1 FROM chain_vote_events cv WHERE cv.election_id = e.id AND cv.voter_wallet_address = ?))
+     ORDER BY e.id`,
+    [wallet, wallet]
+  );
+  return rows as Pick<Election, "id" | "title">[];
+};
+
+// --- Election Role Assignments ---
+export const createElectionRoleAssignment = async (
+  assignment: Omit<ElectionRoleAssignment, "id" | "created_at">
+): Promise<number> => {
+  const [result] = await pool.execute<ResultSetHeader>(
+    "INSERT INTO election_role_assignments (user_id, election_id, role, assigned_by_user_id) VALUES (?, ?, ?, ?)",
+    [assignment.user_id, assignment.election_id, assignment.role, assignment.assigned_by_user_id ?? null]
+  );
+  return result.insertId;
+};
+
+export const getElectionRoleAssignments = async (
+  electionId: number
+): Promise<(ElectionRoleAssignment & { user_email: string })[]> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT a.*, u.email AS user_email FROM election_role_assignments a
+     JOIN users u ON u.id = a.user_id
+     WHERE a.election_id = ? ORDER BY a.id`,
+    [electionId]
+  );
+  return rows as (ElectionRoleAssignment & { user_email: string })[];
+};
+
+export const getUserElectionRoleAssignments = async (userId: number, electionId?: number): Promise<ElectionRoleAssignment[]> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    `SELECT * FROM election_role_assignments WHERE user_id = ?${electionId !== undefined ? " AND election_id = ?" : ""} ORDER BY election_id, id`,
+    electionId !== undefined ? [userId, electionId] : [userId]
+  );
+  return rows as ElectionRoleAssignment[];
+};
+
+export const deleteElectionRoleAssignment = async (electionId: number, assignmentId: number): Promise<boolean> => {
+  const [result] = await pool.execute<ResultSetHeader>(
+    "DELETE FROM election_role_assignments WHERE id = ? AND election_id = ?",
+    [assignmentId, electionId]
+  );
+  return result.affectedRows > 0;
+};
+
+// --- User Tokens (admin invites and password resets) ---
+export const createUserToken = async (
+  token: Omit<UserToken, "id" | "used_at" | "created_at">,
+  db: DbExecutor = pool
+): Promise<number> => {
+  const [result] = await db.execute<ResultSetHeader>(
+    "INSERT INTO user_tokens (user_id, purpose, expires_at, created_by_user_id) VALUES (?, ?, ?, ?)",
+    [token.user_id, token.purpose, token.expires_at, token.created_by_user_id ?? null]
+  );
+  return result.insertId;
+};
+
+export const getUserTokenById = async (id: number): Promise<UserToken | null> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM user_tokens WHERE id = ?",
+    [id]
+  );
+  return (rows as UserToken[])[0] || null;
+};
+
+/**
+ * Marks a token used, if it is still unused and unexpired.
+ * @returns {Promise<boolean>} False if it was already used or has expired, e.g. by a parallel request.
+ */
+export const useUserToken = async (id: number, db: DbExecutor = pool): Promise<boolean> => {
+  const [result] = await db.execute<ResultSetHeader>(
+    "UPDATE user_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = ? AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP",
+    [id]
+  );
+  return result.affectedRows > 0;
+};
+
+// Marks a user's unused tokens used, so only the newest link works; all purposes if none is given
+export const useUserTokens = async (userId: number, purpose?: UserToken["purpose"], db: DbExecutor = pool): Promise<void> => {
+  await db.execute(
+    `UPDATE user_tokens SET used_at = CURRENT_TIMESTAMP WHERE user_id = ? AND used_at IS NULL${purpose ? " AND purpose = ?" : ""}`,
+    purpose ? [userId, purpose] : [userId]
+  );
+};
+
+export const deleteUserToken = async (id: number): Promise<void> => {
+  await pool.execute("DELETE FROM user_tokens WHERE id = ?", [id]);
+};
+
+// --- Two-Factor Authentication ---
+/**
+ * Records that a TOTP code was accepted, and clears failed attempts.
+ * @returns {Promise<boolean>} False if a code of this or a later time step was already used.
+ */
+export const recordTotpUse = async (userId: number, step: number): Promise<boolean> => {
+  const [result] = await pool.execute<ResultSetHeader>(
+    `UPDATE users SET totp_last_used_step = ?, totp_failed_attempts = 0, totp_locked_until = NULL
+     WHERE id = ? AND (totp_last_used_step IS NULL OR totp_last_used_step < ?)`,
+    [step, userId, step]
+  );
+  return result.affectedRows > 0;
+};
+
+// Counts a wrong code; the maxAttempts-th locks second-factor checks for lockSeconds and starts the count again
+export const countTwoFactorFailure = async (userId: number, maxAttempts: number, lockSeconds: number): Promise<void> => {
+  // MySQL applies SET assignments left to right, so the lock is decided before the count changes
+  await pool.execute(
+    `UPDATE users SET
+       totp_locked_until = IF(totp_failed_attempts + 1 >= ?, DATE_ADD(CURRENT_TIMESTAMP, INTERVAL ? SECOND), totp_locked_until),
+       totp_failed_attempts = IF(totp_failed_attempts + 1 >= ?, 0, totp_failed_attempts + 1)
+     WHERE id = ?`,
+    [maxAttempts, lockSeconds, maxAttempts, userId]
+  );
+};
+
+export const clearTwoFactorFailures = async (userId: number): Promise<void> => {
+  await pool.execute("UPDATE users SET totp_failed_attempts = 0, totp_locked_until = NULL WHERE id = ?", [userId]);
+};
+
+// Replaces all of a user's recovery codes
+export const replaceRecoveryCodes = async (userId: number, codeHashes: string[], db: DbExecutor = pool): Promise<void> => {
+  await db.execute("DELETE FROM user_recovery_codes WHERE user_id = ?", [userId]);
+  if (codeHashes.length === 0) return;
+  await db.execute(
+    `INSERT INTO user_recovery_codes (user_id, code_hash) VALUES ${codeHashes.map(() => "(?, ?)").join(", ")}`,
+    codeHashes.flatMap(hash => [userId, hash])
+  );
+};
+
+/**
+ * Uses up a recovery code.
+ * @returns {Promise<boolean>} False if the user has no such unused code.
+ */
+export const useRecoveryCode = async (userId: number, codeHash: string): Promise<boolean> => {
+  const [result] = await pool.execute<ResultSetHeader>(
+    "UPDATE user_recovery_codes SET used_at = CURRENT_TIMESTAMP WHERE user_id = ? AND code_hash = ? AND used_at IS NULL",
+    [userId, codeHash]
+  );
+  return result.affectedRows > 0;
+};
+
+export const countUnusedRecoveryCodes = async (userId: number): Promise<number> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT COUNT(*) AS count FROM user_recovery_codes WHERE user_id = ? AND used_at IS NULL",
+    [userId]
+  );
+  return Number(rows[0].count);
+};
+
+// --- Sessions (refresh tokens) ---
+export const createSession = async (
+  session: Omit<Session, "id" | "rotated_at" | "revoked_at" | "revoked_reason" | "created_at">,
+  db: DbExecutor = pool
+): Promise<number> => {
+  const [result] = await db.execute<ResultSetHeader>(
+    `INSERT INTO sessions (family_id, user_id, voter_id, wallet_address, refresh_token_hash, expires_at, user_agent, ip_address)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      session.family_id,
+      session.user_id ?? null,
+      session.voter_id ?? null,
+      session.wallet_address?.toLowerCase() ?? null,
+      session.refresh_token_hash,
+      session.expires_at,
+      session.user_agent ?? null,
+      session.ip_address ?? null,
+    ]
+  );
+  return result.insertId;
+};
+
+export const getSessionByRefreshTokenHash = async (refreshTokenHash: string): Promise<Session | null> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT * FROM sessions WHERE refresh_token_hash = ?",
+    [refreshTokenHash]
+  );
+  return (rows as Session[])[0] || null;
+};
+
+/**
+ * Marks a refresh token as exchanged for a newer one.
+ * @returns {Promise<boolean>} False if it was already exchanged or revoked, e.g. by a parallel request.
+ */
+export const rotateSession = async (id: number, db: DbExecutor = pool): Promise<boolean> => {
+  const [result] = await db.execute<ResultSetHeader>(
+    "UPDATE sessions SET rotated_at = CURRENT_TIMESTAMP WHERE id = ? AND rotated_at IS NULL AND revoked_at IS NULL",
+    [id]
+  );
+  return result.affectedRows > 0;
+};
+
+// A login is live while its family has not been revoked and has not reached its end
+export const isSessionFamilyActive = async (familyId: string): Promise<boolean> => {
+  const [rows] = await pool.execute<RowDataPacket[]>(
+    "SELECT id FROM sessions WHERE family_id = ? AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP LIMIT 1",
+    [familyId]
+  );
+  return rows.length > 0;
+};
+
+export const revokeSessionFamily = async (familyId: string, reason: SessionRevokedReason, db: DbExecutor = pool): Promise<boolean> => {
+  const [result] = await db.execute<ResultSetHeader>(
+    "UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = ? WHERE family_id = ? AND revoked_at IS NULL",
+    [reason, familyId]
+  );
+  return result.affectedRows > 0;
+};
+
+/**
+ * Revokes every live session of an admin user or a voter.
+ * @returns {Promise<number>} How many logins were revoked.
+ */
+export const revokeAllSessions = async (
+  owner: { userId: number } | { voterId: number },
+  reason: SessionRevokedReason,
+  db: DbExecutor = pool
+): Promise<number> => {
+  const [column, id] = "userId" in owner ? ["user_id", owner.userId] : ["voter_id", owner.voterId];
+  const [rows] = await db.execute<RowDataPacket[]>(
+    `SELECT COUNT(DISTINCT family_id) AS count FROM sessions WHERE ${column} = ? AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP`,
+    [id]
+  );
+  await db.execute(
+    `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = ? WHERE ${column} = ? AND revoked_at IS NULL`,
+    [reason, id]
+  );
+  return Number(rows[0].count);
+};
+
+// Rotated and revoked rows are kept until the login expires, so a reused refresh token is still recognised
+export const deleteExpiredSessions = async (): Promise<void> => {
+  await pool.execute("DELETE FROM sessions WHERE expires_at < CURRENT_TIMESTAMP");
+};
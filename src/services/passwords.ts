@@ -0,0 +1,64 @@
+// --- Admin Passwords ---
+// Hashing and strength rules for admin user passwords, shared by login, invites, resets and the
+// seed script. Kept free of the JWT configuration so the seed script can use it.
+
+import bcrypt from 'bcryptjs';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// --- Configuration ---
+const BCRYPT_ROUNDS = 10;
+export const PASSWORD_MIN_LENGTH = parseInt(process.env.PASSWORD_MIN_LENGTH || '12', 10);
+const PASSWORD_MAX_BYTES = 72; // bcrypt ignores anything after the first 72 bytes
+
+// Passwords that meet the length and character rules but are still among the first tried
+const COMMON_PASSWORDS = new Set([
+  'password1234', 'password123!', 'passw0rd1234', 'p@ssw0rd1234', 'qwerty123456', 'qwertyuiop12',
+  'administrator', 'admin1234567', 'adminpassword123', 'welcome12345', 'letmein12345', 'iloveyou1234',
+  'changeme1234', '1234567890ab', 'abc123456789', 'votex1234567',
+]);
+
+/**
+ * Checks a new password against the strength rules: at least PASSWORD_MIN_LENGTH characters, at most
+ * 72 bytes, at least three of lowercase letters, uppercase letters, digits and other characters, not a
+ * common password and not containing the user's email name.
+ * @param {unknown} password - The new password.
+ * @param {string} [email] - The user's email address.
+ * @returns {string[]} What is wrong with the password; empty if it is acceptable.
+ */
+export const validatePassword = (password: unknown, email?: string): string[] => {
+  if (typeof password !== 'string' || password.length === 0) {
+    return ['Password is required.'];
+  }
+  const errors: string[] = [];
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    errors.push(`Password must be at least ${PASSWORD_MIN_LENGTH} characters.`);
+  }
+  if (Buffer.byteLength(password, 'utf8') > PASSWORD_MAX_BYTES) {
+    errors.push(`Password must be at most ${PASSWORD_MAX_BYTES} bytes.`);
+  }
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter(pattern => pattern.test(password)).length;
+  if (classes < 3) {
+    errors.push('Password must contain at least three of: lowercase letters, uppercase letters, digits and other characters.');
+  }
+  if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+    errors.push('Password is too common.');
+  }
+  const emailName = email?.split('@')[0].toLowerCase();
+  if (emailName && emailName.length >= 3 && password.toLowerCase().includes(emailName)) {
+    errors.push('Password must not contain your email address.');
+  }
+  return errors;
+};
+
+export const hashPassword = (password: string): Promise<string> => bcrypt.hash(password, BCRYPT_ROUNDS);
+
+/**
+ * Compares a password with a stored bcrypt hash.
+ * @param {string} password - The password given.
+ * @param {string | null} passwordHash - The stored hash; NULL for users who have not set a password.
+ * @returns {Promise<boolean>} True if they match.
+ */
+export const verifyPassword = async (password: string, passwordHash: string | null): Promise<boolean> =>
+  !!passwordHash && bcrypt.compare(password, passwordHash);
@@ -0,0 +1,167 @@
+import * as mysqlService from './mysqlService';
+import * as tallyService from './tallyService';
+import { Ballot, TieBreaker } from './tally';
+import { Candidate, CandidateResult, Election, ElectionResultsDocument, Post, PostResult } from '../types/index.d';
+
+export const RESULTS_DOCUMENT_VERSION = 1;
+
+export interface ElectionResults {
+  document: ElectionResultsDocument;
+  tallies: tallyService.PostTally[];
+}
+
+export interface ResultsOptions extends tallyService.BallotLoadOptions {
+  isFinal: boolean;
+  tieBreakerFor?: (post: Post) => TieBreaker | undefined;
+}
+
+const toPercentage = (part: number, whole: number): number =>
+  whole > 0 ? Math.round((part / whole) * 10000) / 100 : 0;
+
+interface CandidateLabel {
+  name: string;
+  party: string | null;
+}
+
+/**
+ * Looks up display names and party names for candidates, querying each party once.
+ */
+const getCandidateLabels = async (candidates: Candidate[]): Promise<Map<number, CandidateLabel>> => {
+  const partyNames = new Map<number, string | null>();
+  const labels = new Map<number, CandidateLabel>();
+  for (const candidate of candidates) {
+    const partyMember = await mysqlService.getPartyMemberById(candidate.party_member_id);
+    let party: string | null = null;
+    if (partyMember?.party_id) {
+      if (!partyNames.has(partyMember.party_id)) {
+        const partyRecord = await mysqlService.getPartyById(partyMember.party_id);
+        partyNames.set(partyMember.party_id, partyRecord ? partyRecord.name : null);
+      }
+      party = partyNames.get(partyMember.party_id) ?? null;
+    }
+    labels.set(candidate.id!, { name: partyMember?.name || candidate.blockchain_candidate_id || `Candidate ${candidate.id}`, party });
+  }
+  return labels;
+};
+
+/**
+ * Ranks winners first in the order they were elected, then everyone else by votes.
+ */
+const rankCandidates = (results: Omit<CandidateResult, 'rank'>[], winnerOrder: number[]): CandidateResult[] => {
+  const winners = winnerOrder
+    .map(id => results.find(r => r.candidateId === id))
+    .filter((r): r is Omit<CandidateResult, 'rank'> => Boolean(r))
+    .map((r, index) => ({ ...r, rank: index + 1 }));
+  const others = results
+    .filter(r => !r.isWinner)
+    .sort((a, b) => b.votes - a.votes);
+  const ranked = others.map(r => ({
+    ...r,
+    rank: winners.length + 1 + others.filter(o => o.votes > r.votes).length,
+  }));
+  return [...winners, ...ranked];
+};
+
+const buildPostResult = (
+  tally: tallyService.PostTally,
+  ballots: Ballot[],
+  candidates: Candidate[],
+  labels: Map<number, CandidateLabel>,
+  eligibleVoters: number
+): PostResult => {
+  const firstRound = tally.outcome.rounds[0]?.votes || {};
+  const castVotes: Record<string, number> = {};
+  for (const ballot of ballots) {
+    for (const choice of ballot.choices) castVotes[choice] = (castVotes[choice] || 0) + 1;
+  }
+  const candidateIdFor = (bcId: string) => candidates.find(c => c.blockchain_candidate_id === bcId)?.id;
+
+  const results = candidates.map(candidate => {
+    const bcId = candidate.blockchain_candidate_id || '';
+    const votes = firstRound[bcId] || 0;
+    return {
+      candidateId: candidate.id!,
+      blockchainCandidateId: bcId,
+      name: labels.get(candidate.id!)!.name,
+      party: labels.get(candidate.id!)!.party,
+      votes,
+      castVotes: castVotes[bcId] || 0,
+      percentage: toPercentage(votes, ballots.length),
+      isWinner: tally.winnerCandidateIds.includes(candidate.id!),
+    };
+  });
+
+  const { tie } = tally.outcome;
+  return {
+    postId: tally.postId,
+    postName: tally.postName,
+    votingMethod: tally.votingMethod,
+    seats: tally.seats,
+    totalBallots: ballots.length,
+    turnout: eligibleVoters > 0 ? toPercentage(ballots.length, eligibleVoters) : null,
+    tie: tie
+      ? {
+          kind: tie.kind,
+          candidateIds: tie.candidates.map(candidateIdFor).filter((id): id is number => id !== undefined),
+          seats: tie.seats,
+          resolved: tally.outcome.tieResolved,
+          policy: null,
+          seed: null,
+          runoffElectionId: null,
+        }
+      : null,
+    candidates: rankCandidates(results, tally.winnerCandidateIds),
+  };
+};
+
+/**
+ * Counts an election and builds its results document: per-post candidates with votes, percentage,
+ * rank and winner flag, plus ballots and turnout. The same document is served live and stored when
+ * the election is finalised.
+ * @param {Election} election - The election (must have a contract address).
+ * @param {ResultsOptions} options - Whether the results are final, plus ballot loading and tie-breaking options.
+ * @returns {Promise<ElectionResults>} The results document and the per-post tallies behind it.
+ */
+export const computeElectionResults = async (election: Election, options: ResultsOptions): Promise<ElectionResults> => {
+  const ballotsByPost = await tallyService.loadElectionBallots(election, options);
+  const tallies = await tallyService.tallyElection(election, ballotsByPost, options.tieBreakerFor);
+
+  const candidates = await mysqlService.getCandidatesByElectionId(election.id!);
+  const labels = await getCandidateLabels(candidates);
+  const eligibleVoters = await mysqlService.countVotersWithLinkedWallet();
+
+  const voters = new Set<string>();
+  for (const ballots of ballotsByPost.values()) {
+    ballots.forEach(ballot => voters.add(ballot.voterAddress));
+  }
+
+  const document: ElectionResultsDocument = {
+    version: RESULTS_DOCUMENT_VERSION,
+    electionId: election.id!,
+    status: election.status,
+    isFinal: options.isFinal,
+    generatedAt: new Date().toISOString(),
+    eligibleVoters,
+    totalBallots: voters.size,
+    turnout: eligibleVoters > 0 ? toPercentage(voters.size, eligibleVoters) : null,
+    posts: tallies.map(tally => buildPostResult(
+      tally,
+      ballotsByPost.get(tally.postId) || [],
+      candidates.filter(c => c.post_id === tally.postId),
+      labels,
+      eligibleVoters
+    )),
+  };
+
+  return { document, tallies };
+};
+
+/**
+ * Returns the results document stored when the election was finalised.
+ * @returns {ElectionResultsDocument | null} The document, or null if none is stored or it predates this version.
+ */
+export const getStoredResultsDocument = (election: Election): ElectionResultsDocument | null => {
+  if (!election.results) return null;
+  const results = typeof election.results === 'string' ? JSON.parse(election.results) : election.results;
+  return results?.version === RESULTS_DOCUMENT_VERSION ? (results as ElectionResultsDocument) : null;
+};
@@ -0,0 +1,129 @@
+import dotenv from 'dotenv';
+import * as mysqlService from './mysqlService';
+import * as blockchainService from './blockchainService';
+import { PostTally } from './tallyService';
+import { Election, ElectionStatusHistory, Post } from '../types/index.d';
+
+dotenv.config();
+
+// --- Configuration ---
+const RUNOFF_START_DELAY_HOURS = parseFloat(process.env.RUNOFF_START_DELAY_HOURS || '24'); // Time between the tie and the runoff opening
+const RUNOFF_DURATION_HOURS = parseFloat(process.env.RUNOFF_DURATION_HOURS || '24');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Sends a chain call that creates something, treating an "already exists" revert as done so creation can resume
+const createOnChain = async (send: () => Promise<string>, alreadyExistsRevert: string): Promise<void> => {
+  try {
+    await send();
+  } catch (error) {
+    if (!(error as Error).message.includes(alreadyExistsRevert)) throw error;
+  }
+};
+
+/**
+ * Creates a runoff election for posts whose final count ended in an unresolved seat tie, with only the
+ * tied candidates, in MySQL and on chain, and schedules it. Runoffs break their own ties by lot.
+ * Creation is resumable: a runoff left in draft by an earlier failed attempt (e.g. finalisation is being
+ * retried) is completed, adding whatever posts and candidates are missing in MySQL or on chain. A runoff
+ * that was already scheduled is returned as it is.
+ * @param {Election} election - The tied election.
+ * @param {PostTally[]} tiedTallies - Tallies whose count stopped at a seat tie.
+ * @param {Pick<ElectionStatusHistory, 'actor_type' | 'actor_user_id'>} actor - Recorded on the runoff's scheduling transition.
+ * @returns {Promise<number>} The runoff election's ID.
+ */
+export const createRunoffElection = async (
+  election: Election,
+  tiedTallies: PostTally[],
+  actor: Pick<ElectionStatusHistory, 'actor_type' | 'actor_user_id'>
+): Promise<number> => {
+  const existing = await mysqlService.getRunoffElectionByParentId(election.id!);
+  if (existing && existing.status !== 'draft') {
+    return existing.id!;
+  }
+
+  const systemContractAddress = election.blockchain_contract_address!;
+  let runoffId: number;
+  let runoff: Pick<Election, 'title' | 'description' | 'start_date' | 'end_date'>;
+  if (existing) {
+    runoffId = existing.id!;
+    runoff = existing;
+    console.log(`Resuming creation of runoff election ${runoffId} for election ${election.id}.`);
+  } else {
+    const startDate = new Date(Date.now() + RUNOFF_START_DELAY_HOURS * HOUR_MS);
+    runoff = {
+      title: `${election.title} - Runoff`,
+      description: `Runoff between tied candidates of "${election.title}" for: ${tiedTallies.map(t => t.postName).join(', ')}.`,
+      start_date: startDate,
+      end_date: new Date(startDate.getTime() + RUNOFF_DURATION_HOURS * HOUR_MS),
+    };
+    runoffId = await mysqlService.createElection({
+      ...runoff,
+      blockchain_contract_address: systemContractAddress,
+      tie_policy: 'lot',
+      parent_election_id: election.id!,
+    });
+  }
+  await createOnChain(() => blockchainService.createElectionOnChain(
+    systemContractAddress,
+    runoffId,
+    runoff.title,
+    runoff.description || '',
+    Math.floor(new Date(runoff.start_date).getTime() / 1000),
+    Math.floor(new Date(runoff.end_date).getTime() / 1000)
+  ), 'ElectionAlreadyExists');
+
+  const runoffPosts = await mysqlService.getPostsByElectionId(runoffId);
+  for (const tally of tiedTallies) {
+    const tie = tally.outcome.tie!;
+    const seats = tie.seats;
+    let postId = runoffPosts.find(p => p.name === tally.postName)?.id;
+    if (postId === undefined) {
+      const runoffPost: Omit<Post, 'id' | 'created_at' | 'updated_at'> = {
+        election_id: runoffId,
+        name: tally.postName,
+        max_votes_per_voter: seats,
+        voting_method: seats === 1 ? 'plurality' : 'top_n',
+        seats,
+      };
+      postId = await mysqlService.createPost(runoffPost);
+    }
+    await createOnChain(
+      () => blockchainService.createPostOnChain(systemContractAddress, runoffId, postId!, tally.postName, seats),
+      'PostAlreadyExists'
+    );
+
+    const originalCandidates = await mysqlService.getCandidatesByPostId(tally.postId);
+    const runoffCandidates = await mysqlService.getCandidatesByPostId(postId);
+    for (const blockchainCandidateId of tie.candidates) {
+      const original = originalCandidates.find(c => c.blockchain_candidate_id === blockchainCandidateId);
+      if (!original) continue;
+      const partyMember = await mysqlService.getPartyMemberById(original.party_member_id);
+      const runoffCandidateId = `candidate_${runoffId}_${postId}_${original.party_member_id}`;
+      if (!runoffCandidates.some(c => c.blockchain_candidate_id === runoffCandidateId)) {
+        await mysqlService.createCandidate({
+          post_id: postId,
+          election_id: runoffId,
+          party_member_id: original.party_member_id,
+          blockchain_candidate_id: runoffCandidateId,
+        });
+      }
+      await createOnChain(() => blockchainService.registerCandidateOnChain(
+        systemContractAddress,
+        runoffId,
+        postId!,
+        runoffCandidateId,
+        partyMember?.name || runoffCandidateId
+      ), 'CandidateAlreadyRegistered');
+    }
+  }
+
+  // The ballot is complete, so hand the runoff straight to the scheduler
+  await mysqlService.transitionElectionStatus(runoffId, 'draft', 'scheduled', {}, {
+    ...actor,
+    reason: `Runoff for tied election ${election.id}`,
+  });
+
+  console.log(`Created runoff election ${runoffId} for election ${election.id}.`);
+  return runoffId;
+};
@@ -0,0 +1,202 @@
+// --- Sessions ---
+// A login is a session family. It gets a short-lived access token (a JWT carrying the family as sid)
+// and a refresh token, stored hashed in the sessions table. Each refresh exchanges the refresh token
+// for a new pair, so a refresh token works once; if an exchanged one is presented again, it has leaked
+// and the whole family is revoked. verifyToken refuses access tokens of revoked families.
+
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { Request } from 'express';
+import pool from '../config/database';
+import * as mysqlService from './mysqlService';
+import { generateToken } from './authService';
+import { isAdminRole } from './accessControl';
+import { isTwoFactorEnabled, isTwoFactorRequired } from './twoFactorService';
+import { Session, SessionRevokedReason, User, Voter } from '../types/index.d';
+
+dotenv.config();
+
+// --- Configuration ---
+export const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900', 10);
+const ADMIN_SESSION_TTL_HOURS = parseInt(process.env.ADMIN_SESSION_TTL_HOURS || '12', 10);
+const VOTER_SESSION_TTL_HOURS = parseInt(process.env.VOTER_SESSION_TTL_HOURS || '12', 10);
+
+export type SessionSubject =
+  | { kind: 'admin'; user: User }
+  | { kind: 'voter'; voter: Voter; walletAddress: string };
+
+export interface SessionTokens {
+  token: string; // Access token, sent as Bearer
+  expiresIn: number; // Seconds until the access token expires
+  refreshToken: string;
+  refreshTokenExpiresAt: Date; // End of the login; refreshing does not extend it
+}
+
+export type RefreshResult =
+  | ({ ok: true; subject: SessionSubject } & SessionTokens)
+  | { ok: false; status: number; error: string; code: string };
+
+// Where a login came from, shown when listing or auditing sessions
+export type SessionContext = { userAgent?: string | null; ipAddress?: string | null };
+
+export const sessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get('user-agent')?.slice(0, 255) ?? null,
+  ipAddress: req.ip ?? null,
+});
+
+const hashRefreshToken = (refreshToken: string) => crypto.createHash('sha256').update(refreshToken).digest('hex');
+
+const accessTokenPayload = (subject: SessionSubject, familyId: string) =>
+  subject.kind === 'admin'
+    ? { id: subject.user.id!, email: subject.user.email, role: subject.user.role, sid: familyId }
+    : {
+        id: subject.voter.id!,
+        email: subject.voter.email,
+        walletAddress: subject.walletAddress.toLowerCase(),
+        name: subject.voter.name,
+        role: 'voter',
+        sid: familyId,
+      };
+
+/**
+ * Adds a refresh token to a family and signs an access token for it.
+ */
+const issueTokens = async (
+  subject: SessionSubject,
+  familyId: string,
+  expiresAt: Date,
+  context: SessionContext,
+  db: mysqlService.DbExecutor = pool
+): Promise<SessionTokens> => {
+  const refreshToken = crypto.randomBytes(32).toString('base64url');
+  await mysqlService.createSession({
+    family_id: familyId,
+    user_id: subject.kind === 'admin' ? subject.user.id! : null,
+    voter_id: subject.kind === 'voter' ? subject.voter.id! : null,
+    wallet_address: subject.kind === 'voter' ? subject.walletAddress : null,
+    refresh_token_hash: hashRefreshToken(refreshToken),
+    expires_at: expiresAt,
+    user_agent: context.userAgent ?? null,
+    ip_address: context.ipAddress ?? null,
+  }, db);
+  return {
+    token: generateToken(accessTokenPayload(subject, familyId), ACCESS_TOKEN_TTL_SECONDS),
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    refreshToken,
+    refreshTokenExpiresAt: expiresAt,
+  };
+};
+
+/**
+ * Starts a session for an admin user or a voter who has just signed in. It lasts
+ * ADMIN_SESSION_TTL_HOURS or VOTER_SESSION_TTL_HOURS, however often it is refreshed.
+ * @param {SessionSubject} subject - Who signed in, and for voters the wallet they signed in with.
+ * @param {SessionContext} context - The user agent and IP address of the login.
+ * @returns {Promise<SessionTokens>} The access and refresh tokens.
+ */
+export const createSession = async (subject: SessionSubject, context: SessionContext): Promise<SessionTokens> => {
+  await mysqlService.deleteExpiredSessions();
+  const ttlHours = subject.kind === 'admin' ? ADMIN_SESSION_TTL_HOURS : VOTER_SESSION_TTL_HOURS;
+  return issueTokens(subject, crypto.randomUUID(), new Date(Date.now() + ttlHours * 60 * 60 * 1000), context);
+};
+
+/**
+ * Checks that whoever a session belongs to may still use it, as the middleware does on each request.
+ */
+const loadSessionSubject = async (
+  session: Session
+): Promise<{ subject: SessionSubject } | { status: number; error: string; code: string; reason: SessionRevokedReason | null }> => {
+  if (session.user_id) {
+    const user = await mysqlService.findUserById(session.user_id);
+    if (!user || !isAdminRole(user.role) || user.status !== 'active') {
+      return { status: 403, error: 'Account is not active.', code: 'USER_NOT_ACTIVE', reason: 'account_disabled' };
+    }
+    if (isTwoFactorRequired(user.role) && !isTwoFactorEnabled(user)) {
+      return { status: 403, error: 'Your role requires two-factor authentication. Log in again to set it up.', code: 'TWO_FACTOR_SETUP_REQUIRED', reason: null };
+    }
+    return { subject: { kind: 'admin', user } };
+  }
+  const voter = await mysqlService.getVoterById(session.voter_id!);
+  if (!voter || (voter.account_status && voter.account_status !== 'active')) {
+    return { status: 403, error: 'Voter account is not active.', code: 'VOTER_NOT_ACTIVE', reason: 'account_disabled' };
+  }
+  if (voter.wallet_address?.toLowerCase() !== session.wallet_address) {
+    return { status: 403, error: 'This wallet is no longer linked to your account. Sign in again.', code: 'WALLET_CHANGED', reason: 'wallet_changed' };
+  }
+  return { subject: { kind: 'voter', voter, walletAddress: session.wallet_address! } };
+};
+
+/**
+ * Exchanges a refresh token for a new access token and refresh token. The old refresh token stops
+ * working. Presenting a refresh token that was already exchanged revokes the whole session, since
+ * either it or its replacement has been stolen.
+ * @param {SessionSubject['kind']} kind - Whose sessions the endpoint refreshes; other refresh tokens are refused.
+ * @param {unknown} refreshToken - The refresh token.
+ * @param {SessionContext} context - The user agent and IP address of the request.
+ * @returns {Promise<RefreshResult>} The new tokens and who they are for, or why the session cannot be refreshed.
+ */
+export const refreshSession = async (
+  kind: SessionSubject['kind'],
+  refreshToken: unknown,
+  context: SessionContext
+): Promise<RefreshResult> => {
+  const invalid: RefreshResult = { ok: false, status: 401, error: 'Refresh token is invalid or has expired. Log in again.', code: 'INVALID_REFRESH_TOKEN' };
+  if (typeof refreshToken !== 'string' || !refreshToken) return invalid;
+
+  const session = await mysqlService.getSessionByRefreshTokenHash(hashRefreshToken(refreshToken));
+  if (!session || session.revoked_at || new Date(session.expires_at) <= new Date()) return invalid;
+  if ((kind === 'admin') !== !!session.user_id) return invalid;
+  const reused: RefreshResult = { ok: false, status: 401, error: 'Refresh token was already used. The session has been ended; log in again.', code: 'REFRESH_TOKEN_REUSED' };
+  if (session.rotated_at) {
+    await mysqlService.revokeSessionFamily(session.family_id, 'refresh_token_reused');
+    return reused;
+  }
+
+  const loaded = await loadSessionSubject(session);
+  if (!('subject' in loaded)) {
+    if (loaded.reason) await mysqlService.revokeSessionFamily(session.family_id, loaded.reason);
+    return { ok: false, status: loaded.status, error: loaded.error, code: loaded.code };
+  }
+
+  const connection = await pool.getConnection();
+  let tokens: SessionTokens;
+  try {
+    await connection.beginTransaction();
+    // Rotated conditionally, so two requests with the same refresh token cannot both get new tokens
+    if (!(await mysqlService.rotateSession(session.id!, connection))) {
+      await connection.rollback();
+      await mysqlService.revokeSessionFamily(session.family_id, 'refresh_token_reused');
+      return reused;
+    }
+    tokens = await issueTokens(loaded.subject, session.family_id, new Date(session.expires_at), context, connection);
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+  return { ok: true, subject: loaded.subject, ...tokens };
+};
+
+/**
+ * Ends one login: its access and refresh tokens stop working.
+ * @param {string} familyId - The session, from the access token's sid.
+ * @param {SessionRevokedReason} [reason] - Why it is ended.
+ */
+export const revokeSession = async (familyId: string, reason: SessionRevokedReason = 'logout'): Promise<void> => {
+  await mysqlService.revokeSessionFamily(familyId, reason);
+};
+
+/**
+ * Ends every login of an admin user or a voter.
+ * @param {{ userId: number } | { voterId: number }} owner - Whose sessions to end.
+ * @param {SessionRevokedReason} reason - Why they are ended.
+ * @param {mysqlService.DbExecutor} [db] - A connection, to revoke inside the caller's transaction.
+ * @returns {Promise<number>} How many logins were ended.
+ */
+export const revokeAllSessions = (
+  owner: { userId: number } | { voterId: number },
+  reason: SessionRevokedReason,
+  db: mysqlService.DbExecutor = pool
+): Promise<number> => mysqlService.revokeAllSessions(owner, reason, db);
@@ -0,0 +1,131 @@
+// --- Sign-In with Ethereum (EIP-4361) ---
+// Formats and parses the plain-text messages wallets sign to log in. Checking the fields against
+// what the server issued is up to the caller (see siweService).
+
+import { ethers } from 'ethers';
+
+export interface SiweMessage {
+  domain: string; // RFC 3986 authority requesting the signature, e.g. "vote.example.org"
+  address: string; // EIP-55 checksummed address doing the signing
+  statement?: string; // Human-readable assertion; may not contain line breaks
+  uri: string; // RFC 3986 URI referring to the subject of the signing
+  version: '1';
+  chainId: number; // EIP-155 chain the session is bound to
+  nonce: string; // At least 8 alphanumeric characters
+  issuedAt: string; // ISO 8601 date-time
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const NONCE_PATTERN = /^[a-zA-Z0-9]{8,}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Formats a message exactly as EIP-4361 lays it out, so wallets can recognise and display it.
+ * @param {SiweMessage} message - The message fields.
+ * @returns {string} The message text to sign.
+ */
+export const formatSiweMessage = (message: SiweMessage): string => {
+  const lines = [
+    `${message.domain}${HEADER_SUFFIX}`,
+    message.address,
+    '',
+    ...(message.statement ? [message.statement, ''] : ['']),
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`,
+  ];
+  if (message.expirationTime) lines.push(`Expiration Time: ${message.expirationTime}`);
+  if (message.notBefore) lines.push(`Not Before: ${message.notBefore}`);
+  if (message.requestId !== undefined) lines.push(`Request ID: ${message.requestId}`);
+  if (message.resources?.length) lines.push('Resources:', ...message.resources.map(resource => `- ${resource}`));
+  return lines.join('\n');
+};
+
+/**
+ * Parses an EIP-4361 message. Only the syntax is checked here, including that the address is EIP-55
+ * checksummed and the nonce and timestamps are well formed.
+ * @param {string} text - The signed message text.
+ * @returns {SiweMessage} The message fields.
+ * @throws {Error} If the text is not a well-formed EIP-4361 message.
+ */
+export const parseSiweMessage = (text: string): SiweMessage => {
+  const lines = text.split('\n');
+  let i = 0;
+  const next = () => {
+    if (i >= lines.length) throw new Error('Message ends early.');
+    return lines[i++];
+  };
+
+  const header = next();
+  if (!header.endsWith(HEADER_SUFFIX)) throw new Error('Missing the "wants you to sign in with your Ethereum account" header.');
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+  if (!domain || /\s/.test(domain)) throw new Error('Invalid domain.');
+
+  const address = next();
+  if (!ethers.isAddress(address) || ethers.getAddress(address) !== address) {
+    throw new Error('Address must be an EIP-55 checksummed Ethereum address.');
+  }
+  if (next() !== '') throw new Error('Expected an empty line after the address.');
+
+  let statement: string | undefined;
+  if (lines[i] !== '') {
+    statement = next();
+  }
+  if (next() !== '') throw new Error('Expected an empty line after the statement.');
+
+  const field = (name: string, optional = false): string | undefined => {
+    const prefix = `${name}: `;
+    if (i < lines.length && lines[i].startsWith(prefix)) return next().slice(prefix.length);
+    if (optional) return undefined;
+    throw new Error(`Missing "${name}".`);
+  };
+
+  const uri = field('URI')!;
+  const version = field('Version')!;
+  if (version !== '1') throw new Error('Version must be 1.');
+  const chainIdText = field('Chain ID')!;
+  if (!/^\d+$/.test(chainIdText)) throw new Error('Chain ID must be a number.');
+  const nonce = field('Nonce')!;
+  if (!NONCE_PATTERN.test(nonce)) throw new Error('Nonce must be at least 8 alphanumeric characters.');
+  const issuedAt = field('Issued At')!;
+  const expirationTime = field('Expiration Time', true);
+  const notBefore = field('Not Before', true);
+  for (const timestamp of [issuedAt, expirationTime, notBefore]) {
+    if (timestamp !== undefined && (!DATE_TIME_PATTERN.test(timestamp) || isNaN(Date.parse(timestamp)))) {
+      throw new Error(`"${timestamp}" is not an ISO 8601 date-time.`);
+    }
+  }
+  // "Request ID:" may be followed by an empty value
+  let requestId: string | undefined;
+  if (i < lines.length && lines[i].startsWith('Request ID:')) {
+    requestId = next().slice('Request ID:'.length).trimStart();
+  }
+  let resources: string[] | undefined;
+  if (i < lines.length && lines[i] === 'Resources:') {
+    next();
+    resources = [];
+    while (i < lines.length && lines[i].startsWith('- ')) resources.push(next().slice(2));
+  }
+  if (i < lines.length) throw new Error(`Unexpected line "${lines[i]}".`);
+
+  return {
+    domain,
+    address,
+    statement,
+    uri,
+    version: '1',
+    chainId: parseInt(chainIdText, 10),
+    nonce,
+    issuedAt,
+    expirationTime,
+    notBefore,
+    requestId,
+    resources,
+  };
+};
@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import * as mysqlService from './mysqlService';
+import { verifyWalletSignature } from './authService';
+import { formatSiweMessage, parseSiweMessage, SiweMessage } from './siwe';
+import { Voter } from '../types/index.d';
+
+dotenv.config();
+
+// --- Configuration ---
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+const SIWE_DOMAIN = process.env.SIWE_DOMAIN || new URL(FRONTEND_URL).host; // Must match the site the wallet is used on
+const SIWE_URI = process.env.SIWE_URI || FRONTEND_URL;
+const SIWE_CHAIN_ID = parseInt(process.env.SIWE_CHAIN_ID || '31337', 10); // Chain the ElectionSystem contract is on
+const SIWE_STATEMENT = process.env.SIWE_STATEMENT || 'Sign in to VoteX. This request will not trigger a blockchain transaction or cost any gas.';
+const SIWE_NONCE_TTL_SECONDS = parseInt(process.env.SIWE_NONCE_TTL_SECONDS || '300', 10);
+const CLOCK_SKEW_MS = 60 * 1000; // Tolerated difference between the server's and the wallet's clocks
+
+export type SiweLoginResult =
+  | { ok: true; voter: Voter; address: string; message: SiweMessage }
+  | { ok: false; status: number; error: string; code: string };
+
+const invalid = (error: string, code = 'INVALID_SIWE_MESSAGE'): SiweLoginResult =>
+  ({ ok: false, status: 400, error, code });
+
+/**
+ * Issues a Sign-In with Ethereum message for a voter to sign with their wallet. The message carries a
+ * new single-use nonce that expires after SIWE_NONCE_TTL_SECONDS; messages issued to the voter earlier
+ * stop working.
+ * @param {Voter} voter - The voter signing in.
+ * @param {string} walletAddress - The wallet they will sign with.
+ * @returns {Promise<{ message: string; expiresAt: Date }>} The message text to sign and when it expires.
+ */
+export const createVoterSiweMessage = async (voter: Voter, walletAddress: string): Promise<{ message: string; expiresAt: Date }> => {
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + SIWE_NONCE_TTL_SECONDS * 1000);
+  const nonce = crypto.randomBytes(16).toString('hex');
+
+  await mysqlService.deleteUnusedAuthNonces(voter.id!);
+  await mysqlService.deleteExpiredAuthNonces();
+  await mysqlService.createAuthNonce({
+    nonce,
+    voter_id: voter.id!,
+    wallet_address: walletAddress,
+    issued_at: issuedAt,
+    expires_at: expiresAt,
+  });
+
+  const message = formatSiweMessage({
+    domain: SIWE_DOMAIN,
+    address: ethers.getAddress(walletAddress),
+    statement: SIWE_STATEMENT,
+    uri: SIWE_URI,
+    version: '1',
+    chainId: SIWE_CHAIN_ID,
+    nonce,
+    issuedAt: issuedAt.toISOString(),
+    expirationTime: expiresAt.toISOString(),
+  });
+  return { message, expiresAt };
+};
+
+/**
+ * Verifies a signed Sign-In with Ethereum message: the domain, URI, version and chain ID must be this
+ * server's, the message must be within its validity window, the nonce must have been issued by
+ * createVoterSiweMessage for the same address and not used yet, and the message address must have
+ * signed it, directly or as a smart-contract wallet. The nonce is used up by a successful
+ * verification.
+ * @param {string} text - The message text that was signed.
+ * @param {string} signature - The wallet's signature.
+ * @returns {Promise<SiweLoginResult>} The voter and verified address, or why the login is rejected.
+ */
+export const verifyVoterSiweLogin = async (text: string, signature: string): Promise<SiweLoginResult> => {
+  let message: SiweMessage;
+  try {
+    message = parseSiweMessage(text);
+  } catch (error) {
+    return invalid(`Malformed sign-in message: ${(error as Error).message}`);
+  }
+
+  if (message.domain !== SIWE_DOMAIN) return invalid(`Message is for ${message.domain}, not ${SIWE_DOMAIN}.`, 'SIWE_DOMAIN_MISMATCH');
+  if (message.uri !== SIWE_URI) return invalid('Message URI does not match.', 'SIWE_URI_MISMATCH');
+  if (message.chainId !== SIWE_CHAIN_ID) return invalid(`Message is for chain ${message.chainId}, not ${SIWE_CHAIN_ID}.`, 'SIWE_CHAIN_MISMATCH');
+
+  const now = Date.now();
+  if (Date.parse(message.issuedAt) > now + CLOCK_SKEW_MS) return invalid('Message is issued in the future.', 'SIWE_NOT_YET_VALID');
+  if (message.notBefore && Date.parse(message.notBefore) > now + CLOCK_SKEW_MS) return invalid('Message is not valid yet.', 'SIWE_NOT_YET_VALID');
+  if (message.expirationTime && Date.parse(message.expirationTime) <= now - CLOCK_SKEW_MS) {
+    return invalid('Message has expired. Request a new one.', 'SIWE_EXPIRED');
+  }
+
+  const authNonce = await mysqlService.getAuthNonce(message.nonce);
+  if (!authNonce || authNonce.used_at || new Date(authNonce.expires_at).getTime() <= now) {
+    return invalid('Message nonce is unknown, already used or expired. Request a new message.', 'SIWE_INVALID_NONCE');
+  }
+  if (authNonce.wallet_address !== message.address.toLowerCase()) {
+    return invalid('Message address does not match the address it was issued for.', 'SIWE_ADDRESS_MISMATCH');
+  }
+
+  if (!(await verifyWalletSignature(text, signature, message.address))) {
+    return { ok: false, status: 401, error: 'Signature verification failed. Invalid signature or wallet address.', code: 'SIWE_INVALID_SIGNATURE' };
+  }
+
+  // Used conditionally, so two requests with the same signed message cannot both sign in
+  if (!(await mysqlService.useAuthNonce(authNonce.id!))) {
+    return invalid('Message nonce is unknown, already used or expired. Request a new message.', 'SIWE_INVALID_NONCE');
+  }
+
+  const voter = await mysqlService.getVoterById(authNonce.voter_id);
+  if (!voter) {
+    return { ok: false, status: 404, error: 'Voter profile not found.', code: 'VOTER_NOT_FOUND' };
+  }
+  return { ok: true, voter, address: message.address.toLowerCase(), message };
+};
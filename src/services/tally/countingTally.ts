@@ -0,0 +1,87 @@
+import { VotingMethod } from '../../types/index.d';
+import { TallyInput, TallyMethod, TallyOutcome, TieBreaker, normaliseChoices } from './tallyMethod';
+
+/**
+ * Elects the `seats` candidates with the most votes in a single round. A tie straddling the last
+ * seat is reported, and broken with `breakTie` when one is given.
+ */
+const electTopCandidates = (
+  method: VotingMethod,
+  input: TallyInput,
+  votes: Record<string, number>,
+  validBallots: number,
+  breakTie?: TieBreaker
+): TallyOutcome => {
+  const ranked = [...input.candidates].sort((a, b) => votes[b] - votes[a]);
+  const outcome: TallyOutcome = {
+    method,
+    seats: input.seats,
+    validBallots,
+    winners: [],
+    tie: null,
+    tieResolved: true,
+    rounds: [],
+  };
+
+  let elected: string[];
+  if (ranked.length <= input.seats) {
+    elected = ranked;
+  } else {
+    const cutoff = votes[ranked[input.seats - 1]];
+    const clear = ranked.filter(c => votes[c] > cutoff);
+    const tied = ranked.filter(c => votes[c] === cutoff);
+    const seatsLeft = input.seats - clear.length;
+    elected = clear;
+    if (tied.length > seatsLeft) {
+      outcome.tie = { kind: 'seat', round: 1, candidates: tied, seats: seatsLeft };
+      const chosen = breakTie ? breakTie(outcome.tie) : null;
+      if (chosen) {
+        elected = [...clear, ...chosen.slice(0, seatsLeft)];
+      } else {
+        outcome.tieResolved = false;
+      }
+    } else {
+      elected = [...clear, ...tied];
+    }
+  }
+
+  outcome.winners = elected;
+  outcome.rounds.push({
+    round: 1,
+    votes,
+    quota: null,
+    elected,
+    eliminated: [],
+    exhausted: 0,
+  });
+  return outcome;
+};
+
+/**
+ * Counts one vote for each distinct candidate a ballot marks, up to `maxChoices` marks per ballot.
+ */
+const createCountingTally = (kind: VotingMethod, maxChoices: (input: TallyInput) => number): TallyMethod => ({
+  kind,
+  ranked: false,
+  tally: (input, breakTie) => {
+    const candidateSet = new Set(input.candidates);
+    const votes: Record<string, number> = Object.fromEntries(input.candidates.map(c => [c, 0]));
+    let validBallots = 0;
+    for (const ballot of input.ballots) {
+      const choices = normaliseChoices(ballot, candidateSet, maxChoices(input));
+      if (!choices) continue;
+      validBallots++;
+      for (const choice of choices) votes[choice]++;
+    }
+    return electTopCandidates(kind, input, votes, validBallots, breakTie);
+  },
+});
+
+// One mark per ballot, one winner
+export const pluralityTally = createCountingTally('plurality', () => 1);
+
+// Any number of marks up to max_votes_per_voter; the most approved candidates win
+export const approvalTally = createCountingTally('approval', input => input.maxChoices);
+
+// Multi-seat block vote: up to max_votes_per_voter marks, the top `seats` candidates win
+export const topNTally = createCountingTally('top_n', input => input.maxChoices);
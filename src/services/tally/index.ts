@@ -0,0 +1,100 @@
+import { Candidate, Post, VotingMethod } from '../../types/index.d';
+import { ChainAdapterKind, VoteCastEvent } from '../chain';
+import { Ballot, TallyMethod, TallyOutcome, TieBreaker } from './tallyMethod';
+import { pluralityTally, approvalTally, topNTally } from './countingTally';
+import { irvTally, stvTally } from './rankedTally';
+
+export * from './tallyMethod';
+
+const TALLY_METHODS: Record<VotingMethod, TallyMethod> = {
+  plurality: pluralityTally,
+  approval: approvalTally,
+  top_n: topNTally,
+  irv: irvTally,
+  stv: stvTally,
+};
+
+export const VOTING_METHODS = Object.keys(TALLY_METHODS) as VotingMethod[];
+
+/**
+ * Returns the tally method registered for a voting method.
+ * @param {VotingMethod} kind - The post's voting method.
+ * @returns {TallyMethod} The tally method.
+ */
+export const getTallyMethod = (kind: VotingMethod): TallyMethod => {
+  const method = TALLY_METHODS[kind];
+  if (!method) {
+    throw new Error(`Unknown voting method "${kind}". Expected one of: ${VOTING_METHODS.join(', ')}.`);
+  }
+  return method;
+};
+
+/**
+ * Checks a post's voting method, seats and max_votes_per_voter against each other.
+ * @returns {string | null} Why the configuration is invalid, or null if it is valid.
+ */
+export const validatePostVotingRules = (votingMethod: VotingMethod, seats: number, maxVotesPerVoter: number): string | null => {
+  if (!TALLY_METHODS[votingMethod]) return `Voting method must be one of: ${VOTING_METHODS.join(', ')}.`;
+  if (!Number.isInteger(seats) || seats < 1) return 'Seats must be a positive integer.';
+  if (!Number.isInteger(maxVotesPerVoter) || maxVotesPerVoter < 1) return 'Max votes per voter must be a positive integer.';
+  switch (votingMethod) {
+    case 'plurality':
+      if (seats !== 1 || maxVotesPerVoter !== 1) return 'Plurality posts have one seat and one vote per voter. Use top_n for multi-seat posts.';
+      return null;
+    case 'irv':
+      if (seats !== 1) return 'Instant-runoff posts have one seat. Use stv for multi-seat ranked posts.';
+      return null;
+    case 'top_n':
+      if (maxVotesPerVoter > seats) return 'Top-N posts allow at most one vote per seat.';
+      return null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Checks that the active chain can record a post's voting method. Every method but plurality needs
+ * several castVote transactions per voter per post, and ranked methods read preferences from their
+ * mining order. Only the simulated ledger is known to accept that; the VoteXElection contract is only
+ * known to take one vote per voter per post, so on a real chain only plurality posts can be run.
+ * @returns {string | null} Why the method cannot be used on this chain, or null if it can.
+ */
+export const checkVotingMethodSupported = (votingMethod: VotingMethod, chainKind: ChainAdapterKind): string | null =>
+  votingMethod === 'plurality' || chainKind === 'simulated'
+    ? null
+    : `Voting method ${votingMethod} needs several votes per voter per post, which the VoteXElection contract is not known to accept. Only plurality posts can be used with the ${chainKind} chain adapter.`;
+
+/**
+ * Groups VoteCast events into one ballot per voter per post. Events must be in chain order,
+ * which is the preference order for ranked posts.
+ * @param {VoteCastEvent[]} events - An election's VoteCast events, oldest first.
+ * @returns {Map<number, Ballot[]>} Ballots keyed by post ID.
+ */
+export const buildPostBallots = (events: VoteCastEvent[]): Map<number, Ballot[]> => {
+  const ballotsByPost = new Map<number, Map<string, Ballot>>();
+  for (const event of events) {
+    const voterAddress = event.voterAddress.toLowerCase();
+    const postBallots = ballotsByPost.get(event.postId) || new Map<string, Ballot>();
+    const ballot = postBallots.get(voterAddress) || { voterAddress, choices: [] };
+    ballot.choices.push(event.blockchainCandidateId);
+    postBallots.set(voterAddress, ballot);
+    ballotsByPost.set(event.postId, postBallots);
+  }
+  return new Map([...ballotsByPost].map(([postId, ballots]) => [postId, [...ballots.values()]]));
+};
+
+/**
+ * Counts one post's ballots with the post's voting method.
+ * @param {Post} post - The post being counted.
+ * @param {Candidate[]} candidates - The post's candidates.
+ * @param {Ballot[]} ballots - The post's ballots (see buildPostBallots).
+ * @param {TieBreaker} [breakTie] - Resolves ties; without one the count stops at the first tie.
+ * @returns {TallyOutcome} Winners, rounds and any tie, keyed by blockchain candidate ID.
+ */
+export const tallyPost = (post: Post, candidates: Candidate[], ballots: Ballot[], breakTie?: TieBreaker): TallyOutcome =>
+  getTallyMethod(post.voting_method || 'plurality').tally({
+    candidates: candidates.map(c => c.blockchain_candidate_id!).filter(Boolean),
+    ballots,
+    seats: post.seats || 1,
+    maxChoices: post.max_votes_per_voter || 1,
+  }, breakTie);
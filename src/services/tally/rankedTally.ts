@@ -0,0 +1,154 @@
+import { VotingMethod } from '../../types/index.d';
+import { TallyInput, TallyMethod, TallyOutcome, TallyRound, TallyTie, TieBreaker, normaliseChoices } from './tallyMethod';
+
+interface WeightedBallot {
+  choices: string[];
+  weight: number; // Drops below 1 once part of the ballot has helped elect a candidate
+}
+
+// Fractional transfers make STV counts non-integers; round what goes into the report
+const roundVotes = (value: number): number => Math.round(value * 10000) / 10000;
+
+const sortByVotesDesc = (candidates: string[], votes: Record<string, number>): string[] =>
+  [...candidates].sort((a, b) => votes[b] - votes[a]);
+
+/**
+ * Backwards tie-break: excludes whichever tied candidate had fewest votes in the most recent
+ * earlier round where the tied candidates' votes differed.
+ * @returns {string | null} The candidate to exclude, or null if they were tied in every round.
+ */
+const breakTieFromEarlierRounds = (tied: string[], rounds: TallyRound[]): string | null => {
+  for (let i = rounds.length - 2; i >= 0; i--) {
+    const votes = rounds[i].votes;
+    const lowest = Math.min(...tied.map(c => votes[c] ?? 0));
+    const atLowest = tied.filter(c => (votes[c] ?? 0) === lowest);
+    if (atLowest.length === 1) return atLowest[0];
+  }
+  return null;
+};
+
+/**
+ * Counts ranked ballots by repeatedly electing candidates that reach the quota (passing their surplus
+ * on at a reduced weight, Gregory method) and otherwise excluding the lowest candidate and transferring
+ * their ballots to each voter's next continuing choice.
+ * IRV is the single-seat case with a majority-of-continuing-votes quota; STV uses the Droop quota.
+ */
+const countTransferableVote = (
+  method: VotingMethod,
+  input: TallyInput,
+  breakTie?: TieBreaker
+): TallyOutcome => {
+  const seats = method === 'irv' ? 1 : input.seats;
+  const candidateSet = new Set(input.candidates);
+  const ballots: WeightedBallot[] = [];
+  for (const ballot of input.ballots) {
+    const choices = normaliseChoices(ballot, candidateSet, input.maxChoices);
+    if (choices) ballots.push({ choices, weight: 1 });
+  }
+
+  const droopQuota = Math.floor(ballots.length / (seats + 1)) + 1;
+  const continuing = new Set(input.candidates);
+  const currentChoice = (ballot: WeightedBallot) => ballot.choices.find(c => continuing.has(c));
+
+  const outcome: TallyOutcome = {
+    method,
+    seats,
+    validBallots: ballots.length,
+    winners: [],
+    tie: null,
+    tieResolved: true,
+    rounds: [],
+  };
+
+  for (let round = 1; outcome.winners.length < seats && continuing.size > 0; round++) {
+    const votes: Record<string, number> = Object.fromEntries([...continuing].map(c => [c, 0]));
+    let exhausted = 0;
+    for (const ballot of ballots) {
+      const choice = currentChoice(ballot);
+      if (choice) votes[choice] += ballot.weight;
+      else exhausted += ballot.weight;
+    }
+
+    const seatsLeft = seats - outcome.winners.length;
+    const activeVotes = Object.values(votes).reduce((sum, v) => sum + v, 0);
+    const quota = method === 'irv' ? Math.floor(activeVotes / 2) + 1 : droopQuota;
+    const record: TallyRound = {
+      round,
+      votes: Object.fromEntries(Object.entries(votes).map(([c, v]) => [c, roundVotes(v)])),
+      quota,
+      elected: [],
+      eliminated: [],
+      exhausted: roundVotes(exhausted),
+    };
+    outcome.rounds.push(record);
+
+    // Everyone left fills the remaining seats
+    if (continuing.size <= seatsLeft) {
+      record.elected = sortByVotesDesc([...continuing], votes);
+      outcome.winners.push(...record.elected);
+      break;
+    }
+
+    const reachedQuota = sortByVotesDesc([...continuing].filter(c => votes[c] >= quota), votes).slice(0, seatsLeft);
+    if (reachedQuota.length > 0) {
+      for (const ballot of ballots) {
+        const choice = currentChoice(ballot);
+        if (choice && reachedQuota.includes(choice)) {
+          ballot.weight *= (votes[choice] - quota) / votes[choice];
+        }
+      }
+      reachedQuota.forEach(c => continuing.delete(c));
+      record.elected = reachedQuota;
+      outcome.winners.push(...reachedQuota);
+      continue;
+    }
+
+    // Nobody reached the quota: exclude the lowest candidate
+    const lowest = Math.min(...[...continuing].map(c => votes[c]));
+    const tied = [...continuing].filter(c => votes[c] === lowest);
+    const others = [...continuing].filter(c => votes[c] > lowest);
+    const nextLowest = others.length ? Math.min(...others.map(c => votes[c])) : Infinity;
+
+    let excluded: string[] | null = null;
+    if (tied.length === 1) {
+      excluded = tied;
+    } else if (others.length >= seatsLeft && lowest * tied.length < nextLowest) {
+      // Together the tied candidates cannot overtake anyone, so their order does not matter
+      excluded = tied;
+    } else {
+      const fromEarlierRounds = breakTieFromEarlierRounds(tied, outcome.rounds);
+      if (fromEarlierRounds) excluded = [fromEarlierRounds];
+    }
+
+    if (!excluded) {
+      // When excluding one candidate settles the remaining seats, the tie is really for those seats
+      const tie: TallyTie = continuing.size - 1 === seatsLeft
+        ? { kind: 'seat', round, candidates: tied, seats: tied.length - 1 }
+        : { kind: 'elimination', round, candidates: tied, seats: 1 };
+      if (!outcome.tie) outcome.tie = tie;
+      const chosen = breakTie ? breakTie(tie) : null;
+      if (!chosen) {
+        outcome.tieResolved = false;
+        break;
+      }
+      excluded = tie.kind === 'seat' ? tied.filter(c => !chosen.includes(c)) : chosen.slice(0, 1);
+    }
+
+    excluded.forEach(c => continuing.delete(c));
+    record.eliminated = excluded;
+  }
+
+  return outcome;
+};
+
+export const irvTally: TallyMethod = {
+  kind: 'irv',
+  ranked: true,
+  tally: (input, breakTie) => countTransferableVote('irv', input, breakTie),
+};
+
+export const stvTally: TallyMethod = {
+  kind: 'stv',
+  ranked: true,
+  tally: (input, breakTie) => countTransferableVote('stv', input, breakTie),
+};
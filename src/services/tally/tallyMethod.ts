@@ -0,0 +1,69 @@
+// --- Tally Method Contract ---
+// A tally method turns one post's ballots into winners. Methods are pure: they only see
+// blockchain candidate IDs and ballots, so the same engine counts live and final results.
+
+import { VotingMethod } from '../../types/index.d';
+
+export interface Ballot {
+  voterAddress: string;
+  choices: string[]; // Blockchain candidate IDs, in the order the voter cast them (preference order)
+}
+
+export interface TallyInput {
+  candidates: string[]; // Blockchain candidate IDs standing for the post
+  ballots: Ballot[];
+  seats: number;
+  maxChoices: number; // posts.max_votes_per_voter; later choices are ignored
+}
+
+export interface TallyRound {
+  round: number;
+  votes: Record<string, number>; // Continuing candidates' votes at the start of the round
+  quota: number | null; // Votes needed to be elected this round, for transferable-vote methods
+  elected: string[];
+  eliminated: string[];
+  exhausted: number; // Ballot weight with no continuing choice left
+}
+
+// Raised whenever the count cannot continue without choosing between candidates with equal votes.
+// 'seat': `seats` of `candidates` are to be elected. 'elimination': one of `candidates` is to be excluded.
+export interface TallyTie {
+  kind: 'seat' | 'elimination';
+  round: number;
+  candidates: string[];
+  seats: number;
+}
+
+/**
+ * Resolves a tie by returning the chosen candidates: the `tie.seats` winners for a seat tie,
+ * or the single candidate to exclude for an elimination tie. Returning null leaves the tie unresolved.
+ */
+export type TieBreaker = (tie: TallyTie) => string[] | null;
+
+export interface TallyOutcome {
+  method: VotingMethod;
+  seats: number;
+  validBallots: number;
+  winners: string[]; // In the order they were elected
+  tie: TallyTie | null; // The first tie hit during the count, whether or not it was broken
+  tieResolved: boolean; // False means the count stopped at `tie` and `winners` fills fewer than `seats`
+  rounds: TallyRound[];
+}
+
+export interface TallyMethod {
+  kind: VotingMethod;
+  ranked: boolean; // Whether the order of a voter's choices matters
+  tally(input: TallyInput, breakTie?: TieBreaker): TallyOutcome;
+}
+
+/**
+ * Drops unknown and repeated candidates and anything past `maxChoices`; returns null for empty ballots.
+ */
+export const normaliseChoices = (ballot: Ballot, candidates: Set<string>, maxChoices: number): string[] | null => {
+  const choices: string[] = [];
+  for (const choice of ballot.choices) {
+    if (choices.length >= maxChoices) break;
+    if (candidates.has(choice) && !choices.includes(choice)) choices.push(choice);
+  }
+  return choices.length > 0 ? choices : null;
+};
@@ -0,0 +1,127 @@
+import * as mysqlService from './mysqlService';
+import * as blockchainService from './blockchainService';
+import * as indexerService from './indexerService';
+import { VoteCastEvent } from './chain';
+import { Ballot, buildPostBallots, tallyPost, TallyOutcome, TieBreaker } from './tally';
+import { Election, Post, PostTallyRecord, VotingMethod } from '../types/index.d';
+
+export interface PostTally {
+  postId: number;
+  postName: string;
+  votingMethod: VotingMethod;
+  seats: number;
+  winnerCandidateIds: number[];
+  outcome: TallyOutcome;
+}
+
+/**
+ * Counts VoteCast events per blockchain candidate ID, to compare with the contract's vote counts.
+ */
+export const countEventsByCandidate = (events: VoteCastEvent[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  for (const event of events) {
+    counts[event.blockchainCandidateId] = (counts[event.blockchainCandidateId] || 0) + 1;
+  }
+  return counts;
+};
+
+/**
+ * Loads an election's VoteCast events in chain order. The indexer's copy is used unless it disagrees
+ * with `expectedCounts` (e.g. it has not caught up with the last votes), in which case the chain is scanned.
+ */
+const loadVoteEvents = async (election: Election, expectedCounts?: Record<string, number>): Promise<VoteCastEvent[]> => {
+  const contractAddress = election.blockchain_contract_address!;
+  const indexedEvents = await indexerService.getIndexedVoteEvents(contractAddress, election.id!);
+  if (indexedEvents) {
+    const indexedCounts = countEventsByCandidate(indexedEvents);
+    const isComplete = !expectedCounts ||
+      Object.entries(expectedCounts).every(([bcId, count]) => (indexedCounts[bcId] || 0) === count);
+    if (isComplete) return indexedEvents;
+  }
+  return blockchainService.getVoteCastEventsFromChain(contractAddress, election.id!);
+};
+
+export interface BallotLoadOptions {
+  expectedCounts?: Record<string, number>; // Per-candidate vote counts read from the contract, used to check the indexed events are complete
+  voterFilter?: (voterAddress: string) => boolean; // Only count ballots from matching voters, e.g. for demographic breakdowns
+}
+
+/**
+ * Loads an election's ballots from its VoteCast events, one per voter per post.
+ * @param {Election} election - The election (must have a contract address).
+ * @param {BallotLoadOptions} [options] - Completeness check and voter filter.
+ * @returns {Promise<Map<number, Ballot[]>>} Ballots keyed by post ID.
+ */
+export const loadElectionBallots = async (election: Election, options: BallotLoadOptions = {}): Promise<Map<number, Ballot[]>> => {
+  const events = await loadVoteEvents(election, options.expectedCounts);
+  const { voterFilter } = options;
+  return buildPostBallots(voterFilter ? events.filter(e => voterFilter(e.voterAddress.toLowerCase())) : events);
+};
+
+/**
+ * Counts every post of an election with its own voting method.
+ * @param {Election} election - The election to count.
+ * @param {Map<number, Ballot[]>} ballotsByPost - The election's ballots (see loadElectionBallots).
+ * @param {Function} [tieBreakerFor] - Returns the tie breaker for a post; without one a post's count stops at its first tie.
+ * @returns {Promise<PostTally[]>} One tally per post.
+ */
+export const tallyElection = async (
+  election: Election,
+  ballotsByPost: Map<number, Ballot[]>,
+  tieBreakerFor?: (post: Post) => TieBreaker | undefined
+): Promise<PostTally[]> => {
+  const posts = await mysqlService.getPostsByElectionId(election.id!);
+  const candidates = await mysqlService.getCandidatesByElectionId(election.id!);
+
+  return posts.map(post => {
+    const postCandidates = candidates.filter(c => c.post_id === post.id);
+    const outcome = tallyPost(post, postCandidates, ballotsByPost.get(post.id!) || [], tieBreakerFor?.(post));
+    return {
+      postId: post.id!,
+      postName: post.name,
+      votingMethod: outcome.method,
+      seats: outcome.seats,
+      winnerCandidateIds: outcome.winners
+        .map(bcId => postCandidates.find(c => c.blockchain_candidate_id === bcId)?.id)
+        .filter((id): id is number => id !== undefined),
+      outcome,
+    };
+  });
+};
+
+/**
+ * Stores final per-post tallies, replacing any from an earlier finalisation attempt.
+ */
+export const saveElectionTally = async (electionId: number, tallies: PostTally[]): Promise<void> => {
+  for (const tally of tallies) {
+    await mysqlService.savePostTally({
+      election_id: electionId,
+      post_id: tally.postId,
+      voting_method: tally.votingMethod,
+      seats: tally.seats,
+      valid_ballots: tally.outcome.validBallots,
+      winner_candidate_ids: tally.winnerCandidateIds,
+      outcome: tally.outcome,
+      has_tie: tally.outcome.tie !== null,
+    });
+  }
+};
+
+const parseJson = <T>(value: T | string): T => (typeof value === 'string' ? JSON.parse(value) : value);
+
+/**
+ * Returns the stored final tallies of an election.
+ * @returns {Promise<PostTally[]>} One tally per finalised post.
+ */
+export const getSavedElectionTally = async (electionId: number): Promise<PostTally[]> => {
+  const posts = await mysqlService.getPostsByElectionId(electionId);
+  const records: PostTallyRecord[] = await mysqlService.getPostTalliesByElectionId(electionId);
+  return records.map(record => ({
+    postId: record.post_id,
+    postName: posts.find(p => p.id === record.post_id)?.name || '',
+    votingMethod: record.voting_method,
+    seats: record.seats,
+    winnerCandidateIds: parseJson(record.winner_candidate_ids) as number[],
+    outcome: parseJson(record.outcome) as TallyOutcome,
+  }));
+};
@@ -0,0 +1,133 @@
+import { ethers } from 'ethers';
+import { TallyTie, TieBreaker } from './tally';
+import { PostTally } from './tallyService';
+import { Candidate, ElectionResultsDocument, Post, TiePolicy, TieResolution } from '../types/index.d';
+
+export const TIE_POLICIES: TiePolicy[] = ['declare_tie', 'lot', 'runoff'];
+
+export interface TieSeed {
+  seed: string;
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface LotDraw {
+  postId: number;
+  tie: TallyTie;
+  chosen: string[]; // Blockchain candidate IDs
+}
+
+/**
+ * Derives an election's lot-drawing seed from a block hash, so the draw can be recomputed by anyone
+ * from public chain data: seed = keccak256(blockHash, electionId).
+ * @param {number} electionId - The election whose ties are being drawn.
+ * @param {{ blockNumber: number; blockHash: string }} block - The block supplying the randomness.
+ * @returns {TieSeed} The seed and the block it came from.
+ */
+export const deriveTieSeed = (electionId: number, block: { blockNumber: number; blockHash: string }): TieSeed => ({
+  seed: ethers.solidityPackedKeccak256(['bytes32', 'uint256'], [block.blockHash, electionId]),
+  blockNumber: block.blockNumber,
+  blockHash: block.blockHash,
+});
+
+/**
+ * Draws lots between tied candidates: each is scored keccak256(seed, postId, round, blockchainCandidateId)
+ * and the lowest scores are chosen.
+ * @returns {string[]} The winners of a seat tie, or the single candidate to exclude for an elimination tie.
+ */
+export const drawLots = (seed: string, postId: number, tie: TallyTie): string[] => {
+  const score = (candidate: string) =>
+    ethers.solidityPackedKeccak256(['bytes32', 'uint256', 'uint256', 'string'], [seed, postId, tie.round, candidate]);
+  const order = [...tie.candidates].sort((a, b) => (score(a) < score(b) ? -1 : 1));
+  return order.slice(0, tie.kind === 'seat' ? tie.seats : 1);
+};
+
+/**
+ * Returns a per-post tie breaker for an election's tie policy. Every lot drawn is appended to `draws`.
+ *  - declare_tie: no breaker; counts stop at the tie and the seats stay undecided.
+ *  - lot: every tie is drawn by lot.
+ *  - runoff: seat ties are left for a runoff election; elimination ties inside a ranked count are drawn by lot.
+ */
+export const createTieBreakerFactory = (policy: TiePolicy, seed: TieSeed | null, draws: LotDraw[]) =>
+  (post: Post): TieBreaker | undefined => {
+    if (policy === 'declare_tie' || !seed) return undefined;
+    return tie => {
+      if (policy === 'runoff' && tie.kind === 'seat') return null;
+      const chosen = drawLots(seed.seed, post.id!, tie);
+      draws.push({ postId: post.id!, tie, chosen });
+      return chosen;
+    };
+  };
+
+/**
+ * Whether a count run without a seed stopped at a tie that the policy settles by lot, so the election
+ * has to wait for its seed block before results can be finalised.
+ */
+export const needsLots = (policy: TiePolicy, tallies: PostTally[]): boolean =>
+  policy !== 'declare_tie' &&
+  tallies.some(tally => tally.outcome.tie && (policy === 'lot' || tally.outcome.tie.kind === 'elimination'));
+
+const toCandidateIds = (blockchainCandidateIds: string[], candidates: Candidate[]): number[] =>
+  blockchainCandidateIds
+    .map(bcId => candidates.find(c => c.blockchain_candidate_id === bcId)?.id)
+    .filter((id): id is number => id !== undefined);
+
+/**
+ * Lists how every tie in an election's final count was handled, for the tie_resolutions table.
+ */
+export const buildTieResolutions = (
+  electionId: number,
+  policy: TiePolicy,
+  seed: TieSeed | null,
+  draws: LotDraw[],
+  tallies: PostTally[],
+  candidates: Candidate[],
+  runoffElectionId: number | null
+): Omit<TieResolution, 'id' | 'created_at'>[] => {
+  const lots = draws.map(draw => ({
+    election_id: electionId,
+    post_id: draw.postId,
+    policy: 'lot' as TiePolicy,
+    tie_kind: draw.tie.kind,
+    round: draw.tie.round,
+    tied_candidate_ids: toCandidateIds(draw.tie.candidates, candidates),
+    seats: draw.tie.seats,
+    selected_candidate_ids: toCandidateIds(draw.chosen, candidates),
+    seed: seed?.seed,
+    seed_block_number: seed?.blockNumber,
+    seed_block_hash: seed?.blockHash,
+  }));
+
+  const unresolved = tallies
+    .filter(tally => tally.outcome.tie && !tally.outcome.tieResolved)
+    .map(tally => ({
+      election_id: electionId,
+      post_id: tally.postId,
+      policy,
+      tie_kind: tally.outcome.tie!.kind,
+      round: tally.outcome.tie!.round,
+      tied_candidate_ids: toCandidateIds(tally.outcome.tie!.candidates, candidates),
+      seats: tally.outcome.tie!.seats,
+      runoff_election_id: policy === 'runoff' ? runoffElectionId : null,
+    }));
+
+  return [...lots, ...unresolved];
+};
+
+/**
+ * Records the tie policy, lot seed and runoff election on each tied post of a final results document.
+ */
+export const annotateDocumentTies = (
+  document: ElectionResultsDocument,
+  policy: TiePolicy,
+  seed: TieSeed | null,
+  draws: LotDraw[],
+  runoffElectionId: number | null
+): void => {
+  for (const post of document.posts) {
+    if (!post.tie) continue;
+    post.tie.policy = policy;
+    post.tie.seed = draws.some(draw => draw.postId === post.postId) ? seed?.seed ?? null : null;
+    post.tie.runoffElectionId = policy === 'runoff' && !post.tie.resolved ? runoffElectionId : null;
+  }
+};
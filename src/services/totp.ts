@@ -0,0 +1,107 @@
+// --- Time-Based One-Time Passwords (RFC 6238) ---
+// Generates and checks the six-digit codes of authenticator apps, and the otpauth:// URIs they scan
+// as QR codes. Secrets are base32 encoded (RFC 4648) as the apps expect. Storing secrets and
+// preventing replays is up to the caller (see twoFactorService).
+
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+const SECRET_BYTES = 20; // 160 bits, the HMAC-SHA1 block size recommended by RFC 4226
+
+export const base32Encode = (bytes: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+/**
+ * Decodes base32, ignoring case, spaces and padding as users may type them.
+ * @throws {Error} If the text contains other characters.
+ */
+export const base32Decode = (text: string): Buffer => {
+  const clean = text.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}".`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(SECRET_BYTES));
+
+/**
+ * The time step a moment falls in, counted in TOTP_PERIOD_SECONDS from the Unix epoch.
+ */
+export const totpStep = (time: number = Date.now()): number => Math.floor(time / 1000 / TOTP_PERIOD_SECONDS);
+
+/**
+ * Computes the code for a time step (HOTP, RFC 4226, with the step as the counter).
+ * @param {string} secret - The base32 secret.
+ * @param {number} step - The time step.
+ * @returns {string} The zero-padded code.
+ */
+export const totpCode = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Checks a code against the current time step and `window` steps either side, to allow for clock
+ * drift and slow typing.
+ * @param {string} secret - The base32 secret.
+ * @param {string} code - The code the user entered.
+ * @param {number} [window] - Steps accepted before and after the current one.
+ * @param {number} [time] - The current time in milliseconds.
+ * @returns {number | null} The time step the code belongs to, or null if it does not match.
+ */
+export const verifyTotp = (secret: string, code: string, window: number = 1, time: number = Date.now()): number | null => {
+  const given = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(given)) return null;
+  const current = totpStep(time);
+  let matched: number | null = null;
+  // Every step is compared, so the time taken does not reveal which one matched
+  for (let step = current - window; step <= current + window; step++) {
+    if (crypto.timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(given)) && matched === null) {
+      matched = step;
+    }
+  }
+  return matched;
+};
+
+/**
+ * Formats the otpauth:// URI authenticator apps read from a QR code.
+ * @param {{ issuer: string; account: string; secret: string }} params - The service name, the user's account name and the base32 secret.
+ * @returns {string} The provisioning URI.
+ */
+export const totpProvisioningUri = ({ issuer, account, secret }: { issuer: string; account: string; secret: string }): string => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  // Encoded with %20 rather than URLSearchParams' "+", which some apps show literally
+  const params = { secret, issuer, algorithm: 'SHA1', digits: String(TOTP_DIGITS), period: String(TOTP_PERIOD_SECONDS) };
+  const query = Object.entries(params).map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&');
+  return `otpauth://totp/${label}?${query}`;
+};
@@ -0,0 +1,242 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import pool from '../config/database';
+import * as mysqlService from './mysqlService';
+import { generatePurposeToken, verifyPurposeToken } from './authService';
+import { ADMIN_ROLES } from './accessControl';
+import { base32Encode, generateTotpSecret, totpProvisioningUri, verifyTotp } from './totp';
+import { AdminRole, User } from '../types/index.d';
+
+dotenv.config();
+
+// --- Configuration ---
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'VoteX'; // Name shown in authenticator apps
+// Roles that must use two-factor authentication, e.g. "super_admin,election_officer"; optional for everyone by default
+export const TWO_FACTOR_REQUIRED_ROLES = (process.env.TWO_FACTOR_REQUIRED_ROLES || '')
+  .split(',')
+  .map(role => role.trim())
+  .filter(Boolean) as AdminRole[];
+// 32-byte key, hex or base64, that TOTP secrets are encrypted with at rest
+const TWO_FACTOR_ENCRYPTION_KEY = process.env.TWO_FACTOR_ENCRYPTION_KEY || '';
+const TWO_FACTOR_PRE_AUTH_TTL_SECONDS = parseInt(process.env.TWO_FACTOR_PRE_AUTH_TTL_SECONDS || '300', 10);
+const TWO_FACTOR_MAX_ATTEMPTS = parseInt(process.env.TWO_FACTOR_MAX_ATTEMPTS || '5', 10); // Wrong codes before a lock
+const TWO_FACTOR_LOCK_MINUTES = parseInt(process.env.TWO_FACTOR_LOCK_MINUTES || '15', 10);
+const RECOVERY_CODE_COUNT = 10;
+
+const PRE_AUTH_PURPOSE = 'admin-2fa';
+
+const parseEncryptionKey = (value: string): Buffer | null => {
+  if (!value) return null;
+  const key = /^[0-9a-fA-F]{64}$/.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  return key.length === 32 ? key : null;
+};
+
+const encryptionKey = parseEncryptionKey(TWO_FACTOR_ENCRYPTION_KEY);
+
+for (const role of TWO_FACTOR_REQUIRED_ROLES) {
+  if (!ADMIN_ROLES.includes(role)) console.warn(`TWO_FACTOR_REQUIRED_ROLES: "${role}" is not an admin role and is ignored.`);
+}
+if (TWO_FACTOR_ENCRYPTION_KEY && !encryptionKey) {
+  console.error('TWO_FACTOR_ENCRYPTION_KEY must be 32 bytes, hex or base64 encoded. Two-factor authentication is unavailable.');
+} else if (!encryptionKey && TWO_FACTOR_REQUIRED_ROLES.length > 0) {
+  console.error('TWO_FACTOR_REQUIRED_ROLES is set but TWO_FACTOR_ENCRYPTION_KEY is not. Those roles cannot log in.');
+}
+
+export type TwoFactorFailure = { ok: false; status: number; error: string; code: string };
+
+export type TwoFactorSetupResult = { ok: true; secret: string; otpauthUri: string } | TwoFactorFailure;
+export type RecoveryCodesResult = { ok: true; recoveryCodes: string[] } | TwoFactorFailure;
+export type SecondFactorResult = { ok: true; method: 'totp' | 'recovery_code'; recoveryCodesLeft?: number } | TwoFactorFailure;
+
+const notConfigured: TwoFactorFailure = {
+  ok: false,
+  status: 503,
+  error: 'Two-factor authentication is not configured on this server.',
+  code: 'TWO_FACTOR_NOT_CONFIGURED',
+};
+
+// AES-256-GCM, stored as "v1.<iv>.<auth tag>.<ciphertext>" in base64url
+const encryptSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey!, iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return ['v1', iv, cipher.getAuthTag(), ciphertext].map(part => (typeof part === 'string' ? part : part.toString('base64url'))).join('.');
+};
+
+const decryptSecret = (stored: string): string => {
+  const [version, iv, tag, ciphertext] = stored.split('.');
+  if (version !== 'v1') throw new Error(`Unknown TOTP secret format "${version}".`);
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey!, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+};
+
+// Recovery codes are compared ignoring case, spaces and dashes
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(code.toUpperCase().replace(/[^A-Z0-9]/g, '')).digest('hex');
+
+const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => base32Encode(crypto.randomBytes(5)).replace(/^(.{4})/, '$1-'));
+
+export const isTwoFactorRequired = (role: string): boolean => TWO_FACTOR_REQUIRED_ROLES.includes(role as AdminRole);
+
+export const isTwoFactorEnabled = (user: User): boolean => !!user.totp_enabled_at;
+
+/**
+ * Issues the short-lived token a user holds between entering their password and their second factor.
+ * It is not a login token: it only works for completing the login and for setting up two-factor
+ * authentication.
+ * @param {User} user - The user who entered their password.
+ * @returns {{ preAuthToken: string; expiresAt: Date }} The token and when it expires.
+ */
+export const createPreAuthToken = (user: User): { preAuthToken: string; expiresAt: Date } => ({
+  preAuthToken: generatePurposeToken(PRE_AUTH_PURPOSE, String(user.id), crypto.randomUUID(), TWO_FACTOR_PRE_AUTH_TTL_SECONDS),
+  expiresAt: new Date(Date.now() + TWO_FACTOR_PRE_AUTH_TTL_SECONDS * 1000),
+});
+
+/**
+ * @param {string} token - A token from createPreAuthToken.
+ * @returns {{ userId: number; issuedAt: number } | null} The user it was issued to and when (seconds since the epoch), or null if it is invalid or expired.
+ */
+export const verifyPreAuthToken = (token: string): { userId: number; issuedAt: number } | null => {
+  const claims = verifyPurposeToken(token, PRE_AUTH_PURPOSE);
+  return claims ? { userId: parseInt(claims.subject), issuedAt: claims.issuedAt } : null;
+};
+
+/**
+ * Starts enrolling a user: generates a new TOTP secret for their authenticator app. It is only used
+ * for logins once enableTwoFactor confirms a code from the app; starting again replaces it.
+ * @param {User} user - The user, who must not have two-factor authentication enabled.
+ * @returns {Promise<TwoFactorSetupResult>} The base32 secret and the otpauth:// URI to show as a QR code.
+ */
+export const beginTwoFactorSetup = async (user: User): Promise<TwoFactorSetupResult> => {
+  if (!encryptionKey) return notConfigured;
+  if (isTwoFactorEnabled(user)) {
+    return { ok: false, status: 409, error: 'Two-factor authentication is already enabled. Disable it first to set up a new authenticator.', code: 'TWO_FACTOR_ALREADY_ENABLED' };
+  }
+  const secret = generateTotpSecret();
+  await mysqlService.updateUser(user.id!, { totp_secret: encryptSecret(secret), totp_last_used_step: null });
+  return { ok: true, secret, otpauthUri: totpProvisioningUri({ issuer: TWO_FACTOR_ISSUER, account: user.email, secret }) };
+};
+
+/**
+ * Checks a TOTP code, counting wrong ones towards the lock. A code is accepted once, and only if it is
+ * newer than the last accepted one.
+ */
+const checkTotpCode = async (user: User, code: unknown): Promise<TwoFactorFailure | null> => {
+  if (!encryptionKey) return notConfigured;
+  if (user.totp_locked_until && new Date(user.totp_locked_until) > new Date()) {
+    return { ok: false, status: 429, error: 'Too many wrong codes. Try again later.', code: 'TWO_FACTOR_LOCKED' };
+  }
+  const step = typeof code === 'string' || typeof code === 'number' ? verifyTotp(decryptSecret(user.totp_secret!), String(code)) : null;
+  if (step === null) {
+    await mysqlService.countTwoFactorFailure(user.id!, TWO_FACTOR_MAX_ATTEMPTS, TWO_FACTOR_LOCK_MINUTES * 60);
+    return { ok: false, status: 401, error: 'Invalid authentication code.', code: 'INVALID_TWO_FACTOR_CODE' };
+  }
+  if (!(await mysqlService.recordTotpUse(user.id!, step))) {
+    return { ok: false, status: 401, error: 'This code has already been used. Wait for the next one.', code: 'TWO_FACTOR_CODE_REUSED' };
+  }
+  return null;
+};
+
+/**
+ * Finishes enrolling a user with a code from their authenticator app, and issues their recovery codes.
+ * @param {User} user - The user, who must have started setup with beginTwoFactorSetup.
+ * @param {unknown} code - The current code from the app.
+ * @returns {Promise<RecoveryCodesResult>} The recovery codes, shown to the user only this once.
+ */
+export const enableTwoFactor = async (user: User, code: unknown): Promise<RecoveryCodesResult> => {
+  if (isTwoFactorEnabled(user)) {
+    return { ok: false, status: 409, error: 'Two-factor authentication is already enabled.', code: 'TWO_FACTOR_ALREADY_ENABLED' };
+  }
+  if (!user.totp_secret) {
+    return { ok: false, status: 409, error: 'Start two-factor setup first.', code: 'TWO_FACTOR_NOT_SET_UP' };
+  }
+  const failure = await checkTotpCode(user, code);
+  if (failure) return failure;
+
+  const recoveryCodes = generateRecoveryCodes();
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    await mysqlService.updateUser(user.id!, { totp_enabled_at: new Date() }, connection);
+    await mysqlService.replaceRecoveryCodes(user.id!, recoveryCodes.map(hashRecoveryCode), connection);
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+  return { ok: true, recoveryCodes };
+};
+
+/**
+ * Checks a user's second factor: a code from their authenticator app, or one of their recovery codes,
+ * which is used up. After TWO_FACTOR_MAX_ATTEMPTS wrong codes checks are refused for
+ * TWO_FACTOR_LOCK_MINUTES.
+ * @param {User} user - The user, who must have two-factor authentication enabled.
+ * @param {{ code?: unknown; recoveryCode?: unknown }} input - The code or recovery code they entered.
+ * @returns {Promise<SecondFactorResult>} Which factor was accepted, or why it was not.
+ */
+export const verifySecondFactor = async (user: User, input: { code?: unknown; recoveryCode?: unknown }): Promise<SecondFactorResult> => {
+  if (!isTwoFactorEnabled(user)) {
+    return { ok: false, status: 409, error: 'Two-factor authentication is not enabled.', code: 'TWO_FACTOR_NOT_ENABLED' };
+  }
+  if (input.recoveryCode === undefined || input.recoveryCode === null) {
+    const failure = await checkTotpCode(user, input.code);
+    return failure || { ok: true, method: 'totp' };
+  }
+
+  if (user.totp_locked_until && new Date(user.totp_locked_until) > new Date()) {
+    return { ok: false, status: 429, error: 'Too many wrong codes. Try again later.', code: 'TWO_FACTOR_LOCKED' };
+  }
+  if (typeof input.recoveryCode !== 'string' || !(await mysqlService.useRecoveryCode(user.id!, hashRecoveryCode(input.recoveryCode)))) {
+    await mysqlService.countTwoFactorFailure(user.id!, TWO_FACTOR_MAX_ATTEMPTS, TWO_FACTOR_LOCK_MINUTES * 60);
+    return { ok: false, status: 401, error: 'Invalid or already used recovery code.', code: 'INVALID_RECOVERY_CODE' };
+  }
+  await mysqlService.clearTwoFactorFailures(user.id!);
+  return { ok: true, method: 'recovery_code', recoveryCodesLeft: await mysqlService.countUnusedRecoveryCodes(user.id!) };
+};
+
+/**
+ * Replaces a user's recovery codes, after checking a code from their authenticator app.
+ * @param {User} user - The user, who must have two-factor authentication enabled.
+ * @param {unknown} code - The current code from the app.
+ * @returns {Promise<RecoveryCodesResult>} The new recovery codes; the old ones stop working.
+ */
+export const regenerateRecoveryCodes = async (user: User, code: unknown): Promise<RecoveryCodesResult> => {
+  if (!isTwoFactorEnabled(user)) {
+    return { ok: false, status: 409, error: 'Two-factor authentication is not enabled.', code: 'TWO_FACTOR_NOT_ENABLED' };
+  }
+  const failure = await checkTotpCode(user, code);
+  if (failure) return failure;
+  const recoveryCodes = generateRecoveryCodes();
+  await mysqlService.replaceRecoveryCodes(user.id!, recoveryCodes.map(hashRecoveryCode));
+  return { ok: true, recoveryCodes };
+};
+
+/**
+ * Turns off two-factor authentication for a user and deletes their secret and recovery codes.
+ * @param {number} userId - The user.
+ */
+export const disableTwoFactor = async (userId: number): Promise<void> => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    await mysqlService.updateUser(userId, {
+      totp_secret: null,
+      totp_enabled_at: null,
+      totp_last_used_step: null,
+      totp_failed_attempts: 0,
+      totp_locked_until: null,
+    }, connection);
+    await mysqlService.replaceRecoveryCodes(userId, [], connection);
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
@@ -0,0 +1,24 @@
+import pool from '../config/database';
+import * as mysqlService from './mysqlService';
+import { VoteLog } from '../types/index.d';
+
+/**
+ * Records a vote confirmed on chain: its vote log and the voter's receipt are written in one
+ * transaction, so a vote is never logged without a receipt or the other way round.
+ * @param {Omit<VoteLog, 'id' | 'timestamp'>} vote - The vote and its transaction hash.
+ * @throws {Error} With code ER_DUP_ENTRY if the transaction hash was recorded meanwhile.
+ */
+export const recordVote = async (vote: Omit<VoteLog, 'id' | 'timestamp'>): Promise<void> => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    await mysqlService.createVoteLog(vote, connection);
+    await mysqlService.createVoterReceipt(vote, connection);
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
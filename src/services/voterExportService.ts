@@ -0,0 +1,246 @@
+import { Writable } from 'stream';
+import PDFDocument from 'pdfkit';
+import * as mysqlService from './mysqlService';
+import { formatCsvRow } from './csv';
+import { VOTER_ACCOUNT_STATUSES, VOTER_GENDERS, VOTER_REGISTRATION_STATUSES } from './voterValidation';
+import { Voter, VoterAccountStatus } from '../types/index.d';
+
+export type VoterExportFormat = 'csv' | 'ndjson' | 'pdf';
+
+export const VOTER_EXPORT_CONTENT_TYPES: Record<VoterExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+// The only voter fields that can leave the system; anything added later stays out unless listed here
+export const VOTER_EXPORT_FIELDS: (keyof Voter)[] = [
+  'id',
+  'email',
+  'name',
+  'age',
+  'gender',
+  'national_id_number',
+  'wallet_address',
+  'is_eligible_on_chain',
+  'registration_status',
+  'account_status',
+  'created_at',
+];
+
+const PAGE_SIZE = 1000; // Voters read from MySQL per query
+
+export interface VoterExportOptions {
+  format: VoterExportFormat;
+  filters: mysqlService.VoterRollFilters;
+  fields: (keyof Voter)[]; // Columns for CSV and NDJSON; the PDF register has a fixed layout
+}
+
+const toList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [])
+    .map(item => String(item).trim())
+    .filter(Boolean);
+
+/**
+ * Reads the export format, filters and fields from a request query:
+ * format, registrationStatus and accountStatus (comma separated; accountStatus defaults to active), isEligibleOnChain,
+ * gender, ageRange ("18-25" or "65+") and fields.
+ * @returns {{ ok: true; options: VoterExportOptions } | { ok: false; error: string }} The options, or what is invalid.
+ */
+export const parseVoterExportQuery = (
+  query: Record<string, unknown>
+): { ok: true; options: VoterExportOptions } | { ok: false; error: string } => {
+  const format = (query.format || 'csv') as VoterExportFormat;
+  if (typeof format !== 'string' || !Object.hasOwn(VOTER_EXPORT_CONTENT_TYPES, format)) {
+    return { ok: false, error: `Invalid format. Must be one of: ${Object.keys(VOTER_EXPORT_CONTENT_TYPES).join(', ')}.` };
+  }
+
+  const filters: mysqlService.VoterRollFilters = {};
+  const statuses = toList(query.registrationStatus);
+  const unknownStatus = statuses.find(status => !VOTER_REGISTRATION_STATUSES.includes(status as Voter['registration_status']));
+  if (unknownStatus) {
+    return { ok: false, error: `Invalid registrationStatus "${unknownStatus}". Must be one of: ${VOTER_REGISTRATION_STATUSES.join(', ')}.` };
+  }
+  if (statuses.length > 0) filters.registrationStatuses = statuses as Voter['registration_status'][];
+
+  // Suspended, deactivated and erased voters are left off the roll unless asked for
+  const accountStatuses = query.accountStatus === undefined ? ['active'] : toList(query.accountStatus);
+  const unknownAccountStatus = accountStatuses.find(status => !VOTER_ACCOUNT_STATUSES.includes(status as VoterAccountStatus));
+  if (unknownAccountStatus) {
+    return { ok: false, error: `Invalid accountStatus "${unknownAccountStatus}". Must be one of: ${VOTER_ACCOUNT_STATUSES.join(', ')}.` };
+  }
+  if (accountStatuses.length > 0) filters.accountStatuses = accountStatuses as VoterAccountStatus[];
+
+  if (query.isEligibleOnChain !== undefined) {
+    if (query.isEligibleOnChain !== 'true' && query.isEligibleOnChain !== 'false') {
+      return { ok: false, error: 'isEligibleOnChain must be true or false.' };
+    }
+    filters.isEligibleOnChain = query.isEligibleOnChain === 'true';
+  }
+
+  if (query.gender !== undefined) {
+    if (!VOTER_GENDERS.includes(query.gender as Voter['gender'])) {
+      return { ok: false, error: `Invalid gender. Must be one of: ${VOTER_GENDERS.join(', ')}.` };
+    }
+    filters.gender = query.gender as Voter['gender'];
+  }
+
+  if (query.ageRange !== undefined) {
+    const band = /^(\d+)(?:-(\d+)|\+)$/.exec(String(query.ageRange));
+    if (!band || (band[2] !== undefined && parseInt(band[2]) < parseInt(band[1]))) {
+      return { ok: false, error: 'ageRange must look like "18-25" or "65+".' };
+    }
+    filters.minAge = parseInt(band[1]);
+    if (band[2] !== undefined) filters.maxAge = parseInt(band[2]);
+  }
+
+  const fields = toList(query.fields);
+  const unknownField = fields.find(field => !VOTER_EXPORT_FIELDS.includes(field as keyof Voter));
+  if (unknownField) {
+    return { ok: false, error: `Field "${unknownField}" cannot be exported. Exportable fields: ${VOTER_EXPORT_FIELDS.join(', ')}.` };
+  }
+
+  return {
+    ok: true,
+    options: { format, filters, fields: fields.length > 0 ? (fields as (keyof Voter)[]) : VOTER_EXPORT_FIELDS },
+  };
+};
+
+/**
+ * Writes to a stream, waiting for it to drain when its buffer is full.
+ */
+const write = (out: Writable, chunk: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (out.destroyed) return reject(new Error('Export stream closed by the client.'));
+    if (out.write(chunk)) return resolve();
+    out.once('drain', resolve);
+  });
+
+/**
+ * Calls `onPage` with each page of voters matching the filters, in name order.
+ */
+const forEachVoterPage = async (
+  filters: mysqlService.VoterRollFilters,
+  onPage: (voters: Voter[], offset: number) => Promise<void>
+): Promise<number> => {
+  let after: { name: string; id: number } | null = null;
+  let count = 0;
+  for (;;) {
+    const voters = await mysqlService.getVoterRollPage(filters, after, PAGE_SIZE);
+    if (voters.length === 0) break;
+    await onPage(voters, count);
+    count += voters.length;
+    if (voters.length < PAGE_SIZE) break;
+    const last = voters[voters.length - 1];
+    after = { name: last.name, id: last.id! };
+  }
+  return count;
+};
+
+// MySQL returns BOOLEAN columns as 0/1
+const exportValue = (voter: Voter, field: keyof Voter) =>
+  field === 'is_eligible_on_chain' ? Boolean(voter[field]) : voter[field] ?? null;
+
+const pick = (voter: Voter, fields: (keyof Voter)[]) =>
+  Object.fromEntries(fields.map(field => [field, exportValue(voter, field)]));
+
+const describeFilters = (filters: mysqlService.VoterRollFilters): string => {
+  const parts = [
+    filters.registrationStatuses && `status ${filters.registrationStatuses.join(' or ')}`,
+    filters.accountStatuses && `account ${filters.accountStatuses.join(' or ')}`,
+    filters.isEligibleOnChain !== undefined && (filters.isEligibleOnChain ? 'eligible on chain' : 'not eligible on chain'),
+    filters.gender,
+    filters.minAge !== undefined && (filters.maxAge !== undefined ? `aged ${filters.minAge}-${filters.maxAge}` : `aged ${filters.minAge}+`),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'All voters';
+};
+
+// --- Printable register (A4 landscape) ---
+const PDF_MARGIN = 36;
+const PDF_ROW_HEIGHT = 22;
+const PDF_COLUMNS: { title: string; width: number; value: (voter: Voter, index: number) => string }[] = [
+  { title: 'No.', width: 40, value: (_, index) => String(index + 1) },
+  { title: 'Name', width: 190, value: voter => voter.name },
+  { title: 'National ID', width: 120, value: voter => voter.national_id_number || '' },
+  { title: 'Age', width: 40, value: voter => (voter.age !== null && voter.age !== undefined ? String(voter.age) : '') },
+  { title: 'Gender', width: 60, value: voter => voter.gender || '' },
+  { title: 'Status', width: 130, value: voter => voter.registration_status.replace(/_/g, ' ') },
+  { title: 'Signature', width: 189, value: () => '' },
+];
+
+const streamPdfRegister = async (out: Writable, filters: mysqlService.VoterRollFilters): Promise<number> => {
+  const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: PDF_MARGIN });
+  doc.pipe(out);
+  const generatedAt = new Date().toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+  let page = 0;
+  let y = 0;
+
+  const startPage = () => {
+    if (page > 0) doc.addPage();
+    page++;
+    doc.font('Helvetica-Bold').fontSize(14).text('Voter Register', PDF_MARGIN, PDF_MARGIN);
+    doc.font('Helvetica').fontSize(9)
+      .text(`${describeFilters(filters)}. Generated ${generatedAt}. Page ${page}.`, PDF_MARGIN, PDF_MARGIN + 20);
+    y = PDF_MARGIN + 44;
+    let x = PDF_MARGIN;
+    doc.font('Helvetica-Bold');
+    for (const column of PDF_COLUMNS) {
+      doc.text(column.title, x + 3, y + 7, { width: column.width - 6, lineBreak: false });
+      x += column.width;
+    }
+    doc.moveTo(PDF_MARGIN, y + PDF_ROW_HEIGHT).lineTo(x, y + PDF_ROW_HEIGHT).stroke();
+    doc.font('Helvetica');
+    y += PDF_ROW_HEIGHT;
+  };
+
+  const count = await forEachVoterPage(filters, async (voters, offset) => {
+    voters.forEach((voter, i) => {
+      if (page === 0 || y + PDF_ROW_HEIGHT > doc.page.height - PDF_MARGIN) startPage();
+      let x = PDF_MARGIN;
+      for (const column of PDF_COLUMNS) {
+        doc.text(column.value(voter, offset + i), x + 3, y + 7, { width: column.width - 6, height: PDF_ROW_HEIGHT - 8, ellipsis: true, lineBreak: false });
+        x += column.width;
+      }
+      doc.rect(PDF_MARGIN, y, x - PDF_MARGIN, PDF_ROW_HEIGHT).stroke();
+      y += PDF_ROW_HEIGHT;
+    });
+    // Let the PDF stream flush to the client before reading the next page of voters
+    await new Promise(resolve => setImmediate(resolve));
+    if (out.destroyed) throw new Error('Export stream closed by the client.');
+  });
+
+  if (page === 0) {
+    startPage();
+    doc.text('No voters match these filters.', PDF_MARGIN, y + 8);
+  }
+  doc.end();
+  return count;
+};
+
+/**
+ * Streams the voter roll matching the filters to `out` as CSV (with a header row), NDJSON (one voter
+ * per line) or a printable PDF register for polling stations. Only VOTER_EXPORT_FIELDS are ever written.
+ * @param {Writable} out - Where to write the export, typically the HTTP response.
+ * @param {VoterExportOptions} options - Format, filters and fields.
+ * @returns {Promise<number>} The number of voters exported.
+ */
+export const streamVoterExport = async (out: Writable, options: VoterExportOptions): Promise<number> => {
+  const { format, filters, fields } = options;
+  if (format === 'pdf') {
+    return streamPdfRegister(out, filters);
+  }
+
+  if (format === 'csv') {
+    await write(out, formatCsvRow(fields));
+  }
+  const count = await forEachVoterPage(filters, async voters => {
+    const chunk = voters
+      .map(voter => (format === 'csv'
+        ? formatCsvRow(fields.map(field => exportValue(voter, field)))
+        : JSON.stringify(pick(voter, fields)) + '\n'))
+      .join('');
+    await write(out, chunk);
+  });
+  out.end();
+  return count;
+};
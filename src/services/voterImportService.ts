@@ -0,0 +1,333 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import os from 'os';
+import pool from '../config/database';
+import * as mysqlService from './mysqlService';
+import * as emailVerificationService from './emailVerificationService';
+import { formatCsvRow, parseCsv } from './csv';
+import { NewVoter, validateNewVoter } from './voterValidation';
+import { VoterImportJob, VoterImportRowError } from '../types/index.d';
+
+dotenv.config();
+
+// --- Configuration ---
+export const VOTER_IMPORT_MAX_BYTES = parseInt(process.env.VOTER_IMPORT_MAX_BYTES || String(5 * 1024 * 1024), 10);
+const VOTER_IMPORT_MAX_ROWS = parseInt(process.env.VOTER_IMPORT_MAX_ROWS || '50000', 10);
+const VOTER_IMPORT_BATCH_SIZE = parseInt(process.env.VOTER_IMPORT_BATCH_SIZE || '500', 10); // Rows per transaction
+const VOTER_IMPORT_EMAILS_PER_MINUTE = parseInt(process.env.VOTER_IMPORT_EMAILS_PER_MINUTE || '60', 10); // Verification emails sent to imported voters
+const VOTER_IMPORT_HEARTBEAT_SECONDS = parseInt(process.env.VOTER_IMPORT_HEARTBEAT_SECONDS || '30', 10);
+// A processing job whose heartbeat is older than this has lost the process running it
+const VOTER_IMPORT_STALE_AFTER_SECONDS = VOTER_IMPORT_HEARTBEAT_SECONDS * 4;
+
+// Names this process in locked_by of the imports it runs
+const INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+let staleCheckTimer: NodeJS.Timeout | null = null;
+
+// CSV columns, matched case-insensitively against the header row
+const REQUIRED_COLUMNS = ['email', 'name', 'age', 'gender'];
+const OPTIONAL_COLUMNS = ['national_id_number'];
+
+interface ImportRow {
+  row: number;
+  voter: NewVoter;
+}
+
+// Set once the job was failed as stale by another check, e.g. after the database was unreachable for a while
+interface ImportLease {
+  lost: boolean;
+}
+
+export type VoterImportResult =
+  | { ok: true; job: VoterImportJob }
+  | { ok: false; status: number; error: string };
+
+const rowError = (row: number, email: string | null, field: string | null, message: string): VoterImportRowError =>
+  ({ row, email: email || null, field, message });
+
+/**
+ * Validates every row of a voter roll: the same field rules as single registration, plus email and
+ * national ID uniqueness within the file and against voters already registered.
+ */
+const validateRoll = async (records: string[][]): Promise<{ rows: ImportRow[]; errors: VoterImportRowError[] } | { error: string }> => {
+  const header = records[0].map(column => column.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    return { error: `CSV header is missing required column(s): ${missing.join(', ')}. Expected ${[...REQUIRED_COLUMNS, ...OPTIONAL_COLUMNS].join(', ')}.` };
+  }
+  const column = (record: string[], name: string) => {
+    const index = header.indexOf(name);
+    return index >= 0 ? record[index] : undefined;
+  };
+
+  const rows: ImportRow[] = [];
+  const errors: VoterImportRowError[] = [];
+  const emailsSeen = new Map<string, number>();
+  const nationalIdsSeen = new Map<string, number>();
+
+  records.slice(1).forEach((record, index) => {
+    const row = index + 2;
+    const email = column(record, 'email')?.trim() || null;
+    if (record.length !== header.length) {
+      errors.push(rowError(row, email, null, `Row has ${record.length} fields but the header has ${header.length}.`));
+      return;
+    }
+
+    const { voter, errors: fieldErrors } = validateNewVoter({
+      email: column(record, 'email'),
+      name: column(record, 'name'),
+      age: column(record, 'age'),
+      gender: column(record, 'gender'),
+      nationalIdNumber: column(record, 'national_id_number'),
+    });
+    if (!voter) {
+      fieldErrors.forEach(e => errors.push(rowError(row, email, e.field, e.message)));
+      return;
+    }
+
+    const emailKey = voter.email.toLowerCase();
+    const nationalIdKey = voter.national_id_number?.toLowerCase();
+    if (emailsSeen.has(emailKey)) {
+      errors.push(rowError(row, voter.email, 'email', `Email is repeated from row ${emailsSeen.get(emailKey)}.`));
+      return;
+    }
+    if (nationalIdKey && nationalIdsSeen.has(nationalIdKey)) {
+      errors.push(rowError(row, voter.email, 'national_id_number', `National ID number is repeated from row ${nationalIdsSeen.get(nationalIdKey)}.`));
+      return;
+    }
+    emailsSeen.set(emailKey, row);
+    if (nationalIdKey) nationalIdsSeen.set(nationalIdKey, row);
+    rows.push({ row, voter });
+  });
+
+  const registered = await mysqlService.findRegisteredVoterIdentifiers(
+    rows.map(r => r.voter.email),
+    rows.map(r => r.voter.national_id_number).filter((nin): nin is string => Boolean(nin))
+  );
+  const unregistered = rows.filter(({ row, voter }) => {
+    if (registered.emails.has(voter.email.toLowerCase())) {
+      errors.push(rowError(row, voter.email, 'email', 'Voter with this email already registered.'));
+      return false;
+    }
+    if (voter.national_id_number && registered.nationalIdNumbers.has(voter.national_id_number.toLowerCase())) {
+      errors.push(rowError(row, voter.email, 'national_id_number', 'Voter with this national ID number already registered.'));
+      return false;
+    }
+    return true;
+  });
+
+  errors.sort((a, b) => a.row - b.row);
+  return { rows: unregistered, errors };
+};
+
+/**
+ * Inserts a batch of voters in one transaction. If the batch fails (e.g. a voter with the same email
+ * was registered since validation) it is retried row by row so only the offending rows are rejected.
+ */
+const importBatch = async (batch: ImportRow[]): Promise<{ voterIds: number[]; errors: VoterImportRowError[] }> => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const voterIds: number[] = [];
+    for (const { voter } of batch) {
+      voterIds.push(await mysqlService.createVoter(voter, connection));
+    }
+    await connection.commit();
+    return { voterIds, errors: [] };
+  } catch (error) {
+    await connection.rollback();
+    console.warn('Voter import batch failed, retrying row by row:', (error as Error).message);
+  } finally {
+    connection.release();
+  }
+
+  const voterIds: number[] = [];
+  const errors: VoterImportRowError[] = [];
+  for (const { row, voter } of batch) {
+    try {
+      voterIds.push(await mysqlService.createVoter(voter));
+    } catch (error) {
+      const message = mysqlService.isDuplicateEntryError(error)
+        ? 'Voter with this email or national ID number already registered.'
+        : (error as Error).message;
+      errors.push(rowError(row, voter.email, null, message));
+    }
+  }
+  return { voterIds, errors };
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Sends the imported voters their verification emails, at most VOTER_IMPORT_EMAILS_PER_MINUTE, so a
+ * large roll does not flood the mail provider. Voters that could not be sent one are counted on the
+ * job; they can request the email again themselves or be sent it by an admin.
+ */
+const sendVerificationEmails = async (jobId: number, voterIds: number[], lease: ImportLease): Promise<void> => {
+  const interval = 60_000 / VOTER_IMPORT_EMAILS_PER_MINUTE;
+  let sent = 0;
+  let failed = 0;
+  for (const [index, voterId] of voterIds.entries()) {
+    if (index > 0) await sleep(interval);
+    if (lease.lost) return;
+    try {
+      const voter = await mysqlService.getVoterById(voterId);
+      // Voters verified, suspended or erased since the import are skipped without counting as failed
+      const result = voter ? await emailVerificationService.sendEmailVerification(voter) : null;
+      if (result?.ok) {
+        sent++;
+      } else if (result && result.code !== 'EMAIL_ALREADY_VERIFIED' && result.code !== 'VOTER_NOT_ACTIVE') {
+        console.warn(`Voter import ${jobId}: verification email not sent to voter ${voterId}: ${result.error}`);
+        failed++;
+      }
+    } catch (error) {
+      console.error(`Voter import ${jobId}: failed to send verification email to voter ${voterId}:`, error);
+      failed++;
+    }
+    await mysqlService.updateVoterImportJob(jobId, { verification_emails_sent: sent, verification_emails_failed: failed });
+  }
+};
+
+/**
+ * Registers the validated rows in batches, recording progress on the job after each batch, then
+ * emails the registered voters their verification links. The job completes once all were sent.
+ * Its heartbeat is refreshed every VOTER_IMPORT_HEARTBEAT_SECONDS meanwhile; if the job turns out to
+ * have been failed as stale, the import stops and leaves the job as it is.
+ */
+const runImport = async (jobId: number, rows: ImportRow[], validationErrors: VoterImportRowError[]): Promise<void> => {
+  const errors = [...validationErrors];
+  const voterIds: number[] = [];
+  let processed = 0;
+  const lease: ImportLease = { lost: false };
+  const heartbeat = setInterval(() => {
+    mysqlService.touchVoterImportJob(jobId, INSTANCE_ID)
+      .then(held => { if (!held) lease.lost = true; })
+      .catch(error => console.warn(`Voter import ${jobId}: heartbeat failed:`, (error as Error).message));
+  }, VOTER_IMPORT_HEARTBEAT_SECONDS * 1000);
+  try {
+    for (let i = 0; i < rows.length && !lease.lost; i += VOTER_IMPORT_BATCH_SIZE) {
+      const batch = rows.slice(i, i + VOTER_IMPORT_BATCH_SIZE);
+      const result = await importBatch(batch);
+      processed += batch.length;
+      voterIds.push(...result.voterIds);
+      errors.push(...result.errors);
+      const progress: Partial<VoterImportJob> = { processed_rows: processed, imported_rows: voterIds.length, failed_rows: errors.length };
+      if (result.errors.length > 0) progress.errors = errors;
+      await mysqlService.updateVoterImportJob(jobId, progress);
+    }
+    const imported = voterIds.length;
+    if (!lease.lost) await sendVerificationEmails(jobId, voterIds, lease);
+    if (lease.lost) {
+      console.warn(`Voter import ${jobId} stopped: the job was marked failed after its heartbeat went stale.`);
+      return;
+    }
+    await mysqlService.updateVoterImportJob(jobId, { status: 'completed', completed_at: new Date() });
+    console.log(`Voter import ${jobId} completed: ${imported} registered, ${errors.length} rejected.`);
+  } catch (error) {
+    console.error(`Voter import ${jobId} failed:`, error);
+    await mysqlService.updateVoterImportJob(jobId, {
+      status: 'failed',
+      failure_reason: (error as Error).message,
+      completed_at: new Date(),
+    }).catch(() => undefined);
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
+
+/**
+ * Marks processing imports as failed once their heartbeat is older than VOTER_IMPORT_STALE_AFTER_SECONDS,
+ * i.e. the process running them stopped (a restart or crash of any API instance). Imports still
+ * running elsewhere keep their heartbeat fresh and are left alone.
+ * @returns {Promise<number>} How many imports were marked failed.
+ */
+export const failStaleVoterImports = async (): Promise<number> => {
+  const count = await mysqlService.failStaleVoterImports(VOTER_IMPORT_STALE_AFTER_SECONDS);
+  if (count > 0) console.warn(`Marked ${count} interrupted voter import(s) as failed.`);
+  return count;
+};
+
+/**
+ * Checks for stale imports now and then every VOTER_IMPORT_HEARTBEAT_SECONDS in the background.
+ * Safe to call on every API instance.
+ */
+export const startStaleVoterImportCheck = (): void => {
+  if (staleCheckTimer) return;
+  const tick = () => {
+    failStaleVoterImports().catch(error => console.error('Failed to check for interrupted voter imports:', error));
+  };
+  staleCheckTimer = setInterval(tick, VOTER_IMPORT_HEARTBEAT_SECONDS * 1000);
+  tick();
+};
+
+export const stopStaleVoterImportCheck = (): void => {
+  if (staleCheckTimer) {
+    clearInterval(staleCheckTimer);
+    staleCheckTimer = null;
+  }
+};
+
+/**
+ * Validates a CSV voter roll (columns email, name, age, gender and optionally national_id_number) and,
+ * unless it is a dry run, registers the valid rows in the background. Either way an import job is
+ * recorded with the per-row errors; poll it for progress.
+ * @param {string} csvText - The CSV file contents.
+ * @param {{ dryRun: boolean; fileName?: string; createdBy?: number }} options - Whether to only validate, and job details.
+ * @returns {Promise<VoterImportResult>} The job, or why the file could not be read at all.
+ */
+export const startVoterImport = async (
+  csvText: string,
+  options: { dryRun: boolean; fileName?: string; createdBy?: number }
+): Promise<VoterImportResult> => {
+  let records: string[][];
+  try {
+    records = parseCsv(csvText);
+  } catch (error) {
+    return { ok: false, status: 400, error: `Invalid CSV: ${(error as Error).message}` };
+  }
+  if (records.length < 2) {
+    return { ok: false, status: 400, error: 'CSV must have a header row and at least one voter.' };
+  }
+  if (records.length - 1 > VOTER_IMPORT_MAX_ROWS) {
+    return { ok: false, status: 413, error: `CSV has ${records.length - 1} voters; at most ${VOTER_IMPORT_MAX_ROWS} can be imported at once.` };
+  }
+
+  const validation = await validateRoll(records);
+  if ('error' in validation) {
+    return { ok: false, status: 400, error: validation.error };
+  }
+  const { rows, errors } = validation;
+
+  const job: Omit<VoterImportJob, 'id' | 'created_at' | 'updated_at' | 'completed_at'> = {
+    file_name: options.fileName ?? null,
+    dry_run: options.dryRun,
+    status: options.dryRun ? 'completed' : 'processing',
+    total_rows: records.length - 1,
+    valid_rows: rows.length,
+    processed_rows: 0,
+    imported_rows: 0,
+    failed_rows: errors.length,
+    verification_emails_sent: 0,
+    verification_emails_failed: 0,
+    errors,
+    created_by: options.createdBy ?? null,
+    locked_by: options.dryRun ? null : INSTANCE_ID,
+  };
+  const jobId = await mysqlService.createVoterImportJob(job);
+
+  if (!options.dryRun) {
+    void runImport(jobId, rows, errors);
+  }
+  return { ok: true, job: { id: jobId, ...job } };
+};
+
+/**
+ * Formats an import job's row errors as a CSV file.
+ * @param {VoterImportJob} job - The import job.
+ * @returns {string} CSV with columns row, email, field, error.
+ */
+export const formatImportErrorsCsv = (job: VoterImportJob): string => {
+  const errors: VoterImportRowError[] = typeof job.errors === 'string' ? JSON.parse(job.errors) : job.errors || [];
+  return formatCsvRow(['row', 'email', 'field', 'error']) +
+    errors.map(e => formatCsvRow([e.row, e.email, e.field, e.message])).join('');
+};
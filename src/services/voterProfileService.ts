@@ -0,0 +1,257 @@
+import pool from '../config/database';
+import * as mysqlService from './mysqlService';
+import * as blockchainService from './blockchainService';
+import { sendWhitelistChange } from './walletBindingService';
+import { validateNewVoter } from './voterValidation';
+import { Voter, VoterAccountStatus, VoterChange } from '../types/index.d';
+
+export type VoterChangeResult =
+  | { ok: true; voter: Voter; change: VoterChange | null }
+  | { ok: false; status: number; error: string; code?: string };
+
+// Fields an admin can correct; the wallet is linked by the voter and the statuses follow registration
+const EDITABLE_FIELDS = ['email', 'name', 'age', 'gender', 'national_id_number'] as const;
+
+// Personal data removed on erasure. Age, gender and the wallet address are kept: on their own they do
+// not identify the voter, and they keep vote logs, receipts and demographic results consistent.
+const ERASED_FIELDS = ['email', 'name', 'national_id_number'] as const;
+const ERASED_VALUE = '[erased]';
+
+// Status an admin action moves the voter to, and the statuses it can be taken from
+const STATUS_ACTIONS: Record<'suspend' | 'deactivate' | 'reactivate', { to: VoterAccountStatus; from: VoterAccountStatus[] }> = {
+  suspend: { to: 'suspended', from: ['active'] },
+  deactivate: { to: 'deactivated', from: ['active', 'suspended'] },
+  reactivate: { to: 'active', from: ['suspended', 'deactivated'] },
+};
+
+export type VoterStatusAction = keyof typeof STATUS_ACTIONS;
+export const VOTER_STATUS_ACTIONS = Object.keys(STATUS_ACTIONS) as VoterStatusAction[];
+
+const sameValue = (a: unknown, b: unknown) => (a ?? null) === (b ?? null);
+
+/**
+ * Adds the voter's wallet to the contract's global whitelist or removes it. Votes are counted from the
+ * chain, and a whitelisted wallet can call castVote directly, so only active voters stay whitelisted.
+ * Sent by changeVoter before it locks the voter row: if saving fails the action is retried, and a
+ * wallet already in the wanted state is skipped.
+ * @returns {Promise<Partial<Voter>>} The eligibility updates to save with the change.
+ */
+const setWalletWhitelisted = async (voter: Voter, whitelisted: boolean, systemContractAddress: string): Promise<Partial<Voter>> => {
+  if (!voter.wallet_address) return {};
+  const wallet = voter.wallet_address.toLowerCase();
+  if (whitelisted) {
+    await sendWhitelistChange(
+      () => blockchainService.globalWhitelistVoterOnChain(systemContractAddress, wallet),
+      'AlreadyGloballyWhitelisted'
+    );
+    return { is_eligible_on_chain: true, registration_status: 'eligible_on_chain' };
+  }
+  await sendWhitelistChange(
+    () => blockchainService.removeVoterFromGlobalWhitelistOnChain(systemContractAddress, wallet),
+    'NotGloballyWhitelisted'
+  );
+  return { is_eligible_on_chain: false };
+};
+
+// Before/after log entries for the eligibility updates of setWalletWhitelisted
+const loggedEligibility = (voter: Voter, updates: Partial<Voter>) => {
+  const logged: Record<string, { before: unknown; after: unknown }> = {};
+  if (updates.is_eligible_on_chain !== undefined && !sameValue(!!voter.is_eligible_on_chain, updates.is_eligible_on_chain)) {
+    logged.is_eligible_on_chain = { before: !!voter.is_eligible_on_chain, after: updates.is_eligible_on_chain };
+  }
+  if (updates.registration_status !== undefined && !sameValue(voter.registration_status, updates.registration_status)) {
+    logged.registration_status = { before: voter.registration_status, after: updates.registration_status };
+  }
+  return logged;
+};
+
+type VoterUpdate =
+  | {
+      updates: Partial<Voter>;
+      logged: Record<string, { before: unknown; after: unknown }>;
+      whitelist?: { whitelisted: boolean; systemContractAddress: string }; // Wallet whitelist state to set on chain
+    }
+  | Extract<VoterChangeResult, { ok: false }>;
+
+const checkChangeable = (voter: Voter | null): Extract<VoterChangeResult, { ok: false }> | null => {
+  if (!voter) return { ok: false, status: 404, error: 'Voter not found.' };
+  if (voter.account_status === 'erased') {
+    return { ok: false, status: 409, error: 'Voter has been erased and can no longer be changed.', code: 'VOTER_ERASED' };
+  }
+  return null;
+};
+
+/**
+ * Applies `change` to a voter and logs it. `change` returns the updates and the logged before/after
+ * values, or a failed result. A whitelist change it asks for is sent on chain first, so the voter row
+ * is not locked while the transaction is mined; the row is then locked, `change` is checked again
+ * and the updates are saved and logged in one transaction.
+ */
+const changeVoter = async (
+  voterId: number,
+  action: VoterChange['action'],
+  change: (voter: Voter) => VoterUpdate,
+  actor: { userId?: number; reason?: string | null }
+): Promise<VoterChangeResult> => {
+  const voter = await mysqlService.getVoterById(voterId);
+  const unchangeable = checkChangeable(voter);
+  if (unchangeable) return unchangeable;
+  const planned = change(voter!);
+  if ('ok' in planned) return planned;
+  const eligibility = planned.whitelist
+    ? await setWalletWhitelisted(voter!, planned.whitelist.whitelisted, planned.whitelist.systemContractAddress)
+    : {};
+
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const locked = await mysqlService.getVoterById(voterId, connection, true);
+    const result = checkChangeable(locked) ?? change(locked!);
+    if ('ok' in result) {
+      await connection.rollback();
+      return result;
+    }
+    if (locked!.wallet_address?.toLowerCase() !== voter!.wallet_address?.toLowerCase()) {
+      await connection.rollback();
+      return { ok: false, status: 409, error: 'The voter\'s wallet changed during the update. Try again.', code: 'VOTER_WALLET_CHANGED' };
+    }
+    const updates = { ...result.updates, ...eligibility };
+    if (Object.keys(updates).length === 0) {
+      await connection.rollback();
+      return { ok: true, voter: locked!, change: null };
+    }
+
+    await mysqlService.updateVoter(voterId, updates, connection);
+    // Sessions and login messages already issued stop working once the voter can no longer sign in
+    if (updates.account_status && updates.account_status !== 'active') {
+      await mysqlService.deleteUnusedAuthNonces(voterId, connection);
+      await mysqlService.revokeAllSessions({ voterId }, 'account_disabled', connection);
+    }
+    const entry: Omit<VoterChange, 'id' | 'created_at'> = {
+      voter_id: voterId,
+      action,
+      changes: { ...result.logged, ...loggedEligibility(locked!, eligibility) },
+      reason: actor.reason ?? null,
+      actor_user_id: actor.userId ?? null,
+    };
+    const changeId = await mysqlService.createVoterChange(entry, connection);
+    if (action === 'erase') {
+      await mysqlService.redactVoterChanges(voterId, [...ERASED_FIELDS], ERASED_VALUE, connection);
+      await mysqlService.deleteEmailVerificationsByVoterId(voterId, connection);
+    }
+    await connection.commit();
+
+    const updated = await mysqlService.getVoterById(voterId);
+    return { ok: true, voter: updated!, change: { id: changeId, ...entry } };
+  } catch (error) {
+    await connection.rollback();
+    if (mysqlService.isDuplicateEntryError(error)) {
+      return { ok: false, status: 409, error: 'Another voter already has this email or national ID number.' };
+    }
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+/**
+ * Corrects a voter's profile fields. The result is validated with the same rules as registration,
+ * and email and national ID must stay unique. Only fields that actually change are logged.
+ * @param {number} voterId - The voter to update.
+ * @param {object} input - New values for any of email, name, age, gender and nationalIdNumber.
+ * @param {{ userId?: number; reason?: string | null }} actor - The admin making the change, and why.
+ * @returns {Promise<VoterChangeResult>} The updated voter and logged change (null if nothing changed).
+ */
+export const updateVoterProfile = (
+  voterId: number,
+  input: { email?: unknown; name?: unknown; age?: unknown; gender?: unknown; nationalIdNumber?: unknown },
+  actor: { userId?: number; reason?: string | null }
+): Promise<VoterChangeResult> =>
+  changeVoter(voterId, 'update', voter => {
+    const { voter: merged, errors } = validateNewVoter({
+      email: input.email ?? voter.email,
+      name: input.name ?? voter.name,
+      age: input.age ?? voter.age,
+      gender: input.gender ?? voter.gender,
+      nationalIdNumber: input.nationalIdNumber !== undefined ? input.nationalIdNumber : voter.national_id_number,
+    });
+    if (!merged) {
+      return { ok: false, status: 400, error: errors.map(e => e.message).join(' ') };
+    }
+
+    const updates: Partial<Voter> = {};
+    const logged: Record<string, { before: unknown; after: unknown }> = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (!sameValue(voter[field], merged[field])) {
+        (updates as Record<string, unknown>)[field] = merged[field] ?? null;
+        logged[field] = { before: voter[field] ?? null, after: merged[field] ?? null };
+      }
+    }
+    // A verified address that changes has to be verified again; voters who linked a wallet keep it
+    if (updates.email !== undefined && voter.registration_status === 'email_verified') {
+      updates.registration_status = 'pending_email_verification';
+      logged.registration_status = { before: voter.registration_status, after: updates.registration_status };
+    }
+    return { updates, logged };
+  }, actor);
+
+/**
+ * Suspends, deactivates or reactivates a voter. Suspended and deactivated voters cannot request a
+ * login message, authenticate or use an existing token, and their wallet is removed from the on-chain
+ * whitelist so it cannot vote; reactivating whitelists it again.
+ * @param {number} voterId - The voter.
+ * @param {VoterStatusAction} action - suspend, deactivate or reactivate.
+ * @param {string} systemContractAddress - The address of the main VoteXElection system contract.
+ * @param {{ userId?: number; reason?: string | null }} actor - The admin taking the action, and why.
+ * @returns {Promise<VoterChangeResult>} The updated voter and logged change, or why the action is not allowed.
+ */
+export const setVoterAccountStatus = (
+  voterId: number,
+  action: VoterStatusAction,
+  systemContractAddress: string,
+  actor: { userId?: number; reason?: string | null }
+): Promise<VoterChangeResult> =>
+  changeVoter(voterId, action, voter => {
+    const { to, from } = STATUS_ACTIONS[action];
+    const current = voter.account_status || 'active';
+    if (!from.includes(current)) {
+      return { ok: false, status: 409, error: `Cannot ${action} a voter who is ${current}.`, code: 'INVALID_VOTER_STATUS' };
+    }
+    return {
+      updates: { account_status: to },
+      logged: { account_status: { before: current, after: to } },
+      whitelist: { whitelisted: to === 'active', systemContractAddress },
+    };
+  }, actor);
+
+/**
+ * Erases a voter's personal data (GDPR right to erasure). Email, name and national ID are replaced
+ * with placeholders, here and in earlier change log entries, and the voter can no longer sign in or
+ * vote: their wallet is removed from the on-chain whitelist. The voter row, wallet address, vote logs
+ * and receipts are kept so recorded votes stay verifiable.
+ * @param {number} voterId - The voter.
+ * @param {string} systemContractAddress - The address of the main VoteXElection system contract.
+ * @param {{ userId?: number; reason?: string | null }} actor - The admin erasing the voter, and why.
+ * @returns {Promise<VoterChangeResult>} The anonymised voter and logged change.
+ */
+export const eraseVoter = (
+  voterId: number,
+  systemContractAddress: string,
+  actor: { userId?: number; reason?: string | null }
+): Promise<VoterChangeResult> =>
+  changeVoter(voterId, 'erase', voter => {
+    const updates: Partial<Voter> = {
+      email: `erased-voter-${voterId}@erased.invalid`, // email is required and unique
+      name: 'Erased voter',
+      national_id_number: null,
+      account_status: 'erased',
+      erased_at: new Date(),
+    };
+    const logged: Record<string, { before: unknown; after: unknown }> = {
+      account_status: { before: voter.account_status || 'active', after: 'erased' },
+    };
+    for (const field of ERASED_FIELDS) {
+      logged[field] = { before: ERASED_VALUE, after: ERASED_VALUE };
+    }
+    return { updates, logged, whitelist: { whitelisted: false, systemContractAddress } };
+  }, actor);
@@ -0,0 +1,71 @@
+import { Voter, VoterAccountStatus } from '../types/index.d';
+
+export const VOTER_GENDERS: Voter['gender'][] = ['Male', 'Female', 'Other'];
+export const VOTER_REGISTRATION_STATUSES: Voter['registration_status'][] = [
+  'pending_email_verification',
+  'email_verified',
+  'wallet_linked',
+  'eligible_on_chain',
+];
+export const VOTER_ACCOUNT_STATUSES: VoterAccountStatus[] = ['active', 'suspended', 'deactivated', 'erased'];
+export const MINIMUM_VOTER_AGE = 18;
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type NewVoter = Pick<Voter, 'email' | 'name' | 'age' | 'gender' | 'national_id_number'>;
+
+export interface VoterFieldError {
+  field: keyof NewVoter;
+  message: string;
+}
+
+/**
+ * Checks the fields of a voter being registered, whether by an admin or from an imported roll.
+ * Uniqueness of email and national ID is checked separately against the database.
+ * @param {object} input - Raw field values; `age` may be a number or a numeric string.
+ * @returns {{ voter: NewVoter | null; errors: VoterFieldError[] }} The normalised voter, or every problem found.
+ */
+export const validateNewVoter = (input: {
+  email?: unknown;
+  name?: unknown;
+  age?: unknown;
+  gender?: unknown;
+  nationalIdNumber?: unknown;
+}): { voter: NewVoter | null; errors: VoterFieldError[] } => {
+  const errors: VoterFieldError[] = [];
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+  const email = text(input.email);
+  if (!email) {
+    errors.push({ field: 'email', message: 'Email is required.' });
+  } else if (!EMAIL_PATTERN.test(email)) {
+    errors.push({ field: 'email', message: `"${email}" is not a valid email address.` });
+  }
+
+  const name = text(input.name);
+  if (!name) {
+    errors.push({ field: 'name', message: 'Name is required.' });
+  }
+
+  const age = typeof input.age === 'string' && /^\d+$/.test(input.age.trim()) ? parseInt(input.age, 10) : input.age;
+  if (input.age === undefined || input.age === null || input.age === '') {
+    errors.push({ field: 'age', message: 'Age is required.' });
+  } else if (typeof age !== 'number' || !Number.isInteger(age) || age < MINIMUM_VOTER_AGE) {
+    errors.push({ field: 'age', message: `Age must be a number and ${MINIMUM_VOTER_AGE} or older.` });
+  }
+
+  const gender = text(input.gender);
+  if (!gender) {
+    errors.push({ field: 'gender', message: 'Gender is required.' });
+  } else if (!VOTER_GENDERS.includes(gender as Voter['gender'])) {
+    errors.push({ field: 'gender', message: `Invalid gender. Must be ${VOTER_GENDERS.slice(0, -1).join(', ')}, or ${VOTER_GENDERS[VOTER_GENDERS.length - 1]}.` });
+  }
+
+  const nationalIdNumber = text(input.nationalIdNumber) || undefined;
+
+  if (errors.length > 0) return { voter: null, errors };
+  return {
+    voter: { email, name, age: age as number, gender: gender as Voter['gender'], national_id_number: nationalIdNumber },
+    errors,
+  };
+};
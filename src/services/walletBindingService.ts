@@ -0,0 +1,185 @@
+import pool from '../config/database';
+import * as mysqlService from './mysqlService';
+import * as blockchainService from './blockchainService';
+import { Voter, WalletChangeRequest } from '../types/index.d';
+
+export type WalletChangeResult =
+  | { ok: true; request: WalletChangeRequest; voter?: Voter }
+  | { ok: false; status: number; error: string; code?: string };
+
+type Actor = { userId?: number; reason?: string | null };
+
+/**
+ * Records the first wallet a voter links at sign-in in their wallet history.
+ * @param {number} voterId - The voter.
+ * @param {string} walletAddress - The wallet they linked.
+ * @param {string | null} whitelistTxHash - The whitelist transaction sent for it, if any.
+ */
+export const recordInitialWalletBinding = async (voterId: number, walletAddress: string, whitelistTxHash: string | null): Promise<void> => {
+  await mysqlService.createVoterWalletBinding({ voter_id: voterId, wallet_address: walletAddress, whitelist_tx_hash: whitelistTxHash });
+};
+
+/**
+ * Asks to move a voter to another wallet, after they proved control of it by signing in with it. The
+ * change only happens once an admin approves it; until then the voter keeps using their current wallet.
+ * A newer request replaces a pending one, and asking again for the same wallet returns the pending request.
+ * @param {Voter} voter - The voter, who already has a wallet bound.
+ * @param {string} walletAddress - The wallet they signed in with.
+ * @returns {Promise<WalletChangeResult>} The pending request, or why it cannot be made.
+ */
+export const requestWalletChange = async (voter: Voter, walletAddress: string): Promise<WalletChangeResult> => {
+  const requested = walletAddress.toLowerCase();
+  const current = voter.wallet_address!.toLowerCase();
+  const owner = await mysqlService.getVoterByWalletAddress(requested);
+  if (owner && owner.id !== voter.id) {
+    return { ok: false, status: 409, error: 'This wallet is already linked to another voter.', code: 'WALLET_IN_USE' };
+  }
+
+  const pending = await mysqlService.getPendingWalletChangeRequest(voter.id!);
+  if (pending && pending.requested_wallet_address === requested && pending.current_wallet_address === current) {
+    return { ok: true, request: pending };
+  }
+
+  const connection = await pool.getConnection();
+  let requestId: number;
+  try {
+    await connection.beginTransaction();
+    await mysqlService.cancelPendingWalletChangeRequests(voter.id!, connection);
+    requestId = await mysqlService.createWalletChangeRequest({
+      voter_id: voter.id!,
+      current_wallet_address: current,
+      requested_wallet_address: requested,
+    }, connection);
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+  const request = await mysqlService.getWalletChangeRequestById(requestId);
+  return { ok: true, request: request! };
+};
+
+// Sends a whitelist change, treating "already in that state" reverts as nothing to do so changes can be retried
+export const sendWhitelistChange = async (send: () => Promise<string>, alreadyDoneRevert: string): Promise<string | null> => {
+  try {
+    return await send();
+  } catch (error) {
+    if ((error as Error).message.includes(alreadyDoneRevert)) return null;
+    throw error;
+  }
+};
+
+/**
+ * Approves a pending wallet change: the old wallet is removed from the on-chain whitelist, the new one
+ * is whitelisted and bound to the voter, and both are recorded in the voter's wallet history. Not
+ * allowed while the old wallet has voted in an active or paused election, since its votes could not
+ * be matched to the voter's new wallet mid-election. If a chain transaction fails the request stays
+ * pending and can be approved again.
+ * @param {number} requestId - The wallet change request.
+ * @param {string} systemContractAddress - The address of the main VoteXElection system contract.
+ * @param {Actor} actor - The admin approving it, and an optional note.
+ * @returns {Promise<WalletChangeResult>} The approved request and updated voter, or why it cannot be approved.
+ */
+export const approveWalletChange = async (
+  requestId: number,
+  systemContractAddress: string,
+  actor: Actor
+): Promise<WalletChangeResult> => {
+  const request = await mysqlService.getWalletChangeRequestById(requestId);
+  if (!request) {
+    return { ok: false, status: 404, error: 'Wallet change request not found.' };
+  }
+  if (request.status !== 'pending') {
+    return { ok: false, status: 409, error: `Wallet change request is already ${request.status}.`, code: 'WALLET_CHANGE_NOT_PENDING' };
+  }
+  const voter = await mysqlService.getVoterById(request.voter_id);
+  if (!voter || voter.account_status === 'erased') {
+    return { ok: false, status: 409, error: 'Voter has been erased and can no longer be changed.', code: 'VOTER_ERASED' };
+  }
+  if (voter.wallet_address?.toLowerCase() !== request.current_wallet_address) {
+    return { ok: false, status: 409, error: 'The voter\'s wallet has changed since this request was made.', code: 'WALLET_CHANGE_STALE' };
+  }
+  const owner = await mysqlService.getVoterByWalletAddress(request.requested_wallet_address);
+  if (owner && owner.id !== voter.id) {
+    return { ok: false, status: 409, error: 'The requested wallet is already linked to another voter.', code: 'WALLET_IN_USE' };
+  }
+  const openElections = await mysqlService.getOpenElectionsVotedInByWallet(request.current_wallet_address);
+  if (openElections.length > 0) {
+    return {
+      ok: false,
+      status: 409,
+      error: `The voter's current wallet has voted in ${openElections.map(e => `"${e.title}"`).join(', ')}, which is still open. Approve the change after it ends.`,
+      code: 'WALLET_VOTED_IN_OPEN_ELECTION',
+    };
+  }
+
+  const removalTxHash = await sendWhitelistChange(
+    () => blockchainService.removeVoterFromGlobalWhitelistOnChain(systemContractAddress, request.current_wallet_address),
+    'NotGloballyWhitelisted'
+  );
+  const whitelistTxHash = await sendWhitelistChange(
+    () => blockchainService.globalWhitelistVoterOnChain(systemContractAddress, request.requested_wallet_address),
+    'AlreadyGloballyWhitelisted'
+  );
+
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const locked = await mysqlService.getWalletChangeRequestById(requestId, connection, true);
+    if (!locked || locked.status !== 'pending') {
+      await connection.rollback();
+      return { ok: false, status: 409, error: 'Wallet change request was reviewed by someone else.', code: 'WALLET_CHANGE_NOT_PENDING' };
+    }
+    await mysqlService.updateVoter(voter.id!, {
+      wallet_address: request.requested_wallet_address,
+      is_eligible_on_chain: true,
+      registration_status: 'eligible_on_chain',
+    }, connection);
+    await mysqlService.closeVoterWalletBinding(voter.id!, removalTxHash, connection);
+    await mysqlService.createVoterWalletBinding({
+      voter_id: voter.id!,
+      wallet_address: request.requested_wallet_address,
+      change_request_id: requestId,
+      whitelist_tx_hash: whitelistTxHash,
+    }, connection);
+    await mysqlService.reviewWalletChangeRequest(requestId, 'approved', actor.userId ?? null, actor.reason ?? null, connection);
+    await mysqlService.deleteUnusedAuthNonces(voter.id!, connection);
+    // Sessions signed in with the old wallet end; the voter signs in again with the new one
+    await mysqlService.revokeAllSessions({ voterId: voter.id! }, 'wallet_changed', connection);
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    if (mysqlService.isDuplicateEntryError(error)) {
+      return { ok: false, status: 409, error: 'The requested wallet is already linked to another voter.', code: 'WALLET_IN_USE' };
+    }
+    throw error;
+  } finally {
+    connection.release();
+  }
+
+  const [approved, updated] = await Promise.all([
+    mysqlService.getWalletChangeRequestById(requestId),
+    mysqlService.getVoterById(voter.id!),
+  ]);
+  return { ok: true, request: approved!, voter: updated! };
+};
+
+/**
+ * Rejects a pending wallet change; the voter keeps their current wallet.
+ * @param {number} requestId - The wallet change request.
+ * @param {Actor} actor - The admin rejecting it, and an optional note for why.
+ * @returns {Promise<WalletChangeResult>} The rejected request, or why it cannot be rejected.
+ */
+export const rejectWalletChange = async (requestId: number, actor: Actor): Promise<WalletChangeResult> => {
+  const request = await mysqlService.getWalletChangeRequestById(requestId);
+  if (!request) {
+    return { ok: false, status: 404, error: 'Wallet change request not found.' };
+  }
+  if (!(await mysqlService.reviewWalletChangeRequest(requestId, 'rejected', actor.userId ?? null, actor.reason ?? null))) {
+    return { ok: false, status: 409, error: `Wallet change request is already ${request.status}.`, code: 'WALLET_CHANGE_NOT_PENDING' };
+  }
+  const rejected = await mysqlService.getWalletChangeRequestById(requestId);
+  return { ok: true, request: rejected! };
+};
@@ -5,11 +5,14 @@ interface Timestamped {
 }
 
 // --- User/Auth Types ---
+export type AdminRole = "super_admin" | "election_officer" | "registrar" | "auditor" | "observer";
+
 export interface DecodedToken {
   id?: number; // User ID from DB
   email?: string;
   walletAddress?: string; // For voters
-  role: "admin" | "voter";
+  role: AdminRole | "voter";
+  sid?: string; // Session family the token belongs to; see sessionService
   iat: number;
   exp: number;
 }
@@ -24,18 +27,31 @@ declare global {
 }
 
 // --- Database Models ---
+export type UserStatus = "invited" | "active" | "disabled";
+
 export interface User extends Timestamped {
   id?: number; // Auto-incrementing primary key
   email: string;
-  password_hash: string;
-  role: "admin" | "voter";
+  password_hash: string | null; // NULL until an invited user sets a password
+  role: AdminRole | "voter";
+  status: UserStatus;
+  invited_by_user_id?: number | null;
+  password_changed_at?: Date | null;
+  disabled_at?: Date | null;
+  totp_secret?: string | null; // Encrypted; see twoFactorService
+  totp_enabled_at?: Date | null;
+  totp_last_used_step?: number | null;
+  totp_failed_attempts?: number;
+  totp_locked_until?: Date | null;
 }
 
 export interface Party extends Timestamped {
   id?: number;
   name: string;
-  logo_url?: string;
-  description?: string;
+  logo_url?: string | null;
+  logo_public_id?: string | null; // Media store key of the logo
+  description?: string | null;
+  archived_at?: Date | null;
 }
 
 export interface PartyMember extends Timestamped {
@@ -43,7 +59,8 @@ export interface PartyMember extends Timestamped {
   party_id: number;
   name: string;
   email: string;
-  image_url?: string; // Cloudinary URL for member's photo
+  image_url?: string | null; // URL of the member's photo
+  image_public_id?: string | null; // Media store key of the photo
 }
 
 export interface Voter extends Timestamped {
@@ -52,7 +69,7 @@ export interface Voter extends Timestamped {
   name: string;
   age: number;
   gender: "Male" | "Female" | "Other";
-  national_id_number?: string; // If NIN is used for verification
+  national_id_number?: string | null; // If NIN is used for verification
   wallet_address?: string; // Linked MetaMask wallet (DID)
   is_eligible_on_chain?: boolean; // If whitelisted on smart contract
   registration_status:
@@ -60,28 +77,121 @@ export interface Voter extends Timestamped {
     | "email_verified"
     | "wallet_linked"
     | "eligible_on_chain";
-  // Add a nonce for wallet linking/authentication
-  auth_nonce?: string;
+  account_status?: VoterAccountStatus; // Only active voters can authenticate or vote
+  erased_at?: Date | null; // Set when the voter's personal data was anonymised
+}
+
+export type VoterAccountStatus = "active" | "suspended" | "deactivated" | "erased";
+
+export interface VoterChange {
+  id?: number;
+  voter_id: number;
+  action: "update" | "suspend" | "deactivate" | "reactivate" | "erase";
+  changes: Record<string, { before: unknown; after: unknown }> | string; // JSON column
+  reason?: string | null;
+  actor_user_id?: number | null;
+  created_at?: Date;
 }
 
+// draft -> scheduled -> active <-> paused -> tallying -> ended -> certified; cancelled from any pre-result state
+export type ElectionStatus =
+  | "draft"
+  | "scheduled"
+  | "active"
+  | "paused"
+  | "tallying"
+  | "ended"
+  | "certified"
+  | "cancelled";
+
+// How ties are resolved when results are finalised
+export type TiePolicy = "declare_tie" | "lot" | "runoff";
+
 export interface Election extends Timestamped {
   id?: number;
   title: string;
   description: string;
   start_date: Date;
   end_date: Date;
-  status: "pending" | "active" | "ended"; // pending, active, ended
+  status: ElectionStatus;
   blockchain_contract_address?: string; // Address of the deployed election smart contract
-  results?: string; // Store final aggregated results as JSON string
-  winning_candidate_id?: number;
+  results?: string; // Final ElectionResultsDocument as a JSON string
+  winning_candidate_id?: number; // Only set for single-post, single-winner elections; see the results document otherwise
+  tie_policy?: TiePolicy;
+  tie_seed_block_number?: number | null; // Block whose hash seeds lots; see electionLifecycleService
+  tie_seed_block_hash?: string | null;
+  parent_election_id?: number | null; // Set on runoff elections
+}
+
+// --- Results Document (elections.results, and the live results API) ---
+// Bump ElectionResultsDocument.version when the shape changes so stored documents can be told apart.
+
+export interface CandidateResult {
+  candidateId: number;
+  blockchainCandidateId: string;
+  name: string;
+  party: string | null;
+  votes: number; // Counted votes: marks for plurality/approval/top_n, first preferences for irv/stv
+  castVotes: number; // Every VoteCast for the candidate, whatever the preference; matches the contract's count
+  percentage: number; // votes as a share of the post's ballots
+  rank: number; // 1 = first elected; unelected candidates follow by votes, equal votes share a rank
+  isWinner: boolean;
 }
 
+export interface PostResult {
+  postId: number;
+  postName: string;
+  votingMethod: VotingMethod;
+  seats: number;
+  totalBallots: number; // Voters who voted on this post
+  turnout: number | null; // totalBallots as a percentage of eligible voters
+  tie: {
+    kind: "seat" | "elimination";
+    candidateIds: number[];
+    seats: number;
+    resolved: boolean;
+    policy: TiePolicy | null; // Set once results are final
+    seed: string | null; // Lot draws: see tie_resolutions for the block it was derived from
+    runoffElectionId: number | null;
+  } | null;
+  candidates: CandidateResult[]; // Ordered by rank
+}
+
+export interface ElectionResultsDocument {
+  version: 1;
+  electionId: number;
+  status: ElectionStatus;
+  isFinal: boolean;
+  generatedAt: string;
+  eligibleVoters: number;
+  totalBallots: number; // Voters who voted on at least one post
+  turnout: number | null;
+  posts: PostResult[];
+}
+
+export interface ElectionStatusHistory {
+  id?: number;
+  election_id: number;
+  from_status: ElectionStatus;
+  to_status: ElectionStatus;
+  actor_type: "admin" | "scheduler";
+  actor_user_id?: number | null; // users.id when actor_type is 'admin'
+  reason?: string | null;
+  blockchain_tx_hash?: string | null;
+  created_at?: Date;
+}
+
+// How a post's ballots are counted. Ranked methods read a voter's choices in the order they were cast on chain.
+export type VotingMethod = "plurality" | "approval" | "top_n" | "irv" | "stv";
+
 export interface Post extends Timestamped {
   // Represents an election post like "President", "Governor"
   id?: number;
   election_id: number;
   name: string; // e.g., "President", "Governor"
   max_votes_per_voter?: number; // How many candidates a voter can choose for this post
+  voting_method?: VotingMethod;
+  seats?: number; // How many candidates are elected to this post
 }
 
 export interface Candidate extends Timestamped {
@@ -113,3 +223,228 @@ export interface VoterReceipt extends Timestamped {
   transaction_hash: string;
   blockchain_receipt_id?: string; // Optional: a unique ID returned by smart contract
 }
+
+
+// --- Chain Indexer Models ---
+export interface ChainSyncCursor {
+  contract_address: string;
+  last_block_number: number;
+  last_block_hash: string;
+  updated_at?: Date;
+}
+
+export interface ChainBlock {
+  contract_address: string;
+  block_number: number;
+  block_hash: string;
+}
+
+export interface ChainVoteEventRecord {
+  id?: number;
+  contract_address: string;
+  election_id: number;
+  post_id: number;
+  blockchain_candidate_id: string;
+  voter_wallet_address: string;
+  transaction_hash: string;
+  log_index: number;
+  block_number: number;
+  block_hash: string;
+  created_at?: Date;
+}
+
+export interface ChainLifecycleEventRecord {
+  id?: number;
+  contract_address: string;
+  event_type: "ElectionStarted" | "ElectionEnded" | "VoterWhitelisted" | "VoterRemovedFromWhitelist";
+  election_id?: number | null;
+  voter_wallet_address?: string | null;
+  transaction_hash: string;
+  log_index: number;
+  block_number: number;
+  block_hash: string;
+  created_at?: Date;
+}
+
+export interface ChainCandidateTally {
+  contract_address: string;
+  election_id: number;
+  blockchain_candidate_id: string;
+  vote_count: number;
+  updated_at?: Date;
+}
+
+export interface PostTallyRecord {
+  id?: number;
+  election_id: number;
+  post_id: number;
+  voting_method: VotingMethod;
+  seats: number;
+  valid_ballots: number;
+  winner_candidate_ids: number[] | string; // JSON array of candidates.id
+  outcome: object | string; // JSON TallyOutcome, keyed by blockchain candidate ID
+  has_tie: boolean;
+  created_at?: Date;
+}
+
+export interface TieResolution {
+  id?: number;
+  election_id: number;
+  post_id: number;
+  policy: TiePolicy;
+  tie_kind: "seat" | "elimination";
+  round: number;
+  tied_candidate_ids: number[] | string; // JSON array of candidates.id
+  seats: number;
+  selected_candidate_ids?: number[] | string | null;
+  seed?: string | null;
+  seed_block_number?: number | null;
+  seed_block_hash?: string | null;
+  runoff_election_id?: number | null;
+  created_at?: Date;
+}
+
+export type MediaPurpose = "party_logo" | "member_photo" | "general";
+
+export interface MediaAsset extends Timestamped {
+  id?: number;
+  public_id: string; // Key in the media store
+  store: "cloudinary" | "local" | "s3";
+  purpose: MediaPurpose;
+  upload_method: "server" | "direct";
+  status: "pending" | "active" | "rejected" | "deleted";
+  url?: string | null;
+  mime_type?: string | null;
+  bytes?: number | null;
+  width?: number | null;
+  height?: number | null;
+  uploaded_by?: number | null;
+  expires_at?: Date | null; // Deadline for completing a direct upload
+}
+
+export interface VoterImportRowError {
+  row: number; // Record number in the CSV, counting the header as row 1
+  email: string | null;
+  field: string | null; // null for errors about the whole row
+  message: string;
+}
+
+export interface VoterImportJob extends Timestamped {
+  id?: number;
+  file_name?: string | null;
+  dry_run: boolean;
+  status: "processing" | "completed" | "failed";
+  total_rows: number;
+  valid_rows: number;
+  processed_rows: number;
+  imported_rows: number;
+  failed_rows: number;
+  verification_emails_sent: number;
+  verification_emails_failed: number;
+  errors?: VoterImportRowError[] | string | null; // JSON column
+  failure_reason?: string | null;
+  created_by?: number | null;
+  locked_by?: string | null; // API instance running the import
+  heartbeat_at?: Date | null; // Refreshed while the import runs; a stale one means its instance stopped
+  completed_at?: Date | null;
+}
+
+export interface EmailVerification {
+  id?: number;
+  voter_id: number;
+  email: string;
+  code_hash: string; // SHA-256 of the one-time code
+  attempts: number;
+  expires_at: Date;
+  consumed_at?: Date | null;
+  created_at?: Date;
+}
+
+export interface AuthNonce {
+  id?: number;
+  nonce: string;
+  voter_id: number;
+  wallet_address: string; // Lowercase
+  issued_at: Date;
+  expires_at: Date;
+  used_at?: Date | null;
+  created_at?: Date;
+}
+
+export type WalletChangeRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface WalletChangeRequest {
+  id?: number;
+  voter_id: number;
+  current_wallet_address: string; // Lowercase
+  requested_wallet_address: string; // Lowercase
+  status: WalletChangeRequestStatus;
+  reason?: string | null;
+  reviewed_by_user_id?: number | null;
+  reviewed_at?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface VoterWalletBinding {
+  id?: number;
+  voter_id: number;
+  wallet_address: string; // Lowercase
+  bound_at?: Date;
+  unbound_at?: Date | null;
+  change_request_id?: number | null;
+  whitelist_tx_hash?: string | null;
+  removal_tx_hash?: string | null;
+}
+
+export interface ElectionRoleAssignment {
+  id?: number;
+  user_id: number;
+  election_id: number;
+  role: Exclude<AdminRole, "super_admin">;
+  assigned_by_user_id?: number | null;
+  created_at?: Date;
+}
+
+export interface UserToken {
+  id?: number;
+  user_id: number;
+  purpose: "invite" | "password_reset";
+  expires_at: Date;
+  used_at?: Date | null;
+  created_by_user_id?: number | null;
+  created_at?: Date;
+}
+
+export interface UserRecoveryCode {
+  id?: number;
+  user_id: number;
+  code_hash: string; // SHA-256 of the normalised code
+  used_at?: Date | null;
+  created_at?: Date;
+}
+
+export type SessionRevokedReason =
+  | "logout"
+  | "logout_all"
+  | "refresh_token_reused"
+  | "password_changed"
+  | "account_disabled"
+  | "wallet_changed"
+  | "revoked_by_admin";
+
+export interface Session {
+  id?: number;
+  family_id: string;
+  user_id?: number | null;
+  voter_id?: number | null;
+  wallet_address?: string | null;
+  refresh_token_hash: string;
+  expires_at: Date;
+  rotated_at?: Date | null;
+  revoked_at?: Date | null;
+  revoked_reason?: SessionRevokedReason | null;
+  user_agent?: string | null;
+  ip_address?: string | null;
+  created_at?: Date;
+}
@@ -0,0 +1,154 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ballot, getTallyMethod, TallyInput, TallyTie } from '../src/services/tally';
+import { VotingMethod } from '../src/types/index.d';
+
+// [count, choices] pairs, expanded into one ballot per voter
+const ballots = (groups: [number, string[]][]): Ballot[] =>
+  groups.flatMap(([count, choices], group) =>
+    Array.from({ length: count }, (_, i) => ({ voterAddress: `0x${group}-${i}`, choices })));
+
+const tally = (method: VotingMethod, input: Partial<TallyInput> & Pick<TallyInput, 'candidates' | 'ballots'>, breakTie?: (tie: TallyTie) => string[] | null) =>
+  getTallyMethod(method).tally({ seats: 1, maxChoices: input.candidates.length, ...input }, breakTie);
+
+describe('instant-runoff', () => {
+  it('counts the Tennessee capital example', () => {
+    const outcome = tally('irv', {
+      candidates: ['memphis', 'nashville', 'chattanooga', 'knoxville'],
+      ballots: ballots([
+        [42, ['memphis', 'nashville', 'chattanooga', 'knoxville']],
+        [26, ['nashville', 'chattanooga', 'knoxville', 'memphis']],
+        [15, ['chattanooga', 'knoxville', 'nashville', 'memphis']],
+        [17, ['knoxville', 'chattanooga', 'nashville', 'memphis']],
+      ]),
+    });
+    assert.deepEqual(outcome.winners, ['knoxville']);
+    assert.equal(outcome.tie, null);
+    assert.deepEqual(outcome.rounds.map(r => r.eliminated), [['chattanooga'], ['nashville'], []]);
+    assert.deepEqual(outcome.rounds[2].votes, { memphis: 42, knoxville: 58 });
+  });
+
+  it('counts exhausted ballots and lowers the majority to the continuing votes', () => {
+    const outcome = tally('irv', {
+      candidates: ['a', 'b', 'c'],
+      ballots: ballots([[3, ['a']], [2, ['b']], [1, ['c']]]),
+    });
+    assert.deepEqual(outcome.rounds[0].eliminated, ['c']);
+    assert.equal(outcome.rounds[1].exhausted, 1);
+    assert.equal(outcome.rounds[1].quota, 3);
+    assert.deepEqual(outcome.winners, ['a']);
+  });
+
+  it('breaks an elimination tie from the most recent round where the tied candidates differed', () => {
+    const outcome = tally('irv', {
+      candidates: ['a', 'b', 'c', 'd'],
+      ballots: ballots([[5, ['a']], [4, ['b']], [3, ['c', 'b']], [1, ['d', 'c']]]),
+    });
+    // After d is excluded, b and c both have 4; c had fewer in round 1
+    assert.deepEqual(outcome.rounds[1].votes, { a: 5, b: 4, c: 4 });
+    assert.deepEqual(outcome.rounds[1].eliminated, ['c']);
+    assert.equal(outcome.tie, null);
+    assert.deepEqual(outcome.winners, ['b']);
+  });
+
+  it('excludes tied candidates together when they cannot overtake anyone', () => {
+    const outcome = tally('irv', {
+      candidates: ['a', 'b', 'c', 'd'],
+      ballots: ballots([[6, ['a']], [5, ['d']], [1, ['b', 'd']], [1, ['c', 'd']]]),
+    });
+    assert.deepEqual(outcome.rounds[0].eliminated, ['b', 'c']);
+    assert.equal(outcome.tie, null);
+    assert.deepEqual(outcome.winners, ['d']);
+  });
+
+  it('reports a tie between the last two candidates as a seat tie', () => {
+    const input = { candidates: ['a', 'b'], ballots: ballots([[2, ['a']], [2, ['b']]]) };
+    const unresolved = tally('irv', input);
+    assert.deepEqual(unresolved.tie, { kind: 'seat', round: 1, candidates: ['a', 'b'], seats: 1 });
+    assert.equal(unresolved.tieResolved, false);
+    assert.deepEqual(unresolved.winners, []);
+
+    const resolved = tally('irv', input, () => ['b']);
+    assert.equal(resolved.tieResolved, true);
+    assert.deepEqual(resolved.rounds[0].eliminated, ['a']);
+    assert.deepEqual(resolved.winners, ['b']);
+  });
+
+  it('asks the tie breaker which candidate to exclude when earlier rounds do not separate them', () => {
+    const input = {
+      candidates: ['a', 'b', 'c'],
+      ballots: ballots([[3, ['a']], [2, ['b', 'a']], [2, ['c', 'a']]]),
+    };
+    const unresolved = tally('irv', input);
+    assert.deepEqual(unresolved.tie, { kind: 'elimination', round: 1, candidates: ['b', 'c'], seats: 1 });
+    assert.equal(unresolved.tieResolved, false);
+
+    const resolved = tally('irv', input, () => ['c']);
+    assert.deepEqual(resolved.rounds[0].eliminated, ['c']);
+    assert.deepEqual(resolved.winners, ['a']);
+  });
+});
+
+describe('single transferable vote', () => {
+  it('counts the food election example with Gregory surplus transfers', () => {
+    const outcome = tally('stv', {
+      candidates: ['oranges', 'pears', 'chocolate', 'strawberries', 'bonbons'],
+      seats: 3,
+      ballots: ballots([
+        [4, ['oranges']],
+        [2, ['pears', 'oranges']],
+        [8, ['chocolate', 'strawberries']],
+        [4, ['chocolate', 'bonbons']],
+        [1, ['strawberries']],
+        [1, ['bonbons']],
+      ]),
+    });
+    assert.equal(outcome.rounds[0].quota, 6); // Droop: floor(20 / 4) + 1
+    assert.deepEqual(outcome.rounds[0].elected, ['chocolate']);
+    // Chocolate's 6 surplus votes go on at half weight
+    assert.deepEqual(outcome.rounds[1].votes, { oranges: 4, pears: 2, strawberries: 5, bonbons: 3 });
+    assert.deepEqual(outcome.rounds[1].eliminated, ['pears']);
+    assert.deepEqual(outcome.winners, ['chocolate', 'oranges', 'strawberries']);
+    assert.equal(outcome.tieResolved, true);
+  });
+
+  it('keeps fractional transfers in the round votes', () => {
+    const outcome = tally('stv', {
+      candidates: ['a', 'b', 'c'],
+      seats: 2,
+      ballots: ballots([[5, ['a', 'b']], [1, ['c']], [1, ['b']]]),
+    });
+    // Quota floor(7 / 3) + 1 = 3; a's surplus of 2 of 5 votes moves to b at weight 0.4
+    assert.deepEqual(outcome.rounds[1].votes, { b: 3, c: 1 });
+    assert.deepEqual(outcome.winners, ['a', 'b']);
+  });
+});
+
+describe('counting methods', () => {
+  it('reports a tie straddling the last seat and fills it with the tie breaker', () => {
+    const input = {
+      candidates: ['a', 'b', 'c'],
+      seats: 2,
+      maxChoices: 2,
+      ballots: ballots([[1, ['a', 'b']], [1, ['a', 'c']], [1, ['a']], [1, ['b', 'c']]]),
+    };
+    const unresolved = tally('top_n', input);
+    assert.deepEqual(unresolved.tie, { kind: 'seat', round: 1, candidates: ['b', 'c'], seats: 1 });
+    assert.equal(unresolved.tieResolved, false);
+    assert.deepEqual(unresolved.winners, ['a']);
+
+    const resolved = tally('top_n', input, tie => [tie.candidates[1]]);
+    assert.deepEqual(resolved.winners, ['a', 'c']);
+  });
+
+  it('ignores unknown and repeated marks, and counts only the first choice on plurality posts', () => {
+    const outcome = tally('approval', {
+      candidates: ['a', 'b'],
+      maxChoices: 2,
+      ballots: ballots([[2, ['a', 'a', 'b']], [1, ['x', 'b']], [1, ['x']]]),
+    });
+    assert.equal(outcome.validBallots, 3);
+    assert.deepEqual(outcome.rounds[0].votes, { a: 2, b: 3 });
+    assert.equal(tally('plurality', { candidates: ['a', 'b'], ballots: ballots([[2, ['a', 'b']], [1, ['b']]]) }).rounds[0].votes.b, 1);
+  });
+});
@@ -0,0 +1,107 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { setChainAdapter, wrapEip6492Signature } from '../src/services/chain';
+import { createSimulatedChainAdapter, SimulatedChainAdapter } from '../src/services/chain/simulatedChainAdapter';
+
+// authService loads its signing keys when imported, so it gets a throwaway key first
+let verifyWalletSignature: typeof import('../src/services/authService').verifyWalletSignature;
+let chain: SimulatedChainAdapter;
+
+const message = 'votex.local wants you to sign in with your Ethereum account';
+
+before(async () => {
+  const keysDir = fs.mkdtempSync(path.join(os.tmpdir(), 'votex-test-keys-'));
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  fs.writeFileSync(path.join(keysDir, 'test.pem'), privateKey.export({ type: 'pkcs8', format: 'pem' }));
+  process.env.JWT_KEYS_DIR = keysDir;
+  ({ verifyWalletSignature } = await import('../src/services/authService'));
+
+  chain = createSimulatedChainAdapter();
+  setChainAdapter(chain);
+});
+
+describe('verifyWalletSignature', () => {
+  describe('externally owned account', () => {
+    const wallet = ethers.Wallet.createRandom();
+
+    it('accepts a personal_sign signature by the address', async () => {
+      const signature = await wallet.signMessage(message);
+      assert.equal(await verifyWalletSignature(message, signature, wallet.address), true);
+    });
+
+    it('rejects a signature by another account', async () => {
+      const signature = await ethers.Wallet.createRandom().signMessage(message);
+      assert.equal(await verifyWalletSignature(message, signature, wallet.address), false);
+    });
+
+    it('rejects a signature of another message', async () => {
+      const signature = await wallet.signMessage(`${message}!`);
+      assert.equal(await verifyWalletSignature(message, signature, wallet.address), false);
+    });
+  });
+
+  describe('deployed smart-contract wallet (EIP-1271)', () => {
+    const owner = ethers.Wallet.createRandom();
+
+    it('accepts a signature by the wallet owner', async () => {
+      const smartWallet = chain.createSmartWallet(owner.address, { salt: 1 });
+      assert.equal(smartWallet.deployed, true);
+      const signature = await owner.signMessage(message);
+      assert.equal(await verifyWalletSignature(message, signature, smartWallet.address), true);
+    });
+
+    it('rejects a signature by someone else', async () => {
+      const smartWallet = chain.createSmartWallet(owner.address, { salt: 1 });
+      const signature = await ethers.Wallet.createRandom().signMessage(message);
+      assert.equal(await verifyWalletSignature(message, signature, smartWallet.address), false);
+    });
+  });
+
+  describe('undeployed smart-contract wallet (EIP-6492)', () => {
+    const owner = ethers.Wallet.createRandom();
+
+    it('accepts a wrapped signature by the wallet owner without deploying the wallet', async () => {
+      const smartWallet = chain.createSmartWallet(owner.address, { deploy: false, salt: 2 });
+      assert.equal(smartWallet.deployed, false);
+      const signature = wrapEip6492Signature({
+        factory: smartWallet.factory,
+        factoryCalldata: smartWallet.factoryCalldata,
+        signature: await owner.signMessage(message),
+      });
+      assert.equal(await verifyWalletSignature(message, signature, smartWallet.address), true);
+      assert.equal(await chain.getCode(smartWallet.address), '0x');
+    });
+
+    it('rejects an unwrapped signature, since the wallet has no code yet', async () => {
+      const smartWallet = chain.createSmartWallet(owner.address, { deploy: false, salt: 3 });
+      const signature = await owner.signMessage(message);
+      assert.equal(await verifyWalletSignature(message, signature, smartWallet.address), false);
+    });
+
+    it('rejects a wrapped signature whose factory call deploys another wallet', async () => {
+      const smartWallet = chain.createSmartWallet(owner.address, { deploy: false, salt: 4 });
+      const other = chain.createSmartWallet(owner.address, { deploy: false, salt: 5 });
+      const signature = wrapEip6492Signature({
+        factory: other.factory,
+        factoryCalldata: other.factoryCalldata,
+        signature: await owner.signMessage(message),
+      });
+      assert.equal(await verifyWalletSignature(message, signature, smartWallet.address), false);
+    });
+
+    it('rejects a wrapped signature by someone other than the owner', async () => {
+      const smartWallet = chain.createSmartWallet(owner.address, { deploy: false, salt: 6 });
+      const signature = wrapEip6492Signature({
+        factory: smartWallet.factory,
+        factoryCalldata: smartWallet.factoryCalldata,
+        signature: await ethers.Wallet.createRandom().signMessage(message),
+      });
+      assert.equal(await verifyWalletSignature(message, signature, smartWallet.address), false);
+    });
+  });
+});